@@ -1,14 +1,23 @@
-import { useState, useCallback, useEffect, lazy, Suspense } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef, lazy, Suspense } from 'react';
 import LoginPage from './components/Auth/LoginPage';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { RouterProvider, useRouter, matchPath, getSafeRedirect } from './contexts/RouterContext';
 import { ErrorBoundary } from './components/ErrorBoundary/ErrorBoundary';
 import { useTheme } from './hooks/useTheme';
-import { useTodosAPI } from './hooks/useTodosAPI';
+import { useTodosAPI, defaultFilters } from './hooks/useTodosAPI';
+import { useSavedViews } from './hooks/useSavedViews';
+import { useUndoableTodos } from './hooks/useUndoableTodos';
 import { useDebounce } from './hooks/useDebounce';
 import { sounds } from './utils/sounds';
 import { logger } from './utils/logger';
 import type { Todo, TodoFormData } from './components/TodoForm';
 import type { FilterOptions } from './hooks/useTodosAPI';
+import type { Command } from './hooks/useCommandHistory';
+import { describeMutation } from './services/offlineSync';
+import { buildFilterQuery, parseFilterQuery } from './utils/filterQuery';
+import { AdvancedFilterEngine } from './utils/advancedFiltering';
+import type { AdvancedFilterOptions, SavedView, SavedViewType } from './types/advancedFilters';
+import type { SavedViewRequest } from './services/todoService';
 
 // Component imports
 import { Header } from './components/Header';
@@ -20,7 +29,19 @@ import { ErrorState } from './components/ErrorState';
 import { EmptyState } from './components/EmptyState';
 import { ConfirmDialog } from './components/ConfirmDialog';
 import { BulkActions } from './components/BulkActions';
+import { Trash } from './components/Trash';
+import { Archive } from './components/Archive';
+import { KanbanBoard, type KanbanGroupBy } from './components/KanbanBoard';
+import { CalendarView, type CalendarMode } from './components/CalendarView';
+import { TimelineView, type TimelineZoom } from './components/TimelineView';
+import { EisenhowerMatrix } from './components/EisenhowerMatrix';
 import { TodoListView } from './components/TodoListView';
+import { TodoDetailPanel } from './components/TodoDetail';
+import { ActivityFeed } from './components/ActivityFeed';
+import { SavedViewsSidebar, SavedViewBar } from './components/SavedViews';
+import { AdvancedFiltersModal } from './components/AdvancedFilters';
+import { LoadMoreTrigger, PartialListNotice } from './components/LoadMore';
+import type { QuickAddResult } from './utils/quickAdd';
 
 // Code splitting for heavy components
 const Dashboard = lazy(() => import('./components/Dashboard').then(module => ({ default: module.Dashboard })));
@@ -38,6 +59,8 @@ interface AppSettings {
     showCompletedTasks: boolean;
     autoSave: boolean;
     theme: 'light' | 'dark' | 'system';
+    trashRetentionDays: number;
+    urgencyThresholdDays: number;
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -49,15 +72,58 @@ const DEFAULT_SETTINGS: AppSettings = {
     showCompletedTasks: true,
     autoSave: true,
     theme: 'system',
+    trashRetentionDays: 30,
+    urgencyThresholdDays: 3,
 };
 
+// ============================================
+// VIEWS
+// ============================================
+type View = 'list' | 'board' | 'calendar' | 'timeline' | 'matrix' | 'dashboard' | 'activity' | 'settings' | 'archive' | 'trash';
+
+const VIEWS: { id: View; label: string; path: string }[] = [
+    { id: 'list', label: '📝 List', path: '/' },
+    { id: 'board', label: '🗂️ Board', path: '/board' },
+    { id: 'calendar', label: '📅 Calendar', path: '/calendar' },
+    { id: 'timeline', label: '⏳ Timeline', path: '/timeline' },
+    { id: 'matrix', label: '🎯 Matrix', path: '/matrix' },
+    { id: 'dashboard', label: '📊 Dashboard', path: '/dashboard' },
+    { id: 'activity', label: '🕘 Activity', path: '/activity' },
+    { id: 'settings', label: '⚙️ Settings', path: '/settings' },
+    { id: 'archive', label: '🗄️ Archive', path: '/archive' },
+    { id: 'trash', label: '🗑️ Trash', path: '/trash' },
+];
+
+// Views of the filtered todo list; filters and search apply to them
+const TODO_VIEWS: View[] = ['list', 'board', 'calendar', 'timeline', 'matrix'];
+
+const LOGIN_PATH = '/login';
+// A single todo, opened over the list
+const TODO_PATH = '/todos/:id';
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
 // ============================================
 // AUTH GUARD
 // ============================================
 const AuthGuard: React.FC = () => {
     const { isAuthenticated, isLoading } = useAuth();
+    const { pathname, search, navigate } = useRouter();
+    const isLoginRoute = pathname === LOGIN_PATH;
+
+    // Signed out: go to /login and remember the requested URL; signed in: go back there
+    useEffect(() => {
+        if (isLoading) return;
 
-    if (isLoading) {
+        if (!isAuthenticated && !isLoginRoute) {
+            const requested = pathname + search;
+            navigate(requested === '/' ? LOGIN_PATH : `${LOGIN_PATH}?redirect=${encodeURIComponent(requested)}`, { replace: true });
+        } else if (isAuthenticated && isLoginRoute) {
+            navigate(getSafeRedirect(search), { replace: true });
+        }
+    }, [isAuthenticated, isLoading, isLoginRoute, pathname, search, navigate]);
+
+    if (isLoading || (isAuthenticated && isLoginRoute)) {
         return (
             <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
                 <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
@@ -77,13 +143,28 @@ function TodoApp() {
     // ============================================
     const { theme, isDarkMode, setTheme } = useTheme();
     const { logout, user } = useAuth(); // ← user'ı da alın
+    const { pathname, search, navigate } = useRouter();
 
     // ✅ reorderTodos REMOVED
     const {
         todos,
+        allTodos,
+        trashedTodos,
+        archivedTodos,
+        isTrashLoaded,
+        isArchiveLoaded,
+        loadTrash,
+        loadArchive,
         categories,
+        tags,
         stats,
         filters,
+        totalTodos,
+        hasMoreTodos,
+        hasAllTodos,
+        isLoadingMore,
+        loadMoreTodos,
+        loadAllTodos,
         loading,
         error,
         isRefreshing,
@@ -91,45 +172,235 @@ function TodoApp() {
         updateTodo: apiUpdateTodo,
         deleteTodo: apiDeleteTodo,
         toggleTodo: apiToggleTodo,
+        toggleSubtask: apiToggleSubtask,
+        addSubtask: apiAddSubtask,
+        deleteSubtask: apiDeleteSubtask,
+        restoreTodo: apiRestoreTodo,
         bulkDelete: apiBulkDelete,
+        bulkRestore,
+        purgeTodo,
+        emptyTrash,
+        purgeExpiredTrash,
+        archiveTodo: apiArchiveTodo,
+        unarchiveTodo: apiUnarchiveTodo,
+        bulkUnarchive,
+        archiveCompleted,
+        addFetchedTodo,
         setFilters,
         searchTodos,
         refreshTodos,
         clearError,
+        isOnline,
+        pendingChanges,
+        isSyncing,
+        syncConflicts,
+        dismissSyncConflicts,
     } = useTodosAPI();
 
+    const {
+        views: savedViews,
+        createView,
+        updateView,
+        deleteView,
+        moveView,
+    } = useSavedViews();
+
+    // Undoable versions of the todo operations (Ctrl+Z / Ctrl+Shift+Z)
+    const {
+        create,
+        update,
+        updateFields,
+        remove,
+        toggle,
+        archive,
+        toggleSubtask,
+        addSubtask,
+        removeSubtask,
+        bulkRemove,
+        bulkSetCompleted,
+        bulkArchive,
+        undo,
+        redo,
+    } = useUndoableTodos({
+        todos: allTodos,
+        createTodo: apiCreateTodo,
+        updateTodo: apiUpdateTodo,
+        deleteTodo: apiDeleteTodo,
+        restoreTodo: apiRestoreTodo,
+        bulkDelete: apiBulkDelete,
+        bulkRestore,
+        toggleTodo: apiToggleTodo,
+        archiveTodo: apiArchiveTodo,
+        unarchiveTodo: apiUnarchiveTodo,
+        toggleSubtask: apiToggleSubtask,
+        addSubtask: apiAddSubtask,
+        deleteSubtask: apiDeleteSubtask,
+    });
+
     const {
         notifications,
         showSuccess,
         showError,
+        showInfo,
         showWarning,
         removeNotification,
         showCreate,
         showUpdate,
         showDelete,
+        showComplete,
     } = useNotifications();
 
     // UI State
-    const [currentView, setCurrentView] = useState<'list' | 'dashboard' | 'settings'>('list');
+    const [boardGroupBy, setBoardGroupBy] = useState<KanbanGroupBy>('status');
+    const [calendarMode, setCalendarMode] = useState<CalendarMode>('month');
+    const [timelineZoom, setTimelineZoom] = useState<TimelineZoom>('week');
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    // Prefilled fields of the add form (e.g. the due date of a clicked calendar day)
+    const [addFormDefaults, setAddFormDefaults] = useState<Partial<TodoFormData> | undefined>();
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
-    const [searchQuery, setSearchQuery] = useState('');
     const [selectedTodos, setSelectedTodos] = useState<Set<string>>(new Set());
-    const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+    const [isBulkDeleteConfirmOpen, setIsBulkDeleteConfirmOpen] = useState(false);
     const [deletingTodos, setDeletingTodos] = useState<string[]>([]);
+    // Trashed todos waiting for confirmation before being deleted forever
+    const [purgingTodos, setPurgingTodos] = useState<string[]>([]);
+    // Saved view whose filters are being edited (view null while creating one), with the filters it starts from
+    const [viewEditor, setViewEditor] = useState<{ view: SavedView | null; filters: AdvancedFilterOptions } | null>(null);
+    // Criteria of the advanced filter panel, refining the quick filters
+    const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilterOptions | null>(null);
+    const [isAdvancedFiltersOpen, setIsAdvancedFiltersOpen] = useState(false);
 
     // App Settings
     const [appSettings, setAppSettings] = useState<AppSettings>(() => {
         const saved = localStorage.getItem('app-settings');
-        return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
+        return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
     });
 
+    // ============================================
+    // ROUTING
+    // ============================================
+
+    // The view, an opened todo, filters and search all come from the URL
+    const routeTodoId = matchPath(TODO_PATH, pathname)?.id ?? null;
+    const routeView = VIEWS.find(view => view.path === pathname)?.id;
+    const currentView: View = routeTodoId ? 'list' : routeView ?? 'list';
+    const isTodoView = TODO_VIEWS.includes(currentView);
+
+    const urlState = useMemo(() => parseFilterQuery(search), [search]);
+    const searchQuery = isTodoView ? urlState.search : '';
+    const activeSavedView = isTodoView ? savedViews.find(view => view.id === urlState.savedViewId) ?? null : null;
+
+    // Query of the last todo view, restored when coming back from e.g. the dashboard
+    const todoQueryRef = useRef(search);
+    if (isTodoView) {
+        todoQueryRef.current = search;
+    }
+
+    useEffect(() => {
+        if (!routeTodoId && !routeView) {
+            navigate('/', { replace: true });
+        }
+    }, [routeTodoId, routeView, navigate]);
+
+    useEffect(() => {
+        if (isTodoView) {
+            setFilters(urlState.filters);
+        }
+    }, [isTodoView, urlState, setFilters]);
+
+    const setCurrentView = useCallback((view: View) => {
+        const path = VIEWS.find(v => v.id === view)!.path;
+        navigate(TODO_VIEWS.includes(view) ? path + todoQueryRef.current : path);
+    }, [navigate]);
+
+    /**
+     * Write filters and search to the query string
+     * Outside the todo views this goes to the list, e.g. when searching from the dashboard
+     */
+    const updateFilterQuery = useCallback((nextFilters: FilterOptions, nextSearch: string) => {
+        const query = buildFilterQuery(nextFilters, nextSearch, activeSavedView?.id);
+        if (isTodoView) {
+            navigate(pathname + query, { replace: true });
+        } else {
+            navigate('/' + query);
+        }
+    }, [isTodoView, pathname, navigate, activeSavedView]);
+
+    /**
+     * Show the todos of a saved view, in the view type it was saved with
+     */
+    const openSavedView = useCallback((view: SavedView) => {
+        const path = VIEWS.find(v => v.id === view.viewType)!.path;
+        navigate(path + buildFilterQuery(defaultFilters, '', view.id));
+    }, [navigate]);
+
+    const closeSavedView = useCallback(() => {
+        navigate(pathname + buildFilterQuery(filters, searchQuery));
+    }, [navigate, pathname, filters, searchQuery]);
+
+    const setSearchQuery = useCallback((query: string) => {
+        updateFilterQuery(filters, query);
+    }, [updateFilterQuery, filters]);
+
     // Debounced search
     const debouncedSearch = useDebounce(searchQuery, 300);
 
-    // Search with debounce
-    const displayedTodos = searchQuery ? searchTodos(debouncedSearch) : todos;
+    // A saved view replaces the quick filters with its own criteria, sort order and archive setting
+    const savedViewTodos = useMemo(
+        () => (activeSavedView ? AdvancedFilterEngine.filterTodos(allTodos, activeSavedView.filters) : null),
+        [activeSavedView, allTodos]
+    );
+    // Archived todos aren't part of the quick-filtered list; they join it when the panel asks for them
+    const advancedSource = useMemo(
+        () => (advancedFilters?.showArchived ? [...todos, ...archivedTodos] : todos),
+        [advancedFilters?.showArchived, todos, archivedTodos]
+    );
+    const advancedTodos = useMemo(
+        () => (advancedFilters ? AdvancedFilterEngine.filterTodos(advancedSource, advancedFilters) : null),
+        [advancedFilters, advancedSource]
+    );
+    const listTodos = savedViewTodos ?? advancedTodos ?? todos;
+    const listGroupBy = (activeSavedView?.filters ?? advancedFilters)?.groupBy ?? 'status';
+
+    // Search with debounce; results come ranked, with the matched parts to highlight
+    const searchResult = useMemo(
+        () => (searchQuery ? searchTodos(debouncedSearch, listTodos) : null),
+        [searchQuery, debouncedSearch, searchTodos, listTodos]
+    );
+    const displayedTodos = searchResult ? searchResult.todos : listTodos;
+
+    // Boards and search only see the loaded todos; say so until the whole list is there
+    // (a saved view filters every loaded todo, the other views the current query)
+    const isPartialList = activeSavedView ? !hasAllTodos : hasMoreTodos;
+    const partialListMessage = !isPartialList || (currentView === 'list' && !searchQuery)
+        ? null
+        : `${searchQuery ? 'Search covers' : 'This view shows'} only the ${todos.length}${totalTodos !== null ? ` of ${totalTodos}` : ''} todos loaded so far`;
+
+    // Live counts for the sidebar
+    const savedViewCounts = useMemo(
+        () => Object.fromEntries(savedViews.map(view => [view.id, AdvancedFilterEngine.countMatches(allTodos, view.filters)])),
+        [savedViews, allTodos]
+    );
+
+    // The result limit cuts the list, not the counts; say so when it does
+    const matchCount = useMemo(
+        () => (activeSavedView
+            ? savedViewCounts[activeSavedView.id]
+            : advancedFilters ? AdvancedFilterEngine.countMatches(advancedSource, advancedFilters) : null),
+        [activeSavedView, savedViewCounts, advancedFilters, advancedSource]
+    );
+    const limitedListMessage = matchCount !== null && matchCount > listTodos.length
+        ? `Showing the first ${listTodos.length} of ${matchCount} matching todos; raise the result limit in the ${activeSavedView ? 'view' : 'advanced filters'} to see them all`
+        : null;
+
+    // Stable while the panel is open; the dialog resets its draft when this changes
+    const advancedPanelFilters = useMemo(
+        () => advancedFilters ?? AdvancedFilterEngine.getDefaultFilters(),
+        [advancedFilters]
+    );
+
+    // Archived todos stay part of the completion history shown in the dashboard
+    const historyTodos = useMemo(() => [...todos, ...archivedTodos], [todos, archivedTodos]);
 
     // ============================================
     // EFFECTS
@@ -143,6 +414,52 @@ function TodoApp() {
         }
     }, [appSettings]);
 
+    // Trash and archive are only fetched once something shows them
+    // (archived todos are part of the dashboard's completion history)
+    const needsArchive = currentView === 'archive'
+        || currentView === 'dashboard'
+        || Boolean(advancedFilters?.showArchived)
+        || Boolean(activeSavedView?.filters.showArchived);
+    const [isLoadingTrash, setIsLoadingTrash] = useState(false);
+    const [isLoadingArchive, setIsLoadingArchive] = useState(false);
+
+    useEffect(() => {
+        if (currentView !== 'trash' || isTrashLoaded) return;
+
+        setIsLoadingTrash(true);
+        loadTrash()
+            .catch(error => showError(`Couldn't load the trash: ${errorMessage(error)}`, 5000))
+            .finally(() => setIsLoadingTrash(false));
+    }, [currentView, isTrashLoaded, loadTrash, showError]);
+
+    useEffect(() => {
+        if (!needsArchive || isArchiveLoaded) return;
+
+        setIsLoadingArchive(true);
+        loadArchive()
+            .catch(error => showError(`Couldn't load the archive: ${errorMessage(error)}`, 5000))
+            .finally(() => setIsLoadingArchive(false));
+    }, [needsArchive, isArchiveLoaded, loadArchive, showError]);
+
+    // Purge todos that outlived the trash retention period, once the trash is loaded
+    useEffect(() => {
+        if (loading || !isTrashLoaded) return;
+
+        purgeExpiredTrash(appSettings.trashRetentionDays).catch(err => {
+            logger.warn('Trash auto-purge failed:', err);
+        });
+    }, [loading, isTrashLoaded, appSettings.trashRetentionDays, purgeExpiredTrash]);
+
+    // Report offline changes the server rejected while syncing
+    useEffect(() => {
+        if (syncConflicts.length === 0) return;
+
+        syncConflicts.forEach(({ mutation, message }) => {
+            showError(`Sync conflict: ${describeMutation(mutation)} failed — ${message}`, 8000);
+        });
+        dismissSyncConflicts();
+    }, [syncConflicts, dismissSyncConflicts, showError]);
+
     // Apply dark mode class to document
     useEffect(() => {
         if (isDarkMode) {
@@ -181,94 +498,393 @@ function TodoApp() {
             priority: formData.priority || (appSettings.defaultPriority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH'),
         };
 
-        await apiCreateTodo(todoData);
+        // The todo shows up immediately; the modal doesn't wait for the server
+        setIsAddModalOpen(false);
 
-        if (appSettings.soundEffects) sounds.create();
+        try {
+            await create(todoData);
+        } catch (error) {
+            showError(`Couldn't create "${formData.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Create failed:', error);
+            return;
+        }
 
-        // ✅ DEBUG
-        console.log('🔔 Notification check:', {
-            notificationsEnabled: appSettings.notifications,
-            title: formData.title,
-            willShow: appSettings.notifications ? 'YES' : 'NO'
-        });
+        if (appSettings.soundEffects) sounds.create();
 
         if (appSettings.notifications) {
             showCreate(`"${formData.title}" created successfully!`, 3000);
         }
 
-        setIsAddModalOpen(false);
         logger.info('Todo created:', formData.title);
     };
     const updateTodo = async (id: string, formData: TodoFormData) => {
-        await apiUpdateTodo(id, formData);
+        setIsEditModalOpen(false);
+        setEditingTodo(null);
+
+        try {
+            await update(id, formData);
+        } catch (error) {
+            showError(`Couldn't update "${formData.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Update failed:', error);
+            return;
+        }
 
         if (appSettings.notifications) {
             showUpdate(`"${formData.title}" updated successfully!`, 3000);
         }
 
-        setIsEditModalOpen(false);
-        setEditingTodo(null);
         logger.info('Todo updated:', id);
     };
 
+    const handleUndo = useCallback(async (command?: Command) => {
+        try {
+            const undone = await undo(command);
+            if (undone) showInfo(`Undone: ${undone.label}`, 2000);
+        } catch (error) {
+            showError(`Couldn't undo: ${errorMessage(error)}`, 5000);
+            logger.error('Undo failed:', error);
+        }
+    }, [undo, showInfo, showError]);
+
+    const handleRedo = useCallback(async () => {
+        try {
+            const redone = await redo();
+            if (redone) showInfo(`Redone: ${redone.label}`, 2000);
+        } catch (error) {
+            showError(`Couldn't redo: ${errorMessage(error)}`, 5000);
+            logger.error('Redo failed:', error);
+        }
+    }, [redo, showInfo, showError]);
+
+    // Undo/redo shortcuts (text fields keep their own undo)
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+
+            const target = event.target as HTMLElement;
+            if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                handleRedo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo]);
+
+    // Destructive operations always get a toast with an "Undo" button
+    const undoAction = (command: Command) => ({
+        label: 'Undo',
+        onClick: () => handleUndo(command),
+    });
+
+    // Todos are looked up among all todos: saved views, archived rows and the detail panel go beyond the filtered list
     const deleteTodo = async (id: string) => {
-        const todo = todos.find(t => t.id === id);
+        const todo = allTodos.find(t => t.id === id);
+        if (!todo) return;
 
-        await apiDeleteTodo(id);
+        let command: Command;
+        try {
+            command = await remove(id);
+        } catch (error) {
+            showError(`Couldn't delete "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Delete failed:', error);
+            return;
+        }
 
         if (appSettings.soundEffects) sounds.delete();
-        if (appSettings.notifications && todo) {
-            showDelete(`"${todo.title}" deleted successfully!`, 3000);
-        }
+        showDelete(`"${todo.title}" moved to trash`, 6000, undoAction(command));
 
-        setIsDeleteConfirmOpen(false);
-        setDeletingTodos([]);
         logger.info('Todo deleted:', id);
     };
 
     const toggleTodo = async (id: string) => {
-        const todo = todos.find(t => t.id === id);
+        const todo = allTodos.find(t => t.id === id);
         if (!todo) return;
 
-        await apiToggleTodo(id);
-
         if (appSettings.soundEffects) {
             sounds.complete();
         }
 
+        try {
+            await toggle(id);
+        } catch (error) {
+            showError(`Couldn't update "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Toggle failed:', error);
+            return;
+        }
+
         logger.info('Todo toggled:', id);
     };
 
+    /**
+     * Save changed fields of a todo
+     * Status changes go through toggle so recurring todos spawn their next occurrence
+     * @throws Error if the update fails
+     */
+    const patchTodo = async (todo: Todo, fields: Partial<TodoFormData>) => {
+        if (fields.completed !== undefined && fields.completed !== todo.completed) {
+            await toggle(todo.id);
+        } else {
+            await updateFields(todo.id, fields);
+        }
+    };
+
+    /**
+     * Apply a drag & drop move (board column, calendar day, ...)
+     */
+    const handleMoveTodo = async (todo: Todo, fields: Partial<TodoFormData>) => {
+        try {
+            await patchTodo(todo, fields);
+        } catch (error) {
+            showError(`Couldn't move "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Move failed:', error);
+            return;
+        }
+
+        logger.info('Todo moved:', todo.id, fields);
+    };
+
+    /**
+     * Apply an inline edit (detail panel, description checkboxes)
+     */
+    const handleInlineEdit = async (todo: Todo, fields: Partial<TodoFormData>) => {
+        try {
+            await patchTodo(todo, fields);
+        } catch (error) {
+            showError(`Couldn't update "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Inline edit failed:', error);
+            return;
+        }
+
+        logger.info('Todo edited inline:', todo.id, fields);
+    };
+
+    /**
+     * Check off, add or remove a checklist item (list rows, detail panel)
+     */
+    const handleSubtaskToggle = async (todo: Todo, subtaskId: string) => {
+        try {
+            await toggleSubtask(todo.id, subtaskId);
+        } catch (error) {
+            showError(`Couldn't update the checklist of "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Checklist toggle failed:', error);
+        }
+    };
+
+    const handleSubtaskAdd = async (todo: Todo, title: string) => {
+        try {
+            await addSubtask(todo.id, title);
+        } catch (error) {
+            showError(`Couldn't add "${title}" to "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Checklist add failed:', error);
+        }
+    };
+
+    const handleSubtaskDelete = async (todo: Todo, subtaskId: string) => {
+        const subtask = todo.subtasks?.find(s => s.id === subtaskId);
+        if (!subtask) return;
+
+        let command: Command;
+        try {
+            command = await removeSubtask(todo.id, subtaskId);
+        } catch (error) {
+            showError(`Couldn't update the checklist of "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Checklist delete failed:', error);
+            return;
+        }
+
+        showDelete(`"${subtask.title}" removed from the checklist`, 6000, undoAction(command));
+    };
+
+    /**
+     * Create a todo from the header's quick-add line
+     */
+    const handleQuickAdd = (fields: QuickAddResult['fields']) => createTodo({
+        description: '',
+        category: '',
+        dueDate: '',
+        priority: appSettings.defaultPriority.toUpperCase() as TodoFormData['priority'],
+        ...fields,
+    });
+
+    const openAddForm = useCallback((initialValues?: Partial<TodoFormData>) => {
+        setAddFormDefaults(initialValues);
+        setIsAddModalOpen(true);
+    }, []);
+
+    /**
+     * Edit a todo; from the list this opens the /todos/:id detail panel so the todo can be linked to
+     */
     const handleEdit = useCallback((todo: Todo) => {
+        if (currentView === 'list') {
+            navigate(`/todos/${encodeURIComponent(todo.id)}${search}`);
+            return;
+        }
         setEditingTodo(todo);
         setIsEditModalOpen(true);
-    }, []);
+    }, [currentView, navigate, search]);
 
-    const handleDelete = useCallback((id: string) => {
-        setDeletingTodos([id]);
-        setIsDeleteConfirmOpen(true);
+    const closeEditForm = useCallback(() => {
+        setIsEditModalOpen(false);
+        setEditingTodo(null);
     }, []);
 
-    const handleBulkDelete = async () => {
-        await apiBulkDelete(deletingTodos);
+    const closeDetailPanel = useCallback(() => {
+        navigate('/' + search);
+    }, [navigate, search]);
 
-        if (appSettings.soundEffects) sounds.delete();
-        if (appSettings.notifications) {
-            showDelete(`${deletingTodos.length} todos deleted successfully!`, 3000);
-        }
+    const handleBulkDelete = async () => {
+        const ids = deletingTodos;
 
         setSelectedTodos(new Set());
         setDeletingTodos([]);
-        setIsDeleteConfirmOpen(false);
-        logger.info('Bulk delete completed:', deletingTodos.length);
+        setIsBulkDeleteConfirmOpen(false);
+
+        let command: Command | null = null;
+        try {
+            command = await bulkRemove(ids);
+        } catch (error) {
+            showError(`Couldn't delete the selected todos: ${errorMessage(error)}`, 5000);
+            logger.error('Bulk delete failed:', error);
+        }
+        if (!command) return;
+
+        if (appSettings.soundEffects) sounds.delete();
+        showDelete(`${ids.length} todos moved to trash`, 6000, undoAction(command));
+
+        logger.info('Bulk delete completed:', ids.length);
     };
 
     const handleBulkDeleteSelected = useCallback(() => {
         if (selectedTodos.size === 0) return;
         setDeletingTodos(Array.from(selectedTodos));
-        setIsDeleteConfirmOpen(true);
+        setIsBulkDeleteConfirmOpen(true);
     }, [selectedTodos]);
 
+    const handleBulkSetCompleted = async (completed: boolean) => {
+        const ids = Array.from(selectedTodos);
+        setSelectedTodos(new Set());
+
+        let command: Command | null = null;
+        try {
+            command = await bulkSetCompleted(ids, completed);
+        } catch (error) {
+            showError(`Couldn't update all todos: ${errorMessage(error)}`, 5000);
+            logger.error('Bulk update failed:', error);
+        }
+        if (!command) return;
+
+        if (appSettings.soundEffects && completed) sounds.complete();
+        showComplete(
+            `${ids.length} todos marked as ${completed ? 'completed' : 'incomplete'}`,
+            6000,
+            undoAction(command)
+        );
+    };
+
+    const handleArchive = async (id: string) => {
+        const todo = allTodos.find(t => t.id === id);
+        if (!todo) return;
+
+        let command: Command;
+        try {
+            command = await archive(id);
+        } catch (error) {
+            showError(`Couldn't archive "${todo.title}": ${errorMessage(error)}`, 5000);
+            logger.error('Archive failed:', error);
+            return;
+        }
+
+        showInfo(`"${todo.title}" archived`, 6000, undoAction(command));
+        logger.info('Todo archived:', id);
+    };
+
+    const handleBulkArchive = async () => {
+        const ids = Array.from(selectedTodos);
+        setSelectedTodos(new Set());
+
+        let command: Command | null = null;
+        try {
+            command = await bulkArchive(ids);
+        } catch (error) {
+            showError(`Couldn't archive completed todos: ${errorMessage(error)}`, 5000);
+            logger.error('Bulk archive failed:', error);
+        }
+        if (!command) return;
+
+        showInfo(`${ids.length} todos archived`, 6000, undoAction(command));
+    };
+
+    const handleUnarchive = async (ids: string[]) => {
+        try {
+            await bulkUnarchive(ids);
+        } catch (error) {
+            showError(`Couldn't unarchive: ${errorMessage(error)}`, 5000);
+            logger.error('Unarchive failed:', error);
+            return;
+        }
+
+        if (appSettings.notifications) {
+            showSuccess(ids.length === 1 ? 'Todo moved back to the list' : `${ids.length} todos moved back to the list`, 3000);
+        }
+        logger.info('Todos unarchived:', ids.length);
+    };
+
+    const handleArchiveCompleted = async (olderThanDays: number) => {
+        try {
+            const count = await archiveCompleted(olderThanDays);
+            showInfo(count > 0 ? `${count} completed todos archived` : 'No completed todos to archive', 3000);
+        } catch (error) {
+            showError(`Couldn't archive completed todos: ${errorMessage(error)}`, 5000);
+            logger.error('Archive completed failed:', error);
+        }
+    };
+
+    const handleRestore = async (ids: string[]) => {
+        const title = ids.length === 1 ? `"${trashedTodos.find(t => t.id === ids[0])?.title ?? 'Todo'}"` : `${ids.length} todos`;
+
+        try {
+            await bulkRestore(ids);
+        } catch (error) {
+            showError(`Couldn't restore ${title}: ${errorMessage(error)}`, 5000);
+            logger.error('Restore failed:', error);
+            return;
+        }
+
+        if (appSettings.notifications) {
+            showSuccess(`${title} restored`, 3000);
+        }
+        logger.info('Todos restored:', ids.length);
+    };
+
+    const handlePurge = async () => {
+        const ids = purgingTodos;
+        const isEmptyingTrash = ids.length === trashedTodos.length;
+        setPurgingTodos([]);
+
+        try {
+            if (isEmptyingTrash) {
+                await emptyTrash();
+            } else {
+                await Promise.all(ids.map(id => purgeTodo(id)));
+            }
+        } catch (error) {
+            showError(`Couldn't delete permanently: ${errorMessage(error)}`, 5000);
+            logger.error('Purge failed:', error);
+            return;
+        }
+
+        if (appSettings.soundEffects) sounds.delete();
+        logger.info('Todos purged:', ids.length);
+    };
+
     const handleImportTodos = useCallback(async (importedTodos: TodoFormData[]) => {
         let successCount = 0;
         let errorCount = 0;
@@ -299,9 +915,95 @@ function TodoApp() {
     }, [apiCreateTodo, appSettings.notifications, showSuccess, showWarning, refreshTodos]);
 
     const handleFiltersChange = useCallback((newFilters: FilterOptions) => {
-        setFilters(newFilters);
+        updateFilterQuery(newFilters, searchQuery);
         logger.debug('Filters changed:', newFilters);
-    }, [setFilters]);
+    }, [updateFilterQuery, searchQuery]);
+
+    const handleTagClick = useCallback((tag: string) => {
+        updateFilterQuery({ ...filters, tag }, searchQuery);
+        logger.debug('Tag filter applied:', tag);
+    }, [filters, updateFilterQuery, searchQuery]);
+
+    const handleCreateSavedView = async (name: string, viewFilters: AdvancedFilterOptions) => {
+        setViewEditor(null);
+        setIsAdvancedFiltersOpen(false);
+
+        let view: SavedView;
+        try {
+            // The sidebar only shows in the todo views
+            view = await createView({ name, filters: viewFilters, viewType: currentView as SavedViewType });
+        } catch (error) {
+            showError(`Couldn't save view "${name}": ${errorMessage(error)}`, 5000);
+            logger.error('Saved view create failed:', error);
+            return;
+        }
+
+        openSavedView(view);
+        if (appSettings.notifications) {
+            showSuccess(`View "${name}" saved`, 3000);
+        }
+    };
+
+    /**
+     * Name for a view saved without one; it can be renamed in the sidebar
+     */
+    const getNewViewName = () => {
+        const names = new Set(savedViews.map(view => view.name));
+        let name = 'New view';
+        for (let n = 2; names.has(name); n++) {
+            name = `New view ${n}`;
+        }
+        return name;
+    };
+
+    const handleApplyAdvancedFilters = (nextFilters: AdvancedFilterOptions) => {
+        setAdvancedFilters(AdvancedFilterEngine.hasActiveFilters(nextFilters) ? nextFilters : null);
+        logger.debug('Advanced filters applied:', nextFilters);
+    };
+
+    const handleUpdateSavedView = async (view: SavedView, data: Partial<SavedViewRequest>) => {
+        try {
+            await updateView(view.id, data);
+        } catch (error) {
+            showError(`Couldn't update view "${view.name}": ${errorMessage(error)}`, 5000);
+            logger.error('Saved view update failed:', error);
+        }
+    };
+
+    const handleDeleteSavedView = async (view: SavedView) => {
+        if (view.id === activeSavedView?.id) closeSavedView();
+
+        try {
+            await deleteView(view.id);
+        } catch (error) {
+            showError(`Couldn't delete view "${view.name}": ${errorMessage(error)}`, 5000);
+            logger.error('Saved view delete failed:', error);
+            return;
+        }
+
+        showInfo(`View "${view.name}" deleted`, 3000);
+    };
+
+    const handleMoveSavedView = async (view: SavedView, toIndex: number) => {
+        try {
+            await moveView(view.id, toIndex);
+        } catch (error) {
+            showError(`Couldn't reorder views: ${errorMessage(error)}`, 5000);
+            logger.error('Saved view reorder failed:', error);
+        }
+    };
+
+    const handleLoadMore = useCallback(() => {
+        loadMoreTodos().catch(error => {
+            showError(`Couldn't load more todos: ${errorMessage(error)}`, 5000);
+        });
+    }, [loadMoreTodos, showError]);
+
+    const handleLoadAll = useCallback(() => {
+        loadAllTodos().catch(error => {
+            showError(`Couldn't load all todos: ${errorMessage(error)}`, 5000);
+        });
+    }, [loadAllTodos, showError]);
 
     const handleSelectTodo = useCallback((id: string, selected: boolean) => {
         setSelectedTodos(prev => {
@@ -330,128 +1032,255 @@ function TodoApp() {
                 theme={theme}
                 isDarkMode={isDarkMode}
                 onThemeChange={setTheme}
-                onAddTodo={() => setIsAddModalOpen(true)}
+                onAddTodo={() => openAddForm()}
+                onQuickAdd={handleQuickAdd}
+                categories={categories}
+                tags={tags}
                 onLogout={handleLogout}
                 userName={user?.name || user?.email || 'User'}
+                isOnline={isOnline}
+                pendingChanges={pendingChanges}
+                isSyncing={isSyncing}
             />
 
             {/* Main Content */}
             <main className="container mx-auto px-4 pt-6 pb-20 max-w-7xl">
                 {/* View Switcher */}
-                <div className="flex gap-2 mb-6">
-                    <button
-                        onClick={() => setCurrentView('list')}
-                        className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                            currentView === 'list'
-                                ? 'bg-blue-500 text-white'
-                                : isDarkMode
-                                    ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-                                    : 'bg-white text-gray-700 hover:bg-gray-100'
-                        }`}
-                    >
-                        📝 List
-                    </button>
-                    <button
-                        onClick={() => setCurrentView('dashboard')}
-                        className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                            currentView === 'dashboard'
-                                ? 'bg-blue-500 text-white'
-                                : isDarkMode
-                                    ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-                                    : 'bg-white text-gray-700 hover:bg-gray-100'
-                        }`}
-                    >
-                        📊 Dashboard
-                    </button>
-                    <button
-                        onClick={() => setCurrentView('settings')}
-                        className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                            currentView === 'settings'
-                                ? 'bg-blue-500 text-white'
-                                : isDarkMode
-                                    ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-                                    : 'bg-white text-gray-700 hover:bg-gray-100'
-                        }`}
-                    >
-                        ⚙️ Settings
-                    </button>
+                <div className="flex flex-wrap gap-2 mb-6">
+                    {VIEWS.map(view => (
+                        <button
+                            key={view.id}
+                            onClick={() => setCurrentView(view.id)}
+                            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                                currentView === view.id
+                                    ? 'bg-blue-500 text-white'
+                                    : isDarkMode
+                                        ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                                        : 'bg-white text-gray-700 hover:bg-gray-100'
+                            }`}
+                        >
+                            {view.label}
+                            {view.id === 'trash' && isTrashLoaded && trashedTodos.length > 0 && ` (${trashedTodos.length})`}
+                        </button>
+                    ))}
                 </div>
 
-                {/* List View */}
-                {currentView === 'list' && (
-                    <>
-                        {/* Filters */}
-                        <TodoFilters
-                            filters={filters}
-                            onFiltersChange={handleFiltersChange}
-                            categories={categories}
-                            darkMode={isDarkMode}
-                        />
-
-                        {/* Bulk Actions */}
-                        {selectedTodos.size > 0 && (
-                            <BulkActions
-                                selectedCount={selectedTodos.size}
-                                onMarkCompleted={async () => {
-                                    for (const todoId of selectedTodos) {
-                                        const todo = todos.find(t => t.id === todoId);
-                                        if (todo && !todo.completed) await apiToggleTodo(todoId);
-                                    }
-                                    setSelectedTodos(new Set());
-                                }}
-                                onMarkIncomplete={async () => {
-                                    for (const todoId of selectedTodos) {
-                                        const todo = todos.find(t => t.id === todoId);
-                                        if (todo && todo.completed) await apiToggleTodo(todoId);
-                                    }
-                                    setSelectedTodos(new Set());
-                                }}
-                                onDelete={handleBulkDeleteSelected}
-                                onClear={() => setSelectedTodos(new Set())}
-                                loading={loading}
+                {/* Todo Views (list, board, calendar, timeline, matrix) */}
+                {isTodoView && (
+                    <div className="lg:flex lg:items-start lg:gap-6">
+                        {/* Saved Views */}
+                        <aside className="mb-6 lg:mb-0 lg:w-64 lg:flex-shrink-0">
+                            <SavedViewsSidebar
+                                views={savedViews}
+                                counts={savedViewCounts}
+                                countsArePartial={!hasAllTodos}
+                                activeViewId={activeSavedView?.id ?? null}
+                                onSelect={openSavedView}
+                                onCreate={() => setViewEditor({ view: null, filters: advancedFilters ?? AdvancedFilterEngine.getDefaultFilters() })}
+                                onEdit={view => setViewEditor({ view, filters: view.filters })}
+                                onRename={(view, name) => handleUpdateSavedView(view, { name })}
+                                onDelete={handleDeleteSavedView}
+                                onMove={handleMoveSavedView}
+                                darkMode={isDarkMode}
                             />
-                        )}
-
-                        {/* Todo List */}
-                        <div className="space-y-4">
-                            {loading && !todos.length ? (
-                                <LoadingState message="Loading your todos..." />
-                            ) : error ? (
-                                <ErrorState
-                                    message={error}
-                                    onRetry={refreshTodos}
-                                />
-                            ) : displayedTodos.length === 0 ? (
-                                <EmptyState
-                                    type={searchQuery ? 'no-search-results' : 'no-todos'}
+                        </aside>
+
+                        <div className="flex-1 min-w-0">
+                            {/* Filters (a saved view brings its own) */}
+                            {activeSavedView ? (
+                                <SavedViewBar
+                                    view={activeSavedView}
+                                    count={listTodos.length}
+                                    currentViewType={currentView as SavedViewType}
+                                    onEdit={() => setViewEditor({ view: activeSavedView, filters: activeSavedView.filters })}
+                                    onSetViewType={viewType => handleUpdateSavedView(activeSavedView, { viewType })}
+                                    onClose={closeSavedView}
+                                    darkMode={isDarkMode}
                                 />
                             ) : (
-                                // ✅ onReorder REMOVED
-                                <TodoListView
-                                    todos={displayedTodos}
-                                    onToggle={toggleTodo}
-                                    onEdit={handleEdit}
-                                    onDelete={handleDelete}
-                                    onSelect={handleSelectTodo}
-                                    selectedTodos={selectedTodos}
-                                    isDarkMode={isDarkMode}
+                                <TodoFilters
+                                    filters={filters}
+                                    onFiltersChange={handleFiltersChange}
+                                    categories={categories}
+                                    tags={tags}
+                                    tagCounts={stats.byTag}
+                                    advancedFilters={advancedFilters}
+                                    onOpenAdvancedFilters={() => setIsAdvancedFiltersOpen(true)}
+                                    onAdvancedFiltersChange={setAdvancedFilters}
+                                    darkMode={isDarkMode}
+                                />
+                            )}
+
+                            {/* Bulk Actions */}
+                            {currentView === 'list' && selectedTodos.size > 0 && (
+                                <BulkActions
+                                    selectedCount={selectedTodos.size}
+                                    onMarkCompleted={() => handleBulkSetCompleted(true)}
+                                    onMarkIncomplete={() => handleBulkSetCompleted(false)}
+                                    onDelete={handleBulkDeleteSelected}
+                                    onArchive={handleBulkArchive}
+                                    onClear={() => setSelectedTodos(new Set())}
+                                    loading={loading}
+                                />
+                            )}
+
+                            {/* Todo List */}
+                            <div className="space-y-4">
+                                {!loading && !error && limitedListMessage && (
+                                    <PartialListNotice message={limitedListMessage} darkMode={isDarkMode} />
+                                )}
+                                {!loading && !error && partialListMessage && (
+                                    <PartialListNotice
+                                        message={partialListMessage}
+                                        isLoading={isLoadingMore}
+                                        onLoadAll={handleLoadAll}
+                                        darkMode={isDarkMode}
+                                    />
+                                )}
+                                {loading && !todos.length ? (
+                                    <LoadingState message="Loading your todos..." />
+                                ) : error ? (
+                                    <ErrorState
+                                        message={error}
+                                        onRetry={refreshTodos}
+                                    />
+                                ) : displayedTodos.length === 0 && currentView !== 'calendar' ? (
+                                    <EmptyState
+                                        type={searchQuery ? 'no-search-results' : 'no-todos'}
+                                    />
+                                ) : currentView === 'board' ? (
+                                    <KanbanBoard
+                                        todos={displayedTodos}
+                                        groupBy={boardGroupBy}
+                                        onGroupByChange={setBoardGroupBy}
+                                        categories={categories}
+                                        onMove={handleMoveTodo}
+                                        onToggle={toggleTodo}
+                                        onEdit={handleEdit}
+                                        onDelete={deleteTodo}
+                                        darkMode={isDarkMode}
+                                    />
+                                ) : currentView === 'calendar' ? (
+                                    <CalendarView
+                                        todos={displayedTodos}
+                                        mode={calendarMode}
+                                        onModeChange={setCalendarMode}
+                                        onMove={handleMoveTodo}
+                                        onCreate={dueDate => openAddForm({ dueDate })}
+                                        onToggle={toggleTodo}
+                                        onEdit={handleEdit}
+                                        darkMode={isDarkMode}
+                                    />
+                                ) : currentView === 'matrix' ? (
+                                    <EisenhowerMatrix
+                                        todos={displayedTodos}
+                                        urgencyThresholdDays={appSettings.urgencyThresholdDays}
+                                        onMove={handleMoveTodo}
+                                        onToggle={toggleTodo}
+                                        onEdit={handleEdit}
+                                        onDelete={deleteTodo}
+                                        darkMode={isDarkMode}
+                                    />
+                                ) : currentView === 'timeline' ? (
+                                    <TimelineView
+                                        todos={displayedTodos}
+                                        zoom={timelineZoom}
+                                        onZoomChange={setTimelineZoom}
+                                        onMove={handleMoveTodo}
+                                        onEdit={handleEdit}
+                                        darkMode={isDarkMode}
+                                    />
+                                ) : (
+                                    // ✅ onReorder REMOVED
+                                    <TodoListView
+                                        todos={displayedTodos}
+                                        groupBy={listGroupBy}
+                                        onToggle={toggleTodo}
+                                        onEdit={handleEdit}
+                                        onDelete={deleteTodo}
+                                        onArchive={handleArchive}
+                                        onSelect={handleSelectTodo}
+                                        onTagClick={handleTagClick}
+                                        onDescriptionChange={(todo, description) => handleInlineEdit(todo, { description })}
+                                        onSubtaskToggle={handleSubtaskToggle}
+                                        searchHighlights={searchResult?.highlights}
+                                        selectedTodos={selectedTodos}
+                                        isDarkMode={isDarkMode}
+                                    />
+                                )}
+                            </div>
+
+                            {/* Next page of the server-side list (the other views offer to load it all) */}
+                            {!loading && !error && currentView === 'list' && (
+                                <LoadMoreTrigger
+                                    loadedCount={todos.length}
+                                    totalCount={totalTodos}
+                                    hasMore={hasMoreTodos}
+                                    isLoading={isLoadingMore}
+                                    onLoadMore={handleLoadMore}
+                                    darkMode={isDarkMode}
                                 />
                             )}
                         </div>
-                    </>
+                    </div>
                 )}
 
                 {/* Dashboard */}
+                {/* The totals come from the server; the charts from the loaded todos */}
+                {currentView === 'dashboard' && hasMoreTodos && (
+                    <div className="mb-6">
+                        <PartialListNotice
+                            message={`Charts cover only the ${todos.length}${totalTodos !== null ? ` of ${totalTodos}` : ''} todos loaded so far; the totals cover them all`}
+                            isLoading={isLoadingMore}
+                            onLoadAll={handleLoadAll}
+                            darkMode={isDarkMode}
+                        />
+                    </div>
+                )}
                 {currentView === 'dashboard' && (
                     <Suspense fallback={<LoadingState message="Loading dashboard..." />}>
                         <Dashboard
-                            todos={todos}
+                            todos={historyTodos}
                             stats={stats}
                             darkMode={isDarkMode}
                         />
                     </Suspense>
                 )}
 
+                {/* Activity */}
+                {currentView === 'activity' && (
+                    <ActivityFeed
+                        onOpenTodo={id => navigate(`/todos/${encodeURIComponent(id)}`)}
+                        darkMode={isDarkMode}
+                    />
+                )}
+
+                {/* Archive */}
+                {currentView === 'archive' && isLoadingArchive && <LoadingState message="Loading archive..." />}
+                {currentView === 'archive' && !isLoadingArchive && (
+                    <Archive
+                        todos={archivedTodos}
+                        onUnarchive={id => handleUnarchive([id])}
+                        onUnarchiveSelected={handleUnarchive}
+                        onArchiveCompleted={handleArchiveCompleted}
+                        darkMode={isDarkMode}
+                    />
+                )}
+
+                {/* Trash */}
+                {currentView === 'trash' && isLoadingTrash && <LoadingState message="Loading trash..." />}
+                {currentView === 'trash' && !isLoadingTrash && (
+                    <Trash
+                        todos={trashedTodos}
+                        retentionDays={appSettings.trashRetentionDays}
+                        onRestore={id => handleRestore([id])}
+                        onRestoreSelected={handleRestore}
+                        onPurge={id => setPurgingTodos([id])}
+                        onEmptyTrash={() => setPurgingTodos(trashedTodos.map(t => t.id))}
+                        darkMode={isDarkMode}
+                    />
+                )}
+
                 {/* Settings */}
                 {currentView === 'settings' && (
                     <Suspense fallback={<LoadingState message="Loading settings..." />}>
@@ -470,7 +1299,7 @@ function TodoApp() {
 
             {/* Floating Action Button */}
             <button
-                onClick={() => setIsAddModalOpen(true)}
+                onClick={() => openAddForm()}
                 className="fixed bottom-8 right-8 w-16 h-16 bg-gradient-to-br from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-full shadow-2xl hover:shadow-3xl transform hover:scale-110 active:scale-95 transition-all duration-200 flex items-center justify-center z-40"
                 aria-label="Add new todo"
             >
@@ -485,48 +1314,106 @@ function TodoApp() {
                     onSubmit={createTodo}
                     mode="add"
                     darkMode={isDarkMode}
+                    availableTags={tags}
+                    initialValues={addFormDefaults}
                 />
             )}
 
             {isEditModalOpen && editingTodo && (
                 <TodoForm
                     isOpen={isEditModalOpen}
-                    onClose={() => {
-                        setIsEditModalOpen(false);
-                        setEditingTodo(null);
-                    }}
+                    onClose={closeEditForm}
                     onSubmit={(data) => updateTodo(editingTodo.id, data)}
                     todo={editingTodo}
                     mode="edit"
                     darkMode={isDarkMode}
+                    availableTags={tags}
+                />
+            )}
+
+            {routeTodoId && (
+                <TodoDetailPanel
+                    todoId={routeTodoId}
+                    todos={allTodos}
+                    categories={categories}
+                    onClose={closeDetailPanel}
+                    onLoaded={addFetchedTodo}
+                    onUpdate={handleInlineEdit}
+                    onDelete={deleteTodo}
+                    onSubtaskToggle={handleSubtaskToggle}
+                    onSubtaskAdd={handleSubtaskAdd}
+                    onSubtaskDelete={handleSubtaskDelete}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Advanced Filters */}
+            {isAdvancedFiltersOpen && (
+                <AdvancedFiltersModal
+                    isOpen={isAdvancedFiltersOpen}
+                    onClose={() => setIsAdvancedFiltersOpen(false)}
+                    onApplyFilters={handleApplyAdvancedFilters}
+                    currentFilters={advancedPanelFilters}
+                    categories={categories}
+                    tags={tags}
+                    savedViews={savedViews}
+                    onSaveView={handleCreateSavedView}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Saved View Filters */}
+            {viewEditor && (
+                <AdvancedFiltersModal
+                    isOpen={true}
+                    onClose={() => setViewEditor(null)}
+                    onApplyFilters={viewFilters => (viewEditor.view
+                        ? handleUpdateSavedView(viewEditor.view, { filters: viewFilters })
+                        : handleCreateSavedView(getNewViewName(), viewFilters))}
+                    currentFilters={viewEditor.filters}
+                    categories={categories}
+                    tags={tags}
+                    savedViews={savedViews}
+                    onSaveView={handleCreateSavedView}
+                    title={viewEditor.view ? `Edit "${viewEditor.view.name}"` : 'New Saved View'}
+                    applyLabel="Save view"
+                    darkMode={isDarkMode}
                 />
             )}
 
-            {/* Delete Confirmation */}
-            {isDeleteConfirmOpen && (
+            {/* Bulk Delete Confirmation (single deletes are undoable from the toast) */}
+            {isBulkDeleteConfirmOpen && (
                 <ConfirmDialog
-                    isOpen={isDeleteConfirmOpen}
-                    title={deletingTodos.length === 1 ? 'Delete Todo?' : `Delete ${deletingTodos.length} Todos?`}
-                    message={`Are you sure you want to delete ${
-                        deletingTodos.length === 1 ? 'this todo' : 'these todos'
-                    }? This action cannot be undone.`}
+                    isOpen={isBulkDeleteConfirmOpen}
+                    title={`Delete ${deletingTodos.length} Todos?`}
+                    message="These todos will be moved to the trash. You can undo this with Ctrl+Z."
                     confirmText="Delete"
                     cancelText="Cancel"
-                    onConfirm={() => {
-                        if (deletingTodos.length === 1) {
-                            deleteTodo(deletingTodos[0]);
-                        } else {
-                            handleBulkDelete();
-                        }
-                    }}
+                    onConfirm={handleBulkDelete}
                     onClose={() => {
-                        setIsDeleteConfirmOpen(false);
+                        setIsBulkDeleteConfirmOpen(false);
                         setDeletingTodos([]);
                     }}
                     variant="danger"
                 />
             )}
 
+            {/* Permanent Delete Confirmation */}
+            {purgingTodos.length > 0 && (
+                <ConfirmDialog
+                    isOpen={purgingTodos.length > 0}
+                    title={purgingTodos.length === 1 ? 'Delete Forever?' : `Delete ${purgingTodos.length} Todos Forever?`}
+                    message={`${
+                        purgingTodos.length === 1 ? 'This todo' : 'These todos'
+                    } will be deleted permanently. This action cannot be undone.`}
+                    confirmText="Delete forever"
+                    cancelText="Cancel"
+                    onConfirm={handlePurge}
+                    onClose={() => setPurgingTodos([])}
+                    variant="danger"
+                />
+            )}
+
             {/* Notifications */}
             <NotificationContainer
                 notifications={notifications}
@@ -551,9 +1438,11 @@ function TodoApp() {
 function App() {
     return (
         <ErrorBoundary>
-            <AuthProvider>
-                <AuthGuard />
-            </AuthProvider>
+            <RouterProvider>
+                <AuthProvider>
+                    <AuthGuard />
+                </AuthProvider>
+            </RouterProvider>
         </ErrorBoundary>
     );
 }
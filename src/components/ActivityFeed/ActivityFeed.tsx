@@ -0,0 +1,260 @@
+// src/components/ActivityFeed/ActivityFeed.tsx
+import { useEffect, useMemo, useState } from 'react';
+import {
+    Activity,
+    Archive,
+    ArchiveRestore,
+    ArrowUpDown,
+    CheckCircle2,
+    Circle,
+    Download,
+    Pencil,
+    PlusCircle,
+    RotateCcw,
+    Search,
+    Trash2,
+    XCircle,
+} from 'lucide-react';
+import { Button } from '../ui/Button';
+import { activityLog, type ActivityAction, type ActivityEntry } from '../../services/activityLog';
+import { FIELD_LABELS, formatChangeValue } from '../../utils/todoChanges';
+
+interface ActivityFeedProps {
+    /** Open the todo an entry refers to */
+    onOpenTodo: (id: string) => void;
+    darkMode?: boolean;
+}
+
+type ActionFilter = 'all' | ActivityAction;
+
+const ACTION_OPTIONS: { value: ActionFilter; label: string }[] = [
+    { value: 'all', label: 'All changes' },
+    { value: 'create', label: 'Created' },
+    { value: 'update', label: 'Edited' },
+    { value: 'toggle', label: 'Completed / reopened' },
+    { value: 'archive', label: 'Archived' },
+    { value: 'unarchive', label: 'Unarchived' },
+    { value: 'delete', label: 'Moved to trash' },
+    { value: 'restore', label: 'Restored' },
+    { value: 'purge', label: 'Deleted permanently' },
+    { value: 'reorder', label: 'Reordered' },
+];
+
+const PERIOD_OPTIONS = [
+    { value: 0, label: 'Any time' },
+    { value: 1, label: 'Last 24 hours' },
+    { value: 7, label: 'Last 7 days' },
+    { value: 30, label: 'Last 30 days' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Icon and verb describing an entry, e.g. "completed"
+ */
+function describeEntry(entry: ActivityEntry): { icon: JSX.Element; verb: string } {
+    switch (entry.action) {
+        case 'create':
+            return { icon: <PlusCircle className="w-4 h-4 text-blue-500" />, verb: 'created' };
+        case 'update':
+            return { icon: <Pencil className="w-4 h-4 text-yellow-500" />, verb: 'edited' };
+        case 'toggle': {
+            const completed = entry.changes.find(change => change.field === 'completed')?.newValue === true;
+            return completed
+                ? { icon: <CheckCircle2 className="w-4 h-4 text-green-500" />, verb: 'completed' }
+                : { icon: <Circle className="w-4 h-4 text-gray-400" />, verb: 'reopened' };
+        }
+        case 'archive':
+            return { icon: <Archive className="w-4 h-4 text-gray-500" />, verb: 'archived' };
+        case 'unarchive':
+            return { icon: <ArchiveRestore className="w-4 h-4 text-gray-500" />, verb: 'unarchived' };
+        case 'delete':
+            return { icon: <Trash2 className="w-4 h-4 text-red-500" />, verb: 'moved to trash' };
+        case 'restore':
+            return { icon: <RotateCcw className="w-4 h-4 text-green-500" />, verb: 'restored' };
+        case 'purge':
+            return { icon: <XCircle className="w-4 h-4 text-red-500" />, verb: 'permanently deleted' };
+        case 'reorder':
+            return { icon: <ArrowUpDown className="w-4 h-4 text-purple-500" />, verb: 'reordered' };
+    }
+}
+
+/**
+ * Download entries as a JSON file
+ */
+function exportEntries(entries: ActivityEntry[]): void {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `todo-activity-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Audit trail of todo changes: who changed what and when, newest first
+ */
+export function ActivityFeed({ onOpenTodo, darkMode = false }: ActivityFeedProps) {
+    const [entries, setEntries] = useState<ActivityEntry[]>([]);
+    const [query, setQuery] = useState('');
+    const [action, setAction] = useState<ActionFilter>('all');
+    const [userName, setUserName] = useState('all');
+    const [periodDays, setPeriodDays] = useState(0);
+
+    useEffect(() => activityLog.subscribe(setEntries), []);
+
+    const userNames = useMemo(
+        () => Array.from(new Set(entries.map(entry => entry.user?.name).filter((name): name is string => !!name))).sort(),
+        [entries]
+    );
+
+    const results = useMemo(() => {
+        const normalized = query.trim().toLowerCase();
+        const since = periodDays > 0 ? Date.now() - periodDays * DAY_MS : 0;
+
+        return entries.filter(entry =>
+            (action === 'all' || entry.action === action) &&
+            (userName === 'all' || entry.user?.name === userName) &&
+            (!since || new Date(entry.timestamp).getTime() >= since) &&
+            (!normalized || entry.todoTitle.toLowerCase().includes(normalized))
+        );
+    }, [entries, query, action, userName, periodDays]);
+
+    const inputClasses = `px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+        darkMode
+            ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+            : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+    }`;
+    const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+    return (
+        <div className={`rounded-xl border-2 p-6 ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                    <h2 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        Activity
+                    </h2>
+                    <p className={`text-sm ${mutedText}`}>
+                        Every change to your todos, newest first
+                    </p>
+                </div>
+
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => exportEntries(results)}
+                    disabled={results.length === 0}
+                    icon={<Download className="w-4 h-4" />}
+                >
+                    Export JSON
+                </Button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search by todo title..."
+                        className={`w-full pl-9 ${inputClasses}`}
+                    />
+                </div>
+                <select
+                    value={action}
+                    onChange={(e) => setAction(e.target.value as ActionFilter)}
+                    className={inputClasses}
+                    aria-label="Filter by change"
+                >
+                    {ACTION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                {userNames.length > 1 && (
+                    <select
+                        value={userName}
+                        onChange={(e) => setUserName(e.target.value)}
+                        className={inputClasses}
+                        aria-label="Filter by user"
+                    >
+                        <option value="all">Everyone</option>
+                        {userNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                )}
+                <select
+                    value={periodDays}
+                    onChange={(e) => setPeriodDays(Number(e.target.value))}
+                    className={inputClasses}
+                    aria-label="Filter by time"
+                >
+                    {PERIOD_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {results.length === 0 ? (
+                <div className="text-center py-12">
+                    <Activity className={`w-12 h-12 mx-auto mb-3 ${darkMode ? 'text-gray-600' : 'text-gray-300'}`} />
+                    <p className={`text-sm ${mutedText}`}>
+                        {entries.length === 0 ? 'No activity yet' : 'No activity matches these filters'}
+                    </p>
+                </div>
+            ) : (
+                <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+                    {results.map(entry => {
+                        const { icon, verb } = describeEntry(entry);
+                        // Only the field changes say more than the verb
+                        const details = entry.action === 'update' ? entry.changes : [];
+                        const canOpen = entry.todoId !== null && entry.action !== 'purge';
+
+                        return (
+                            <li key={entry.id} className="flex items-start gap-3 px-3 py-3">
+                                <span className="mt-0.5 flex-shrink-0">{icon}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className={`text-sm ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                                        <span className="font-medium">{entry.user?.name ?? 'Someone'}</span>
+                                        {` ${verb} `}
+                                        {canOpen ? (
+                                            <button
+                                                onClick={() => onOpenTodo(entry.todoId!)}
+                                                className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                                            >
+                                                {entry.todoTitle}
+                                            </button>
+                                        ) : (
+                                            <span className="font-medium">{entry.todoTitle}</span>
+                                        )}
+                                    </p>
+                                    {details.length > 0 && (
+                                        <ul className={`mt-1 space-y-0.5 text-xs ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                                            {details.map(change => (
+                                                <li key={change.field}>
+                                                    {FIELD_LABELS[change.field] ?? change.field}:{' '}
+                                                    <span className={mutedText}>{formatChangeValue(change.field, change.oldValue)}</span>
+                                                    {' → '}
+                                                    {formatChangeValue(change.field, change.newValue)}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                                <time dateTime={entry.timestamp} className={`text-xs whitespace-nowrap ${mutedText}`}>
+                                    {new Date(entry.timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                                </time>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
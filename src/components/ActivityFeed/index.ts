@@ -0,0 +1 @@
+export { ActivityFeed } from './ActivityFeed';
\ No newline at end of file
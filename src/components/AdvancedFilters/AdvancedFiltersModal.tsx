@@ -11,12 +11,13 @@ import {
     RotateCcw,
     Eye,
     Sliders,
-    CheckSquare
+    CheckSquare,
+    Archive
 } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Modal } from '../ui/Modal';
 import { Input } from '../ui/Input';
-import type { AdvancedFilterOptions, DateRange } from '../../types/advancedFilters';
+import type { AdvancedFilterOptions, DateRange, SavedView } from '../../types/advancedFilters';
 import { AdvancedFilterEngine } from '../../utils/advancedFiltering';
 
 /**
@@ -28,6 +29,14 @@ interface AdvancedFiltersModalProps {
     onApplyFilters: (filters: AdvancedFilterOptions) => void;
     currentFilters: AdvancedFilterOptions;
     categories: string[];
+    tags?: string[];
+    /** Offered as starting points for the filters */
+    savedViews?: SavedView[];
+    /** Shows "Save as view"; called with the name and the filters in the dialog */
+    onSaveView?: (name: string, filters: AdvancedFilterOptions) => void;
+    title?: string;
+    /** Label of the apply button, e.g. "Save view" when editing a view */
+    applyLabel?: string;
     darkMode?: boolean;
 }
 
@@ -104,17 +113,25 @@ export function AdvancedFiltersModal({
                                          onApplyFilters,
                                          currentFilters,
                                          categories,
+                                         tags = [],
+                                         savedViews = [],
+                                         onSaveView,
+                                         title = '🔍 Advanced Filters',
+                                         applyLabel = 'Apply Filters',
                                          darkMode = false
                                      }: AdvancedFiltersModalProps) {
     // State
     const [filters, setFilters] = useState<AdvancedFilterOptions>(currentFilters);
     const [activeTab, setActiveTab] = useState<'basic' | 'dates' | 'advanced'>('basic');
+    // Name of the view being saved; null while the name field is hidden
+    const [viewName, setViewName] = useState<string | null>(null);
 
     /**
      * Sync filters when modal opens or currentFilters change
      */
     useEffect(() => {
         setFilters(currentFilters);
+        setViewName(null);
     }, [currentFilters]);
 
     /**
@@ -154,74 +171,27 @@ export function AdvancedFiltersModal({
      * Reset all filters to default
      */
     const handleReset = () => {
-        const defaultFilters: AdvancedFilterOptions = {
-            // Text filters
-            titleContains: '',
-            descriptionContains: '',
-            excludeText: '',
-
-            // Multi-select filters
-            priorities: [],
-            categories: [],
-            tags: [],
-
-            // Date range filters
-            dateRange: { start: null, end: null },
-            createdRange: { start: null, end: null },
-            updatedRange: { start: null, end: null },
-            completedInRange: { start: null, end: null },
-
-            // Status filters
-            completionStatus: 'all',
-
-            // Boolean filters
-            hasDescription: null,
-            hasDueDate: null,
-            hasCategory: null,
-            isOverdue: null,
-            isDueSoon: null,
-
-            // Sorting and display
-            sortBy: 'created',
-            sortOrder: 'desc',
-            groupBy: 'none',
-            maxResults: 100,
-            showArchived: false,
-        };
-        setFilters(defaultFilters);
+        setFilters(AdvancedFilterEngine.getDefaultFilters());
     };
 
+    const trimmedViewName = viewName?.trim() ?? '';
+    const isDuplicateViewName = savedViews.some(view => view.name === trimmedViewName);
+
     /**
-     * Save current filters as a preset
+     * Save the filters as a named view
      */
-    const handleSavePreset = () => {
-        const presetName = prompt('Enter a name for this filter preset:');
-        if (presetName) {
-            const presets = JSON.parse(localStorage.getItem('filter-presets') || '{}');
-            presets[presetName] = filters;
-            localStorage.setItem('filter-presets', JSON.stringify(presets));
-            alert('Filter preset saved!');
-        }
+    const handleSaveView = () => {
+        if (!onSaveView || !trimmedViewName || isDuplicateViewName) return;
+        onSaveView(trimmedViewName, filters);
+        setViewName(null);
     };
 
     /**
-     * Load a saved preset
+     * Start from the filters of a saved view
      */
-    const handleLoadPreset = () => {
-        const presets = JSON.parse(localStorage.getItem('filter-presets') || '{}');
-        const presetNames = Object.keys(presets);
-
-        if (presetNames.length === 0) {
-            alert('No saved presets found');
-            return;
-        }
-
-        const selected = prompt(`Select a preset:\n${presetNames.map((name, i) => `${i + 1}. ${name}`).join('\n')}`);
-        const index = parseInt(selected || '0') - 1;
-
-        if (index >= 0 && index < presetNames.length) {
-            setFilters(presets[presetNames[index]]);
-        }
+    const handleLoadView = (id: string) => {
+        const view = savedViews.find(v => v.id === id);
+        if (view) setFilters(view.filters);
     };
 
     /**
@@ -274,7 +244,7 @@ export function AdvancedFiltersModal({
         <Modal
             isOpen={isOpen}
             onClose={onClose}
-            title="🔍 Advanced Filters"
+            title={title}
             size="xl"
         >
             <div className="space-y-4 sm:space-y-6">
@@ -423,6 +393,35 @@ export function AdvancedFiltersModal({
                                 </div>
                             </div>
 
+                            {/* Tag Selection */}
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                                    Tags
+                                </label>
+                                <div className="flex flex-wrap gap-2">
+                                    {tags.map((tag) => (
+                                        <button
+                                            key={tag}
+                                            onClick={() => toggleArrayItem(
+                                                filters.tags,
+                                                tag,
+                                                (newTags) => updateFilter('tags', newTags)
+                                            )}
+                                            className={`px-3 py-1.5 rounded-full border-2 transition-all text-sm font-medium ${
+                                                filters.tags.includes(tag)
+                                                    ? 'border-teal-500 bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300'
+                                                    : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
+                                            }`}
+                                        >
+                                            #{tag}
+                                        </button>
+                                    ))}
+                                    {tags.length === 0 && (
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">No tags available</p>
+                                    )}
+                                </div>
+                            </div>
+
                             {/* Completion Status */}
                             <div>
                                 <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
@@ -493,6 +492,7 @@ export function AdvancedFiltersModal({
                                         { key: 'hasCategory', trueLabel: 'With category', falseLabel: 'Without category' },
                                         { key: 'isOverdue', trueLabel: 'Overdue only', falseLabel: 'Not overdue' },
                                         { key: 'isDueSoon', trueLabel: 'Due soon (7 days)', falseLabel: 'Not due soon' },
+                                        { key: 'hasIncompleteSubtasks', trueLabel: 'Has incomplete subtasks', falseLabel: 'No incomplete subtasks' },
                                     ] as const).map((filter) => (
                                         <div key={filter.key} className="flex items-center gap-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
                                             <CheckSquare className="w-4 h-4 text-gray-500 dark:text-gray-400 flex-shrink-0" />
@@ -568,6 +568,18 @@ export function AdvancedFiltersModal({
                                 </div>
                             </div>
 
+                            {/* Archived */}
+                            <label className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={filters.showArchived}
+                                    onChange={(e) => updateFilter('showArchived', e.target.checked)}
+                                    className="rounded text-blue-600 focus:ring-blue-500"
+                                />
+                                <Archive className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+                                <span className="text-sm text-gray-700 dark:text-gray-300">Include archived todos</span>
+                            </label>
+
                             {/* Max Results */}
                             <div>
                                 <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
@@ -597,27 +609,70 @@ export function AdvancedFiltersModal({
                     </div>
                 </div>
 
+                {/* Save as View */}
+                {viewName !== null && (
+                    <div className="flex flex-col gap-1">
+                        <div className="flex gap-2">
+                            <Input
+                                autoFocus
+                                value={viewName}
+                                onChange={(e) => setViewName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') handleSaveView();
+                                    if (e.key === 'Escape') {
+                                        e.stopPropagation();
+                                        setViewName(null);
+                                    }
+                                }}
+                                placeholder="View name, e.g. Work this week"
+                                aria-label="View name"
+                                className={inputClasses}
+                            />
+                            <Button
+                                variant="primary"
+                                size="sm"
+                                onClick={handleSaveView}
+                                disabled={!trimmedViewName || isDuplicateViewName}
+                            >
+                                Save
+                            </Button>
+                        </div>
+                        {isDuplicateViewName && (
+                            <p className="text-xs text-red-600 dark:text-red-400">
+                                A view named "{trimmedViewName}" already exists
+                            </p>
+                        )}
+                    </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
                     {/* Left side - Preset Management */}
                     <div className="flex flex-wrap gap-2">
-                        <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={handleSavePreset}
-                            icon={<Save className="w-4 h-4" />}
-                            disabled={!hasActiveFilters}
-                        >
-                            Save
-                        </Button>
-                        <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={handleLoadPreset}
-                            icon={<Upload className="w-4 h-4" />}
-                        >
-                            Load
-                        </Button>
+                        {onSaveView && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setViewName(viewName === null ? '' : null)}
+                                icon={<Save className="w-4 h-4" />}
+                                disabled={!hasActiveFilters}
+                            >
+                                Save as view
+                            </Button>
+                        )}
+                        {savedViews.length > 0 && (
+                            <select
+                                value=""
+                                onChange={(e) => handleLoadView(e.target.value)}
+                                aria-label="Load the filters of a saved view"
+                                className={`px-3 py-1.5 text-sm rounded-lg border ${selectClasses}`}
+                            >
+                                <option value="" disabled>Load view…</option>
+                                {savedViews.map(view => (
+                                    <option key={view.id} value={view.id}>{view.name}</option>
+                                ))}
+                            </select>
+                        )}
                         <Button
                             variant="ghost"
                             size="sm"
@@ -658,7 +713,7 @@ export function AdvancedFiltersModal({
                             onClick={handleApply}
                             className="shadow-lg hover:shadow-xl"
                         >
-                            Apply Filters
+                            {applyLabel}
                         </Button>
                     </div>
                 </div>
@@ -0,0 +1,191 @@
+// src/components/Archive/Archive.tsx
+import { useState, useEffect, useMemo } from 'react';
+import { Archive as ArchiveIcon, ArchiveRestore, Search, CheckCircle2, Circle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { getRelativeTime } from '../../utils/dateUtils';
+import type { Todo } from '../TodoForm';
+
+interface ArchiveProps {
+    todos: Todo[];
+    onUnarchive: (id: string) => void;
+    onUnarchiveSelected: (ids: string[]) => void;
+    /** Archive completed todos not updated for at least the given number of days */
+    onArchiveCompleted: (olderThanDays: number) => void;
+    darkMode?: boolean;
+}
+
+const AGE_OPTIONS = [
+    { value: 0, label: 'All completed' },
+    { value: 7, label: 'Completed over 7 days ago' },
+    { value: 30, label: 'Completed over 30 days ago' },
+    { value: 90, label: 'Completed over 90 days ago' },
+];
+
+/**
+ * Check whether a todo matches the archive search (title, description, category, tags)
+ */
+function matchesSearch(todo: Todo, query: string): boolean {
+    return (
+        todo.title.toLowerCase().includes(query) ||
+        Boolean(todo.description?.toLowerCase().includes(query)) ||
+        Boolean(todo.category?.toLowerCase().includes(query)) ||
+        Boolean(todo.tags?.some(tag => tag.toLowerCase().includes(query)))
+    );
+}
+
+export function Archive({
+                            todos,
+                            onUnarchive,
+                            onUnarchiveSelected,
+                            onArchiveCompleted,
+                            darkMode = false
+                        }: ArchiveProps) {
+    const [query, setQuery] = useState('');
+    const [olderThanDays, setOlderThanDays] = useState(30);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    const results = useMemo(() => {
+        const normalized = query.trim().toLowerCase();
+        return normalized ? todos.filter(todo => matchesSearch(todo, normalized)) : todos;
+    }, [todos, query]);
+
+    // Forget selected todos that are no longer listed
+    useEffect(() => {
+        setSelected(prev => {
+            const ids = new Set(results.map(todo => todo.id));
+            const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [results]);
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const inputClasses = darkMode
+        ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+        : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400';
+
+    return (
+        <div className={`rounded-xl border-2 p-6 ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                    <h2 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        Archive
+                    </h2>
+                    <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        Archived todos are hidden from the list but still count in the dashboard
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <select
+                        value={olderThanDays}
+                        onChange={(e) => setOlderThanDays(Number(e.target.value))}
+                        className={`px-3 py-1.5 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${inputClasses}`}
+                        aria-label="Which completed todos to archive"
+                    >
+                        {AGE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => onArchiveCompleted(olderThanDays)}
+                        icon={<ArchiveIcon className="w-4 h-4" />}
+                    >
+                        Archive
+                    </Button>
+                </div>
+            </div>
+
+            {/* Search + bulk actions */}
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search archived todos..."
+                        className={`w-full pl-9 pr-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${inputClasses}`}
+                    />
+                </div>
+                {selected.size > 0 && (
+                    <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={() => {
+                            onUnarchiveSelected(Array.from(selected));
+                            setSelected(new Set());
+                        }}
+                        icon={<ArchiveRestore className="w-4 h-4" />}
+                    >
+                        Unarchive {selected.size}
+                    </Button>
+                )}
+            </div>
+
+            {results.length === 0 ? (
+                <div className="text-center py-12">
+                    <ArchiveIcon className={`w-12 h-12 mx-auto mb-3 ${darkMode ? 'text-gray-600' : 'text-gray-300'}`} />
+                    <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {query ? `No archived todos match "${query}"` : 'Nothing archived yet'}
+                    </p>
+                </div>
+            ) : (
+                <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+                    {results.map(todo => (
+                        <li key={todo.id} className="flex items-center gap-3 px-3 py-3">
+                            <input
+                                type="checkbox"
+                                checked={selected.has(todo.id)}
+                                onChange={() => toggleSelected(todo.id)}
+                                className="w-4 h-4 rounded text-blue-600"
+                                aria-label={`Select "${todo.title}"`}
+                            />
+
+                            {todo.completed ? (
+                                <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0" />
+                            ) : (
+                                <Circle className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                            )}
+
+                            <div className="flex-1 min-w-0">
+                                <p className={`font-medium truncate ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                                    {todo.title}
+                                </p>
+                                <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                    Archived {getRelativeTime(todo.archivedAt!).toLowerCase()}
+                                    {todo.category && ` · ${todo.category}`}
+                                    {todo.tags && todo.tags.length > 0 && ` · ${todo.tags.map(tag => `#${tag}`).join(' ')}`}
+                                </p>
+                            </div>
+
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onUnarchive(todo.id)}
+                                icon={<ArchiveRestore className="w-4 h-4" />}
+                            >
+                                Unarchive
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
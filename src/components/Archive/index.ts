@@ -0,0 +1 @@
+export { Archive } from './Archive';
\ No newline at end of file
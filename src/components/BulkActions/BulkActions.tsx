@@ -1,5 +1,5 @@
 // src/components/BulkActions/BulkActions.tsx
-import { Trash2, Check, X } from 'lucide-react';
+import { Trash2, Check, X, Archive } from 'lucide-react';
 import { Button } from '../ui/Button';
 
 interface BulkActionsProps {
@@ -7,6 +7,7 @@ interface BulkActionsProps {
     onMarkCompleted: () => void;
     onMarkIncomplete: () => void;
     onDelete: () => void;
+    onArchive?: () => void;
     onClear: () => void;
     loading?: boolean;
 }
@@ -16,6 +17,7 @@ export function BulkActions({
                                 onMarkCompleted,
                                 onMarkIncomplete,
                                 onDelete,
+                                onArchive,
                                 onClear,
                                 loading = false
                             }: BulkActionsProps) {
@@ -52,6 +54,17 @@ export function BulkActions({
                             Incomplete
                         </button>
 
+                        {onArchive && (
+                            <button
+                                onClick={onArchive}
+                                disabled={loading}
+                                className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-amber-600 hover:bg-amber-700 disabled:bg-amber-300 disabled:cursor-not-allowed rounded-lg transition-colors shadow-sm"
+                            >
+                                <Archive className="w-4 h-4" />
+                                Archive
+                            </button>
+                        )}
+
                         {/* ✅ Delete button */}
                         <button
                             onClick={onDelete}
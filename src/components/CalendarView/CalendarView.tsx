@@ -0,0 +1,547 @@
+// src/components/CalendarView/CalendarView.tsx
+import { useEffect, useMemo, useState } from 'react';
+import {
+    DndContext,
+    DragOverlay,
+    KeyboardSensor,
+    PointerSensor,
+    pointerWithin,
+    useDraggable,
+    useDroppable,
+    useSensor,
+    useSensors,
+    type DragEndEvent,
+    type DragStartEvent,
+} from '@dnd-kit/core';
+import { ChevronLeft, ChevronRight, Plus, X, CheckCircle2, Circle } from 'lucide-react';
+import {
+    getDateRange,
+    getDaysInRange,
+    getMonthGrid,
+    isThisWeek,
+    toLocalDateString,
+} from '../../utils/dateUtils';
+import type { Todo, TodoFormData } from '../TodoForm';
+
+export type CalendarMode = 'month' | 'week' | 'agenda';
+
+interface CalendarViewProps {
+    todos: Todo[];
+    mode: CalendarMode;
+    onModeChange: (mode: CalendarMode) => void;
+    /** Called when a todo is dropped on another day */
+    onMove: (todo: Todo, update: Partial<TodoFormData>) => void;
+    /** Called when an empty part of a day is clicked, with the day as YYYY-MM-DD */
+    onCreate: (dueDate: string) => void;
+    onToggle: (id: string) => void;
+    onEdit: (todo: Todo) => void;
+    darkMode?: boolean;
+}
+
+const MODE_OPTIONS: { value: CalendarMode; label: string }[] = [
+    { value: 'month', label: 'Month' },
+    { value: 'week', label: 'Week' },
+    { value: 'agenda', label: 'Agenda' },
+];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Todos shown in a month cell before the rest collapse into "+N more" */
+const MAX_VISIBLE_PER_DAY = 3;
+
+const DAY_PREFIX = 'day:';
+
+const PRIORITY_DOTS: Record<Todo['priority'], string> = {
+    HIGH: 'bg-red-500',
+    MEDIUM: 'bg-yellow-500',
+    LOW: 'bg-green-500',
+};
+
+/**
+ * Calendar day (YYYY-MM-DD) a todo is due on
+ */
+function dueDayOf(todo: Todo): string | null {
+    return todo.dueDate ? todo.dueDate.split('T')[0] : null;
+}
+
+/**
+ * Move the reference date one period back or forward
+ */
+function shiftReference(reference: Date, mode: CalendarMode, direction: 1 | -1): Date {
+    return mode === 'week'
+        ? new Date(reference.getFullYear(), reference.getMonth(), reference.getDate() + 7 * direction)
+        : new Date(reference.getFullYear(), reference.getMonth() + direction, 1);
+}
+
+/**
+ * Heading for the displayed period, e.g. "October 2026" or "Oct 18 – Oct 24, 2026"
+ */
+function formatPeriod(reference: Date, mode: CalendarMode): string {
+    if (mode !== 'week') {
+        return reference.toLocaleDateString([], { month: 'long', year: 'numeric' });
+    }
+
+    const { start, end } = getDateRange('this-week', reference);
+    const format = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+    return `${format(start)} – ${format(end)}, ${end.getFullYear()}`;
+}
+
+/**
+ * Priority dot and title of a todo chip
+ */
+function ChipLabel({ todo }: { todo: Todo }) {
+    return (
+        <>
+            <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${PRIORITY_DOTS[todo.priority]}`} />
+            <span className={`truncate ${todo.completed ? 'line-through opacity-60' : ''}`}>
+                {todo.title}
+            </span>
+        </>
+    );
+}
+
+interface CalendarChipProps {
+    todo: Todo;
+    onEdit: (todo: Todo) => void;
+    darkMode: boolean;
+}
+
+/**
+ * Compact, draggable todo inside a day; clicking it opens the edit form
+ */
+function CalendarChip({ todo, onEdit, darkMode }: CalendarChipProps) {
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+        id: todo.id,
+        data: { type: 'todo', todo },
+    });
+
+    return (
+        <button
+            ref={setNodeRef}
+            {...attributes}
+            {...listeners}
+            type="button"
+            onClick={(e) => {
+                e.stopPropagation();
+                onEdit(todo);
+            }}
+            className={`w-full flex items-center gap-1.5 px-1.5 py-0.5 rounded text-left text-xs transition-opacity ${
+                isDragging ? 'opacity-40' : ''
+            } ${
+                darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-blue-50 text-gray-800 hover:bg-blue-100'
+            }`}
+            title={todo.title}
+        >
+            <ChipLabel todo={todo} />
+        </button>
+    );
+}
+
+interface CalendarDayProps {
+    date: Date;
+    todos: Todo[];
+    /** Maximum number of todos listed before "+N more"; undefined lists all */
+    maxVisible?: number;
+    isOutside: boolean;
+    isExpanded: boolean;
+    onExpand: (day: string | null) => void;
+    onCreate: (dueDate: string) => void;
+    onEdit: (todo: Todo) => void;
+    darkMode: boolean;
+    className?: string;
+}
+
+function CalendarDay({
+                         date,
+                         todos,
+                         maxVisible,
+                         isOutside,
+                         isExpanded,
+                         onExpand,
+                         onCreate,
+                         onEdit,
+                         darkMode,
+                         className = ''
+                     }: CalendarDayProps) {
+    const day = toLocalDateString(date);
+    const { setNodeRef, isOver } = useDroppable({ id: DAY_PREFIX + day });
+
+    const isToday = day === toLocalDateString(new Date());
+    const visible = maxVisible === undefined ? todos : todos.slice(0, maxVisible);
+    const hidden = todos.length - visible.length;
+
+    return (
+        <div
+            ref={setNodeRef}
+            onClick={() => onCreate(day)}
+            className={`relative flex flex-col gap-1 p-1.5 border cursor-pointer transition-colors ${className} ${
+                isOver
+                    ? 'border-blue-400 bg-blue-50/60 dark:bg-blue-900/20'
+                    : darkMode
+                        ? `border-gray-700 ${isOutside ? 'bg-gray-900/40' : 'bg-gray-800'} hover:bg-gray-700/60`
+                        : `border-gray-200 ${isOutside ? 'bg-gray-50' : 'bg-white'} hover:bg-blue-50/40`
+            }`}
+            aria-label={`Add todo on ${date.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}`}
+        >
+            <span className={`self-end text-xs font-semibold w-6 h-6 flex items-center justify-center rounded-full ${
+                isToday
+                    ? 'bg-blue-500 text-white'
+                    : isOutside
+                        ? darkMode ? 'text-gray-600' : 'text-gray-400'
+                        : darkMode ? 'text-gray-300' : 'text-gray-700'
+            }`}>
+                {date.getDate()}
+            </span>
+
+            {visible.map(todo => (
+                <CalendarChip key={todo.id} todo={todo} onEdit={onEdit} darkMode={darkMode} />
+            ))}
+
+            {hidden > 0 && (
+                <button
+                    type="button"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onExpand(isExpanded ? null : day);
+                    }}
+                    className={`text-left text-xs font-medium px-1.5 ${
+                        darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'
+                    }`}
+                    aria-expanded={isExpanded}
+                >
+                    +{hidden} more
+                </button>
+            )}
+
+            {/* Overflow popover with the todos that didn't fit */}
+            {isExpanded && (
+                <div
+                    onClick={(e) => e.stopPropagation()}
+                    className={`absolute left-0 top-full z-20 w-56 mt-1 p-2 space-y-1 rounded-lg border shadow-xl cursor-default ${
+                        darkMode ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+                    }`}
+                    role="dialog"
+                    aria-label={`Todos due ${date.toLocaleDateString()}`}
+                >
+                    <div className="flex items-center justify-between mb-1">
+                        <span className={`text-xs font-semibold ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                            {date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => onExpand(null)}
+                            className={`p-0.5 rounded ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                            aria-label="Close"
+                        >
+                            <X className="w-3.5 h-3.5 text-gray-400" />
+                        </button>
+                    </div>
+                    {todos.slice(visible.length).map(todo => (
+                        <CalendarChip key={todo.id} todo={todo} onEdit={onEdit} darkMode={darkMode} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface AgendaProps {
+    days: Date[];
+    todosByDay: Record<string, Todo[]>;
+    onToggle: (id: string) => void;
+    onEdit: (todo: Todo) => void;
+    onCreate: (dueDate: string) => void;
+    darkMode: boolean;
+}
+
+/**
+ * Chronological list of the days that have todos
+ */
+function Agenda({ days, todosByDay, onToggle, onEdit, onCreate, darkMode }: AgendaProps) {
+    const busyDays = days.filter(date => todosByDay[toLocalDateString(date)]?.length);
+
+    if (busyDays.length === 0) {
+        return (
+            <p className={`text-center py-12 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Nothing due in this period
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {busyDays.map(date => {
+                const day = toLocalDateString(date);
+                return (
+                    <section key={day}>
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className={`text-sm font-semibold ${
+                                day === toLocalDateString(new Date())
+                                    ? 'text-blue-500'
+                                    : darkMode ? 'text-gray-300' : 'text-gray-700'
+                            }`}>
+                                {date.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}
+                            </h3>
+                            <button
+                                type="button"
+                                onClick={() => onCreate(day)}
+                                className={`p-1 rounded ${darkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'}`}
+                                aria-label={`Add todo on ${date.toLocaleDateString()}`}
+                            >
+                                <Plus className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <ul className={`rounded-lg border divide-y ${
+                            darkMode ? 'border-gray-700 divide-gray-700' : 'border-gray-200 divide-gray-200'
+                        }`}>
+                            {todosByDay[day].map(todo => (
+                                <li key={todo.id} className="flex items-center gap-3 px-3 py-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => onToggle(todo.id)}
+                                        aria-label={todo.completed ? 'Mark as incomplete' : 'Mark as complete'}
+                                    >
+                                        {todo.completed ? (
+                                            <CheckCircle2 className="w-5 h-5 text-green-500" />
+                                        ) : (
+                                            <Circle className="w-5 h-5 text-gray-400" />
+                                        )}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onEdit(todo)}
+                                        className={`flex-1 min-w-0 text-left truncate ${
+                                            todo.completed ? 'line-through opacity-60' : ''
+                                        } ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}
+                                    >
+                                        {todo.title}
+                                    </button>
+                                    {todo.category && (
+                                        <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                            {todo.category}
+                                        </span>
+                                    )}
+                                    <span className={`w-2 h-2 rounded-full ${PRIORITY_DOTS[todo.priority]}`} />
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                );
+            })}
+        </div>
+    );
+}
+
+/**
+ * Calendar of todos by due date, as a month grid, a week or an agenda list.
+ * Dropping a todo on another day reschedules it; clicking a day creates a todo due that day.
+ */
+export function CalendarView({
+                                 todos,
+                                 mode,
+                                 onModeChange,
+                                 onMove,
+                                 onCreate,
+                                 onToggle,
+                                 onEdit,
+                                 darkMode = false
+                             }: CalendarViewProps) {
+    const [reference, setReference] = useState(() => new Date());
+    const [expandedDay, setExpandedDay] = useState<string | null>(null);
+    const [activeTodo, setActiveTodo] = useState<Todo | null>(null);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor)
+    );
+
+    const todosByDay = useMemo(() => {
+        const byDay: Record<string, Todo[]> = {};
+        todos.forEach(todo => {
+            const day = dueDayOf(todo);
+            if (day) {
+                byDay[day] = [...(byDay[day] ?? []), todo];
+            }
+        });
+        return byDay;
+    }, [todos]);
+
+    const undatedCount = useMemo(() => todos.filter(todo => !todo.dueDate).length, [todos]);
+
+    const weeks = useMemo(() => getMonthGrid(reference), [reference]);
+    const weekDays = useMemo(() => {
+        const { start, end } = getDateRange('this-week', reference);
+        return getDaysInRange(start, end);
+    }, [reference]);
+    const monthDays = useMemo(() => {
+        const { start, end } = getDateRange('this-month', reference);
+        return getDaysInRange(start, end);
+    }, [reference]);
+
+    // Close the "+N more" popover with Escape
+    useEffect(() => {
+        if (!expandedDay) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setExpandedDay(null);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [expandedDay]);
+
+    const handleDragStart = ({ active }: DragStartEvent) => {
+        setActiveTodo(todos.find(todo => todo.id === active.id) ?? null);
+    };
+
+    const handleDragEnd = ({ active, over }: DragEndEvent) => {
+        setActiveTodo(null);
+        if (!over || !String(over.id).startsWith(DAY_PREFIX)) return;
+
+        const todo = todos.find(t => t.id === active.id);
+        const day = String(over.id).slice(DAY_PREFIX.length);
+        if (!todo || dueDayOf(todo) === day) return;
+
+        setExpandedDay(null);
+        onMove(todo, { dueDate: day });
+    };
+
+    const goToToday = () => setReference(new Date());
+    const isCurrentPeriod = mode === 'week'
+        ? isThisWeek(reference.toISOString())
+        : reference.getMonth() === new Date().getMonth() && reference.getFullYear() === new Date().getFullYear();
+
+    const navButtonClasses = `p-1.5 rounded-lg transition-colors ${
+        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+    return (
+        <div className={`rounded-xl border-2 p-4 ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setReference(prev => shiftReference(prev, mode, -1))}
+                        className={navButtonClasses}
+                        aria-label="Previous"
+                    >
+                        <ChevronLeft className="w-5 h-5" />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setReference(prev => shiftReference(prev, mode, 1))}
+                        className={navButtonClasses}
+                        aria-label="Next"
+                    >
+                        <ChevronRight className="w-5 h-5" />
+                    </button>
+                    <h2 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        {formatPeriod(reference, mode)}
+                    </h2>
+                    {!isCurrentPeriod && (
+                        <button
+                            type="button"
+                            onClick={goToToday}
+                            className={`ml-1 px-2.5 py-1 rounded-lg text-xs font-medium ${
+                                darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                        >
+                            Today
+                        </button>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                    {MODE_OPTIONS.map(option => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => {
+                                setExpandedDay(null);
+                                onModeChange(option.value);
+                            }}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                                mode === option.value
+                                    ? 'bg-blue-500 text-white'
+                                    : darkMode
+                                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {mode === 'agenda' ? (
+                <Agenda
+                    days={monthDays}
+                    todosByDay={todosByDay}
+                    onToggle={onToggle}
+                    onEdit={onEdit}
+                    onCreate={onCreate}
+                    darkMode={darkMode}
+                />
+            ) : (
+                <DndContext
+                    sensors={sensors}
+                    collisionDetection={pointerWithin}
+                    onDragStart={handleDragStart}
+                    onDragEnd={handleDragEnd}
+                    onDragCancel={() => setActiveTodo(null)}
+                >
+                    <div className="grid grid-cols-7">
+                        {WEEKDAY_NAMES.map(name => (
+                            <div
+                                key={name}
+                                className={`pb-2 text-center text-xs font-semibold uppercase tracking-wider ${
+                                    darkMode ? 'text-gray-400' : 'text-gray-500'
+                                }`}
+                            >
+                                {name}
+                            </div>
+                        ))}
+
+                        {(mode === 'week' ? [weekDays] : weeks).flat().map(date => {
+                            const day = toLocalDateString(date);
+                            return (
+                                <CalendarDay
+                                    key={day}
+                                    date={date}
+                                    todos={todosByDay[day] ?? []}
+                                    maxVisible={mode === 'month' ? MAX_VISIBLE_PER_DAY : undefined}
+                                    isOutside={mode === 'month' && date.getMonth() !== reference.getMonth()}
+                                    isExpanded={expandedDay === day}
+                                    onExpand={setExpandedDay}
+                                    onCreate={onCreate}
+                                    onEdit={onEdit}
+                                    darkMode={darkMode}
+                                    className={mode === 'month' ? 'min-h-[110px]' : 'min-h-[320px]'}
+                                />
+                            );
+                        })}
+                    </div>
+
+                    <DragOverlay>
+                        {activeTodo && (
+                            <div className={`w-40 flex items-center gap-1.5 px-1.5 py-0.5 rounded text-xs shadow-xl ${
+                                darkMode ? 'bg-gray-700 text-gray-200' : 'bg-blue-50 text-gray-800'
+                            }`}>
+                                <ChipLabel todo={activeTodo} />
+                            </div>
+                        )}
+                    </DragOverlay>
+                </DndContext>
+            )}
+
+            {undatedCount > 0 && (
+                <p className={`mt-4 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {undatedCount} {undatedCount === 1 ? 'todo has' : 'todos have'} no due date and {undatedCount === 1 ? 'is' : 'are'} not shown
+                </p>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export { CalendarView } from './CalendarView';
+export type { CalendarMode } from './CalendarView';
\ No newline at end of file
@@ -16,6 +16,7 @@ import {
     Clock
 } from 'lucide-react';
 import type { Todo } from '../TodoForm';
+import { getCompletedAt } from '../../utils/dateUtils';
 
 interface DashboardProps {
     stats: {
@@ -62,8 +63,8 @@ export function Dashboard({ stats, todos = [], darkMode = false }: DashboardProp
         weekAgo.setDate(weekAgo.getDate() - 7);
 
         const weeklyCompleted = todos.filter(todo => {
-            const updatedDate = new Date(todo.updatedAt);
-            return todo.completed && updatedDate >= weekAgo;
+            const completedAt = getCompletedAt(todo);
+            return completedAt !== null && new Date(completedAt) >= weekAgo;
         }).length;
 
         const weeklyCreated = todos.filter(todo => {
@@ -87,8 +88,9 @@ export function Dashboard({ stats, todos = [], darkMode = false }: DashboardProp
             dayEnd.setHours(23, 59, 59, 999);
 
             const completedToday = todos.some(todo => {
-                if (!todo.completed) return false;
-                const completedDate = new Date(todo.updatedAt);
+                const completedAt = getCompletedAt(todo);
+                if (!completedAt) return false;
+                const completedDate = new Date(completedAt);
                 return completedDate >= dayStart && completedDate <= dayEnd;
             });
 
@@ -118,8 +120,10 @@ export function Dashboard({ stats, todos = [], darkMode = false }: DashboardProp
             dayEnd.setHours(23, 59, 59, 999);
 
             const completed = todos.filter(todo => {
-                const updatedDate = new Date(todo.updatedAt);
-                return todo.completed && updatedDate >= dayStart && updatedDate <= dayEnd;
+                const completedAt = getCompletedAt(todo);
+                if (!completedAt) return false;
+                const completedDate = new Date(completedAt);
+                return completedDate >= dayStart && completedDate <= dayEnd;
             }).length;
 
             const created = todos.filter(todo => {
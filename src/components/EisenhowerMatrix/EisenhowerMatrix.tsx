@@ -0,0 +1,245 @@
+// src/components/EisenhowerMatrix/EisenhowerMatrix.tsx
+import { useMemo, useState } from 'react';
+import {
+    DndContext,
+    DragOverlay,
+    KeyboardSensor,
+    PointerSensor,
+    closestCorners,
+    useDroppable,
+    useSensor,
+    useSensors,
+    type DragEndEvent,
+    type DragStartEvent,
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { SortableTodoItem } from '../SortableTodoItem';
+import { TodoItem } from '../TodoItem';
+import { addDays, isUrgent, toLocalDateString } from '../../utils/dateUtils';
+import type { Todo, TodoFormData } from '../TodoForm';
+
+type QuadrantKey = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+interface Quadrant {
+    key: QuadrantKey;
+    title: string;
+    hint: string;
+    important: boolean;
+    urgent: boolean;
+    accent: string;
+}
+
+interface EisenhowerMatrixProps {
+    todos: Todo[];
+    /** Todos due within this many days (or overdue) are urgent */
+    urgencyThresholdDays: number;
+    /** Called when a todo is dropped into another quadrant */
+    onMove: (todo: Todo, update: Partial<TodoFormData>) => void;
+    onToggle: (id: string) => void;
+    onEdit: (todo: Todo) => void;
+    onDelete: (id: string) => void;
+    darkMode?: boolean;
+}
+
+const QUADRANTS: Quadrant[] = [
+    { key: 'do', title: 'Do First', hint: 'Urgent & important', important: true, urgent: true, accent: 'border-t-red-500' },
+    { key: 'schedule', title: 'Schedule', hint: 'Important, not urgent', important: true, urgent: false, accent: 'border-t-blue-500' },
+    { key: 'delegate', title: 'Delegate', hint: 'Urgent, not important', important: false, urgent: true, accent: 'border-t-yellow-500' },
+    { key: 'eliminate', title: 'Eliminate', hint: 'Neither urgent nor important', important: false, urgent: false, accent: 'border-t-gray-400' },
+];
+
+const QUADRANT_PREFIX = 'quadrant:';
+
+/**
+ * High priority is what makes a todo important
+ */
+function isImportant(todo: Todo): boolean {
+    return todo.priority === 'HIGH';
+}
+
+/**
+ * Quadrant a todo currently belongs to
+ */
+function getQuadrant(todo: Todo, thresholdDays: number): Quadrant {
+    const urgent = isUrgent(todo.dueDate, thresholdDays, todo.completed);
+    return QUADRANTS.find(q => q.important === isImportant(todo) && q.urgent === urgent)!;
+}
+
+/**
+ * Fields that move a todo into the target quadrant
+ * Importance changes the priority; urgency moves the due date to today,
+ * or to just past the urgency threshold
+ */
+function getQuadrantUpdate(todo: Todo, target: Quadrant, thresholdDays: number): Partial<TodoFormData> {
+    const update: Partial<TodoFormData> = {};
+
+    if (target.important !== isImportant(todo)) {
+        update.priority = target.important ? 'HIGH' : 'MEDIUM';
+    }
+
+    if (target.urgent !== isUrgent(todo.dueDate, thresholdDays, todo.completed)) {
+        const today = toLocalDateString(new Date());
+        update.dueDate = target.urgent ? today : addDays(today, thresholdDays + 1);
+    }
+
+    return update;
+}
+
+interface QuadrantViewProps {
+    quadrant: Quadrant;
+    todos: Todo[];
+    onToggle: (id: string) => void;
+    onEdit: (todo: Todo) => void;
+    onDelete: (id: string) => void;
+    darkMode: boolean;
+}
+
+function QuadrantView({ quadrant, todos, onToggle, onEdit, onDelete, darkMode }: QuadrantViewProps) {
+    const { setNodeRef, isOver } = useDroppable({
+        id: QUADRANT_PREFIX + quadrant.key,
+        data: { type: 'quadrant', quadrant },
+    });
+
+    return (
+        <div
+            ref={setNodeRef}
+            className={`flex flex-col rounded-xl border-2 border-t-4 ${quadrant.accent} transition-colors ${
+                isOver
+                    ? 'border-blue-400 bg-blue-50/60 dark:bg-blue-900/20'
+                    : darkMode ? 'border-gray-700 bg-gray-800/60' : 'border-gray-200 bg-gray-50'
+            }`}
+        >
+            <div className="flex items-center justify-between px-4 py-3">
+                <div>
+                    <h3 className={`text-sm font-semibold uppercase tracking-wider ${
+                        darkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}>
+                        {quadrant.title}
+                    </h3>
+                    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{quadrant.hint}</p>
+                </div>
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                    darkMode ? 'bg-gray-700 text-gray-300' : 'bg-white text-gray-600'
+                }`}>
+                    {todos.length}
+                </span>
+            </div>
+
+            <SortableContext items={todos.map(todo => todo.id)} strategy={verticalListSortingStrategy}>
+                <div className="flex-1 space-y-2 px-2 pb-3 min-h-[160px] max-h-[480px] overflow-y-auto" role="list">
+                    {todos.map(todo => (
+                        <SortableTodoItem
+                            key={todo.id}
+                            todo={todo}
+                            onToggle={onToggle}
+                            onEdit={onEdit}
+                            onDelete={onDelete}
+                            darkMode={darkMode}
+                        />
+                    ))}
+                </div>
+            </SortableContext>
+        </div>
+    );
+}
+
+/**
+ * Eisenhower matrix of active todos: importance (priority) × urgency (due date).
+ * Dropping a todo into another quadrant changes its priority and/or due date.
+ */
+export function EisenhowerMatrix({
+                                     todos,
+                                     urgencyThresholdDays,
+                                     onMove,
+                                     onToggle,
+                                     onEdit,
+                                     onDelete,
+                                     darkMode = false
+                                 }: EisenhowerMatrixProps) {
+    const [activeTodo, setActiveTodo] = useState<Todo | null>(null);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const activeTodos = useMemo(() => todos.filter(todo => !todo.completed), [todos]);
+
+    const byQuadrant = useMemo(() => {
+        const grouped: Record<QuadrantKey, Todo[]> = { do: [], schedule: [], delegate: [], eliminate: [] };
+        activeTodos.forEach(todo => {
+            grouped[getQuadrant(todo, urgencyThresholdDays).key].push(todo);
+        });
+        return grouped;
+    }, [activeTodos, urgencyThresholdDays]);
+
+    const handleDragStart = ({ active }: DragStartEvent) => {
+        setActiveTodo(activeTodos.find(todo => todo.id === active.id) ?? null);
+    };
+
+    const handleDragEnd = ({ active, over }: DragEndEvent) => {
+        setActiveTodo(null);
+        if (!over) return;
+
+        const todo = activeTodos.find(t => t.id === active.id);
+        if (!todo) return;
+
+        // Dropped on a quadrant, or on a card inside one
+        const overId = String(over.id);
+        const target = overId.startsWith(QUADRANT_PREFIX)
+            ? QUADRANTS.find(q => QUADRANT_PREFIX + q.key === overId)
+            : QUADRANTS.find(q => byQuadrant[q.key].some(t => t.id === overId));
+
+        if (!target || target.key === getQuadrant(todo, urgencyThresholdDays).key) return;
+
+        onMove(todo, getQuadrantUpdate(todo, target, urgencyThresholdDays));
+    };
+
+    const completedCount = todos.length - activeTodos.length;
+
+    return (
+        <div className="space-y-4">
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                High priority todos are important; todos overdue or due within {urgencyThresholdDays}{' '}
+                {urgencyThresholdDays === 1 ? 'day' : 'days'} are urgent.
+                {completedCount > 0 && ` ${completedCount} completed ${completedCount === 1 ? 'todo is' : 'todos are'} hidden.`}
+            </p>
+
+            <DndContext
+                sensors={sensors}
+                collisionDetection={closestCorners}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setActiveTodo(null)}
+            >
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {QUADRANTS.map(quadrant => (
+                        <QuadrantView
+                            key={quadrant.key}
+                            quadrant={quadrant}
+                            todos={byQuadrant[quadrant.key]}
+                            onToggle={onToggle}
+                            onEdit={onEdit}
+                            onDelete={onDelete}
+                            darkMode={darkMode}
+                        />
+                    ))}
+                </div>
+
+                <DragOverlay>
+                    {activeTodo && (
+                        <div className="w-80 rotate-2 shadow-2xl">
+                            <TodoItem
+                                todo={activeTodo}
+                                onToggle={() => undefined}
+                                onEdit={() => undefined}
+                                onDelete={() => undefined}
+                                darkMode={darkMode}
+                            />
+                        </div>
+                    )}
+                </DragOverlay>
+            </DndContext>
+        </div>
+    );
+}
\ No newline at end of file
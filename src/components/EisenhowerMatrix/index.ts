@@ -0,0 +1 @@
+export { EisenhowerMatrix } from './EisenhowerMatrix';
\ No newline at end of file
@@ -15,9 +15,15 @@ import {
     User,
     ChevronDown,
     Bell,
-    HelpCircle
+    HelpCircle,
+    WifiOff,
+    RefreshCw,
+    CloudOff
 } from 'lucide-react';
 import type { ThemeMode } from '../../hooks/useTheme';
+import { QuickAddBar } from '../QuickAdd';
+import { QuerySearchInput } from '../QuerySearch';
+import type { QuickAddResult } from '../../utils/quickAdd';
 
 interface HeaderProps {
     searchQuery: string;
@@ -26,11 +32,19 @@ interface HeaderProps {
     isDarkMode: boolean;
     onThemeChange: (theme: ThemeMode) => void;
     onAddTodo: () => void;
+    /** Shows the quick-add bar; called with the fields parsed from the typed line */
+    onQuickAdd?: (fields: QuickAddResult['fields']) => void;
+    categories?: string[];
+    /** Tags offered as search completions */
+    tags?: string[];
     userName?: string;
     onLogout?: () => void;
     onDashboardClick?: () => void;
     onSettingsClick?: () => void;
     showDashboard?: boolean;
+    isOnline?: boolean;
+    pendingChanges?: number;
+    isSyncing?: boolean;
 }
 
 export function Header({
@@ -40,10 +54,16 @@ export function Header({
                            isDarkMode,
                            onThemeChange,
                            onAddTodo,
+                           onQuickAdd,
+                           categories = [],
+                           tags = [],
                            userName = 'User',
                            onLogout,
                            onDashboardClick,
                            onSettingsClick,
+                           isOnline = true,
+                           pendingChanges = 0,
+                           isSyncing = false,
                        }: HeaderProps) {
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
@@ -99,6 +119,8 @@ export function Header({
         onThemeChange(nextTheme);
     };
 
+    const changesLabel = `${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'}`;
+
     const getUserInitials = (name: string) => {
         const names = name.split(' ');
         if (names.length >= 2) {
@@ -152,13 +174,13 @@ export function Header({
                                         ? 'text-blue-500 dark:text-blue-400'
                                         : 'text-gray-400 dark:text-gray-500'
                                 }`} />
-                                <input
-                                    type="text"
-                                    placeholder="Search todos by title, description, or category..."
+                                <QuerySearchInput
+                                    placeholder='Search, e.g. priority:high due:<friday -tag:blocked "exact phrase"'
                                     value={searchQuery}
-                                    onChange={(e) => onSearchChange(e.target.value)}
-                                    onFocus={() => setIsSearchFocused(true)}
-                                    onBlur={() => setIsSearchFocused(false)}
+                                    onChange={onSearchChange}
+                                    categories={categories}
+                                    tags={tags}
+                                    onFocusChange={setIsSearchFocused}
                                     className="w-full pl-12 pr-4 py-3 text-sm bg-gray-50 dark:bg-gray-800/50 border-2 border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 transition-all duration-200"
                                 />
                                 {searchQuery && (
@@ -174,6 +196,38 @@ export function Header({
 
                         {/* Right Section - Actions & User */}
                         <div className="flex items-center gap-2">
+                            {/* Offline / Sync Status */}
+                            {!isOnline ? (
+                                <div
+                                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-800 rounded-xl"
+                                    role="status"
+                                    title="Changes are saved on this device and synced when you're back online"
+                                >
+                                    <WifiOff className="w-4 h-4" />
+                                    <span>
+                                        Offline
+                                        {pendingChanges > 0 && <span className="hidden sm:inline"> — {changesLabel} pending</span>}
+                                    </span>
+                                </div>
+                            ) : isSyncing ? (
+                                <div
+                                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 rounded-xl"
+                                    role="status"
+                                >
+                                    <RefreshCw className="w-4 h-4 animate-spin" />
+                                    <span className="hidden sm:inline">Syncing {changesLabel}…</span>
+                                </div>
+                            ) : pendingChanges > 0 && (
+                                <div
+                                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/40 rounded-xl"
+                                    role="status"
+                                    title="The server can't be reached right now"
+                                >
+                                    <CloudOff className="w-4 h-4" />
+                                    <span className="hidden sm:inline">{changesLabel} pending</span>
+                                </div>
+                            )}
+
                             {/* Add Todo Button */}
                             <button
                                 onClick={onAddTodo}
@@ -367,15 +421,23 @@ export function Header({
                         </div>
                     </div>
 
+                    {/* Quick Add */}
+                    {onQuickAdd && (
+                        <div className="pb-3">
+                            <QuickAddBar categories={categories} onAdd={onQuickAdd} />
+                        </div>
+                    )}
+
                     {/* Mobile Search Bar */}
                     <div className="md:hidden pb-3">
                         <div className="relative w-full">
                             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-                            <input
-                                type="text"
-                                placeholder="Search todos..."
+                            <QuerySearchInput
+                                placeholder="Search todos, e.g. is:overdue"
                                 value={searchQuery}
-                                onChange={(e) => onSearchChange(e.target.value)}
+                                onChange={onSearchChange}
+                                categories={categories}
+                                tags={tags}
                                 className="w-full pl-10 pr-4 py-2.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-white placeholder-gray-400 transition-all"
                             />
                         </div>
@@ -0,0 +1,35 @@
+// src/components/HighlightedText/HighlightedText.tsx
+import type { MatchRange } from '../../utils/searchIndex';
+
+interface HighlightedTextProps {
+    text: string;
+    /** Sorted, non-overlapping ranges to mark */
+    ranges?: MatchRange[];
+}
+
+/**
+ * Text with search matches marked
+ */
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+    if (!ranges || ranges.length === 0) return <>{text}</>;
+
+    const parts: JSX.Element[] = [];
+    let position = 0;
+    ranges.forEach((range, index) => {
+        if (range.start > position) {
+            parts.push(<span key={`text-${index}`}>{text.slice(position, range.start)}</span>);
+        }
+        parts.push(
+            <mark
+                key={`match-${index}`}
+                className="rounded-sm px-0.5 -mx-0.5 bg-yellow-200 text-inherit dark:bg-yellow-500/30"
+            >
+                {text.slice(range.start, range.end)}
+            </mark>
+        );
+        position = range.end;
+    });
+    parts.push(<span key="rest">{text.slice(position)}</span>);
+
+    return <>{parts}</>;
+}
\ No newline at end of file
@@ -0,0 +1 @@
+export { HighlightedText } from './HighlightedText';
\ No newline at end of file
@@ -0,0 +1,252 @@
+// src/components/KanbanBoard/KanbanBoard.tsx
+import { useMemo, useState } from 'react';
+import {
+    DndContext,
+    DragOverlay,
+    KeyboardSensor,
+    PointerSensor,
+    closestCorners,
+    useDroppable,
+    useSensor,
+    useSensors,
+    type DragEndEvent,
+    type DragStartEvent,
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { SortableTodoItem } from '../SortableTodoItem';
+import { TodoItem } from '../TodoItem';
+import { AdvancedFilterEngine } from '../../utils/advancedFiltering';
+import type { Todo, TodoFormData } from '../TodoForm';
+
+export type KanbanGroupBy = 'status' | 'priority' | 'category';
+
+interface KanbanColumn {
+    key: string;
+    title: string;
+    /** Fields a card gets when dropped into the column */
+    update: Partial<TodoFormData>;
+}
+
+interface KanbanBoardProps {
+    todos: Todo[];
+    groupBy: KanbanGroupBy;
+    onGroupByChange: (groupBy: KanbanGroupBy) => void;
+    categories: string[];
+    /** Called when a card is dropped into another column */
+    onMove: (todo: Todo, update: Partial<TodoFormData>) => void;
+    onToggle: (id: string) => void;
+    onEdit: (todo: Todo) => void;
+    onDelete: (id: string) => void;
+    darkMode?: boolean;
+}
+
+const GROUP_BY_OPTIONS: { value: KanbanGroupBy; label: string }[] = [
+    { value: 'status', label: 'Status' },
+    { value: 'priority', label: 'Priority' },
+    { value: 'category', label: 'Category' },
+];
+
+const PRIORITY_LABELS = { HIGH: 'High', MEDIUM: 'Medium', LOW: 'Low' } as const;
+
+const COLUMN_PREFIX = 'column:';
+
+/**
+ * Column key of a todo with the given fields, as computed by AdvancedFilterEngine.groupTodos
+ */
+function groupKeyOf(fields: Partial<Todo>, groupBy: KanbanGroupBy): string {
+    const probe: Todo = { id: '', title: '', completed: false, priority: 'MEDIUM', createdAt: '', updatedAt: '', ...fields };
+    return AdvancedFilterEngine.getGroupKey(probe, groupBy);
+}
+
+/**
+ * Columns for a grouping; every possible value gets a column, even when empty
+ */
+function getColumns(groupBy: KanbanGroupBy, categories: string[], todos: Todo[]): KanbanColumn[] {
+    switch (groupBy) {
+        case 'status':
+            return [
+                { key: groupKeyOf({ completed: false }, groupBy), title: 'To Do', update: { completed: false } },
+                { key: groupKeyOf({ completed: true }, groupBy), title: 'Done', update: { completed: true } },
+            ];
+        case 'priority':
+            return (['HIGH', 'MEDIUM', 'LOW'] as const).map(priority => ({
+                key: groupKeyOf({ priority }, groupBy),
+                title: `${PRIORITY_LABELS[priority]} Priority`,
+                update: { priority },
+            }));
+        case 'category': {
+            const used = todos.map(todo => todo.category).filter((c): c is string => Boolean(c));
+            const all = Array.from(new Set([...categories, ...used])).sort((a, b) => a.localeCompare(b));
+            return [
+                { key: groupKeyOf({ category: '' }, groupBy), title: 'Uncategorized', update: { category: '' } },
+                ...all.map(category => ({ key: groupKeyOf({ category }, groupBy), title: category, update: { category } })),
+            ];
+        }
+    }
+}
+
+interface KanbanColumnViewProps {
+    column: KanbanColumn;
+    todos: Todo[];
+    onToggle: (id: string) => void;
+    onEdit: (todo: Todo) => void;
+    onDelete: (id: string) => void;
+    darkMode: boolean;
+}
+
+function KanbanColumnView({ column, todos, onToggle, onEdit, onDelete, darkMode }: KanbanColumnViewProps) {
+    const { setNodeRef, isOver } = useDroppable({
+        id: COLUMN_PREFIX + column.key,
+        data: { type: 'column', column },
+    });
+
+    return (
+        <div
+            ref={setNodeRef}
+            className={`flex flex-col w-80 flex-shrink-0 rounded-xl border-2 transition-colors ${
+                isOver
+                    ? 'border-blue-400 bg-blue-50/60 dark:bg-blue-900/20'
+                    : darkMode ? 'border-gray-700 bg-gray-800/60' : 'border-gray-200 bg-gray-50'
+            }`}
+        >
+            <div className="flex items-center justify-between px-4 py-3">
+                <h3 className={`text-sm font-semibold uppercase tracking-wider ${
+                    darkMode ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                    {column.title}
+                </h3>
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                    darkMode ? 'bg-gray-700 text-gray-300' : 'bg-white text-gray-600'
+                }`}>
+                    {todos.length}
+                </span>
+            </div>
+
+            <SortableContext items={todos.map(todo => todo.id)} strategy={verticalListSortingStrategy}>
+                <div className="flex-1 space-y-2 px-2 pb-3 min-h-[120px]" role="list">
+                    {todos.map(todo => (
+                        <SortableTodoItem
+                            key={todo.id}
+                            todo={todo}
+                            onToggle={onToggle}
+                            onEdit={onEdit}
+                            onDelete={onDelete}
+                            darkMode={darkMode}
+                        />
+                    ))}
+                </div>
+            </SortableContext>
+        </div>
+    );
+}
+
+/**
+ * Kanban board: one column per status, priority or category.
+ * Dropping a card into another column changes that field of the todo.
+ */
+export function KanbanBoard({
+                                todos,
+                                groupBy,
+                                onGroupByChange,
+                                categories,
+                                onMove,
+                                onToggle,
+                                onEdit,
+                                onDelete,
+                                darkMode = false
+                            }: KanbanBoardProps) {
+    const [activeTodo, setActiveTodo] = useState<Todo | null>(null);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const columns = useMemo(() => getColumns(groupBy, categories, todos), [groupBy, categories, todos]);
+    const grouped = useMemo(() => AdvancedFilterEngine.groupTodos(todos, groupBy), [todos, groupBy]);
+
+    const handleDragStart = ({ active }: DragStartEvent) => {
+        setActiveTodo(todos.find(todo => todo.id === active.id) ?? null);
+    };
+
+    const handleDragEnd = ({ active, over }: DragEndEvent) => {
+        setActiveTodo(null);
+        if (!over) return;
+
+        const todo = todos.find(t => t.id === active.id);
+        if (!todo) return;
+
+        // Dropped on a column, or on a card inside one
+        const overId = String(over.id);
+        const targetKey = overId.startsWith(COLUMN_PREFIX)
+            ? overId.slice(COLUMN_PREFIX.length)
+            : columns.find(column => grouped[column.key]?.some(t => t.id === overId))?.key;
+
+        const target = columns.find(column => column.key === targetKey);
+        if (!target || target.key === AdvancedFilterEngine.getGroupKey(todo, groupBy)) return;
+
+        onMove(todo, target.update);
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Grouping */}
+            <div className="flex items-center gap-2">
+                <span className={`text-sm font-medium ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                    Columns:
+                </span>
+                {GROUP_BY_OPTIONS.map(option => (
+                    <button
+                        key={option.value}
+                        onClick={() => onGroupByChange(option.value)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                            groupBy === option.value
+                                ? 'bg-blue-500 text-white'
+                                : darkMode
+                                    ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                                    : 'bg-white text-gray-700 hover:bg-gray-100'
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            <DndContext
+                sensors={sensors}
+                collisionDetection={closestCorners}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setActiveTodo(null)}
+            >
+                <div className="flex gap-4 overflow-x-auto pb-4">
+                    {columns.map(column => (
+                        <KanbanColumnView
+                            key={column.key}
+                            column={column}
+                            todos={grouped[column.key] ?? []}
+                            onToggle={onToggle}
+                            onEdit={onEdit}
+                            onDelete={onDelete}
+                            darkMode={darkMode}
+                        />
+                    ))}
+                </div>
+
+                <DragOverlay>
+                    {activeTodo && (
+                        <div className="w-80 rotate-2 shadow-2xl">
+                            <TodoItem
+                                todo={activeTodo}
+                                onToggle={() => undefined}
+                                onEdit={() => undefined}
+                                onDelete={() => undefined}
+                                darkMode={darkMode}
+                            />
+                        </div>
+                    )}
+                </DragOverlay>
+            </DndContext>
+        </div>
+    );
+}
\ No newline at end of file
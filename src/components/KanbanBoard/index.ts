@@ -0,0 +1,2 @@
+export { KanbanBoard } from './KanbanBoard';
+export type { KanbanGroupBy } from './KanbanBoard';
\ No newline at end of file
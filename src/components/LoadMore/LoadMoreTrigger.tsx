@@ -0,0 +1,62 @@
+// src/components/LoadMore/LoadMoreTrigger.tsx
+import { useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useIntersectionObserver } from '../../hooks/usePerformance';
+
+interface LoadMoreTriggerProps {
+    loadedCount: number;
+    /** Total on the server, if known */
+    totalCount: number | null;
+    hasMore: boolean;
+    isLoading: boolean;
+    onLoadMore: () => void;
+    darkMode?: boolean;
+}
+
+// Start loading a bit before the end of the list comes into view
+const OBSERVER_OPTIONS: IntersectionObserverInit = { rootMargin: '400px 0px' };
+
+/**
+ * End of a paginated list: loads the next page when scrolled into view
+ * The button is there for keyboard users and for retrying after an error.
+ */
+export function LoadMoreTrigger({
+    loadedCount,
+    totalCount,
+    hasMore,
+    isLoading,
+    onLoadMore,
+    darkMode = false,
+}: LoadMoreTriggerProps) {
+    const { ref, observe } = useIntersectionObserver(OBSERVER_OPTIONS);
+
+    useEffect(() => {
+        if (!hasMore || isLoading) return;
+        observe(entries => {
+            if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+        });
+    }, [hasMore, isLoading, observe, onLoadMore]);
+
+    if (!hasMore) return null;
+
+    return (
+        <div
+            ref={element => { ref.current = element; }}
+            className={`flex flex-col items-center gap-2 py-6 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+        >
+            {totalCount !== null && (
+                <span>Showing {loadedCount} of {totalCount} todos</span>
+            )}
+            <button
+                onClick={onLoadMore}
+                disabled={isLoading}
+                className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-60 ${
+                    darkMode ? 'bg-gray-800 text-gray-200 hover:bg-gray-700' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+            >
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isLoading ? 'Loading…' : 'Load more'}
+            </button>
+        </div>
+    );
+}
\ No newline at end of file
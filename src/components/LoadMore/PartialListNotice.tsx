@@ -0,0 +1,42 @@
+// src/components/LoadMore/PartialListNotice.tsx
+import { Info, Loader2 } from 'lucide-react';
+
+interface PartialListNoticeProps {
+    /** What is incomplete, e.g. "This board shows 50 of 120 todos" */
+    message: string;
+    isLoading?: boolean;
+    /** Offered when the rest can be loaded */
+    onLoadAll?: () => void;
+    darkMode?: boolean;
+}
+
+/**
+ * Tells that a view or search doesn't show every matching todo, with a way to load the rest if there is one
+ */
+export function PartialListNotice({ message, isLoading = false, onLoadAll, darkMode = false }: PartialListNoticeProps) {
+    return (
+        <div
+            role="status"
+            className={`flex flex-wrap items-center justify-between gap-2 rounded-lg border px-4 py-2 text-sm ${
+                darkMode ? 'bg-gray-800 border-gray-700 text-gray-300' : 'bg-blue-50 border-blue-200 text-blue-900'
+            }`}
+        >
+            <span className="inline-flex items-center gap-2">
+                <Info className="w-4 h-4 flex-shrink-0" />
+                {message}
+            </span>
+            {onLoadAll && (
+                <button
+                    onClick={onLoadAll}
+                    disabled={isLoading}
+                    className={`inline-flex items-center gap-2 px-3 py-1 rounded-md font-medium transition-colors disabled:opacity-60 ${
+                        darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-blue-700 hover:bg-blue-100'
+                    }`}
+                >
+                    {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {isLoading ? 'Loading…' : 'Load all'}
+                </button>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export { LoadMoreTrigger } from './LoadMoreTrigger';
+export { PartialListNotice } from './PartialListNotice';
\ No newline at end of file
@@ -0,0 +1,128 @@
+// src/components/Markdown/Markdown.tsx
+import { useMemo, type ReactNode } from 'react';
+import { parseMarkdown, toggleTaskItem, type MarkdownBlock, type MarkdownInline } from '../../utils/markdown';
+import { cn } from '../../utils/cn';
+
+interface MarkdownProps {
+    source: string;
+    /** Makes task list checkboxes clickable; called with the updated source */
+    onChange?: (source: string) => void;
+    darkMode?: boolean;
+    className?: string;
+}
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold'];
+
+function renderInline(nodes: MarkdownInline[], darkMode: boolean): ReactNode[] {
+    return nodes.map((node, index) => {
+        switch (node.type) {
+            case 'text':
+                return node.text;
+            case 'break':
+                return <br key={index} />;
+            case 'code':
+                return (
+                    <code
+                        key={index}
+                        className={`px-1 py-0.5 rounded font-mono text-[0.85em] ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+                    >
+                        {node.text}
+                    </code>
+                );
+            case 'strong':
+                return <strong key={index}>{renderInline(node.children, darkMode)}</strong>;
+            case 'em':
+                return <em key={index}>{renderInline(node.children, darkMode)}</em>;
+            case 'del':
+                return <del key={index}>{renderInline(node.children, darkMode)}</del>;
+            case 'link':
+                return (
+                    <a
+                        key={index}
+                        href={node.href}
+                        target="_blank"
+                        rel="noopener noreferrer nofollow"
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-blue-600 dark:text-blue-400 underline hover:no-underline"
+                    >
+                        {renderInline(node.children, darkMode)}
+                    </a>
+                );
+        }
+        return null;
+    });
+}
+
+/**
+ * Rendered Markdown (see utils/markdown for the supported syntax)
+ * Everything is rendered as React elements, so raw HTML in the source is shown as text
+ * and only safe link targets become links.
+ */
+export function Markdown({ source, onChange, darkMode = false, className }: MarkdownProps) {
+    const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+    const renderBlock = (block: MarkdownBlock, index: number) => {
+        switch (block.type) {
+            case 'heading': {
+                const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+                return (
+                    <Tag key={index} className={HEADING_CLASSES[Math.min(block.level, HEADING_CLASSES.length) - 1]}>
+                        {renderInline(block.children, darkMode)}
+                    </Tag>
+                );
+            }
+            case 'paragraph':
+                return <p key={index}>{renderInline(block.children, darkMode)}</p>;
+            case 'rule':
+                return <hr key={index} className={darkMode ? 'border-gray-700' : 'border-gray-200'} />;
+            case 'code':
+                return (
+                    <pre
+                        key={index}
+                        className={`p-3 rounded-lg overflow-x-auto font-mono text-xs ${darkMode ? 'bg-gray-900' : 'bg-gray-100'}`}
+                    >
+                        <code data-language={block.language || undefined}>{block.text}</code>
+                    </pre>
+                );
+            case 'list': {
+                const isTaskList = block.items.some(item => item.taskIndex !== undefined);
+                const ListTag = block.ordered ? 'ol' : 'ul';
+                return (
+                    <ListTag
+                        key={index}
+                        start={block.ordered && block.start !== 1 ? block.start : undefined}
+                        className={cn(
+                            'space-y-0.5',
+                            isTaskList ? 'list-none' : block.ordered ? 'list-decimal pl-5' : 'list-disc pl-5'
+                        )}
+                    >
+                        {block.items.map((item, itemIndex) => item.taskIndex === undefined ? (
+                            <li key={itemIndex}>{renderInline(item.children, darkMode)}</li>
+                        ) : (
+                            <li key={itemIndex} className="flex items-start gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={item.checked}
+                                    disabled={!onChange}
+                                    onChange={() => onChange?.(toggleTaskItem(source, item.taskIndex!))}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="mt-1 w-3.5 h-3.5 rounded text-blue-600 cursor-pointer disabled:cursor-default"
+                                />
+                                <span className={item.checked ? 'line-through opacity-60' : undefined}>
+                                    {renderInline(item.children, darkMode)}
+                                </span>
+                            </li>
+                        ))}
+                    </ListTag>
+                );
+            }
+        }
+        return null;
+    };
+
+    return (
+        <div className={cn('space-y-2 break-words', className)}>
+            {blocks.map(renderBlock)}
+        </div>
+    );
+}
\ No newline at end of file
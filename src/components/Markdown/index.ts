@@ -0,0 +1 @@
+export { Markdown } from './Markdown';
\ No newline at end of file
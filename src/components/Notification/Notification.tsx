@@ -13,16 +13,25 @@ export type NotificationType =
     | 'complete'
     | 'incomplete';
 
+/**
+ * Optional button inside a toast, e.g. "Undo"
+ */
+export interface NotificationAction {
+    label: string;
+    onClick: () => void;
+}
+
 export interface NotificationProps {
     id: string;
     type: NotificationType;
     message: string;
     duration?: number;
+    action?: NotificationAction;
     onRemove: (id: string) => void;
 }
 
 // Single Notification Component
-function NotificationItem({ id, type, message, duration = 2000, onRemove }: NotificationProps) {
+function NotificationItem({ id, type, message, duration = 2000, action, onRemove }: NotificationProps) {
     const [progress, setProgress] = useState(100);
 
     useEffect(() => {
@@ -149,6 +158,19 @@ function NotificationItem({ id, type, message, duration = 2000, onRemove }: Noti
                 <p className="text-sm font-medium">{message}</p>
             </div>
 
+            {/* Action */}
+            {action && (
+                <button
+                    onClick={() => {
+                        action.onClick();
+                        onRemove(id);
+                    }}
+                    className="flex-shrink-0 px-2 py-0.5 -my-0.5 text-sm font-semibold underline underline-offset-2 hover:no-underline rounded transition-colors"
+                >
+                    {action.label}
+                </button>
+            )}
+
             {/* Close Button */}
             <button
                 onClick={() => onRemove(id)}
@@ -166,6 +188,8 @@ interface NotificationContainerProps {
         id: string;
         type: NotificationType;
         message: string;
+        duration?: number;
+        action?: NotificationAction;
     }>;
     onRemove: (id: string) => void;
 }
@@ -190,14 +214,21 @@ export function useNotifications() {
         id: string;
         type: NotificationType;
         message: string;
+        duration?: number;
+        action?: NotificationAction;
     }>>([]);
 
-    const addNotification = (message: string, type: NotificationType = 'info', duration: number = 2000) => {
+    const addNotification = (
+        message: string,
+        type: NotificationType = 'info',
+        duration: number = 2000,
+        action?: NotificationAction
+    ) => {
         const id = Date.now().toString() + Math.random().toString(36).substr(2);
 
         setNotifications(prev => [
             ...prev,
-            { id, message, type }
+            { id, message, type, duration, action }
         ]);
 
         // Auto remove after duration
@@ -215,14 +246,14 @@ export function useNotifications() {
     // Generic methods with optional duration parameter
     const showSuccess = (message: string, duration: number = 2000) => addNotification(message, 'success', duration);
     const showError = (message: string, duration: number = 2000) => addNotification(message, 'error', duration);
-    const showInfo = (message: string, duration: number = 2000) => addNotification(message, 'info', duration);
+    const showInfo = (message: string, duration: number = 2000, action?: NotificationAction) => addNotification(message, 'info', duration, action);
     const showWarning = (message: string, duration: number = 2000) => addNotification(message, 'warning', duration);
 
     // Action-specific methods with optional duration parameter
     const showCreate = (message: string, duration: number = 2000) => addNotification(message, 'create', duration);
     const showUpdate = (message: string, duration: number = 2000) => addNotification(message, 'update', duration);
-    const showDelete = (message: string, duration: number = 2000) => addNotification(message, 'delete', duration);
-    const showComplete = (message: string, duration: number = 2000) => addNotification(message, 'complete', duration);
+    const showDelete = (message: string, duration: number = 2000, action?: NotificationAction) => addNotification(message, 'delete', duration, action);
+    const showComplete = (message: string, duration: number = 2000, action?: NotificationAction) => addNotification(message, 'complete', duration, action);
     const showIncomplete = (message: string, duration: number = 2000) => addNotification(message, 'incomplete', duration);
 
     return {
@@ -1 +1 @@
-export { NotificationContainer, useNotifications } from './Notification';
\ No newline at end of file
+export { NotificationContainer, useNotifications } from './Notification';export type { NotificationAction, NotificationType } from './Notification';
\ No newline at end of file
@@ -0,0 +1,164 @@
+// src/components/QuerySearch/QuerySearchInput.tsx
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { getQueryError, getQuerySuggestions, type QuerySuggestion } from '../../utils/todoQuery';
+import { cn } from '../../utils/cn';
+
+interface QuerySearchInputProps {
+    value: string;
+    onChange: (query: string) => void;
+    /** Known categories and tags, offered as completions */
+    categories: string[];
+    tags: string[];
+    placeholder?: string;
+    className?: string;
+    onFocusChange?: (isFocused: boolean) => void;
+}
+
+/**
+ * Search box for the todo query language (see utils/todoQuery)
+ * Completes field names and values at the cursor and shows syntax errors below the input.
+ */
+export function QuerySearchInput({
+    value,
+    onChange,
+    categories,
+    tags,
+    placeholder,
+    className,
+    onFocusChange,
+}: QuerySearchInputProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [cursor, setCursor] = useState(value.length);
+    const [isFocused, setIsFocused] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [isDismissed, setIsDismissed] = useState(false);
+    // Where to put the cursor after a completion was applied
+    const pendingCursorRef = useRef<number | null>(null);
+
+    const error = useMemo(() => getQueryError(value), [value]);
+    const suggestions = useMemo(
+        () => (isFocused && !isDismissed ? getQuerySuggestions(value, cursor, { categories, tags }) : []),
+        [value, cursor, categories, tags, isFocused, isDismissed]
+    );
+
+    useEffect(() => {
+        setActiveIndex(0);
+    }, [suggestions]);
+
+    useEffect(() => {
+        if (pendingCursorRef.current === null || !inputRef.current) return;
+        inputRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+        pendingCursorRef.current = null;
+    }, [value]);
+
+    const updateCursor = (e: React.SyntheticEvent<HTMLInputElement>) => {
+        setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+    };
+
+    const applySuggestion = (suggestion: QuerySuggestion) => {
+        const next = value.slice(0, suggestion.start) + suggestion.text + value.slice(suggestion.end);
+        const nextCursor = suggestion.start + suggestion.text.length;
+        pendingCursorRef.current = nextCursor;
+        setCursor(nextCursor);
+        onChange(next);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (suggestions.length === 0) return;
+
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            applySuggestion(suggestions[activeIndex]);
+        } else if (e.key === 'Escape') {
+            setIsDismissed(true);
+        }
+    };
+
+    const setFocused = (focused: boolean) => {
+        setIsFocused(focused);
+        onFocusChange?.(focused);
+    };
+
+    // A half-typed term is usually what the suggestions are for
+    const showError = error !== null && suggestions.length === 0;
+
+    return (
+        <>
+            <input
+                ref={inputRef}
+                type="text"
+                placeholder={placeholder}
+                value={value}
+                onChange={(e) => {
+                    setIsDismissed(false);
+                    updateCursor(e);
+                    onChange(e.target.value);
+                }}
+                onSelect={updateCursor}
+                onKeyDown={handleKeyDown}
+                onFocus={() => setFocused(true)}
+                onBlur={() => setFocused(false)}
+                role="combobox"
+                aria-expanded={suggestions.length > 0}
+                aria-controls="query-suggestions"
+                aria-autocomplete="list"
+                aria-invalid={error !== null}
+                spellCheck={false}
+                className={cn(className, showError && 'border-red-400 dark:border-red-500 focus:border-red-500 dark:focus:border-red-500')}
+            />
+
+            {(suggestions.length > 0 || showError) && (
+                <div className="absolute left-0 right-0 top-full mt-2 z-50 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl overflow-hidden text-sm">
+                    {showError && (
+                        <p className="flex items-start gap-2 px-4 py-2.5 text-red-600 dark:text-red-400" role="alert">
+                            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                            <span>
+                                {error.message}
+                                {error.end > error.start && (
+                                    <code className="ml-2 px-1 rounded bg-red-50 dark:bg-red-900/30 font-mono text-xs">
+                                        {value.slice(error.start, error.end)}
+                                    </code>
+                                )}
+                            </span>
+                        </p>
+                    )}
+
+                    {suggestions.length > 0 && (
+                        <ul id="query-suggestions" role="listbox" className="py-1 max-h-72 overflow-y-auto">
+                            {suggestions.map((suggestion, index) => (
+                                <li
+                                    key={suggestion.label}
+                                    role="option"
+                                    aria-selected={index === activeIndex}
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        applySuggestion(suggestion);
+                                    }}
+                                    onMouseEnter={() => setActiveIndex(index)}
+                                    className={cn(
+                                        'flex items-baseline justify-between gap-4 px-4 py-2 cursor-pointer',
+                                        index === activeIndex
+                                            ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                            : 'text-gray-700 dark:text-gray-200'
+                                    )}
+                                >
+                                    <span className="font-mono text-xs">{suggestion.label}</span>
+                                    {suggestion.description && (
+                                        <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                            {suggestion.description}
+                                        </span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </>
+    );
+}
\ No newline at end of file
@@ -0,0 +1 @@
+export { QuerySearchInput } from './QuerySearchInput';
\ No newline at end of file
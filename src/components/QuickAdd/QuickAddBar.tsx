@@ -0,0 +1,127 @@
+// src/components/QuickAdd/QuickAddBar.tsx
+import { useMemo, useState } from 'react';
+import { CornerDownLeft, Zap } from 'lucide-react';
+import { parseQuickAdd, type QuickAddResult, type QuickAddTokenKind } from '../../utils/quickAdd';
+import { formatRecurrenceRule, formatSmartDate } from '../../utils/dateUtils';
+
+interface QuickAddBarProps {
+    /** Known categories, so "#finance" picks up the existing "Finance" */
+    categories: string[];
+    onAdd: (fields: QuickAddResult['fields']) => void;
+}
+
+const TOKEN_CLASSES: Record<QuickAddTokenKind, string> = {
+    date: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+    category: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200',
+    tag: 'bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-200',
+    priority: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+    recurrence: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+};
+
+const TOKEN_NAMES: Record<QuickAddTokenKind, string> = {
+    date: 'Due',
+    category: 'Category',
+    tag: 'Tag',
+    priority: 'Priority',
+    recurrence: 'Repeats',
+};
+
+/**
+ * One-line todo entry: "Pay rent tomorrow #Finance !high every month"
+ * Shows how the input is read while typing; Enter creates the todo.
+ */
+export function QuickAddBar({ categories, onAdd }: QuickAddBarProps) {
+    const [input, setInput] = useState('');
+    const [isFocused, setIsFocused] = useState(false);
+
+    const parsed = useMemo(() => parseQuickAdd(input, categories), [input, categories]);
+    const { fields, tokens } = parsed;
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' && fields.title) {
+            e.preventDefault();
+            onAdd(fields);
+            setInput('');
+        } else if (e.key === 'Escape') {
+            setInput('');
+            e.currentTarget.blur();
+        }
+    };
+
+    // Input text with the recognised tokens highlighted
+    const highlighted = useMemo(() => {
+        const parts: JSX.Element[] = [];
+        let position = 0;
+        tokens.forEach((token, index) => {
+            parts.push(<span key={`text-${index}`}>{input.slice(position, token.start)}</span>);
+            parts.push(
+                <mark key={`token-${index}`} className={`rounded px-0.5 ${TOKEN_CLASSES[token.kind]}`}>
+                    {input.slice(token.start, token.end)}
+                </mark>
+            );
+            position = token.end;
+        });
+        parts.push(<span key="rest">{input.slice(position)}</span>);
+        return parts;
+    }, [input, tokens]);
+
+    const showPreview = isFocused && input.trim() !== '';
+
+    return (
+        <div className="relative w-full">
+            <Zap className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-amber-500" />
+            <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onFocus={() => setIsFocused(true)}
+                onBlur={() => setIsFocused(false)}
+                placeholder='Quick add: "Pay rent tomorrow #Finance !high every month"'
+                aria-label="Quick add todo"
+                className="w-full pl-10 pr-10 py-2.5 text-sm bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 transition-all"
+            />
+            {fields.title && (
+                <CornerDownLeft className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" aria-hidden />
+            )}
+
+            {showPreview && (
+                <div
+                    className="absolute left-0 right-0 top-full mt-2 z-50 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl text-sm"
+                    role="status"
+                    aria-live="polite"
+                >
+                    <p className="font-mono text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap break-words mb-3">
+                        {highlighted}
+                    </p>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className={`font-semibold ${fields.title ? 'text-gray-900 dark:text-white' : 'italic text-gray-400'}`}>
+                            {fields.title || 'Add a title'}
+                        </span>
+                        {tokens.map((token, index) => (
+                            <span
+                                key={index}
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${TOKEN_CLASSES[token.kind]}`}
+                            >
+                                {TOKEN_NAMES[token.kind]}: {token.kind === 'recurrence' && fields.recurrence
+                                    ? formatRecurrenceRule(fields.recurrence)
+                                    : token.label}
+                            </span>
+                        ))}
+                        {/* Recurring todos without a date start on their first occurrence */}
+                        {fields.dueDate && !tokens.some(token => token.kind === 'date') && (
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TOKEN_CLASSES.date}`}>
+                                {TOKEN_NAMES.date}: {formatSmartDate(`${fields.dueDate}T23:59:59`)}
+                            </span>
+                        )}
+                    </div>
+
+                    <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                        {fields.title ? 'Press Enter to add, Esc to clear' : 'The todo needs a title besides date, #category and !priority'}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1 @@
+export { QuickAddBar } from './QuickAddBar';
\ No newline at end of file
@@ -0,0 +1,75 @@
+// src/components/SavedViews/SavedViewBar.tsx
+import { Bookmark, SlidersHorizontal, X } from 'lucide-react';
+import type { SavedView, SavedViewType } from '../../types/advancedFilters';
+import { AdvancedFilterEngine } from '../../utils/advancedFiltering';
+
+interface SavedViewBarProps {
+    view: SavedView;
+    count: number;
+    /** Todo view currently shown; the view can be set to open there */
+    currentViewType: SavedViewType;
+    onEdit: () => void;
+    onSetViewType: (viewType: SavedViewType) => void;
+    onClose: () => void;
+    darkMode?: boolean;
+}
+
+/**
+ * Name and criteria of the open saved view, shown above the todos instead of the quick filters
+ */
+export function SavedViewBar({
+    view,
+    count,
+    currentViewType,
+    onEdit,
+    onSetViewType,
+    onClose,
+    darkMode = false,
+}: SavedViewBarProps) {
+    const summary = AdvancedFilterEngine.getFilterSummary(view.filters);
+    const buttonClasses = `inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+    return (
+        <div className={`mb-6 rounded-xl border p-4 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+            <div className="flex flex-wrap items-center gap-3">
+                <Bookmark className="w-5 h-5 text-blue-500" />
+                <h2 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>{view.name}</h2>
+                <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {count} {count === 1 ? 'todo' : 'todos'}
+                </span>
+
+                <div className="ml-auto flex flex-wrap items-center gap-1">
+                    {currentViewType !== view.viewType && (
+                        <button onClick={() => onSetViewType(currentViewType)} className={buttonClasses}>
+                            Always open as {currentViewType}
+                        </button>
+                    )}
+                    <button onClick={onEdit} className={buttonClasses}>
+                        <SlidersHorizontal className="w-4 h-4" />
+                        Edit filters
+                    </button>
+                    <button onClick={onClose} className={buttonClasses} aria-label={`Close ${view.name}`}>
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {summary.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                    {summary.map(item => (
+                        <span
+                            key={item}
+                            className={`px-2.5 py-1 text-xs rounded-full ${
+                                darkMode ? 'bg-gray-700 text-gray-300' : 'bg-blue-50 text-blue-700'
+                            }`}
+                        >
+                            {item}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,258 @@
+// src/components/SavedViews/SavedViewsSidebar.tsx
+import { useEffect, useRef, useState } from 'react';
+import {
+    DndContext,
+    KeyboardSensor,
+    PointerSensor,
+    closestCenter,
+    useSensor,
+    useSensors,
+    type DragEndEvent,
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import {
+    BarChartHorizontal,
+    BookmarkPlus,
+    Calendar,
+    Columns,
+    GripVertical,
+    List,
+    Pencil,
+    SlidersHorizontal,
+    Target,
+    Trash2,
+    type LucideIcon,
+} from 'lucide-react';
+import type { SavedView, SavedViewType } from '../../types/advancedFilters';
+import { cn } from '../../utils/cn';
+
+interface SavedViewsSidebarProps {
+    /** In sidebar order */
+    views: SavedView[];
+    /** Number of matching todos, by view id */
+    counts: Record<string, number>;
+    /** Whether the counts only cover the todos loaded so far */
+    countsArePartial?: boolean;
+    activeViewId: string | null;
+    onSelect: (view: SavedView) => void;
+    /** Save the current filters as a new view */
+    onCreate: () => void;
+    /** Change the filters of a view */
+    onEdit: (view: SavedView) => void;
+    onRename: (view: SavedView, name: string) => void;
+    onDelete: (view: SavedView) => void;
+    onMove: (view: SavedView, toIndex: number) => void;
+    darkMode?: boolean;
+}
+
+const VIEW_TYPE_ICONS: Record<SavedViewType, LucideIcon> = {
+    list: List,
+    board: Columns,
+    calendar: Calendar,
+    timeline: BarChartHorizontal,
+    matrix: Target,
+};
+
+interface SavedViewRowProps extends Omit<SavedViewsSidebarProps, 'views' | 'counts' | 'countsArePartial' | 'activeViewId' | 'onCreate' | 'onMove'> {
+    view: SavedView;
+    count: number;
+    isCountPartial: boolean;
+    isActive: boolean;
+}
+
+function SavedViewRow({ view, count, isCountPartial, isActive, onSelect, onEdit, onRename, onDelete, darkMode = false }: SavedViewRowProps) {
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [name, setName] = useState(view.name);
+    // Deleting takes a second click on the same button
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
+        id: view.id,
+        disabled: isRenaming,
+    });
+
+    useEffect(() => {
+        if (isRenaming) inputRef.current?.select();
+    }, [isRenaming]);
+
+    const commitRename = () => {
+        setIsRenaming(false);
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== view.name) {
+            onRename(view, trimmed);
+        } else {
+            setName(view.name);
+        }
+    };
+
+    const Icon = VIEW_TYPE_ICONS[view.viewType];
+    const actionClasses = `p-1 rounded-md transition-colors ${
+        darkMode ? 'text-gray-400 hover:text-white hover:bg-gray-700' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200'
+    }`;
+
+    return (
+        <li
+            ref={setNodeRef}
+            style={{ transform: CSS.Transform.toString(transform), transition }}
+            className={cn(
+                'group flex items-center gap-1 rounded-lg pr-1 transition-colors',
+                isActive
+                    ? 'bg-blue-500 text-white'
+                    : darkMode ? 'text-gray-300 hover:bg-gray-700/60' : 'text-gray-700 hover:bg-gray-100',
+                isDragging && 'opacity-50 z-10'
+            )}
+            onMouseLeave={() => setIsConfirmingDelete(false)}
+        >
+            <button
+                ref={setActivatorNodeRef}
+                {...attributes}
+                {...listeners}
+                className={cn('p-1 cursor-grab active:cursor-grabbing opacity-0 group-hover:opacity-60 focus:opacity-100', isActive && 'text-white')}
+                aria-label={`Reorder ${view.name}`}
+            >
+                <GripVertical className="w-3.5 h-3.5" />
+            </button>
+
+            {isRenaming ? (
+                <input
+                    ref={inputRef}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') {
+                            setName(view.name);
+                            setIsRenaming(false);
+                        }
+                    }}
+                    aria-label="View name"
+                    className="flex-1 min-w-0 my-1 px-2 py-1 text-sm rounded-md border border-blue-400 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:outline-none"
+                />
+            ) : (
+                <button
+                    onClick={() => onSelect(view)}
+                    onDoubleClick={() => setIsRenaming(true)}
+                    className="flex-1 min-w-0 flex items-center gap-2 py-2 text-sm font-medium text-left"
+                    aria-current={isActive ? 'page' : undefined}
+                    title={view.name}
+                >
+                    <Icon className="w-4 h-4 flex-shrink-0 opacity-70" />
+                    <span className="truncate">{view.name}</span>
+                </button>
+            )}
+
+            {!isRenaming && (
+                <>
+                    <span className="hidden group-hover:flex items-center">
+                        <button onClick={() => setIsRenaming(true)} className={cn(actionClasses, isActive && 'text-white')} aria-label={`Rename ${view.name}`}>
+                            <Pencil className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => onEdit(view)} className={cn(actionClasses, isActive && 'text-white')} aria-label={`Edit filters of ${view.name}`}>
+                            <SlidersHorizontal className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={() => (isConfirmingDelete ? onDelete(view) : setIsConfirmingDelete(true))}
+                            className={cn(actionClasses, isConfirmingDelete ? 'text-red-500 hover:text-red-600' : isActive && 'text-white')}
+                            aria-label={isConfirmingDelete ? `Confirm deleting ${view.name}` : `Delete ${view.name}`}
+                            title={isConfirmingDelete ? 'Click again to delete' : undefined}
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </span>
+                    <span
+                        className={cn(
+                            'group-hover:hidden text-xs font-semibold px-2 py-0.5 rounded-full',
+                            isActive ? 'bg-white/20' : darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+                        )}
+                        title={isCountPartial ? 'Counted among the todos loaded so far' : undefined}
+                    >
+                        {count}{isCountPartial && '+'}
+                    </span>
+                </>
+            )}
+        </li>
+    );
+}
+
+/**
+ * Saved views ("smart lists") with the number of todos each currently shows
+ * Drag to reorder, double-click to rename.
+ */
+export function SavedViewsSidebar({
+    views,
+    counts,
+    countsArePartial = false,
+    activeViewId,
+    onSelect,
+    onCreate,
+    onEdit,
+    onRename,
+    onDelete,
+    onMove,
+    darkMode = false,
+}: SavedViewsSidebarProps) {
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const handleDragEnd = ({ active, over }: DragEndEvent) => {
+        if (!over || active.id === over.id) return;
+        const view = views.find(v => v.id === active.id);
+        const toIndex = views.findIndex(v => v.id === over.id);
+        if (view && toIndex !== -1) onMove(view, toIndex);
+    };
+
+    return (
+        <nav
+            aria-label="Saved views"
+            className={`rounded-xl border p-3 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}
+        >
+            <div className="flex items-center justify-between px-1 mb-2">
+                <h2 className={`text-xs font-semibold uppercase tracking-wider ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Saved Views
+                </h2>
+                <button
+                    onClick={onCreate}
+                    className={`p-1 rounded-md transition-colors ${
+                        darkMode ? 'text-gray-400 hover:text-white hover:bg-gray-700' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'
+                    }`}
+                    aria-label="Save current filters as a view"
+                    title="Save current filters as a view"
+                >
+                    <BookmarkPlus className="w-4 h-4" />
+                </button>
+            </div>
+
+            {views.length === 0 ? (
+                <p className={`px-1 py-2 text-sm ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                    Save a set of filters to get back to it in one click.
+                </p>
+            ) : (
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                    <SortableContext items={views.map(view => view.id)} strategy={verticalListSortingStrategy}>
+                        <ul className="space-y-0.5">
+                            {views.map(view => (
+                                <SavedViewRow
+                                    key={view.id}
+                                    view={view}
+                                    count={counts[view.id] ?? 0}
+                                    isCountPartial={countsArePartial}
+                                    isActive={view.id === activeViewId}
+                                    onSelect={onSelect}
+                                    onEdit={onEdit}
+                                    onRename={onRename}
+                                    onDelete={onDelete}
+                                    darkMode={darkMode}
+                                />
+                            ))}
+                        </ul>
+                    </SortableContext>
+                </DndContext>
+            )}
+        </nav>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export { SavedViewsSidebar } from './SavedViewsSidebar';
+export { SavedViewBar } from './SavedViewBar';
\ No newline at end of file
@@ -17,7 +17,8 @@ import {
     Monitor,
     Sparkles,
     Shield,
-    Zap
+    Zap,
+    Clock
 } from 'lucide-react';
 import type { TodoFormData } from '../TodoForm';
 
@@ -40,6 +41,10 @@ export interface AppSettings {
     showCompletedTasks: boolean;
     autoSave: boolean;
     theme: 'light' | 'dark' | 'system';
+    /** Days before trashed todos are purged; 0 keeps them until the trash is emptied */
+    trashRetentionDays: number;
+    /** Todos due within this many days (or overdue) count as urgent in the matrix view */
+    urgencyThresholdDays: number;
 }
 
 const defaultSettings: AppSettings = {
@@ -51,6 +56,8 @@ const defaultSettings: AppSettings = {
     showCompletedTasks: true,
     autoSave: true,
     theme: 'system',
+    trashRetentionDays: 30,
+    urgencyThresholdDays: 3,
 };
 
 export function Settings({
@@ -371,6 +378,54 @@ export function Settings({
                                 </select>
                             </div>
 
+                            {/* Trash Retention */}
+                            <div>
+                                <label className={`flex items-center gap-2 text-sm font-semibold mb-3 ${
+                                    darkMode ? 'text-gray-300' : 'text-gray-700'
+                                }`}>
+                                    <Trash2 className="w-4 h-4" />
+                                    Empty Trash Automatically
+                                </label>
+                                <select
+                                    value={settings.trashRetentionDays}
+                                    onChange={(e) => handleSettingChange('trashRetentionDays', Number(e.target.value))}
+                                    className={`w-full px-4 py-3 rounded-xl border-2 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 text-sm font-medium ${
+                                        darkMode
+                                            ? 'bg-gray-700 border-gray-600 text-white'
+                                            : 'bg-white border-gray-300 text-gray-900'
+                                    }`}
+                                >
+                                    <option value={7}>After 7 days</option>
+                                    <option value={14}>After 14 days</option>
+                                    <option value={30}>After 30 days</option>
+                                    <option value={90}>After 90 days</option>
+                                    <option value={0}>Never</option>
+                                </select>
+                            </div>
+
+                            {/* Urgency Threshold */}
+                            <div>
+                                <label className={`flex items-center gap-2 text-sm font-semibold mb-3 ${
+                                    darkMode ? 'text-gray-300' : 'text-gray-700'
+                                }`}>
+                                    <Clock className="w-4 h-4" />
+                                    Urgent Tasks (Matrix View)
+                                </label>
+                                <select
+                                    value={settings.urgencyThresholdDays}
+                                    onChange={(e) => handleSettingChange('urgencyThresholdDays', Number(e.target.value))}
+                                    className={`w-full px-4 py-3 rounded-xl border-2 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 text-sm font-medium ${
+                                        darkMode
+                                            ? 'bg-gray-700 border-gray-600 text-white'
+                                            : 'bg-white border-gray-300 text-gray-900'
+                                    }`}
+                                >
+                                    <option value={1}>Overdue or due within 1 day</option>
+                                    <option value={3}>Overdue or due within 3 days</option>
+                                    <option value={7}>Overdue or due within 7 days</option>
+                                </select>
+                            </div>
+
                             {/* Toggle Settings */}
                             <div className="grid grid-cols-1 gap-3">
                                 {[
@@ -0,0 +1,409 @@
+// src/components/TimelineView/TimelineView.tsx
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AdvancedFilterEngine } from '../../utils/advancedFiltering';
+import {
+    addDays,
+    getDateRange,
+    getDaysBetween,
+    getDaysInRange,
+    toLocalDateString,
+} from '../../utils/dateUtils';
+import type { Todo, TodoFormData } from '../TodoForm';
+
+export type TimelineZoom = 'day' | 'week' | 'month';
+
+interface TimelineViewProps {
+    todos: Todo[];
+    zoom: TimelineZoom;
+    onZoomChange: (zoom: TimelineZoom) => void;
+    /** Called when a bar is moved or resized, with the new start and/or due date */
+    onMove: (todo: Todo, update: Partial<TodoFormData>) => void;
+    onEdit: (todo: Todo) => void;
+    darkMode?: boolean;
+}
+
+interface ZoomLevel {
+    label: string;
+    /** Width of one day in pixels */
+    dayWidth: number;
+    /** Number of days in the visible window */
+    days: number;
+    /** Whether a day starts a new header column */
+    isTick: (date: Date) => boolean;
+    formatTick: (date: Date) => string;
+}
+
+const ZOOM_LEVELS: Record<TimelineZoom, ZoomLevel> = {
+    day: {
+        label: 'Day',
+        dayWidth: 44,
+        days: 28,
+        isTick: () => true,
+        formatTick: date => date.toLocaleDateString([], { weekday: 'narrow', day: 'numeric' }),
+    },
+    week: {
+        label: 'Week',
+        dayWidth: 16,
+        days: 7 * 16,
+        isTick: date => date.getDay() === 0,
+        formatTick: date => date.toLocaleDateString([], { month: 'short', day: 'numeric' }),
+    },
+    month: {
+        label: 'Month',
+        dayWidth: 4,
+        days: 365,
+        isTick: date => date.getDate() === 1,
+        formatTick: date => date.toLocaleDateString([], { month: 'short', year: '2-digit' }),
+    },
+};
+
+const LABEL_WIDTH = 200;
+
+const PRIORITY_BARS: Record<Todo['priority'], string> = {
+    HIGH: 'bg-red-500',
+    MEDIUM: 'bg-yellow-500',
+    LOW: 'bg-green-500',
+};
+
+/**
+ * First visible day for a zoom level: the start of the current week or month,
+ * so today sits near the left edge
+ */
+function getDefaultWindowStart(zoom: TimelineZoom): string {
+    const range = getDateRange(zoom === 'month' ? 'this-month' : 'this-week');
+    return toLocalDateString(range.start);
+}
+
+/**
+ * Days covered by a todo's bar (YYYY-MM-DD); a todo with only one date is a one-day bar
+ */
+function getSpan(todo: Todo): { start: string; end: string } | null {
+    const start = todo.startDate?.split('T')[0];
+    const end = todo.dueDate?.split('T')[0];
+    if (!start && !end) return null;
+    return { start: start ?? end!, end: end ?? start! };
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+    mode: DragMode;
+    originX: number;
+    /** Whole days the pointer moved since the drag began */
+    delta: number;
+}
+
+interface TimelineBarProps {
+    todo: Todo;
+    start: string;
+    end: string;
+    windowStart: string;
+    dayWidth: number;
+    onMove: (todo: Todo, update: Partial<TodoFormData>) => void;
+    onEdit: (todo: Todo) => void;
+}
+
+/**
+ * Bar from start to due date. Dragging the body moves it; dragging an edge
+ * changes the start or due date. Arrow keys move it by a day (Shift: resize), Enter edits.
+ */
+function TimelineBar({ todo, start, end, windowStart, dayWidth, onMove, onEdit }: TimelineBarProps) {
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const span = getDaysBetween(start, end);
+
+    // Shifts of each end while dragging; edges can't cross each other
+    const mode = drag?.mode;
+    const delta = drag?.delta ?? 0;
+    const startShift = mode === 'move' ? delta : mode === 'start' ? Math.min(delta, span) : 0;
+    const endShift = mode === 'move' ? delta : mode === 'end' ? Math.max(delta, -span) : 0;
+
+    const left = (getDaysBetween(windowStart, start) + startShift) * dayWidth;
+    const width = (span + 1 - startShift + endShift) * dayWidth;
+
+    const commit = (nextStartShift: number, nextEndShift: number, dragMode: DragMode) => {
+        const update: Partial<TodoFormData> = {};
+        // Only set a date the todo didn't have when its edge was dragged explicitly
+        if (todo.startDate || dragMode === 'start') update.startDate = addDays(start, nextStartShift);
+        if (todo.dueDate || dragMode === 'end') update.dueDate = addDays(end, nextEndShift);
+        onMove(todo, update);
+    };
+
+    const handlePointerDown = (dragMode: DragMode) => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag({ mode: dragMode, originX: e.clientX, delta: 0 });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!drag) return;
+        const next = Math.round((e.clientX - drag.originX) / dayWidth);
+        if (next !== drag.delta) {
+            setDrag({ ...drag, delta: next });
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        setDrag(null);
+
+        if (startShift === 0 && endShift === 0) {
+            if (drag.mode === 'move') onEdit(todo);
+            return;
+        }
+        commit(startShift, endShift, drag.mode);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            onEdit(todo);
+            return;
+        }
+        if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+        e.preventDefault();
+
+        const step = e.key === 'ArrowLeft' ? -1 : 1;
+        if (e.shiftKey) {
+            if (span + step >= 0) commit(0, step, 'end');
+        } else {
+            commit(step, step, 'move');
+        }
+    };
+
+    const handleClasses = 'absolute top-0 bottom-0 w-2 cursor-ew-resize rounded hover:bg-black/20';
+
+    return (
+        <div
+            role="button"
+            tabIndex={0}
+            onPointerDown={handlePointerDown('move')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDrag(null)}
+            onKeyDown={handleKeyDown}
+            className={`absolute top-1.5 bottom-1.5 rounded-md text-white text-xs font-medium px-2 flex items-center select-none touch-none ${
+                drag ? 'cursor-grabbing shadow-lg ring-2 ring-blue-400' : 'cursor-grab'
+            } ${PRIORITY_BARS[todo.priority]} ${todo.completed ? 'opacity-50' : ''} focus:outline-none focus:ring-2 focus:ring-blue-400`}
+            style={{ left, width: Math.max(width, dayWidth) }}
+            title={`${todo.title} (${start === end ? start : `${start} → ${end}`})`}
+            aria-label={`${todo.title}, ${start === end ? start : `from ${start} to ${end}`}`}
+        >
+            <span
+                onPointerDown={handlePointerDown('start')}
+                className={`${handleClasses} left-0`}
+                aria-hidden="true"
+            />
+            <span className={`truncate ${todo.completed ? 'line-through' : ''}`}>{todo.title}</span>
+            <span
+                onPointerDown={handlePointerDown('end')}
+                className={`${handleClasses} right-0`}
+                aria-hidden="true"
+            />
+        </div>
+    );
+}
+
+/**
+ * Horizontal timeline of todos grouped by category.
+ * Each todo is a bar from its start date to its due date, with a marker for today.
+ */
+export function TimelineView({
+                                 todos,
+                                 zoom,
+                                 onZoomChange,
+                                 onMove,
+                                 onEdit,
+                                 darkMode = false
+                             }: TimelineViewProps) {
+    const [windowStart, setWindowStart] = useState(() => getDefaultWindowStart(zoom));
+
+    const level = ZOOM_LEVELS[zoom];
+    const totalWidth = level.days * level.dayWidth;
+    const today = toLocalDateString(new Date());
+    const todayOffset = getDaysBetween(windowStart, today);
+
+    const days = useMemo(
+        () => getDaysInRange(
+            new Date(`${windowStart}T00:00:00`),
+            new Date(`${addDays(windowStart, level.days - 1)}T00:00:00`)
+        ),
+        [windowStart, level.days]
+    );
+
+    const ticks = useMemo(
+        () => days
+            .map((date, index) => ({ date, index }))
+            .filter(({ date, index }) => index === 0 || level.isTick(date)),
+        [days, level]
+    );
+
+    const { groups, undatedCount } = useMemo(() => {
+        const dated = todos.filter(todo => getSpan(todo));
+        const grouped = AdvancedFilterEngine.groupTodos(dated, 'category');
+        const sorted = Object.keys(grouped).sort((a, b) => a.localeCompare(b)).map(key => ({
+            key,
+            todos: [...grouped[key]].sort((a, b) => getSpan(a)!.start.localeCompare(getSpan(b)!.start)),
+        }));
+        return { groups: sorted, undatedCount: todos.length - dated.length };
+    }, [todos]);
+
+    const shiftWindow = (direction: 1 | -1) => {
+        setWindowStart(prev => addDays(prev, direction * Math.floor(level.days / 2)));
+    };
+
+    const handleZoomChange = (next: TimelineZoom) => {
+        setWindowStart(getDefaultWindowStart(next));
+        onZoomChange(next);
+    };
+
+    const todayMarker = todayOffset >= 0 && todayOffset < level.days && (
+        <div
+            className="absolute top-0 bottom-0 w-0.5 bg-red-500/70 pointer-events-none"
+            style={{ left: todayOffset * level.dayWidth + level.dayWidth / 2 }}
+        />
+    );
+
+    const navButtonClasses = `p-1.5 rounded-lg transition-colors ${
+        darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+    const labelClasses = `sticky left-0 z-10 flex-shrink-0 px-3 border-r ${
+        darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`;
+    const rowBorder = darkMode ? 'border-gray-700' : 'border-gray-100';
+
+    return (
+        <div className={`rounded-xl border-2 p-4 ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                    <button type="button" onClick={() => shiftWindow(-1)} className={navButtonClasses} aria-label="Earlier">
+                        <ChevronLeft className="w-5 h-5" />
+                    </button>
+                    <button type="button" onClick={() => shiftWindow(1)} className={navButtonClasses} aria-label="Later">
+                        <ChevronRight className="w-5 h-5" />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setWindowStart(getDefaultWindowStart(zoom))}
+                        className={`ml-1 px-2.5 py-1 rounded-lg text-xs font-medium ${
+                            darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                    >
+                        Today
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <span className={`text-sm font-medium ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                        Zoom:
+                    </span>
+                    {(Object.keys(ZOOM_LEVELS) as TimelineZoom[]).map(value => (
+                        <button
+                            key={value}
+                            type="button"
+                            onClick={() => handleZoomChange(value)}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                                zoom === value
+                                    ? 'bg-blue-500 text-white'
+                                    : darkMode
+                                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                        >
+                            {ZOOM_LEVELS[value].label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {groups.length === 0 ? (
+                <p className={`text-center py-12 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Give todos a start or due date to see them on the timeline
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <div style={{ width: LABEL_WIDTH + totalWidth }}>
+                        {/* Time scale */}
+                        <div className={`flex border-b ${rowBorder}`}>
+                            <div className={labelClasses} style={{ width: LABEL_WIDTH }} />
+                            <div className="relative h-8" style={{ width: totalWidth }}>
+                                {ticks.map(({ date, index }) => (
+                                    <div
+                                        key={index}
+                                        className={`absolute top-0 bottom-0 pl-1 border-l text-xs whitespace-nowrap overflow-hidden ${
+                                            darkMode ? 'border-gray-700 text-gray-400' : 'border-gray-200 text-gray-500'
+                                        }`}
+                                        style={{ left: index * level.dayWidth }}
+                                    >
+                                        {level.formatTick(date)}
+                                    </div>
+                                ))}
+                                {todayMarker}
+                            </div>
+                        </div>
+
+                        {groups.map(group => (
+                            <div key={group.key}>
+                                {/* Category header */}
+                                <div className={`flex border-b ${rowBorder}`}>
+                                    <div
+                                        className={`${labelClasses} py-2 text-xs font-semibold uppercase tracking-wider ${
+                                            darkMode ? 'text-gray-300' : 'text-gray-700'
+                                        }`}
+                                        style={{ width: LABEL_WIDTH }}
+                                    >
+                                        {group.key} ({group.todos.length})
+                                    </div>
+                                    <div
+                                        className={`relative ${darkMode ? 'bg-gray-900/30' : 'bg-gray-50'}`}
+                                        style={{ width: totalWidth }}
+                                    >
+                                        {todayMarker}
+                                    </div>
+                                </div>
+
+                                {group.todos.map(todo => {
+                                    const span = getSpan(todo)!;
+                                    return (
+                                        <div key={todo.id} className={`flex border-b ${rowBorder}`}>
+                                            <button
+                                                type="button"
+                                                onClick={() => onEdit(todo)}
+                                                className={`${labelClasses} py-2 text-left text-sm truncate ${
+                                                    todo.completed ? 'line-through opacity-60' : ''
+                                                } ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}
+                                                style={{ width: LABEL_WIDTH }}
+                                            >
+                                                {todo.title}
+                                            </button>
+                                            <div className="relative h-10 overflow-hidden" style={{ width: totalWidth }}>
+                                                {todayMarker}
+                                                <TimelineBar
+                                                    todo={todo}
+                                                    start={span.start}
+                                                    end={span.end}
+                                                    windowStart={windowStart}
+                                                    dayWidth={level.dayWidth}
+                                                    onMove={onMove}
+                                                    onEdit={onEdit}
+                                                />
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {undatedCount > 0 && (
+                <p className={`mt-4 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {undatedCount} {undatedCount === 1 ? 'todo has' : 'todos have'} no dates and {undatedCount === 1 ? 'is' : 'are'} not shown
+                </p>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export { TimelineView } from './TimelineView';
+export type { TimelineZoom } from './TimelineView';
\ No newline at end of file
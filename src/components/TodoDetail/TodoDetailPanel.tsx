@@ -0,0 +1,459 @@
+// src/components/TodoDetail/TodoDetailPanel.tsx
+import { useEffect, useState } from 'react';
+import { X, CheckCircle2, Circle, Trash2, Clock, History, Hash, Repeat, Pencil } from 'lucide-react';
+import { todoService, type TodoChange } from '../../services/todoService';
+import { RequestCancelledError } from '../../services/apiClient';
+import { formatRecurrenceRule } from '../../utils/dateUtils';
+import { FIELD_LABELS, formatChangeValue } from '../../utils/todoChanges';
+import { hasTag, normalizeTag } from '../../utils/tags';
+import { logger } from '../../utils/logger';
+import { Markdown } from '../Markdown';
+import type { Todo, TodoFormData } from '../TodoForm';
+
+interface TodoDetailPanelProps {
+    todoId: string;
+    /** Loaded todos; the panel shows the local copy when there is one (e.g. after an optimistic edit) */
+    todos: Todo[];
+    categories: string[];
+    onClose: () => void;
+    /** Server copy of the todo, so one that isn't loaded can still be changed */
+    onLoaded: (todo: Todo) => void;
+    /** Save changed fields of the todo */
+    onUpdate: (todo: Todo, fields: Partial<TodoFormData>) => void;
+    onDelete: (id: string) => void;
+    onSubtaskToggle: (todo: Todo, subtaskId: string) => void;
+    onSubtaskAdd: (todo: Todo, title: string) => void;
+    onSubtaskDelete: (todo: Todo, subtaskId: string) => void;
+    darkMode?: boolean;
+}
+
+const formatTimestamp = (value: string) =>
+    new Date(value).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Side panel with every field of one todo, editable in place, and its change history
+ */
+export function TodoDetailPanel({
+                                    todoId,
+                                    todos,
+                                    categories,
+                                    onClose,
+                                    onLoaded,
+                                    onUpdate,
+                                    onDelete,
+                                    onSubtaskToggle,
+                                    onSubtaskAdd,
+                                    onSubtaskDelete,
+                                    darkMode = false
+                                }: TodoDetailPanelProps) {
+    const [fetched, setFetched] = useState<Todo | null>(null);
+    const [notFound, setNotFound] = useState(false);
+    const [history, setHistory] = useState<TodoChange[] | null>(null);
+    const [historyError, setHistoryError] = useState(false);
+
+    // Field being edited and its draft value
+    const [editing, setEditing] = useState<'title' | 'description' | null>(null);
+    const [draft, setDraft] = useState('');
+    const [tagInput, setTagInput] = useState('');
+    const [subtaskInput, setSubtaskInput] = useState('');
+
+    const todo = todos.find(t => t.id === todoId) ?? fetched;
+
+    // Fresh copy from the server; also covers todos that aren't loaded (e.g. archived)
+    useEffect(() => {
+        const controller = new AbortController();
+        setNotFound(false);
+
+        todoService.getTodo(todoId, { signal: controller.signal })
+            .then(loaded => {
+                setFetched(loaded);
+                onLoaded(loaded);
+            })
+            .catch(error => {
+                if (error instanceof RequestCancelledError) return;
+                logger.warn('Failed to load todo:', error);
+                setNotFound(true);
+            });
+
+        return () => controller.abort();
+    }, [todoId, onLoaded]);
+
+    // Reload the history whenever the todo changes
+    const updatedAt = todo?.updatedAt;
+    useEffect(() => {
+        const controller = new AbortController();
+        setHistoryError(false);
+
+        todoService.getTodoHistory(todoId, { signal: controller.signal })
+            .then(setHistory)
+            .catch(error => {
+                if (error instanceof RequestCancelledError) return;
+                logger.warn('Failed to load todo history:', error);
+                setHistoryError(true);
+            });
+
+        return () => controller.abort();
+    }, [todoId, updatedAt]);
+
+    // Close with Escape (unless a field is being edited)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && !editing) onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [editing, onClose]);
+
+    const startEditing = (field: 'title' | 'description', value: string) => {
+        setEditing(field);
+        setDraft(value);
+    };
+
+    const commitEditing = () => {
+        if (!todo || !editing) return;
+
+        const value = editing === 'title' ? draft.trim() : draft;
+        const current = editing === 'title' ? todo.title : todo.description || '';
+        setEditing(null);
+
+        // A todo always needs a title
+        if (value !== current && (editing !== 'title' || value)) {
+            onUpdate(todo, { [editing]: value });
+        }
+    };
+
+    const handleEditKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            setEditing(null);
+        } else if (e.key === 'Enter' && (editing === 'title' || e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            commitEditing();
+        }
+    };
+
+    const handleAddTag = () => {
+        const tag = normalizeTag(tagInput);
+        setTagInput('');
+        if (!todo || !tag || hasTag(todo.tags, tag)) return;
+        onUpdate(todo, { tags: [...(todo.tags || []), tag] });
+    };
+
+    const handleAddSubtask = () => {
+        const title = subtaskInput.trim();
+        setSubtaskInput('');
+        if (!todo || !title) return;
+        onSubtaskAdd(todo, title);
+    };
+
+    const panelClasses = darkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-900';
+    const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+    const inputClasses = `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+        darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+    }`;
+    const sectionTitle = `flex items-center gap-2 text-xs font-semibold uppercase tracking-wider mb-2 ${mutedText}`;
+
+    // Todos completed before completedAt was tracked: take it from the history
+    const completedAt = todo?.completed
+        ? todo.completedAt ?? [...(history || [])].reverse()
+            .find(change => change.field === 'completed' && change.newValue === true)?.changedAt
+        : undefined;
+
+    return (
+        <div className="fixed inset-0 z-40 flex justify-end" role="dialog" aria-modal="true" aria-label="Todo details">
+            <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+            <aside className={`relative w-full max-w-lg h-full overflow-y-auto shadow-2xl ${panelClasses}`}>
+                {/* Header */}
+                <div className={`sticky top-0 z-10 flex items-center justify-between px-6 py-4 border-b ${
+                    darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                }`}>
+                    <span className={`text-sm font-medium ${mutedText}`}>Todo details</span>
+                    <div className="flex items-center gap-1">
+                        {todo && (
+                            <button
+                                onClick={() => {
+                                    onDelete(todo.id);
+                                    onClose();
+                                }}
+                                className="p-2 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                aria-label="Move to trash"
+                                title="Move to trash"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button
+                            onClick={onClose}
+                            className={`p-2 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                            aria-label="Close"
+                        >
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                {!todo ? (
+                    <p className={`px-6 py-12 text-center text-sm ${mutedText}`}>
+                        {notFound ? 'This todo does not exist or was deleted' : 'Loading...'}
+                    </p>
+                ) : (
+                    <div className="px-6 py-5 space-y-6">
+                        {/* Title + status */}
+                        <div className="flex items-start gap-3">
+                            <button
+                                onClick={() => onUpdate(todo, { completed: !todo.completed })}
+                                className="mt-1 flex-shrink-0"
+                                aria-label={todo.completed ? 'Mark as incomplete' : 'Mark as complete'}
+                            >
+                                {todo.completed
+                                    ? <CheckCircle2 className="w-6 h-6 text-green-500" />
+                                    : <Circle className="w-6 h-6 text-gray-400" />}
+                            </button>
+                            {editing === 'title' ? (
+                                <input
+                                    autoFocus
+                                    value={draft}
+                                    onChange={(e) => setDraft(e.target.value)}
+                                    onBlur={commitEditing}
+                                    onKeyDown={handleEditKeyDown}
+                                    maxLength={200}
+                                    className={`${inputClasses} text-lg font-semibold`}
+                                    aria-label="Title"
+                                />
+                            ) : (
+                                <h2
+                                    onClick={() => startEditing('title', todo.title)}
+                                    className={`flex-1 text-xl font-bold cursor-text rounded px-1 -mx-1 ${
+                                        darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+                                    } ${todo.completed ? 'line-through opacity-60' : ''}`}
+                                    title="Click to edit"
+                                >
+                                    {todo.title}
+                                </h2>
+                            )}
+                        </div>
+
+                        {/* Description */}
+                        <section>
+                            <div className="flex items-center justify-between">
+                                <h3 className={sectionTitle}>Description</h3>
+                                {editing !== 'description' && (
+                                    <button
+                                        onClick={() => startEditing('description', todo.description || '')}
+                                        className={`p-1 rounded ${mutedText} ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                                        aria-label="Edit description"
+                                    >
+                                        <Pencil className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                            {editing === 'description' ? (
+                                <textarea
+                                    autoFocus
+                                    value={draft}
+                                    onChange={(e) => setDraft(e.target.value)}
+                                    onBlur={commitEditing}
+                                    onKeyDown={handleEditKeyDown}
+                                    rows={6}
+                                    maxLength={1000}
+                                    className={`${inputClasses} resize-y`}
+                                    aria-label="Description"
+                                />
+                            ) : todo.description ? (
+                                <Markdown
+                                    source={todo.description}
+                                    onChange={(description) => onUpdate(todo, { description })}
+                                    darkMode={darkMode}
+                                    className={`text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}
+                                />
+                            ) : (
+                                <p className={`text-sm italic ${mutedText}`}>No description</p>
+                            )}
+                        </section>
+
+                        {/* Fields */}
+                        <section className="grid grid-cols-2 gap-4">
+                            <label className="text-sm">
+                                <span className={sectionTitle}>Priority</span>
+                                <select
+                                    value={todo.priority}
+                                    onChange={(e) => onUpdate(todo, { priority: e.target.value as Todo['priority'] })}
+                                    className={inputClasses}
+                                >
+                                    <option value="HIGH">🔴 High</option>
+                                    <option value="MEDIUM">🟡 Medium</option>
+                                    <option value="LOW">🟢 Low</option>
+                                </select>
+                            </label>
+                            <label className="text-sm">
+                                <span className={sectionTitle}>Category</span>
+                                <input
+                                    key={todo.category || ''}
+                                    defaultValue={todo.category || ''}
+                                    list="todo-detail-categories"
+                                    onBlur={(e) => {
+                                        const category = e.target.value.trim();
+                                        if (category !== (todo.category || '')) onUpdate(todo, { category });
+                                    }}
+                                    placeholder="None"
+                                    className={inputClasses}
+                                />
+                                <datalist id="todo-detail-categories">
+                                    {categories.map(category => <option key={category} value={category} />)}
+                                </datalist>
+                            </label>
+                            <label className="text-sm">
+                                <span className={sectionTitle}>Start date</span>
+                                <input
+                                    type="date"
+                                    value={todo.startDate?.split('T')[0] || ''}
+                                    max={todo.dueDate?.split('T')[0]}
+                                    onChange={(e) => onUpdate(todo, { startDate: e.target.value })}
+                                    className={inputClasses}
+                                />
+                            </label>
+                            <label className="text-sm">
+                                <span className={sectionTitle}>Due date</span>
+                                <input
+                                    type="date"
+                                    value={todo.dueDate?.split('T')[0] || ''}
+                                    min={todo.startDate?.split('T')[0]}
+                                    onChange={(e) => onUpdate(todo, { dueDate: e.target.value })}
+                                    className={inputClasses}
+                                />
+                            </label>
+                        </section>
+
+                        {todo.recurrence && (
+                            <p className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                                <Repeat className="w-4 h-4" />
+                                {formatRecurrenceRule(todo.recurrence)}
+                            </p>
+                        )}
+
+                        {/* Tags */}
+                        <section>
+                            <h3 className={sectionTitle}><Hash className="w-3.5 h-3.5" />Tags</h3>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {todo.tags?.map(tag => (
+                                    <span
+                                        key={tag}
+                                        className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300"
+                                    >
+                                        #{tag}
+                                        <button
+                                            onClick={() => onUpdate(todo, { tags: todo.tags!.filter(t => t !== tag) })}
+                                            className="hover:text-red-600 dark:hover:text-red-400"
+                                            aria-label={`Remove tag ${tag}`}
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <input
+                                    value={tagInput}
+                                    onChange={(e) => setTagInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter' || e.key === ',') {
+                                            e.preventDefault();
+                                            handleAddTag();
+                                        }
+                                    }}
+                                    onBlur={handleAddTag}
+                                    placeholder="Add tag"
+                                    className={`w-28 px-2 py-1 rounded-lg border text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                                        darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+                                    }`}
+                                />
+                            </div>
+                        </section>
+
+                        {/* Checklist */}
+                        <section>
+                            <h3 className={sectionTitle}>Checklist</h3>
+                            <ul className="space-y-1.5">
+                                {todo.subtasks?.map(subtask => (
+                                    <li key={subtask.id} className="group flex items-center gap-2">
+                                        <label className="flex flex-1 items-center gap-2 text-sm cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={subtask.completed}
+                                                onChange={() => onSubtaskToggle(todo, subtask.id)}
+                                                className="w-4 h-4 rounded text-blue-600"
+                                            />
+                                            <span className={subtask.completed ? 'line-through opacity-60' : ''}>
+                                                {subtask.title}
+                                            </span>
+                                        </label>
+                                        <button
+                                            type="button"
+                                            onClick={() => onSubtaskDelete(todo, subtask.id)}
+                                            className={`p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity ${mutedText} hover:text-red-500`}
+                                            aria-label={`Remove ${subtask.title}`}
+                                        >
+                                            <X className="w-3.5 h-3.5" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            <input
+                                value={subtaskInput}
+                                onChange={(e) => setSubtaskInput(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        e.preventDefault();
+                                        handleAddSubtask();
+                                    }
+                                }}
+                                onBlur={handleAddSubtask}
+                                placeholder="Add checklist item"
+                                className={`mt-2 ${inputClasses}`}
+                            />
+                        </section>
+
+                        {/* Timestamps */}
+                        <section className={`space-y-1 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                            <h3 className={sectionTitle}><Clock className="w-3.5 h-3.5" />Timestamps</h3>
+                            <p>Created {formatTimestamp(todo.createdAt)}</p>
+                            <p>Updated {formatTimestamp(todo.updatedAt)}</p>
+                            {completedAt && <p>Completed {formatTimestamp(completedAt)}</p>}
+                            {todo.archivedAt && <p>Archived {formatTimestamp(todo.archivedAt)}</p>}
+                        </section>
+
+                        {/* History */}
+                        <section>
+                            <h3 className={sectionTitle}><History className="w-3.5 h-3.5" />History</h3>
+                            {historyError ? (
+                                <p className={`text-sm ${mutedText}`}>History is unavailable right now</p>
+                            ) : !history ? (
+                                <p className={`text-sm ${mutedText}`}>Loading...</p>
+                            ) : history.length === 0 ? (
+                                <p className={`text-sm ${mutedText}`}>No changes since the todo was created</p>
+                            ) : (
+                                <ol className={`relative border-l-2 ml-1.5 space-y-4 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                                    {[...history].reverse().map(change => (
+                                        <li key={change.id} className="ml-4">
+                                            <span className="absolute -left-[5px] mt-1.5 w-2 h-2 rounded-full bg-blue-500" />
+                                            <p className="text-sm">
+                                                <span className="font-medium">{FIELD_LABELS[change.field] ?? change.field}</span>
+                                                {': '}
+                                                <span className={mutedText}>{formatChangeValue(change.field, change.oldValue)}</span>
+                                                {' → '}
+                                                {formatChangeValue(change.field, change.newValue)}
+                                            </p>
+                                            <p className={`text-xs ${mutedText}`}>
+                                                {formatTimestamp(change.changedAt)}
+                                                {change.changedBy && ` · ${change.changedBy}`}
+                                            </p>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </section>
+                    </div>
+                )}
+            </aside>
+        </div>
+    );
+}
\ No newline at end of file
@@ -0,0 +1 @@
+export { TodoDetailPanel } from './TodoDetailPanel';
\ No newline at end of file
@@ -1,12 +1,23 @@
 // src/components/TodoFilters/TodoFilters.tsx
 import { useState } from 'react';
-import { Filter, X, ChevronDown, ChevronUp, Calendar, Flag, Tag } from 'lucide-react';
+import { Filter, X, ChevronDown, ChevronUp, Calendar, Flag, Tag, Hash, SlidersHorizontal } from 'lucide-react';
 import type { FilterOptions } from '../../hooks/useTodosAPI';
+import type { AdvancedFilterOptions } from '../../types/advancedFilters';
+import { AdvancedFilterEngine } from '../../utils/advancedFiltering';
+import { hasTag } from '../../utils/tags';
 
 interface TodoFiltersProps {
     filters: FilterOptions;
     onFiltersChange: (filters: FilterOptions) => void;
     categories?: string[];
+    tags?: string[];
+    tagCounts?: Record<string, number>;
+    /** Criteria from the advanced filter panel, applied on top of the quick filters */
+    advancedFilters?: AdvancedFilterOptions | null;
+    /** Shows the "Advanced" button */
+    onOpenAdvancedFilters?: () => void;
+    /** Called with null once the last advanced criterion is removed */
+    onAdvancedFiltersChange?: (filters: AdvancedFilterOptions | null) => void;
     darkMode?: boolean;
 }
 
@@ -40,9 +51,27 @@ const dateFilterOptions = [
     { value: 'no-date', label: 'No Due Date', icon: '❌' },
 ];
 
-export function TodoFilters({ filters, onFiltersChange, categories = [], darkMode = false }: TodoFiltersProps) {
+export function TodoFilters({
+                                filters,
+                                onFiltersChange,
+                                categories = [],
+                                tags = [],
+                                tagCounts = {},
+                                advancedFilters = null,
+                                onOpenAdvancedFilters,
+                                onAdvancedFiltersChange,
+                                darkMode = false
+                            }: TodoFiltersProps) {
     const [isExpanded, setIsExpanded] = useState(false);
 
+    const advancedItems = advancedFilters ? AdvancedFilterEngine.getFilterSummaryItems(advancedFilters) : [];
+
+    const removeAdvancedFilter = (keys: (keyof AdvancedFilterOptions)[]) => {
+        if (!advancedFilters || !onAdvancedFiltersChange) return;
+        const next = AdvancedFilterEngine.resetFilters(advancedFilters, keys);
+        onAdvancedFiltersChange(AdvancedFilterEngine.hasActiveFilters(next) ? next : null);
+    };
+
     const updateFilter = (key: keyof FilterOptions, value: string) => {
         onFiltersChange({ ...filters, [key]: value });
     };
@@ -52,10 +81,12 @@ export function TodoFilters({ filters, onFiltersChange, categories = [], darkMod
             status: 'all',
             priority: 'all',
             category: 'all',
+            tag: 'all',
             dateFilter: 'all',
             sortBy: 'created',
             sortOrder: 'desc',
         });
+        onAdvancedFiltersChange?.(null);
     };
 
     const toggleExpanded = () => {
@@ -66,14 +97,17 @@ export function TodoFilters({ filters, onFiltersChange, categories = [], darkMod
         filters.status !== 'all' ||
         filters.priority !== 'all' ||
         filters.category !== 'all' ||
-        filters.dateFilter !== 'all';
+        filters.tag !== 'all' ||
+        filters.dateFilter !== 'all' ||
+        advancedItems.length > 0;
 
     const activeFilterCount = [
         filters.status !== 'all',
         filters.priority !== 'all',
         filters.category !== 'all',
+        filters.tag !== 'all',
         filters.dateFilter !== 'all',
-    ].filter(Boolean).length;
+    ].filter(Boolean).length + advancedItems.length;
 
     const cardClasses = darkMode
         ? 'bg-gray-800 border-gray-700 text-gray-100'
@@ -107,6 +141,16 @@ export function TodoFilters({ filters, onFiltersChange, categories = [], darkMod
                     </div>
 
                     <div className="flex items-center gap-2 flex-shrink-0">
+                        {onOpenAdvancedFilters && (
+                            <button
+                                onClick={onOpenAdvancedFilters}
+                                className={`flex items-center gap-1.5 px-2.5 sm:px-3 py-1.5 sm:py-2 rounded-lg border text-xs sm:text-sm font-medium transition-all duration-200 ${buttonClasses}`}
+                                aria-label="Open advanced filters"
+                            >
+                                <SlidersHorizontal className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                                <span className="hidden xs:inline">Advanced</span>
+                            </button>
+                        )}
                         {hasActiveFilters && (
                             <button
                                 onClick={clearFilters}
@@ -133,6 +177,44 @@ export function TodoFilters({ filters, onFiltersChange, categories = [], darkMod
                 </div>
             </div>
 
+            {/* Active Tag Chip */}
+            {filters.tag !== 'all' && (
+                <div className="px-3 sm:px-4 pb-3 -mt-1">
+                    <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300">
+                        <Hash className="w-3 h-3" />
+                        {filters.tag}
+                        <button
+                            onClick={() => updateFilter('tag', 'all')}
+                            className="hover:text-red-600 dark:hover:text-red-400"
+                            aria-label={`Remove tag filter ${filters.tag}`}
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </span>
+                </div>
+            )}
+
+            {/* Advanced Filter Chips */}
+            {advancedItems.length > 0 && (
+                <div className="flex flex-wrap gap-2 px-3 sm:px-4 pb-3 -mt-1">
+                    {advancedItems.map(item => (
+                        <span
+                            key={item.label}
+                            className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                        >
+                            {item.label}
+                            <button
+                                onClick={() => removeAdvancedFilter(item.keys)}
+                                className="hover:text-red-600 dark:hover:text-red-400"
+                                aria-label={`Remove filter ${item.label}`}
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {/* Expanded Filters - Mobil Optimized */}
             <div
                 className={`overflow-hidden transition-all duration-300 ease-in-out ${
@@ -141,7 +223,7 @@ export function TodoFilters({ filters, onFiltersChange, categories = [], darkMod
             >
                 <div className="p-3 sm:p-4 pt-0 space-y-4 sm:space-y-5">
                     {/* Filter Grid - Tek sütun mobilde */}
-                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
                         {/* Status Filter */}
                         <div className="space-y-2">
                             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -200,6 +282,29 @@ export function TodoFilters({ filters, onFiltersChange, categories = [], darkMod
                             </select>
                         </div>
 
+                        {/* Tag Filter */}
+                        <div className="space-y-2">
+                            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                                <Hash className="w-4 h-4" />
+                                Tag
+                            </label>
+                            <select
+                                value={filters.tag}
+                                onChange={(e) => updateFilter('tag', e.target.value)}
+                                className={`w-full px-3 py-2.5 rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm transition-all duration-200 ${selectClasses}`}
+                            >
+                                <option value="all"># All Tags</option>
+                                {filters.tag !== 'all' && !hasTag(tags, filters.tag) && (
+                                    <option value={filters.tag}>#{filters.tag}</option>
+                                )}
+                                {tags.map(tag => (
+                                    <option key={tag} value={tag}>
+                                        #{tag}{tagCounts[tag] ? ` (${tagCounts[tag]})` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
                         {/* Date Filter */}
                         <div className="space-y-2">
                             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -1,6 +1,41 @@
 // src/components/TodoForm/TodoForm.tsx
 import { useState, useEffect } from 'react';
-import { X, Calendar, Tag, Flag, FileText, CheckSquare, Sparkles, AlertCircle } from 'lucide-react';
+import { X, Calendar, Tag, Flag, FileText, CheckSquare, Sparkles, AlertCircle, ListChecks, Plus, Trash2, Repeat, Hash } from 'lucide-react';
+import { createSubtask } from '../../utils/subtasks';
+import { getTagSuggestions, hasTag, normalizeTag } from '../../utils/tags';
+import { expandRecurrence, formatRecurrenceRule } from '../../utils/dateUtils';
+import { Markdown } from '../Markdown';
+
+/**
+ * Checklist item nested inside a todo
+ */
+export interface Subtask {
+    id: string;
+    title: string;
+    completed: boolean;
+}
+
+/**
+ * RRULE-style recurrence frequency
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * Recurrence rule for repeating todos
+ * - interval: repeat every N days/weeks/months (default 1)
+ * - byWeekday: weekdays for WEEKLY rules (0 = Sunday ... 6 = Saturday)
+ * - byMonthDay: day of month for MONTHLY rules (clamped to month length)
+ * - until: last allowed occurrence date (YYYY-MM-DD)
+ * - count: remaining occurrences including the current one
+ */
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    byWeekday?: number[];
+    byMonthDay?: number;
+    until?: string;
+    count?: number;
+}
 
 /**
  * Todo type definition
@@ -14,7 +49,18 @@ export interface Todo {
     category?: string;
     createdAt: string;
     updatedAt: string;
+    /** Day work on the todo begins; with dueDate it spans a timeline bar */
+    startDate?: string;
     dueDate?: string;
+    subtasks?: Subtask[];
+    recurrence?: RecurrenceRule | null;
+    tags?: string[];
+    /** Set while the todo is in the trash; purged after the retention period */
+    deletedAt?: string | null;
+    /** Set while the todo is archived (hidden from the list, kept for history) */
+    archivedAt?: string | null;
+    /** When the todo was completed; null while it is open */
+    completedAt?: string | null;
 }
 
 /**
@@ -25,8 +71,12 @@ export interface TodoFormData {
     description: string;
     priority: 'LOW' | 'MEDIUM' | 'HIGH';
     category: string;
+    startDate?: string;
     dueDate: string;
     completed?: boolean;
+    subtasks?: Subtask[];
+    recurrence?: RecurrenceRule | null;
+    tags?: string[];
 }
 
 /**
@@ -39,6 +89,9 @@ interface TodoFormProps {
     todo?: Todo | null;
     mode?: 'add' | 'edit';
     darkMode?: boolean;
+    availableTags?: string[];
+    /** Prefilled values in add mode (e.g. the due date of a clicked calendar day) */
+    initialValues?: Partial<TodoFormData>;
 }
 
 /**
@@ -85,6 +138,25 @@ const categoryOptions = [
     { value: 'Other', icon: '📌', color: 'text-gray-500' },
 ];
 
+/**
+ * Weekday toggles for weekly recurrence (0 = Sunday)
+ */
+const weekdayOptions = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 0, label: 'Sun' },
+];
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+    DAILY: 'day(s)',
+    WEEKLY: 'week(s)',
+    MONTHLY: 'month(s)',
+};
+
 /**
  * TodoForm Component
  * Professional task creation and editing form
@@ -95,7 +167,9 @@ export function TodoForm({
                              onSubmit,
                              todo,
                              mode = 'add',
-                             darkMode = false
+                             darkMode = false,
+                             availableTags = [],
+                             initialValues
                          }: TodoFormProps) {
     // Form state
     const [formData, setFormData] = useState<TodoFormData>({
@@ -103,9 +177,17 @@ export function TodoForm({
         description: '',
         priority: 'MEDIUM',
         category: '',
+        startDate: '',
         dueDate: '',
         completed: false,
+        subtasks: [],
+        recurrence: null,
+        tags: [],
     });
+    const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+    const [tagInput, setTagInput] = useState('');
+    const [isTagInputFocused, setIsTagInputFocused] = useState(false);
+    const [descriptionTab, setDescriptionTab] = useState<'write' | 'preview'>('write');
 
     // Validation state
     const [errors, setErrors] = useState<Partial<Record<keyof TodoFormData, string>>>({});
@@ -122,8 +204,12 @@ export function TodoForm({
                     description: todo.description || '',
                     priority: todo.priority,
                     category: todo.category || '',
+                    startDate: todo.startDate ? todo.startDate.split('T')[0] : '',
                     dueDate: todo.dueDate ? todo.dueDate.split('T')[0] : '',
                     completed: todo.completed,
+                    subtasks: todo.subtasks ? todo.subtasks.map(subtask => ({ ...subtask })) : [],
+                    recurrence: todo.recurrence || null,
+                    tags: todo.tags ? [...todo.tags] : [],
                 });
             } else {
                 setFormData({
@@ -131,14 +217,22 @@ export function TodoForm({
                     description: '',
                     priority: 'MEDIUM',
                     category: '',
+                    startDate: '',
                     dueDate: '',
                     completed: false,
+                    subtasks: [],
+                    recurrence: null,
+                    tags: [],
+                    ...initialValues,
                 });
             }
+            setNewSubtaskTitle('');
+            setTagInput('');
+            setDescriptionTab('write');
             setErrors({});
             setTouched({});
         }
-    }, [isOpen, mode, todo]);
+    }, [isOpen, mode, todo, initialValues]);
 
     /**
      * Validate form data
@@ -156,6 +250,22 @@ export function TodoForm({
             newErrors.description = 'Description must be less than 1000 characters';
         }
 
+        if (formData.subtasks?.some(subtask => !subtask.title.trim())) {
+            newErrors.subtasks = 'Checklist items cannot be empty';
+        }
+
+        if (formData.startDate && formData.dueDate && formData.startDate > formData.dueDate) {
+            newErrors.startDate = 'Start date must be on or before the due date';
+        }
+
+        if (formData.recurrence) {
+            if (!formData.dueDate) {
+                newErrors.recurrence = 'Recurring tasks need a due date';
+            } else if (formData.recurrence.frequency === 'WEEKLY' && formData.recurrence.byWeekday?.length === 0) {
+                newErrors.recurrence = 'Select at least one weekday';
+            }
+        }
+
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
@@ -186,6 +296,152 @@ export function TodoForm({
         }
     };
 
+    /**
+     * Append a new checklist item from the input field
+     */
+    const handleAddSubtask = () => {
+        if (!newSubtaskTitle.trim()) return;
+
+        setFormData(prev => ({
+            ...prev,
+            subtasks: [...(prev.subtasks || []), createSubtask(newSubtaskTitle)],
+        }));
+        setNewSubtaskTitle('');
+        setTouched(prev => ({ ...prev, subtasks: true }));
+    };
+
+    /**
+     * Update a single checklist item
+     */
+    const handleSubtaskChange = (id: string, changes: { title?: string; completed?: boolean }) => {
+        setFormData(prev => ({
+            ...prev,
+            subtasks: (prev.subtasks || []).map(subtask =>
+                subtask.id === id ? { ...subtask, ...changes } : subtask
+            ),
+        }));
+        setTouched(prev => ({ ...prev, subtasks: true }));
+
+        if (errors.subtasks) {
+            setErrors(prev => ({ ...prev, subtasks: undefined }));
+        }
+    };
+
+    /**
+     * Remove a checklist item
+     */
+    const handleRemoveSubtask = (id: string) => {
+        setFormData(prev => ({
+            ...prev,
+            subtasks: (prev.subtasks || []).filter(subtask => subtask.id !== id),
+        }));
+        setTouched(prev => ({ ...prev, subtasks: true }));
+    };
+
+    /**
+     * Add a tag (ignores empty and duplicate tags)
+     */
+    const handleAddTag = (rawTag: string) => {
+        const tag = normalizeTag(rawTag);
+        setTagInput('');
+        if (!tag || hasTag(formData.tags, tag)) return;
+
+        setFormData(prev => ({ ...prev, tags: [...(prev.tags || []), tag] }));
+        setTouched(prev => ({ ...prev, tags: true }));
+    };
+
+    /**
+     * Remove a tag
+     */
+    const handleRemoveTag = (tag: string) => {
+        setFormData(prev => ({ ...prev, tags: (prev.tags || []).filter(existing => existing !== tag) }));
+        setTouched(prev => ({ ...prev, tags: true }));
+    };
+
+    /**
+     * Keyboard handling for the tag input: Enter/comma adds, Backspace on empty removes the last tag
+     */
+    const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            handleAddTag(tagInput);
+        } else if (e.key === 'Backspace' && !tagInput && formData.tags && formData.tags.length > 0) {
+            handleRemoveTag(formData.tags[formData.tags.length - 1]);
+        }
+    };
+
+    const tagSuggestions = isTagInputFocused
+        ? getTagSuggestions(tagInput, availableTags, formData.tags)
+        : [];
+
+    /**
+     * Update the recurrence rule (null disables repetition)
+     */
+    const handleRecurrenceChange = (recurrence: RecurrenceRule | null) => {
+        setFormData(prev => ({ ...prev, recurrence }));
+        setTouched(prev => ({ ...prev, recurrence: true }));
+
+        if (errors.recurrence) {
+            setErrors(prev => ({ ...prev, recurrence: undefined }));
+        }
+    };
+
+    /**
+     * Switch recurrence frequency, keeping the interval and end condition
+     */
+    const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+        if (!frequency) {
+            handleRecurrenceChange(null);
+            return;
+        }
+
+        const dueDate = formData.dueDate ? new Date(`${formData.dueDate}T00:00:00`) : new Date();
+        handleRecurrenceChange({
+            frequency,
+            interval: formData.recurrence?.interval || 1,
+            byWeekday: frequency === 'WEEKLY' ? [dueDate.getDay()] : undefined,
+            byMonthDay: frequency === 'MONTHLY' ? dueDate.getDate() : undefined,
+            until: formData.recurrence?.until,
+            count: formData.recurrence?.count,
+        });
+    };
+
+    /**
+     * Toggle a weekday of a weekly recurrence
+     */
+    const toggleRecurrenceWeekday = (weekday: number) => {
+        if (!formData.recurrence) return;
+
+        const current = formData.recurrence.byWeekday || [];
+        handleRecurrenceChange({
+            ...formData.recurrence,
+            byWeekday: current.includes(weekday)
+                ? current.filter(day => day !== weekday)
+                : [...current, weekday],
+        });
+    };
+
+    /**
+     * Change how the recurrence ends (never / on date / after N occurrences)
+     */
+    const handleRecurrenceEndChange = (mode: 'never' | 'until' | 'count') => {
+        if (!formData.recurrence) return;
+
+        handleRecurrenceChange({
+            ...formData.recurrence,
+            until: mode === 'until' ? (formData.recurrence.until || formData.dueDate || getMinDate()) : undefined,
+            count: mode === 'count' ? (formData.recurrence.count || 5) : undefined,
+        });
+    };
+
+    const recurrenceEndMode = formData.recurrence?.until
+        ? 'until'
+        : formData.recurrence?.count !== undefined ? 'count' : 'never';
+
+    const upcomingOccurrences = formData.recurrence && formData.dueDate
+        ? expandRecurrence(formData.dueDate, formData.recurrence, 4)
+        : [];
+
     /**
      * Get minimum date for due date input (today)
      */
@@ -217,7 +473,7 @@ export function TodoForm({
             {/* Modal */}
             <div className={`relative ${
                 darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
-            } rounded-2xl shadow-2xl w-full max-w-2xl animate-scale-in border`}>
+            } rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-scale-in border`}>
 
                 {/* Header */}
                 <div className={`flex items-center justify-between p-6 border-b ${
@@ -291,17 +547,54 @@ export function TodoForm({
 
                     {/* Description Input */}
                     <div>
-                        <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
-                            <FileText className="w-4 h-4" />
-                            Description
-                        </label>
-                        <textarea
-                            value={formData.description}
-                            onChange={(e) => handleInputChange('description', e.target.value)}
-                            placeholder="Add more details about this task... (optional)"
-                            rows={4}
-                            className={`w-full px-4 py-3 border-2 rounded-xl transition-all resize-none ${inputBaseClasses} ${inputFocusClasses}`}
-                        />
+                        <div className="flex items-center justify-between mb-2">
+                            <label className={`flex items-center gap-2 text-sm font-semibold ${labelClasses}`}>
+                                <FileText className="w-4 h-4" />
+                                Description
+                            </label>
+                            <div className={`flex rounded-lg p-0.5 text-xs font-medium ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`} role="tablist">
+                                {(['write', 'preview'] as const).map(tab => (
+                                    <button
+                                        key={tab}
+                                        type="button"
+                                        role="tab"
+                                        aria-selected={descriptionTab === tab}
+                                        onClick={() => setDescriptionTab(tab)}
+                                        className={`px-3 py-1 rounded-md capitalize transition-colors ${
+                                            descriptionTab === tab
+                                                ? darkMode ? 'bg-gray-600 text-white' : 'bg-white text-gray-900 shadow-sm'
+                                                : darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700'
+                                        }`}
+                                    >
+                                        {tab}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {descriptionTab === 'write' ? (
+                            <textarea
+                                value={formData.description}
+                                onChange={(e) => handleInputChange('description', e.target.value)}
+                                placeholder="Add more details about this task... (optional, Markdown supported)"
+                                rows={4}
+                                className={`w-full px-4 py-3 border-2 rounded-xl transition-all resize-y ${inputBaseClasses} ${inputFocusClasses}`}
+                            />
+                        ) : (
+                            <div className={`min-h-[7.5rem] px-4 py-3 border-2 rounded-xl ${inputBaseClasses}`}>
+                                {formData.description.trim() ? (
+                                    <Markdown
+                                        source={formData.description}
+                                        onChange={(description) => handleInputChange('description', description)}
+                                        darkMode={darkMode}
+                                        className="text-sm"
+                                    />
+                                ) : (
+                                    <p className={`text-sm italic ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        Nothing to preview
+                                    </p>
+                                )}
+                            </div>
+                        )}
                         {touched.description && errors.description && (
                             <div className="mt-2 flex items-center gap-1 text-sm text-red-600 dark:text-red-400 animate-slideDown">
                                 <AlertCircle className="w-4 h-4" />
@@ -315,6 +608,89 @@ export function TodoForm({
                         </p>
                     </div>
 
+                    {/* Checklist */}
+                    <div>
+                        <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
+                            <ListChecks className="w-4 h-4" />
+                            Checklist
+                            {formData.subtasks && formData.subtasks.length > 0 && (
+                                <span className={`text-xs font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                    ({formData.subtasks.filter(subtask => subtask.completed).length}/{formData.subtasks.length})
+                                </span>
+                            )}
+                        </label>
+                        {formData.subtasks && formData.subtasks.length > 0 && (
+                            <ul className="space-y-2 mb-3">
+                                {formData.subtasks.map((subtask) => (
+                                    <li key={subtask.id} className="flex items-center gap-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={subtask.completed}
+                                            onChange={(e) => handleSubtaskChange(subtask.id, { completed: e.target.checked })}
+                                            className="w-5 h-5 rounded border-2 border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-2 focus:ring-blue-500 cursor-pointer"
+                                            aria-label={`Mark "${subtask.title}" as ${subtask.completed ? 'incomplete' : 'complete'}`}
+                                        />
+                                        <input
+                                            type="text"
+                                            value={subtask.title}
+                                            onChange={(e) => handleSubtaskChange(subtask.id, { title: e.target.value })}
+                                            className={`flex-1 px-3 py-2 border-2 rounded-lg text-sm transition-all ${inputBaseClasses} ${inputFocusClasses} ${
+                                                subtask.completed ? 'line-through opacity-60' : ''
+                                            }`}
+                                            aria-label="Checklist item title"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveSubtask(subtask.id)}
+                                            className={`p-2 rounded-lg transition-all ${
+                                                darkMode
+                                                    ? 'text-gray-400 hover:text-red-400 hover:bg-red-900/20'
+                                                    : 'text-gray-500 hover:text-red-600 hover:bg-red-50'
+                                            }`}
+                                            aria-label={`Remove "${subtask.title}"`}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newSubtaskTitle}
+                                onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        e.preventDefault();
+                                        handleAddSubtask();
+                                    }
+                                }}
+                                placeholder="Add a checklist item..."
+                                className={`flex-1 px-4 py-2.5 border-2 rounded-xl text-sm transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                            />
+                            <button
+                                type="button"
+                                onClick={handleAddSubtask}
+                                disabled={!newSubtaskTitle.trim()}
+                                className={`flex items-center gap-1.5 px-4 py-2.5 rounded-xl text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    darkMode
+                                        ? 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                }`}
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add
+                            </button>
+                        </div>
+                        {touched.subtasks && errors.subtasks && (
+                            <div className="mt-2 flex items-center gap-1 text-sm text-red-600 dark:text-red-400 animate-slideDown">
+                                <AlertCircle className="w-4 h-4" />
+                                <span>{errors.subtasks}</span>
+                            </div>
+                        )}
+                    </div>
+
                     {/* Priority Selection */}
                     <div>
                         <label className={`flex items-center gap-2 text-sm font-semibold mb-3 ${labelClasses}`}>
@@ -348,8 +724,8 @@ export function TodoForm({
                         </div>
                     </div>
 
-                    {/* Category and Due Date Grid */}
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {/* Category and Dates Grid */}
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                         {/* Category Select */}
                         <div>
                             <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
@@ -370,6 +746,21 @@ export function TodoForm({
                             </select>
                         </div>
 
+                        {/* Start Date Input */}
+                        <div>
+                            <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
+                                <Calendar className="w-4 h-4" />
+                                Start Date
+                            </label>
+                            <input
+                                type="date"
+                                value={formData.startDate || ''}
+                                onChange={(e) => handleInputChange('startDate', e.target.value)}
+                                max={formData.dueDate || undefined}
+                                className={`w-full px-4 py-3 border-2 rounded-xl transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                            />
+                        </div>
+
                         {/* Due Date Input */}
                         <div>
                             <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
@@ -385,6 +776,237 @@ export function TodoForm({
                             />
                         </div>
                     </div>
+                    {touched.startDate && errors.startDate && (
+                        <div className="-mt-2 flex items-center gap-1 text-sm text-red-600 dark:text-red-400 animate-slideDown">
+                            <AlertCircle className="w-4 h-4" />
+                            <span>{errors.startDate}</span>
+                        </div>
+                    )}
+
+                    {/* Tags */}
+                    <div>
+                        <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
+                            <Hash className="w-4 h-4" />
+                            Tags
+                        </label>
+                        <div className="relative">
+                            <div className={`flex flex-wrap items-center gap-2 w-full px-3 py-2 border-2 rounded-xl transition-all ${inputBaseClasses} ${
+                                isTagInputFocused ? 'ring-2 ring-blue-500/20 border-blue-500' : ''
+                            }`}>
+                                {formData.tags?.map((tag) => (
+                                    <span
+                                        key={tag}
+                                        className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300"
+                                    >
+                                        #{tag}
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveTag(tag)}
+                                            className="hover:text-red-600 dark:hover:text-red-400"
+                                            aria-label={`Remove tag ${tag}`}
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <input
+                                    type="text"
+                                    value={tagInput}
+                                    onChange={(e) => setTagInput(e.target.value)}
+                                    onKeyDown={handleTagKeyDown}
+                                    onFocus={() => setIsTagInputFocused(true)}
+                                    onBlur={() => {
+                                        setIsTagInputFocused(false);
+                                        if (tagInput.trim()) handleAddTag(tagInput);
+                                    }}
+                                    placeholder={formData.tags && formData.tags.length > 0 ? '' : 'Add tags (press Enter)...'}
+                                    className="flex-1 min-w-[120px] py-1 bg-transparent focus:outline-none text-sm"
+                                    aria-label="Add tag"
+                                    aria-autocomplete="list"
+                                />
+                            </div>
+                            {tagSuggestions.length > 0 && (
+                                <ul
+                                    className={`absolute z-10 left-0 right-0 mt-1 py-1 rounded-xl border shadow-xl ${
+                                        darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+                                    }`}
+                                    role="listbox"
+                                >
+                                    {tagSuggestions.map((tag) => (
+                                        <li key={tag}>
+                                            <button
+                                                type="button"
+                                                onMouseDown={(e) => {
+                                                    // Keep focus in the input so the list doesn't close first
+                                                    e.preventDefault();
+                                                    handleAddTag(tag);
+                                                }}
+                                                className={`w-full text-left px-4 py-2 text-sm ${
+                                                    darkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-50'
+                                                }`}
+                                                role="option"
+                                                aria-selected={false}
+                                            >
+                                                #{tag}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Recurrence */}
+                    <div>
+                        <label className={`flex items-center gap-2 text-sm font-semibold mb-2 ${labelClasses}`}>
+                            <Repeat className="w-4 h-4" />
+                            Repeat
+                        </label>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <select
+                                value={formData.recurrence?.frequency || ''}
+                                onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}
+                                className={`w-full px-4 py-3 border-2 rounded-xl transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                                aria-label="Repeat frequency"
+                            >
+                                <option value="">Does not repeat</option>
+                                <option value="DAILY">Daily</option>
+                                <option value="WEEKLY">Weekly</option>
+                                <option value="MONTHLY">Monthly</option>
+                            </select>
+
+                            {formData.recurrence && (
+                                <div className="flex items-center gap-2">
+                                    <span className={`text-sm ${labelClasses}`}>Every</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={365}
+                                        value={formData.recurrence.interval || 1}
+                                        onChange={(e) => handleRecurrenceChange({
+                                            ...formData.recurrence!,
+                                            interval: Math.max(1, parseInt(e.target.value) || 1),
+                                        })}
+                                        className={`w-20 px-3 py-3 border-2 rounded-xl transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                                        aria-label="Repeat interval"
+                                    />
+                                    <span className={`text-sm ${labelClasses}`}>
+                                        {frequencyUnits[formData.recurrence.frequency]}
+                                    </span>
+                                </div>
+                            )}
+                        </div>
+
+                        {formData.recurrence?.frequency === 'WEEKLY' && (
+                            <div className="flex flex-wrap gap-2 mt-3">
+                                {weekdayOptions.map((weekday) => {
+                                    const isActive = formData.recurrence?.byWeekday?.includes(weekday.value);
+                                    return (
+                                        <button
+                                            key={weekday.value}
+                                            type="button"
+                                            onClick={() => toggleRecurrenceWeekday(weekday.value)}
+                                            className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+                                                isActive
+                                                    ? 'bg-blue-600 text-white shadow-md'
+                                                    : darkMode
+                                                        ? 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                                                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                            }`}
+                                            aria-pressed={isActive}
+                                        >
+                                            {weekday.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {formData.recurrence?.frequency === 'MONTHLY' && (
+                            <div className="flex items-center gap-2 mt-3">
+                                <span className={`text-sm ${labelClasses}`}>On day</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={31}
+                                    value={formData.recurrence.byMonthDay || 1}
+                                    onChange={(e) => handleRecurrenceChange({
+                                        ...formData.recurrence!,
+                                        byMonthDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)),
+                                    })}
+                                    className={`w-20 px-3 py-2 border-2 rounded-xl transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                                    aria-label="Day of month"
+                                />
+                                <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                    Shorter months use their last day
+                                </span>
+                            </div>
+                        )}
+
+                        {formData.recurrence && (
+                            <div className="flex flex-wrap items-center gap-2 mt-3">
+                                <span className={`text-sm ${labelClasses}`}>Ends</span>
+                                <select
+                                    value={recurrenceEndMode}
+                                    onChange={(e) => handleRecurrenceEndChange(e.target.value as 'never' | 'until' | 'count')}
+                                    className={`px-3 py-2 border-2 rounded-xl text-sm transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                                    aria-label="Recurrence end"
+                                >
+                                    <option value="never">Never</option>
+                                    <option value="until">On date</option>
+                                    <option value="count">After</option>
+                                </select>
+                                {recurrenceEndMode === 'until' && (
+                                    <input
+                                        type="date"
+                                        value={formData.recurrence.until || ''}
+                                        min={formData.dueDate || getMinDate()}
+                                        onChange={(e) => handleRecurrenceChange({
+                                            ...formData.recurrence!,
+                                            until: e.target.value || undefined,
+                                        })}
+                                        className={`px-3 py-2 border-2 rounded-xl text-sm transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                                        aria-label="Repeat until"
+                                    />
+                                )}
+                                {recurrenceEndMode === 'count' && (
+                                    <>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={999}
+                                            value={formData.recurrence.count || 1}
+                                            onChange={(e) => handleRecurrenceChange({
+                                                ...formData.recurrence!,
+                                                count: Math.max(1, parseInt(e.target.value) || 1),
+                                            })}
+                                            className={`w-20 px-3 py-2 border-2 rounded-xl text-sm transition-all ${inputBaseClasses} ${inputFocusClasses}`}
+                                            aria-label="Number of occurrences"
+                                        />
+                                        <span className={`text-sm ${labelClasses}`}>occurrences</span>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {formData.recurrence && (
+                            <p className={`mt-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                {formatRecurrenceRule(formData.recurrence)}
+                                {upcomingOccurrences.length > 0 && (
+                                    <> · Next: {upcomingOccurrences.map(date =>
+                                        new Date(`${date}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' })
+                                    ).join(', ')}</>
+                                )}
+                            </p>
+                        )}
+
+                        {touched.recurrence && errors.recurrence && (
+                            <div className="mt-2 flex items-center gap-1 text-sm text-red-600 dark:text-red-400 animate-slideDown">
+                                <AlertCircle className="w-4 h-4" />
+                                <span>{errors.recurrence}</span>
+                            </div>
+                        )}
+                    </div>
 
                     {/* Form Actions */}
                     <div className={`flex gap-3 pt-6 border-t ${
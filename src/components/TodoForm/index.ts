@@ -1,2 +1,2 @@
 export { TodoForm } from './TodoForm';
-export type { TodoFormData, Todo } from './TodoForm';
\ No newline at end of file
+export type { TodoFormData, Todo, Subtask, RecurrenceRule, RecurrenceFrequency } from './TodoForm';
\ No newline at end of file
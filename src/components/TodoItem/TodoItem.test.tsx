@@ -0,0 +1,36 @@
+// src/components/TodoItem/TodoItem.test.tsx
+import { fireEvent, render, screen } from '@testing-library/react';
+import { makeTodo } from '../../test/todoFixtures';
+import { TodoItem } from './TodoItem';
+
+describe('TodoItem', () => {
+    const defaultProps = {
+        onToggle: jest.fn(),
+        onEdit: jest.fn(),
+        onDelete: jest.fn(),
+    };
+
+    it('should call the latest tag handler after re-rendering the same todo', () => {
+        const todo = makeTodo({ tags: ['work'] });
+        const firstHandler = jest.fn();
+        const latestHandler = jest.fn();
+
+        const { rerender } = render(<TodoItem {...defaultProps} todo={todo} onTagClick={firstHandler} />);
+        rerender(<TodoItem {...defaultProps} todo={todo} onTagClick={latestHandler} />);
+        fireEvent.click(screen.getByText('#work'));
+
+        expect(latestHandler).toHaveBeenCalledWith('work');
+        expect(firstHandler).not.toHaveBeenCalled();
+    });
+
+    it('should stop offering to archive a row once it is archived', () => {
+        const todo = makeTodo({ completed: true });
+        const onArchive = jest.fn();
+
+        const { rerender } = render(<TodoItem {...defaultProps} todo={todo} onArchive={onArchive} />);
+        expect(screen.getByLabelText('Archive todo')).toBeInTheDocument();
+
+        rerender(<TodoItem {...defaultProps} todo={{ ...todo, archivedAt: '2026-10-19T09:00:00' }} onArchive={onArchive} />);
+        expect(screen.queryByLabelText('Archive todo')).not.toBeInTheDocument();
+    });
+});
\ No newline at end of file
@@ -1,5 +1,5 @@
 // src/components/TodoItem/TodoItem.tsx
-import { memo, useCallback, useMemo } from 'react';
+import { memo, useCallback, useMemo, useState } from 'react';
 import {
     CheckCircle2,
     Circle,
@@ -8,17 +8,36 @@ import {
     Calendar,
     Flag,
     Clock,
-    AlertCircle
+    AlertCircle,
+    ListChecks,
+    Repeat,
+    Archive,
+    CheckSquare,
+    Square
 } from 'lucide-react';
 import type { Todo } from '../TodoForm';
+import { Markdown } from '../Markdown';
+import { HighlightedText } from '../HighlightedText';
+import { getMatchSnippet, type SearchHighlights } from '../../utils/searchIndex';
+import { getSubtaskProgress } from '../../utils/subtasks';
+import { formatRecurrenceRule, formatSmartDate, getNextOccurrence } from '../../utils/dateUtils';
 
 interface TodoItemProps {
     todo: Todo;
     onToggle: (id: string) => void;
     onEdit: (todo: Todo) => void;
     onDelete: (id: string) => void;
+    /** Offered for completed todos */
+    onArchive?: (id: string) => void;
     isSelected?: boolean;
     onSelect?: (id: string, selected: boolean) => void;
+    onTagClick?: (tag: string) => void;
+    /** Makes task list checkboxes in the description clickable */
+    onDescriptionChange?: (todo: Todo, description: string) => void;
+    /** Makes the checklist expandable with checkable items */
+    onSubtaskToggle?: (todo: Todo, subtaskId: string) => void;
+    /** Search matches to mark */
+    highlights?: SearchHighlights;
     darkMode?: boolean;
 }
 
@@ -90,8 +109,13 @@ export const TodoItem = memo<TodoItemProps>(({
                                                  onToggle,
                                                  onEdit,
                                                  onDelete,
+                                                 onArchive,
                                                  isSelected = false,
                                                  onSelect,
+                                                 onTagClick,
+                                                 onDescriptionChange,
+                                                 onSubtaskToggle,
+                                                 highlights,
                                                  darkMode = false
                                              }) => {
     // Memoized handlers
@@ -107,6 +131,20 @@ export const TodoItem = memo<TodoItemProps>(({
         onDelete(todo.id);
     }, [todo.id, onDelete]);
 
+    const handleArchive = useCallback(() => {
+        onArchive?.(todo.id);
+    }, [todo.id, onArchive]);
+
+    const handleDescriptionChange = useCallback((description: string) => {
+        onDescriptionChange?.(todo, description);
+    }, [todo, onDescriptionChange]);
+
+    const [isChecklistOpen, setIsChecklistOpen] = useState(false);
+
+    const toggleChecklist = useCallback(() => {
+        setIsChecklistOpen(open => !open);
+    }, []);
+
     const handleSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         onSelect?.(todo.id, e.target.checked);
     }, [todo.id, onSelect]);
@@ -140,7 +178,24 @@ export const TodoItem = memo<TodoItemProps>(({
         });
     }, [todo.dueDate]);
 
+    const subtaskProgress = useMemo(() => getSubtaskProgress({ subtasks: todo.subtasks }), [todo.subtasks]);
+
+    const recurrenceInfo = useMemo(() => {
+        if (!todo.recurrence) return null;
+        const nextDate = todo.dueDate ? getNextOccurrence(todo.dueDate, todo.recurrence) : null;
+        return {
+            label: formatRecurrenceRule(todo.recurrence),
+            next: nextDate ? formatSmartDate(`${nextDate}T00:00:00`) : null,
+        };
+    }, [todo.recurrence, todo.dueDate]);
+
     const priorityStyles = useMemo(() => getPriorityStyles(todo.priority), [todo.priority]);
+    const descriptionSnippet = useMemo(() => (
+        todo.description && highlights?.description.length
+            ? getMatchSnippet(todo.description, highlights.description)
+            : null
+    ), [todo.description, highlights]);
+
     const categoryColor = useMemo(() => getCategoryColor(todo.category), [todo.category]);
 
     return (
@@ -203,7 +258,7 @@ export const TodoItem = memo<TodoItemProps>(({
                                 }
                                 `}
                             >
-                                {todo.title}
+                                <HighlightedText text={todo.title} ranges={highlights?.title} />
                             </h3>
 
                             {/* Priority Badge */}
@@ -216,17 +271,27 @@ export const TodoItem = memo<TodoItemProps>(({
                             </div>
                         </div>
 
-                        {/* Description */}
-                        {todo.description && (
+                        {/* Description: the matching excerpt for search results */}
+                        {descriptionSnippet ? (
                             <p className={`
-                                text-sm leading-relaxed mb-3 line-clamp-2
-                                ${todo.completed
-                                ? 'line-through text-gray-500 dark:text-gray-400'
-                                : `${darkMode ? 'text-gray-300' : 'text-gray-600'}`
-                            }
+                                text-sm leading-relaxed mb-3 whitespace-pre-line break-words
+                                ${darkMode ? 'text-gray-300' : 'text-gray-600'}
                             `}>
-                                {todo.description}
+                                <HighlightedText text={descriptionSnippet.text} ranges={descriptionSnippet.ranges} />
                             </p>
+                        ) : todo.description && (
+                            <Markdown
+                                source={todo.description}
+                                onChange={onDescriptionChange && handleDescriptionChange}
+                                darkMode={darkMode}
+                                className={`
+                                    text-sm leading-relaxed mb-3 max-h-32 overflow-y-auto
+                                    ${todo.completed
+                                    ? 'line-through text-gray-500 dark:text-gray-400'
+                                    : `${darkMode ? 'text-gray-300' : 'text-gray-600'}`
+                                }
+                                `}
+                            />
                         )}
 
                         {/* Metadata Row */}
@@ -239,10 +304,30 @@ export const TodoItem = memo<TodoItemProps>(({
                                     border ${darkMode ? 'border-gray-600' : 'border-gray-200'}
                                 `}>
                                     <span>📁</span>
-                                    <span>{todo.category}</span>
+                                    <span><HighlightedText text={todo.category} ranges={highlights?.category} /></span>
                                 </div>
                             )}
 
+                            {/* Tag Chips */}
+                            {todo.tags?.map((tag) => (
+                                <button
+                                    key={tag}
+                                    type="button"
+                                    onClick={() => onTagClick?.(tag)}
+                                    disabled={!onTagClick}
+                                    className={`
+                                        px-2.5 py-1 rounded-full text-xs font-medium
+                                        bg-teal-100 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300
+                                        ${onTagClick ? 'hover:bg-teal-200 dark:hover:bg-teal-900/50 cursor-pointer' : 'cursor-default'}
+                                        ${highlights?.tags.includes(tag) ? 'ring-2 ring-yellow-400 dark:ring-yellow-500/60' : ''}
+                                        transition-colors
+                                    `}
+                                    title={onTagClick ? `Show todos tagged #${tag}` : undefined}
+                                >
+                                    #{tag}
+                                </button>
+                            ))}
+
                             {/* Due Date */}
                             {todo.dueDate && (
                                 <div className={`
@@ -276,11 +361,88 @@ export const TodoItem = memo<TodoItemProps>(({
                                 </div>
                             )}
 
+                            {/* Recurrence Badge */}
+                            {recurrenceInfo && (
+                                <div
+                                    className={`
+                                        flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium
+                                        bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300
+                                        border ${darkMode ? 'border-gray-600' : 'border-gray-200'}
+                                    `}
+                                    title={recurrenceInfo.label}
+                                >
+                                    <Repeat className="w-3.5 h-3.5" />
+                                    <span>
+                                        {recurrenceInfo.next ? `Next: ${recurrenceInfo.next}` : 'Last occurrence'}
+                                    </span>
+                                </div>
+                            )}
+
+                            {/* Subtask Progress (opens the checklist) */}
+                            {subtaskProgress.total > 0 && (
+                                <button
+                                    type="button"
+                                    onClick={toggleChecklist}
+                                    disabled={!onSubtaskToggle}
+                                    aria-expanded={onSubtaskToggle ? isChecklistOpen : undefined}
+                                    className={`
+                                        flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium
+                                        ${subtaskProgress.completed === subtaskProgress.total
+                                        ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                                        : `${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-700'}`
+                                    }
+                                        border ${darkMode ? 'border-gray-600' : 'border-gray-200'}
+                                        ${onSubtaskToggle ? 'cursor-pointer hover:ring-2 hover:ring-green-500/30' : 'cursor-default'}
+                                    `}
+                                    title={`${subtaskProgress.completed} of ${subtaskProgress.total} checklist items done`}
+                                >
+                                    <ListChecks className="w-3.5 h-3.5" />
+                                    <span>{subtaskProgress.completed}/{subtaskProgress.total}</span>
+                                    <div className="w-10 h-1.5 rounded-full bg-gray-300/60 dark:bg-gray-600 overflow-hidden">
+                                        <div
+                                            className="h-full bg-green-500 transition-all duration-300"
+                                            style={{ width: `${subtaskProgress.percentage}%` }}
+                                        />
+                                    </div>
+                                </button>
+                            )}
+
                             {/* Priority Icon (Small) */}
                             <div className={`flex items-center gap-1 text-xs ${priorityStyles.icon}`}>
                                 <Flag className="w-3.5 h-3.5" />
                             </div>
                         </div>
+
+                        {/* Checklist */}
+                        {onSubtaskToggle && isChecklistOpen && todo.subtasks && todo.subtasks.length > 0 && (
+                            <ul className="mt-3 space-y-1" aria-label={`Checklist of ${todo.title}`}>
+                                {todo.subtasks.map(subtask => (
+                                    <li key={subtask.id}>
+                                        <button
+                                            type="button"
+                                            onClick={() => onSubtaskToggle(todo, subtask.id)}
+                                            className={`
+                                                flex items-center gap-2 w-full px-2 py-1 rounded-lg text-sm text-left transition-colors
+                                                ${darkMode ? 'hover:bg-gray-700/50' : 'hover:bg-gray-100'}
+                                            `}
+                                            aria-label={`${subtask.completed ? 'Uncheck' : 'Check'} ${subtask.title}`}
+                                        >
+                                            {subtask.completed ? (
+                                                <CheckSquare className="w-4 h-4 flex-shrink-0 text-green-500" />
+                                            ) : (
+                                                <Square className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                                            )}
+                                            <span className={subtask.completed
+                                                ? 'line-through text-gray-500 dark:text-gray-400'
+                                                : `${darkMode ? 'text-gray-200' : 'text-gray-700'}`
+                                            }>
+                                                {subtask.title}
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
 
                     {/* Action Buttons */}
@@ -300,6 +462,23 @@ export const TodoItem = memo<TodoItemProps>(({
                             <Edit className="w-4 h-4" />
                         </button>
 
+                        {onArchive && todo.completed && !todo.archivedAt && (
+                            <button
+                                onClick={handleArchive}
+                                className={`
+                                    p-2 rounded-xl transition-all
+                                    ${darkMode
+                                    ? 'text-gray-400 hover:text-amber-400 hover:bg-amber-900/20'
+                                    : 'text-gray-500 hover:text-amber-600 hover:bg-amber-50'
+                                }
+                                    transform hover:scale-110
+                                `}
+                                aria-label="Archive todo"
+                            >
+                                <Archive className="w-4 h-4" />
+                            </button>
+                        )}
+
                         <button
                             onClick={handleDelete}
                             className={`
@@ -329,6 +508,16 @@ export const TodoItem = memo<TodoItemProps>(({
         prevProps.todo.priority === nextProps.todo.priority &&
         prevProps.todo.category === nextProps.todo.category &&
         prevProps.todo.dueDate === nextProps.todo.dueDate &&
+        prevProps.todo.subtasks === nextProps.todo.subtasks &&
+        prevProps.todo.recurrence === nextProps.todo.recurrence &&
+        prevProps.todo.tags === nextProps.todo.tags &&
+        prevProps.todo.archivedAt === nextProps.todo.archivedAt &&
+        prevProps.highlights === nextProps.highlights &&
+        // Handlers that read the current filters must not go stale
+        prevProps.onTagClick === nextProps.onTagClick &&
+        prevProps.onArchive === nextProps.onArchive &&
+        prevProps.onDescriptionChange === nextProps.onDescriptionChange &&
+        prevProps.onSubtaskToggle === nextProps.onSubtaskToggle &&
         prevProps.isSelected === nextProps.isSelected &&
         prevProps.darkMode === nextProps.darkMode
     );
@@ -1,90 +1,125 @@
 // src/components/TodoListView/TodoListView.tsx
+import { useMemo, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
 import { TodoItem } from '../TodoItem';
 import type { Todo } from '../TodoForm';
+import type { AdvancedFilterOptions } from '../../types/advancedFilters';
+import type { SearchHighlights } from '../../utils/searchIndex';
+import { AdvancedFilterEngine } from '../../utils/advancedFiltering';
 
 interface TodoListViewProps {
     todos: Todo[];
+    /** Sections of the list; "none" shows a single flat list */
+    groupBy?: AdvancedFilterOptions['groupBy'];
     onToggle: (id: string) => void;
     onEdit: (todo: Todo) => void;
     onDelete: (id: string) => void;
+    onArchive?: (id: string) => void;
     onSelect?: (id: string, selected: boolean) => void;
+    onTagClick?: (tag: string) => void;
+    onDescriptionChange?: (todo: Todo, description: string) => void;
+    onSubtaskToggle?: (todo: Todo, subtaskId: string) => void;
+    /** Matched parts of search results, by todo id */
+    searchHighlights?: Record<string, SearchHighlights>;
     selectedTodos?: Set<string>;
     isDarkMode: boolean;
 }
 
 export function TodoListView({
                                  todos,
+                                 groupBy = 'status',
                                  onToggle,
                                  onEdit,
                                  onDelete,
+                                 onArchive,
                                  onSelect,
+                                 onTagClick,
+                                 onDescriptionChange,
+                                 onSubtaskToggle,
+                                 searchHighlights,
                                  selectedTodos = new Set(),
                                  isDarkMode,
                              }: TodoListViewProps) {
-    // Group todos by completion status
-    const activeTodos = todos.filter(todo => !todo.completed);
-    const completedTodos = todos.filter(todo => todo.completed);
+    // Keys of the groups folded away
+    const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+
+    const groups = useMemo(() => {
+        const grouped = AdvancedFilterEngine.groupTodos(todos, groupBy);
+        return AdvancedFilterEngine.sortGroupKeys(Object.keys(grouped), groupBy)
+            .map(key => ({ key, todos: grouped[key] }));
+    }, [todos, groupBy]);
+
+    const toggleGroup = (key: string) => {
+        setCollapsedGroups(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const renderTodos = (groupTodos: Todo[]) => (
+        <div className="grid gap-3">
+            {groupTodos.map((todo) => (
+                <TodoItem
+                    key={todo.id}
+                    todo={todo}
+                    onToggle={onToggle}
+                    onEdit={onEdit}
+                    onDelete={onDelete}
+                    onArchive={onArchive}
+                    onSelect={onSelect}
+                    onTagClick={onTagClick}
+                    onDescriptionChange={onDescriptionChange}
+                    onSubtaskToggle={onSubtaskToggle}
+                    highlights={searchHighlights?.[todo.id]}
+                    isSelected={selectedTodos.has(todo.id)}
+                    darkMode={isDarkMode}
+                />
+            ))}
+        </div>
+    );
+
+    if (groupBy === 'none') {
+        return renderTodos(todos);
+    }
 
     return (
         <div className="space-y-6">
-            {/* Active Tasks Section */}
-            {activeTodos.length > 0 && (
-                <div>
-                    <div className="flex items-center gap-3 mb-4">
-                        <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 dark:via-gray-700 to-transparent" />
-                        <h2 className={`text-sm font-semibold uppercase tracking-wider ${
-                            isDarkMode ? 'text-gray-400' : 'text-gray-600'
-                        }`}>
-                            Active Tasks ({activeTodos.length})
-                        </h2>
-                        <div className="flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 dark:via-gray-700 to-transparent" />
-                    </div>
-                    <div className="grid gap-3">
-                        {activeTodos.map((todo) => (
-                            <TodoItem
-                                key={todo.id}
-                                todo={todo}
-                                onToggle={onToggle}
-                                onEdit={onEdit}
-                                onDelete={onDelete}
-                                onSelect={onSelect}
-                                isSelected={selectedTodos.has(todo.id)}
-                                darkMode={isDarkMode}
-                            />
-                        ))}
-                    </div>
-                </div>
-            )}
+            {groups.map(group => {
+                const isCollapsed = collapsedGroups.has(group.key);
+                // Completed todos keep their green section
+                const isCompletedGroup = groupBy === 'status' && group.key === 'Completed';
+                const lineClasses = isCompletedGroup
+                    ? 'flex-1 h-px bg-gradient-to-r from-transparent via-green-300 dark:via-green-700 to-transparent'
+                    : 'flex-1 h-px bg-gradient-to-r from-transparent via-gray-300 dark:via-gray-700 to-transparent';
 
-            {/* Completed Tasks Section */}
-            {completedTodos.length > 0 && (
-                <div>
-                    <div className="flex items-center gap-3 mb-4">
-                        <div className="flex-1 h-px bg-gradient-to-r from-transparent via-green-300 dark:via-green-700 to-transparent" />
-                        <h2 className={`text-sm font-semibold uppercase tracking-wider flex items-center gap-2 ${
-                            isDarkMode ? 'text-green-400' : 'text-green-600'
-                        }`}>
-                            <span>✓</span>
-                            <span>Completed ({completedTodos.length})</span>
-                        </h2>
-                        <div className="flex-1 h-px bg-gradient-to-r from-transparent via-green-300 dark:via-green-700 to-transparent" />
-                    </div>
-                    <div className="grid gap-3">
-                        {completedTodos.map((todo) => (
-                            <TodoItem
-                                key={todo.id}
-                                todo={todo}
-                                onToggle={onToggle}
-                                onEdit={onEdit}
-                                onDelete={onDelete}
-                                onSelect={onSelect}
-                                isSelected={selectedTodos.has(todo.id)}
-                                darkMode={isDarkMode}
-                            />
-                        ))}
-                    </div>
-                </div>
-            )}
+                return (
+                    <section key={group.key}>
+                        <div className={`flex items-center gap-3 ${isCollapsed ? '' : 'mb-4'}`}>
+                            <div className={lineClasses} />
+                            <button
+                                onClick={() => toggleGroup(group.key)}
+                                className={`flex items-center gap-2 text-sm font-semibold uppercase tracking-wider transition-colors ${
+                                    isCompletedGroup
+                                        ? isDarkMode ? 'text-green-400 hover:text-green-300' : 'text-green-600 hover:text-green-700'
+                                        : isDarkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-600 hover:text-gray-900'
+                                }`}
+                                aria-expanded={!isCollapsed}
+                            >
+                                <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${isCollapsed ? '-rotate-90' : ''}`} />
+                                {isCompletedGroup && <span>✓</span>}
+                                <span>{group.key} ({group.todos.length})</span>
+                            </button>
+                            <div className={lineClasses} />
+                        </div>
+                        {!isCollapsed && renderTodos(group.todos)}
+                    </section>
+                );
+            })}
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+// src/components/Trash/Trash.tsx
+import { useState, useEffect } from 'react';
+import { Trash2, ArchiveRestore, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { getRelativeTime } from '../../utils/dateUtils';
+import type { Todo } from '../TodoForm';
+
+interface TrashProps {
+    todos: Todo[];
+    /** Days a todo stays in the trash before it is purged (0 = forever) */
+    retentionDays: number;
+    onRestore: (id: string) => void;
+    onRestoreSelected: (ids: string[]) => void;
+    onPurge: (id: string) => void;
+    onEmptyTrash: () => void;
+    darkMode?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Remaining days before a trashed todo is purged automatically
+ */
+function getDaysLeft(deletedAt: string, retentionDays: number): number {
+    const elapsed = Math.floor((Date.now() - new Date(deletedAt).getTime()) / DAY_MS);
+    return Math.max(retentionDays - elapsed, 0);
+}
+
+export function Trash({
+                          todos,
+                          retentionDays,
+                          onRestore,
+                          onRestoreSelected,
+                          onPurge,
+                          onEmptyTrash,
+                          darkMode = false
+                      }: TrashProps) {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    // Forget selected todos that left the trash
+    useEffect(() => {
+        setSelected(prev => {
+            const ids = new Set(todos.map(todo => todo.id));
+            const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [todos]);
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const allSelected = todos.length > 0 && selected.size === todos.length;
+
+    return (
+        <div className={`rounded-xl border-2 p-6 ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                    <h2 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        Trash
+                    </h2>
+                    <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {retentionDays > 0
+                            ? `Deleted todos are removed permanently after ${retentionDays} days`
+                            : 'Deleted todos are kept until you empty the trash'}
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                    {selected.size > 0 && (
+                        <Button
+                            variant="primary"
+                            size="sm"
+                            onClick={() => {
+                                onRestoreSelected(Array.from(selected));
+                                setSelected(new Set());
+                            }}
+                            icon={<ArchiveRestore className="w-4 h-4" />}
+                        >
+                            Restore {selected.size}
+                        </Button>
+                    )}
+                    <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={onEmptyTrash}
+                        disabled={todos.length === 0}
+                        icon={<Trash2 className="w-4 h-4" />}
+                    >
+                        Empty trash
+                    </Button>
+                </div>
+            </div>
+
+            {todos.length === 0 ? (
+                <div className="text-center py-12">
+                    <Trash2 className={`w-12 h-12 mx-auto mb-3 ${darkMode ? 'text-gray-600' : 'text-gray-300'}`} />
+                    <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        The trash is empty
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <label className={`flex items-center gap-3 px-3 pb-3 text-sm font-medium border-b ${
+                        darkMode ? 'text-gray-300 border-gray-700' : 'text-gray-700 border-gray-200'
+                    }`}>
+                        <input
+                            type="checkbox"
+                            checked={allSelected}
+                            onChange={() => setSelected(allSelected ? new Set() : new Set(todos.map(todo => todo.id)))}
+                            className="w-4 h-4 rounded text-blue-600"
+                        />
+                        Select all ({todos.length})
+                    </label>
+
+                    <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+                        {todos.map(todo => (
+                            <li key={todo.id} className="flex items-center gap-3 px-3 py-3">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(todo.id)}
+                                    onChange={() => toggleSelected(todo.id)}
+                                    className="w-4 h-4 rounded text-blue-600"
+                                    aria-label={`Select "${todo.title}"`}
+                                />
+
+                                <div className="flex-1 min-w-0">
+                                    <p className={`font-medium truncate ${
+                                        todo.completed ? 'line-through opacity-60' : ''
+                                    } ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                                        {todo.title}
+                                    </p>
+                                    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        Deleted {getRelativeTime(todo.deletedAt!).toLowerCase()}
+                                        {todo.category && ` · ${todo.category}`}
+                                        {retentionDays > 0 && ` · purged in ${getDaysLeft(todo.deletedAt!, retentionDays)} days`}
+                                    </p>
+                                </div>
+
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => onRestore(todo.id)}
+                                    icon={<ArchiveRestore className="w-4 h-4" />}
+                                >
+                                    Restore
+                                </Button>
+                                <button
+                                    onClick={() => onPurge(todo.id)}
+                                    className="p-2 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                                    title="Delete forever"
+                                    aria-label={`Delete "${todo.title}" forever`}
+                                >
+                                    <XCircle className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+}
\ No newline at end of file
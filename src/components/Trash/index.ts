@@ -0,0 +1 @@
+export { Trash } from './Trash';
\ No newline at end of file
@@ -1,7 +1,15 @@
 // src/config/api.ts
+import { env } from './env';
+
 export const API_CONFIG = {
-    BASE_URL: 'http://localhost:8080/api',
-    TIMEOUT: 10000,
+    // Configure via REACT_APP_API_BASE_URL / REACT_APP_API_TIMEOUT (see .env.example)
+    BASE_URL: env.API_BASE_URL,
+    TIMEOUT: env.API_TIMEOUT,
+    RETRY: {
+        RETRIES: 3,
+        BASE_DELAY_MS: 300,
+        MAX_DELAY_MS: 10000,
+    },
     ENDPOINTS: {
         AUTH: {
             REGISTER: '/auth/register',
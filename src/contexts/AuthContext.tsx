@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { authService, User, LoginRequest, RegisterRequest } from '../services/authService';
 import { ApiError } from '../services/apiClient';
+import { tokenRefresher } from '../services/tokenRefresh';
 
 interface AuthContextType {
     // State
@@ -34,6 +35,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
         initializeAuth();
     }, []);
 
+    // Log out only when the session can't be recovered by a token refresh
+    useEffect(() => {
+        return tokenRefresher.onAuthFailure(() => {
+            authService.clearAuthData();
+            setUser(null);
+            setError('Your session has expired. Please log in again.');
+        });
+    }, []);
+
     /**
      * Initialize authentication state on app start
      */
@@ -0,0 +1,30 @@
+// src/contexts/RouterContext.test.tsx
+import { getSafeRedirect, matchPath } from './RouterContext';
+
+describe('RouterContext', () => {
+    describe('matchPath', () => {
+        it('should return the decoded params of a matching path', () => {
+            expect(matchPath('/todos/:id', '/todos/a%20b')).toEqual({ id: 'a b' });
+            expect(matchPath('/todos/:id', '/todos')).toBeNull();
+            expect(matchPath('/todos/:id', '/views/1')).toBeNull();
+        });
+
+        it('should not match paths with a malformed escape', () => {
+            expect(matchPath('/todos/:id', '/todos/%E0')).toBeNull();
+        });
+    });
+
+    describe('getSafeRedirect', () => {
+        it('should accept same-origin paths', () => {
+            expect(getSafeRedirect('?redirect=%2Ftodos%2F1%3Fstatus%3Dactive')).toBe('/todos/1?status=active');
+            expect(getSafeRedirect('')).toBe('/');
+        });
+
+        it.each(['https://evil.example', '//evil.example', '/\\evil.example', 'todos'])(
+            'should reject %s',
+            redirect => {
+                expect(getSafeRedirect(`?redirect=${encodeURIComponent(redirect)}`, '/home')).toBe('/home');
+            }
+        );
+    });
+});
\ No newline at end of file
@@ -0,0 +1,103 @@
+// src/contexts/RouterContext.tsx
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+
+interface NavigateOptions {
+    /** Replace the current history entry instead of pushing a new one */
+    replace?: boolean;
+}
+
+interface RouterContextType {
+    pathname: string;
+    /** Query string including the leading "?", or an empty string */
+    search: string;
+    navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+interface RouterProviderProps {
+    children: ReactNode;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+const readLocation = () => ({ pathname: window.location.pathname, search: window.location.search });
+
+/**
+ * Client-side routing on top of the History API
+ * Keeps the current location in state and follows back/forward navigation.
+ */
+export function RouterProvider({ children }: RouterProviderProps) {
+    const [location, setLocation] = useState(readLocation);
+
+    useEffect(() => {
+        const handlePopState = () => setLocation(readLocation());
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = useCallback((to: string, { replace = false }: NavigateOptions = {}) => {
+        if (to === window.location.pathname + window.location.search) return;
+
+        if (replace) {
+            window.history.replaceState(null, '', to);
+        } else {
+            window.history.pushState(null, '', to);
+        }
+        setLocation(readLocation());
+    }, []);
+
+    const value = useMemo<RouterContextType>(
+        () => ({ pathname: location.pathname, search: location.search, navigate }),
+        [location, navigate]
+    );
+
+    return (
+        <RouterContext.Provider value={value}>
+            {children}
+        </RouterContext.Provider>
+    );
+}
+
+/**
+ * Hook to use router context
+ */
+export function useRouter(): RouterContextType {
+    const context = useContext(RouterContext);
+    if (context === undefined) {
+        throw new Error('useRouter must be used within a RouterProvider');
+    }
+    return context;
+}
+
+/**
+ * Match a pathname against a pattern with `:param` segments, e.g. `/todos/:id`
+ * @returns The decoded params, or null if the pathname doesn't match
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+    const patternParts = pattern.split('/').filter(Boolean);
+    const pathParts = pathname.split('/').filter(Boolean);
+    if (patternParts.length !== pathParts.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternParts.length; i++) {
+        if (patternParts[i].startsWith(':')) {
+            try {
+                params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+            } catch {
+                // Malformed escape such as %E0
+                return null;
+            }
+        } else if (patternParts[i] !== pathParts[i]) {
+            return null;
+        }
+    }
+    return params;
+}
+
+/**
+ * Path to return to after login: only same-origin paths are accepted
+ * (browsers read "//host" and "/\\host" as another origin)
+ */
+export function getSafeRedirect(search: string, fallback: string = '/'): string {
+    const redirect = new URLSearchParams(search).get('redirect');
+    return redirect && redirect.startsWith('/') && redirect[1] !== '/' && redirect[1] !== '\\' ? redirect : fallback;
+}
\ No newline at end of file
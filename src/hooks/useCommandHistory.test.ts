@@ -0,0 +1,107 @@
+// src/hooks/useCommandHistory.test.ts
+import { act, renderHook } from '@testing-library/react';
+import { useCommandHistory, type Command } from './useCommandHistory';
+
+const command = (label: string, log: string[] = []): Command => ({
+    label,
+    undo: jest.fn(async () => {
+        log.push(`undo ${label}`);
+    }),
+    redo: jest.fn(async () => {
+        log.push(`redo ${label}`);
+    }),
+});
+
+describe('useCommandHistory', () => {
+    it('should undo and redo the latest command', async () => {
+        const log: string[] = [];
+        const { result } = renderHook(() => useCommandHistory());
+
+        act(() => {
+            result.current.record(command('first', log));
+            result.current.record(command('second', log));
+        });
+        expect(result.current.undoLabel).toBe('second');
+
+        await act(async () => {
+            await result.current.undo();
+        });
+        expect(result.current.undoLabel).toBe('first');
+        expect(result.current.redoLabel).toBe('second');
+
+        await act(async () => {
+            await result.current.redo();
+        });
+        expect(log).toEqual(['undo second', 'redo second']);
+        expect(result.current.canRedo).toBe(false);
+    });
+
+    it('should clear the redo stack when a new command is recorded', async () => {
+        const { result } = renderHook(() => useCommandHistory());
+
+        act(() => result.current.record(command('first')));
+        await act(async () => {
+            await result.current.undo();
+        });
+        expect(result.current.canRedo).toBe(true);
+
+        act(() => result.current.record(command('second')));
+        expect(result.current.canRedo).toBe(false);
+        await act(async () => {
+            expect(await result.current.redo()).toBeNull();
+        });
+    });
+
+    it('should keep only the most recent commands up to the limit', async () => {
+        const { result } = renderHook(() => useCommandHistory(2));
+
+        act(() => {
+            ['first', 'second', 'third'].forEach(label => result.current.record(command(label)));
+        });
+
+        const undone: (string | undefined)[] = [];
+        await act(async () => {
+            for (let i = 0; i < 3; i++) {
+                undone.push((await result.current.undo())?.label);
+            }
+        });
+        expect(undone).toEqual(['third', 'second', undefined]);
+    });
+
+    it('should undo a specific command and leave the others in place', async () => {
+        const log: string[] = [];
+        const first = command('first', log);
+        const { result } = renderHook(() => useCommandHistory());
+
+        act(() => {
+            result.current.record(first);
+            result.current.record(command('second', log));
+        });
+        await act(async () => {
+            await result.current.undo(first);
+        });
+
+        expect(log).toEqual(['undo first']);
+        expect(result.current.undoLabel).toBe('second');
+        await act(async () => {
+            expect(await result.current.undo(first)).toBeNull();
+        });
+    });
+
+    it('should keep a command that failed to undo so it can be retried', async () => {
+        const failing = command('flaky');
+        (failing.undo as jest.Mock).mockRejectedValueOnce(new Error('offline'));
+        const { result } = renderHook(() => useCommandHistory());
+
+        act(() => result.current.record(failing));
+        await act(async () => {
+            await expect(result.current.undo()).rejects.toThrow('offline');
+        });
+        expect(result.current.undoLabel).toBe('flaky');
+
+        await act(async () => {
+            await result.current.undo();
+        });
+        expect(result.current.canUndo).toBe(false);
+    });
+});
\ No newline at end of file
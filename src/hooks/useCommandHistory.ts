@@ -0,0 +1,107 @@
+// src/hooks/useCommandHistory.ts
+import { useState, useCallback, useRef } from 'react';
+import { logger } from '../utils/logger';
+
+/**
+ * An operation that has already been performed and knows how to revert itself
+ */
+export interface Command {
+    /** Short description, e.g. `Delete "Buy milk"` */
+    label: string;
+    /** Revert the operation */
+    undo: () => Promise<void>;
+    /** Perform the operation again after it was undone */
+    redo: () => Promise<void>;
+}
+
+interface UseCommandHistoryReturn {
+    record: (command: Command) => void;
+    undo: (command?: Command) => Promise<Command | null>;
+    redo: () => Promise<Command | null>;
+    clear: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
+}
+
+/**
+ * Undo/redo stack of commands
+ * Recording a new command clears the redo stack. Undo/redo calls are serialized;
+ * a command that fails stays where it was so it can be retried.
+ *
+ * @param limit - Maximum number of commands kept for undo
+ */
+export function useCommandHistory(limit: number = 50): UseCommandHistoryReturn {
+    const [past, setPast] = useState<Command[]>([]);
+    const [future, setFuture] = useState<Command[]>([]);
+
+    // Refs mirror state so undo/redo always see the latest stacks
+    const pastRef = useRef<Command[]>([]);
+    const futureRef = useRef<Command[]>([]);
+    const busyRef = useRef(false);
+
+    const update = useCallback((nextPast: Command[], nextFuture: Command[]) => {
+        pastRef.current = nextPast;
+        futureRef.current = nextFuture;
+        setPast(nextPast);
+        setFuture(nextFuture);
+    }, []);
+
+    const record = useCallback((command: Command) => {
+        update([...pastRef.current, command].slice(-limit), []);
+    }, [limit, update]);
+
+    /**
+     * Undo the latest command, or a specific one (e.g. from a toast's "Undo" button)
+     * @returns The undone command, or null if there was nothing to undo
+     */
+    const undo = useCallback(async (target?: Command) => {
+        const command = target ?? pastRef.current[pastRef.current.length - 1];
+        if (!command || !pastRef.current.includes(command) || busyRef.current) return null;
+
+        busyRef.current = true;
+        try {
+            await command.undo();
+            update(pastRef.current.filter(c => c !== command), [...futureRef.current, command]);
+            logger.debug('Undo:', command.label);
+            return command;
+        } finally {
+            busyRef.current = false;
+        }
+    }, [update]);
+
+    /**
+     * Redo the most recently undone command
+     * @returns The redone command, or null if there was nothing to redo
+     */
+    const redo = useCallback(async () => {
+        const command = futureRef.current[futureRef.current.length - 1];
+        if (!command || busyRef.current) return null;
+
+        busyRef.current = true;
+        try {
+            await command.redo();
+            update([...pastRef.current, command], futureRef.current.slice(0, -1));
+            logger.debug('Redo:', command.label);
+            return command;
+        } finally {
+            busyRef.current = false;
+        }
+    }, [update]);
+
+    const clear = useCallback(() => {
+        update([], []);
+    }, [update]);
+
+    return {
+        record,
+        undo,
+        redo,
+        clear,
+        canUndo: past.length > 0,
+        canRedo: future.length > 0,
+        undoLabel: past[past.length - 1]?.label ?? null,
+        redoLabel: future[future.length - 1]?.label ?? null,
+    };
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+// src/hooks/useSavedViews.test.ts
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { SavedView } from '../types/advancedFilters';
+import { todoService } from '../services/todoService';
+import { AdvancedFilterEngine } from '../utils/advancedFiltering';
+import { useSavedViews } from './useSavedViews';
+
+jest.mock('../services/todoService', () => ({
+    todoService: {
+        getSavedViews: jest.fn(),
+        createSavedView: jest.fn(),
+        updateSavedView: jest.fn(),
+        deleteSavedView: jest.fn(),
+        reorderSavedViews: jest.fn(),
+    },
+}));
+
+const service = todoService as jest.Mocked<typeof todoService>;
+
+const view = (id: string, order: number, overrides: Partial<SavedView> = {}): SavedView => ({
+    id,
+    name: `View ${id}`,
+    filters: AdvancedFilterEngine.getDefaultFilters(),
+    viewType: 'list',
+    order,
+    ...overrides,
+});
+
+const names = (views: SavedView[]) => views.map(v => v.name);
+
+/**
+ * Render the hook and wait for the server views to arrive
+ */
+async function renderLoaded() {
+    const hook = renderHook(() => useSavedViews());
+    await waitFor(() => expect(hook.result.current.loading).toBe(false));
+    return hook;
+}
+
+beforeEach(() => {
+    localStorage.clear();
+    service.getSavedViews.mockResolvedValue([view('1', 0), view('2', 1), view('3', 2)]);
+    service.createSavedView.mockImplementation(async data => view(`new-${data.name}`, 99, data));
+    service.updateSavedView.mockImplementation(async (id, data) => view(id, 0, data));
+    service.deleteSavedView.mockResolvedValue(undefined);
+    service.reorderSavedViews.mockResolvedValue(undefined);
+});
+
+describe('useSavedViews', () => {
+    it('should show cached views until the server answers, then cache the server views', async () => {
+        localStorage.setItem('saved-views', JSON.stringify([{
+            ...view('old', 0, { name: 'Cached' }),
+            filters: { tags: ['work'], dateRange: { start: '2026-10-01T00:00:00.000Z' } },
+        }]));
+
+        const { result } = renderHook(() => useSavedViews());
+        expect(names(result.current.views)).toEqual(['Cached']);
+        expect(result.current.views[0].filters.tags).toEqual(['work']);
+        expect(result.current.views[0].filters.dateRange.start).toEqual(new Date('2026-10-01T00:00:00.000Z'));
+
+        await waitFor(() => expect(result.current.loading).toBe(false));
+        expect(names(result.current.views)).toEqual(['View 1', 'View 2', 'View 3']);
+        expect(names(JSON.parse(localStorage.getItem('saved-views')!))).toEqual(['View 1', 'View 2', 'View 3']);
+    });
+
+    it('should turn the old filter presets into saved views once', async () => {
+        localStorage.setItem('filter-presets', JSON.stringify({
+            'View 2': { priorities: ['LOW'] },
+            'High only': { priorities: ['HIGH'] },
+        }));
+
+        const { result } = await renderLoaded();
+        await waitFor(() => expect(result.current.views).toHaveLength(4));
+
+        expect(service.createSavedView).toHaveBeenCalledTimes(1);
+        expect(service.createSavedView).toHaveBeenCalledWith(expect.objectContaining({ name: 'High only', viewType: 'list' }));
+        expect(service.createSavedView.mock.calls[0][0].filters).toEqual({
+            ...AdvancedFilterEngine.getDefaultFilters(),
+            priorities: ['HIGH'],
+        });
+        expect(localStorage.getItem('filter-presets')).toBeNull();
+    });
+
+    it('should keep the old presets for the next attempt when the migration fails', async () => {
+        service.createSavedView.mockRejectedValue(new Error('offline'));
+        localStorage.setItem('filter-presets', JSON.stringify({ 'High only': { priorities: ['HIGH'] } }));
+
+        const { result } = await renderLoaded();
+        await waitFor(() => expect(service.createSavedView).toHaveBeenCalled());
+
+        expect(names(result.current.views)).toEqual(['View 1', 'View 2', 'View 3']);
+        expect(localStorage.getItem('filter-presets')).not.toBeNull();
+    });
+
+    it('should move a view and renumber the sidebar order', async () => {
+        const { result } = await renderLoaded();
+
+        await act(() => result.current.moveView('3', 0));
+
+        expect(names(result.current.views)).toEqual(['View 3', 'View 1', 'View 2']);
+        expect(service.reorderSavedViews).toHaveBeenCalledWith([
+            { id: '3', order: 0 },
+            { id: '1', order: 1 },
+            { id: '2', order: 2 },
+        ]);
+    });
+
+    it('should roll back a change the server rejects', async () => {
+        service.deleteSavedView.mockRejectedValue(new Error('Forbidden'));
+        const { result } = await renderLoaded();
+
+        await act(async () => {
+            await expect(result.current.deleteView('2')).rejects.toThrow('Forbidden');
+        });
+
+        expect(names(result.current.views)).toEqual(['View 1', 'View 2', 'View 3']);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,158 @@
+// src/hooks/useSavedViews.ts
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { todoService, type SavedViewRequest } from '../services/todoService';
+import { RequestCancelledError } from '../services/apiClient';
+import type { SavedView, SerializedAdvancedFilters } from '../types/advancedFilters';
+import { AdvancedFilterEngine } from '../utils/advancedFiltering';
+import { logger } from '../utils/logger';
+
+// Last known views, shown before the server answers (and while offline)
+const CACHE_KEY = 'saved-views';
+// Presets saved by the old filter dialog: name -> filter options
+const LEGACY_PRESETS_KEY = 'filter-presets';
+
+function readCache(): SavedView[] {
+    try {
+        const cached: (Omit<SavedView, 'filters'> & { filters: SerializedAdvancedFilters })[] =
+            JSON.parse(localStorage.getItem(CACHE_KEY) || '[]');
+        return cached.map(view => ({ ...view, filters: AdvancedFilterEngine.deserializeFilters(view.filters) }));
+    } catch (error) {
+        logger.warn('Ignoring unreadable saved views cache:', error);
+        return [];
+    }
+}
+
+function writeCache(views: SavedView[]): void {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(views.map(view => ({
+        ...view,
+        filters: AdvancedFilterEngine.serializeFilters(view.filters),
+    }))));
+}
+
+export interface UseSavedViewsReturn {
+    /** In sidebar order */
+    views: SavedView[];
+    loading: boolean;
+    createView: (data: SavedViewRequest) => Promise<SavedView>;
+    updateView: (id: string, data: Partial<SavedViewRequest>) => Promise<void>;
+    deleteView: (id: string) => Promise<void>;
+    /** Move a view to another position in the sidebar */
+    moveView: (id: string, toIndex: number) => Promise<void>;
+}
+
+/**
+ * The user's saved views, synced with the server
+ * Changes show immediately and are rolled back (and rethrown) if the server rejects them.
+ */
+export function useSavedViews(): UseSavedViewsReturn {
+    const [views, setViews] = useState<SavedView[]>(readCache);
+    const [loading, setLoading] = useState(true);
+    const viewsRef = useRef(views);
+    viewsRef.current = views;
+
+    useEffect(() => {
+        writeCache(views);
+    }, [views]);
+
+    /**
+     * Turn presets of the old filter dialog into saved views (once)
+     */
+    const migrateLegacyPresets = useCallback(async (existing: SavedView[]) => {
+        const raw = localStorage.getItem(LEGACY_PRESETS_KEY);
+        if (!raw) return;
+
+        try {
+            const presets: Record<string, Partial<SerializedAdvancedFilters>> = JSON.parse(raw);
+            const created: SavedView[] = [];
+            for (const [name, filters] of Object.entries(presets)) {
+                if (existing.some(view => view.name === name)) continue;
+                created.push(await todoService.createSavedView({
+                    name,
+                    filters: AdvancedFilterEngine.deserializeFilters(filters),
+                    viewType: 'list',
+                }));
+            }
+            localStorage.removeItem(LEGACY_PRESETS_KEY);
+            if (created.length > 0) {
+                setViews(current => [...current, ...created]);
+                logger.info('Filter presets moved to saved views:', created.length);
+            }
+        } catch (error) {
+            // Kept for the next attempt
+            logger.warn('Filter preset migration failed:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        todoService.getSavedViews({ signal: controller.signal })
+            .then(async serverViews => {
+                setViews(serverViews);
+                setLoading(false);
+                await migrateLegacyPresets(serverViews);
+            })
+            .catch(error => {
+                if (error instanceof RequestCancelledError) return;
+                // Keep showing the cached views
+                logger.error('Error fetching saved views:', error);
+                setLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [migrateLegacyPresets]);
+
+    /**
+     * Show a change right away; restore the previous views if sending it fails
+     */
+    const applyOptimistic = useCallback(async (next: SavedView[], send: () => Promise<unknown>) => {
+        const previous = viewsRef.current;
+        setViews(next);
+        try {
+            await send();
+        } catch (error) {
+            setViews(previous);
+            throw error;
+        }
+    }, []);
+
+    const createView = useCallback(async (data: SavedViewRequest) => {
+        const view = await todoService.createSavedView(data);
+        setViews(current => [...current, view]);
+        logger.info('Saved view created:', view.name);
+        return view;
+    }, []);
+
+    const updateView = useCallback(async (id: string, data: Partial<SavedViewRequest>) => {
+        const next = viewsRef.current.map(view => (view.id === id ? { ...view, ...data } : view));
+        await applyOptimistic(next, () => todoService.updateSavedView(id, data));
+        logger.info('Saved view updated:', id);
+    }, [applyOptimistic]);
+
+    const deleteView = useCallback(async (id: string) => {
+        const next = viewsRef.current.filter(view => view.id !== id);
+        await applyOptimistic(next, () => todoService.deleteSavedView(id));
+        logger.info('Saved view deleted:', id);
+    }, [applyOptimistic]);
+
+    const moveView = useCallback(async (id: string, toIndex: number) => {
+        const reordered = [...viewsRef.current];
+        const fromIndex = reordered.findIndex(view => view.id === id);
+        if (fromIndex === -1 || fromIndex === toIndex) return;
+
+        const [moved] = reordered.splice(fromIndex, 1);
+        reordered.splice(Math.max(0, Math.min(toIndex, reordered.length)), 0, moved);
+        const next = reordered.map((view, order) => ({ ...view, order }));
+
+        await applyOptimistic(next, () => todoService.reorderSavedViews(next.map(({ id, order }) => ({ id, order }))));
+    }, [applyOptimistic]);
+
+    return {
+        views,
+        loading,
+        createView,
+        updateView,
+        deleteView,
+        moveView,
+    };
+}
\ No newline at end of file
@@ -1,91 +1,481 @@
 // src/hooks/useTodosAPI.ts - FIXED VERSION
-import { useState, useCallback, useEffect, useMemo } from 'react';
-import { todoService } from '../services/todoService';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { todoService, TodoCreateRequest, type TodoFilters } from '../services/todoService';
+import { RequestCancelledError, type RequestOptions } from '../services/apiClient';
+import { offlineStore } from '../services/offlineStore';
+import {
+    offlineSync,
+    createTempId,
+    isOfflineError,
+    type SyncConflict,
+    type TodoMutation,
+} from '../services/offlineSync';
+import { activityLog, diffTodos, type ActivityAction } from '../services/activityLog';
+import type { User } from '../services/authService';
+import { useAuth } from '../contexts/AuthContext';
+import { useNetworkStatus } from './usePerformance';
 import type { Todo, TodoFormData } from '../components/TodoForm';
-import { getDateFilters, type DateFilter } from '../utils/dateUtils';
+import { getCompletedAt, getDateFilters, type DateFilter } from '../utils/dateUtils';
 import { logger } from '../utils/logger';
+import { getAllTags, getTagCounts, hasTag } from '../utils/tags';
+import { createSubtask } from '../utils/subtasks';
+import { AdvancedFilterEngine, type TodoPredicate } from '../utils/advancedFiltering';
+import { compileQuery, getQueryText, QuerySyntaxError } from '../utils/todoQuery';
+import { SearchIndex, tokenize, type SearchHighlights } from '../utils/searchIndex';
+import {
+    compareTodos,
+    getQueryKey,
+    hasLoadedAllTodos,
+    hasMorePages,
+    isInLoadedPages,
+    mergeTodos,
+    toLoadedPages,
+    toTodoQuery,
+    type LoadedPages,
+} from '../utils/todoPagination';
 
 export interface FilterOptions {
     status: 'all' | 'active' | 'completed';
     priority: 'all' | 'LOW' | 'MEDIUM' | 'HIGH';
     category: string;
+    tag: string;
     dateFilter: 'all' | 'today' | 'tomorrow' | 'this-week' | 'overdue' | 'no-date';
     sortBy: 'created' | 'updated' | 'title' | 'priority' | 'dueDate';
     sortOrder: 'asc' | 'desc';
 }
 
+export interface TodoSearchResult {
+    /** Matching todos, best matches first when the query has words to rank by */
+    todos: Todo[];
+    /** Matched parts, by todo id */
+    highlights: Record<string, SearchHighlights>;
+}
+
 export interface TodoStats {
     total: number;
     completed: number;
     active: number;
     overdue: number;
+    byTag?: Record<string, number>;
 }
 
 interface UseTodosAPIReturn {
+    /** Filtered and sorted; only as far as the pages loaded so far reach */
     todos: Todo[];
+    /** Every todo outside the trash, archived ones included, unfiltered */
+    allTodos: Todo[];
+    trashedTodos: Todo[];
+    archivedTodos: Todo[];
+    /** Trash and archive are fetched once needed (see loadTrash/loadArchive) */
+    isTrashLoaded: boolean;
+    isArchiveLoaded: boolean;
+    loadTrash: () => Promise<void>;
+    loadArchive: () => Promise<void>;
     categories: string[];
+    tags: string[];
+    /** Counts over every todo matching the filters, not just the loaded pages */
     stats: TodoStats;
     filters: FilterOptions;
+    /** Number of todos matching the filters on the server, null until known */
+    totalTodos: number | null;
+    hasMoreTodos: boolean;
+    /** Whether every active todo is loaded, so lists and counts built from `allTodos` are complete */
+    hasAllTodos: boolean;
+    isLoadingMore: boolean;
+    /** Load the next page of the filtered list */
+    loadMoreTodos: () => Promise<void>;
+    /** Load the rest of the filtered list, for views that show it all at once */
+    loadAllTodos: () => Promise<void>;
     loading: boolean;
     error: string | null;
     isRefreshing: boolean;
-    createTodo: (data: TodoFormData) => Promise<void>;
+    createTodo: (data: TodoFormData) => Promise<Todo>;
     updateTodo: (id: string, data: TodoFormData) => Promise<void>;
     deleteTodo: (id: string) => Promise<void>;
-    toggleTodo: (id: string) => Promise<void>;
+    toggleTodo: (id: string) => Promise<Todo | null>;
+    toggleSubtask: (todoId: string, subtaskId: string) => Promise<void>;
+    /** @returns ID of the new checklist item */
+    addSubtask: (todoId: string, title: string) => Promise<string>;
+    deleteSubtask: (todoId: string, subtaskId: string) => Promise<void>;
     bulkDelete: (ids: string[]) => Promise<void>;
+    restoreTodo: (id: string) => Promise<void>;
+    purgeTodo: (id: string) => Promise<void>;
+    bulkRestore: (ids: string[]) => Promise<void>;
+    emptyTrash: () => Promise<void>;
+    purgeExpiredTrash: (retentionDays: number) => Promise<number>;
+    archiveTodo: (id: string) => Promise<void>;
+    unarchiveTodo: (id: string) => Promise<void>;
+    bulkArchive: (ids: string[]) => Promise<void>;
+    bulkUnarchive: (ids: string[]) => Promise<void>;
+    archiveCompleted: (olderThanDays: number) => Promise<number>;
     reorderTodos: (reorderedTodos: Todo[]) => Promise<void>;
+    /** Keep a todo fetched on its own (e.g. opened from a link) so it can be changed like the loaded ones */
+    addFetchedTodo: (todo: Todo) => void;
     setFilters: (filters: FilterOptions) => void;
-    searchTodos: (query: string) => Todo[];
+    searchTodos: (query: string, within?: Todo[]) => TodoSearchResult;
     refreshTodos: () => Promise<void>;
     clearError: () => void;
+    isOnline: boolean;
+    pendingChanges: number;
+    isSyncing: boolean;
+    syncConflicts: SyncConflict[];
+    dismissSyncConflicts: () => void;
 }
 
-const defaultFilters: FilterOptions = {
+export const defaultFilters: FilterOptions = {
     status: 'all',
     priority: 'all',
     category: 'all',
+    tag: 'all',
     dateFilter: 'all',
     sortBy: 'created',
     sortOrder: 'desc'
 };
 
+// Todos per page of the server-side list
+const PAGE_SIZE = 50;
+// Loaded pages are shown from the cache for this long before the query is fetched again
+const QUERY_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Todos fetched apart from the paginated list, once their view is opened
+ */
+type LazySection = 'trash' | 'archive';
+
+const LAZY_SECTIONS: LazySection[] = ['trash', 'archive'];
+
+const fetchSection = (section: LazySection, options: RequestOptions) =>
+    section === 'trash' ? todoService.getTrash(options) : todoService.getArchivedTodos(options);
+
+const isInSection = (todo: Todo, section: LazySection) =>
+    section === 'trash' ? Boolean(todo.deletedAt) : Boolean(todo.archivedAt && !todo.deletedAt);
+
+/**
+ * Replace the todos of a section with the server's
+ */
+function replaceSection(todos: Todo[], section: LazySection, fetched: Todo[]): Todo[] {
+    return mergeTodos(todos.filter(todo => !isInSection(todo, section)), fetched);
+}
+
+/**
+ * A todo mutation applied to local state before the server confirms it
+ */
+interface OptimisticMutation<T> {
+    /** Queued instead of sent while offline; a batch request is queued as one change per todo */
+    mutation: TodoMutation | TodoMutation[];
+    /** Title of the affected todo (one per change of a batch) */
+    title: string | string[];
+    apply: (todos: Todo[]) => Todo[];
+    send: () => Promise<T>;
+    /** Merge the server response into local state */
+    patch?: (todos: Todo[], result: T) => Todo[];
+    rollback: (todos: Todo[]) => Todo[];
+}
+
+/**
+ * Replace a todo by ID (keeps the list unchanged if the server sent nothing back)
+ */
+function replaceTodo(todos: Todo[], id: string, todo: Todo | undefined): Todo[] {
+    if (!todo) return todos;
+    return todos.map(t => t.id === id ? todo : t);
+}
+
+/**
+ * Put a removed todo back at its previous position
+ */
+function reinsertTodo(todos: Todo[], todo: Todo, index: number): Todo[] {
+    if (todos.some(t => t.id === todo.id)) return todos;
+    const restored = [...todos];
+    restored.splice(Math.min(index, restored.length), 0, todo);
+    return restored;
+}
+
+const getCompletedAtFor = (completed: boolean) => completed ? new Date().toISOString() : null;
+
+// Due dates are stored as end-of-day timestamps, start dates as start-of-day (see todoService)
+const toDueDateTime = (dueDate?: string) => dueDate ? `${dueDate}T23:59:59` : undefined;
+const toStartDateTime = (startDate?: string) => startDate ? `${startDate}T00:00:00` : undefined;
+
+/**
+ * Local stand-in for a todo that only exists on the client so far
+ */
+function buildLocalTodo(id: string, data: TodoCreateRequest): Todo {
+    const now = new Date().toISOString();
+    return {
+        id,
+        title: data.title,
+        description: data.description,
+        completed: false,
+        priority: data.priority,
+        category: data.category,
+        startDate: toStartDateTime(data.startDate),
+        dueDate: toDueDateTime(data.dueDate),
+        subtasks: data.subtasks?.map((subtask, index) => ({
+            id: subtask.id ?? `${id}-${index}`,
+            title: subtask.title,
+            completed: Boolean(subtask.completed),
+        })),
+        recurrence: data.recurrence,
+        tags: data.tags,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Apply form data to a todo the way the server would
+ */
+function applyLocalUpdate(todo: Todo, data: TodoFormData): Todo {
+    const completed = data.completed ?? todo.completed;
+    return {
+        ...todo,
+        ...data,
+        completed,
+        completedAt: completed === todo.completed ? todo.completedAt : getCompletedAtFor(completed),
+        startDate: toStartDateTime(data.startDate),
+        dueDate: toDueDateTime(data.dueDate),
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Run a mutation for every ID; each one rolls back on its own
+ * @throws The first failure, once all have settled
+ */
+async function runForAll(ids: string[], action: (id: string) => Promise<unknown>, label: string): Promise<void> {
+    const results = await Promise.allSettled(ids.map(action));
+    const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+
+    if (failed.length > 0) {
+        logger.error(`${label}: ${failed.length} of ${ids.length} failed`);
+        throw failed[0].reason;
+    }
+}
+
+/**
+ * Log every todo that differs between the list before and after a mutation
+ */
+function recordActivity(action: ActivityAction, before: Todo[], after: Todo[], user: User | null): void {
+    const beforeById = new Map(before.map(todo => [todo.id, todo]));
+    const afterById = new Map(after.map(todo => [todo.id, todo]));
+    const changedIds = [
+        ...after.filter(todo => beforeById.get(todo.id) !== todo).map(todo => todo.id),
+        ...before.filter(todo => !afterById.has(todo.id)).map(todo => todo.id),
+    ];
+
+    changedIds.forEach(id => {
+        const previous = beforeById.get(id);
+        const next = afterById.get(id);
+        activityLog.record({
+            action,
+            todoId: id,
+            todoTitle: (next ?? previous)!.title,
+            changes: diffTodos(previous, next),
+            user: user ? { id: user.id, name: user.name } : null,
+        });
+    });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stats computed from the local list, for when the server can't be asked (offline, or changes waiting for sync)
+ */
+function computeLocalStats(todos: Todo[]): TodoStats {
+    const now = Date.now();
+    const completed = todos.filter(todo => todo.completed).length;
+    return {
+        total: todos.length,
+        completed,
+        active: todos.length - completed,
+        overdue: todos.filter(todo =>
+            !todo.completed && todo.dueDate && new Date(todo.dueDate).getTime() < now
+        ).length,
+    };
+}
+
 export function useTodosAPI(): UseTodosAPIReturn {
     const [todos, setTodos] = useState<Todo[]>([]);
     const [categories, setCategories] = useState<string[]>([]);
-    const [stats, setStats] = useState<TodoStats>({ total: 0, completed: 0, active: 0, overdue: 0 });
     const [filters, setFilters] = useState<FilterOptions>(defaultFilters);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isRefreshing, setIsRefreshing] = useState(false);
 
-    const loadStats = useCallback(async () => {
-        const stats = await todoService.getStats();
-        setStats(stats);
-        logger.debug('Stats loaded:', stats);
+    // Server-side pagination, by query; switching back to a query shows its pages right away
+    const [queryPages, setQueryPages] = useState<Map<string, LoadedPages>>(new Map());
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const todoQuery = useMemo(() => toTodoQuery(filters), [filters]);
+    const queryKey = getQueryKey(todoQuery);
+    const todoQueryRef = useRef(todoQuery);
+    todoQueryRef.current = todoQuery;
+    const queryPagesRef = useRef(queryPages);
+    queryPagesRef.current = queryPages;
+    // Query whose first page was last requested; a failed load isn't retried until the query changes
+    const requestedQueryRef = useRef<string | null>(null);
+    // Sections fetched so far; a refresh fetches them again
+    const [loadedSections, setLoadedSections] = useState<Record<LazySection, boolean>>({ trash: false, archive: false });
+    const loadedSectionsRef = useRef(loadedSections);
+    loadedSectionsRef.current = loadedSections;
+    // Latest request that set `loading`; only that one may clear it again
+    const loadingRequestRef = useRef(0);
+
+    // Offline mode
+    const isOnline = useNetworkStatus();
+    const [pendingChanges, setPendingChanges] = useState(0);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+
+    // Counts over the whole filtered list; the loaded pages are only part of it
+    const [serverStats, setServerStats] = useState<TodoStats | null>(null);
+    // Bumped whenever the counts on the server may have changed
+    const [statsVersion, setStatsVersion] = useState(0);
+
+    // Latest list for mutations called from stale closures (e.g. undo commands)
+    const todosRef = useRef(todos);
+    todosRef.current = todos;
+
+    // Signed-in user, recorded in the activity log
+    const { user } = useAuth();
+    const userRef = useRef(user);
+    userRef.current = user;
+
+    // Controller of the in-flight fetch; a newer fetch or unmount aborts it
+    const fetchControllerRef = useRef<AbortController | null>(null);
+    // Same for page loads, which a change of query makes stale
+    const pageControllerRef = useRef<AbortController | null>(null);
+
+    // The IndexedDB cache mirrors `todos` once they hold real data (not the initial empty list)
+    const cacheReadyRef = useRef(false);
+
+    /**
+     * Show the last known state from IndexedDB
+     * @returns Number of cached todos
+     */
+    const loadFromCache = useCallback(async () => {
+        const cached = await offlineStore.getTodos();
+        cacheReadyRef.current = true;
+        setTodos(cached);
+        logger.info('Loaded todos from offline cache:', cached.length);
+        return cached.length;
     }, []);
 
-    const loadCategories = useCallback(async () => {
-        const cats = await todoService.getCategories();
+    /**
+     * Replay changes queued while offline; rejected ones are collected as conflicts
+     */
+    const syncPendingChanges = useCallback(async () => {
+        await offlineSync.load();
+        if (offlineSync.getPendingCount() === 0) return;
+
+        setIsSyncing(true);
+        try {
+            const result = await offlineSync.replay();
+            if (result.conflicts.length > 0) {
+                setSyncConflicts(prev => [...prev, ...result.conflicts]);
+            }
+        } finally {
+            setIsSyncing(false);
+        }
+    }, []);
+
+    const loadCategories = useCallback(async (signal?: AbortSignal) => {
+        const cats = await todoService.getCategories({ signal });
         setCategories(cats);
         logger.debug('Categories loaded:', cats);
     }, []);
 
+    /**
+     * Fetch a page of the list for a query and add its todos to the local list
+     * @throws RequestCancelledError if a newer page load superseded this one
+     */
+    const loadPage = useCallback(async (query: TodoFilters, page: number) => {
+        pageControllerRef.current?.abort();
+        const controller = new AbortController();
+        pageControllerRef.current = controller;
+
+        try {
+            const response = await todoService.getTodosPage(
+                { ...query, page, limit: PAGE_SIZE },
+                { signal: controller.signal }
+            );
+            cacheReadyRef.current = true;
+            setTodos(prev => mergeTodos(prev, response.data));
+
+            const key = getQueryKey(query);
+            setQueryPages(prev => new Map(prev).set(key, toLoadedPages(response, page > 1 ? prev.get(key) : undefined)));
+            logger.debug('Todo page loaded:', key, response.pagination);
+            return response.pagination;
+        } finally {
+            if (pageControllerRef.current === controller) {
+                pageControllerRef.current = null;
+            }
+        }
+    }, []);
+
     const fetchTodos = useCallback(async () => {
+        fetchControllerRef.current?.abort();
+        pageControllerRef.current?.abort();
+        const controller = new AbortController();
+        fetchControllerRef.current = controller;
+
+        const request = ++loadingRequestRef.current;
         setLoading(true);
         try {
-            const data = await todoService.getTodos();
-            setTodos(data);
-            await Promise.all([loadCategories(), loadStats()]);
+            if (!navigator.onLine) {
+                await loadFromCache();
+                setError(null);
+                return;
+            }
+
+            // Server state must include our offline changes before we show it
+            await syncPendingChanges();
+            if (offlineSync.getPendingCount() > 0) {
+                await loadFromCache();
+                setError(null);
+                return;
+            }
+
+            // Trashed and archived todos live in the same list (marked by `deletedAt` / `archivedAt`),
+            // fetched once their view was opened; of the others, only the first page of the current query is loaded
+            const query = todoQueryRef.current;
+            requestedQueryRef.current = getQueryKey(query);
+            const sections = LAZY_SECTIONS.filter(section => loadedSectionsRef.current[section]);
+            const [page, sectionTodos] = await Promise.all([
+                todoService.getTodosPage({ ...query, page: 1, limit: PAGE_SIZE }, { signal: controller.signal }),
+                Promise.all(sections.map(section => fetchSection(section, { signal: controller.signal }))),
+            ]);
+            cacheReadyRef.current = true;
+            // Sections not fetched yet keep what we know locally (e.g. todos trashed since)
+            setTodos(prev => sections.reduce(
+                (next, section, index) => replaceSection(next, section, sectionTodos[index]),
+                mergeTodos(prev.filter(todo => LAZY_SECTIONS.some(section => isInSection(todo, section))), page.data)
+            ));
+            setQueryPages(new Map([[getQueryKey(query), toLoadedPages(page)]]));
+            await loadCategories(controller.signal);
+            setStatsVersion(version => version + 1);
             setError(null);
         } catch (err) {
+            // Superseded by a newer fetch or the component unmounted
+            if (err instanceof RequestCancelledError) return;
+
+            // Server unreachable: fall back to the last known state if we have one
+            if (isOfflineError(err) && await loadFromCache() > 0) {
+                setError(null);
+                return;
+            }
+
             const message = err instanceof Error ? err.message : 'Failed to fetch todos';
             setError(message);
             logger.error('Error fetching todos:', err);
         } finally {
-            setLoading(false);
+            if (fetchControllerRef.current === controller) {
+                fetchControllerRef.current = null;
+            }
+            if (loadingRequestRef.current === request) {
+                setLoading(false);
+            }
         }
-    }, [loadCategories, loadStats]);
+    }, [loadCategories, loadFromCache, syncPendingChanges]);
 
     /**
      * ✅ CRITICAL: Check if any filters/sorts are active
@@ -95,18 +485,34 @@ export function useTodosAPI(): UseTodosAPIReturn {
             filters.status !== 'all' ||
             filters.priority !== 'all' ||
             filters.category !== 'all' ||
+            filters.tag !== 'all' ||
             filters.dateFilter !== 'all' ||
             filters.sortBy !== 'created' ||
             filters.sortOrder !== 'desc'
         );
     }, [filters]);
 
+    /**
+     * Trashed todos are hidden everywhere but the Trash view. Archived todos are
+     * hidden from the list, tags and categories but still count towards stats.
+     */
+    const historyTodos = useMemo(() => todos.filter(todo => !todo.deletedAt), [todos]);
+    const visibleTodos = useMemo(() => historyTodos.filter(todo => !todo.archivedAt), [historyTodos]);
+    const trashedTodos = useMemo(() => todos
+        .filter(todo => todo.deletedAt)
+        .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()),
+    [todos]);
+    const archivedTodos = useMemo(() => historyTodos
+        .filter(todo => todo.archivedAt)
+        .sort((a, b) => new Date(b.archivedAt!).getTime() - new Date(a.archivedAt!).getTime()),
+    [historyTodos]);
+
     /**
      * Apply client-side filtering and sorting
      */
     const filteredAndSortedTodos = useMemo(() => {
         logger.debug('Applying filters:', filters);
-        let filtered = [...todos];
+        let filtered = [...visibleTodos];
 
         // Status filter
         if (filters.status !== 'all') {
@@ -127,6 +533,11 @@ export function useTodosAPI(): UseTodosAPIReturn {
             filtered = filtered.filter(todo => todo.category === filters.category);
         }
 
+        // Tag filter
+        if (filters.tag !== 'all') {
+            filtered = filtered.filter(todo => hasTag(todo.tags, filters.tag));
+        }
+
         // Date filter
         if (filters.dateFilter !== 'all') {
             const dateFilterFunctions = getDateFilters();
@@ -137,77 +548,554 @@ export function useTodosAPI(): UseTodosAPIReturn {
         }
 
         // Sorting
-        filtered.sort((a, b) => {
-            let comparison = 0;
-
-            switch (filters.sortBy) {
-                case 'title':
-                    comparison = a.title.localeCompare(b.title);
-                    break;
-                case 'created':
-                    comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-                    break;
-                case 'updated':
-                    comparison = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
-                    break;
-                case 'priority':
-                    const priorityOrder = { HIGH: 3, MEDIUM: 2, LOW: 1 };
-                    comparison = priorityOrder[a.priority] - priorityOrder[b.priority];
-                    break;
-                case 'dueDate':
-                    if (!a.dueDate && !b.dueDate) comparison = 0;
-                    else if (!a.dueDate) comparison = 1;
-                    else if (!b.dueDate) comparison = -1;
-                    else comparison = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-                    break;
-                default:
-                    comparison = 0;
+        filtered.sort((a, b) => compareTodos(a, b, filters));
+
+        // Only as far as the loaded pages reach
+        const loaded = queryPages.get(queryKey);
+        return filtered.filter(todo => isInLoadedPages(todo, loaded, filters));
+    }, [visibleTodos, filters, queryPages, queryKey]);
+
+    const loadedPages = queryPages.get(queryKey);
+    const hasMoreTodos = hasMorePages(loadedPages);
+    const hasAllTodos = useMemo(() => hasLoadedAllTodos(queryPages), [queryPages]);
+
+    /**
+     * Load the first page of a new query; a query loaded recently is shown from the cache
+     * Offline, or with changes still waiting for sync, the list is filtered from local state only.
+     */
+    useEffect(() => {
+        if (!cacheReadyRef.current || loading || !isOnline || offlineSync.getPendingCount() > 0) return;
+
+        const cached = queryPagesRef.current.get(queryKey);
+        const isFresh = cached && Date.now() - cached.fetchedAt < QUERY_CACHE_TTL;
+        if (isFresh || requestedQueryRef.current === queryKey) return;
+
+        requestedQueryRef.current = queryKey;
+        const request = ++loadingRequestRef.current;
+        setLoading(true);
+        loadPage(todoQuery, 1)
+            .then(() => setError(null))
+            .catch(err => {
+                if (err instanceof RequestCancelledError) return;
+                // Unreachable: keep showing what we have
+                if (isOfflineError(err)) return;
+                setError(err instanceof Error ? err.message : 'Failed to fetch todos');
+                logger.error('Error fetching todos:', err);
+            })
+            .finally(() => {
+                // A newer load (e.g. a refresh) owns the flag now
+                if (loadingRequestRef.current === request) setLoading(false);
+            });
+    }, [todoQuery, queryKey, loading, isOnline, loadPage]);
+
+    /**
+     * Fetch the trash or the archive; from then on refreshes keep it up to date
+     * Offline, the cached copy is kept.
+     */
+    const loadSection = useCallback(async (section: LazySection) => {
+        try {
+            const fetched = await fetchSection(section, {});
+            setTodos(prev => replaceSection(prev, section, fetched));
+            setLoadedSections(prev => ({ ...prev, [section]: true }));
+        } catch (err) {
+            if (isOfflineError(err)) return;
+            logger.error(`Error fetching the ${section}:`, err);
+            throw err;
+        }
+    }, []);
+
+    const loadTrash = useCallback(() => loadSection('trash'), [loadSection]);
+    const loadArchive = useCallback(() => loadSection('archive'), [loadSection]);
+
+    /**
+     * Load the next page of the current query (for infinite scroll)
+     * @throws Error if the page can't be loaded
+     */
+    const loadMoreTodos = useCallback(async () => {
+        if (!loadedPages || !hasMoreTodos || isLoadingMore) return;
+
+        setIsLoadingMore(true);
+        try {
+            await loadPage(todoQuery, loadedPages.pagination.page + 1);
+        } catch (err) {
+            if (err instanceof RequestCancelledError) return;
+            logger.error('Error loading more todos:', err);
+            throw err;
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [loadedPages, hasMoreTodos, isLoadingMore, loadPage, todoQuery]);
+
+    /**
+     * Load every remaining page of the current query, one after the other
+     * @throws Error if a page can't be loaded; the pages before it stay loaded
+     */
+    const loadAllTodos = useCallback(async () => {
+        if (!loadedPages || !hasMoreTodos || isLoadingMore) return;
+
+        setIsLoadingMore(true);
+        try {
+            let { page, totalPages } = loadedPages.pagination;
+            while (page < totalPages) {
+                ({ page, totalPages } = await loadPage(todoQuery, page + 1));
             }
+        } catch (err) {
+            if (err instanceof RequestCancelledError) return;
+            logger.error('Error loading all todos:', err);
+            throw err;
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [loadedPages, hasMoreTodos, isLoadingMore, loadPage, todoQuery]);
+
+    // Sorting doesn't change the counts
+    const { status, priority, category, tag, dateFilter } = filters;
+    const statsQuery = useMemo<TodoFilters>(
+        () => ({ status, priority, category, tag, due: dateFilter }),
+        [status, priority, category, tag, dateFilter]
+    );
+
+    /**
+     * Fetch the stats of the current filters
+     */
+    useEffect(() => {
+        // The first fetch waits for the list to load
+        if (!isOnline || statsVersion === 0) return;
+
+        const controller = new AbortController();
+        todoService.getStats(statsQuery, { signal: controller.signal })
+            .then(setServerStats)
+            .catch(err => {
+                if (err instanceof RequestCancelledError) return;
+                logger.warn('Failed to load stats:', err);
+                setServerStats(null);
+            });
+
+        return () => controller.abort();
+    }, [statsQuery, statsVersion, isOnline]);
+
+    /**
+     * Stats from the server; counted from the local list while the server is out of reach
+     * Tags are the loaded ones plus any the server counted elsewhere.
+     */
+    const hasServerStats = serverStats !== null && isOnline && pendingChanges === 0;
+    const stats = useMemo(() => (hasServerStats ? serverStats! : {
+        ...computeLocalStats(historyTodos),
+        byTag: getTagCounts(visibleTodos),
+    }), [hasServerStats, serverStats, historyTodos, visibleTodos]);
+    const tags = useMemo(() => Array.from(new Set([
+        ...getAllTags(visibleTodos),
+        ...Object.keys(hasServerStats ? serverStats!.byTag ?? {} : {}),
+    ])), [hasServerStats, serverStats, visibleTodos]);
+
+    /**
+     * Server categories plus any introduced by local (optimistic or offline) changes
+     */
+    const allCategories = useMemo(() => {
+        const local = visibleTodos.map(todo => todo.category).filter((c): c is string => Boolean(c));
+        return Array.from(new Set([...categories, ...local]));
+    }, [categories, visibleTodos]);
+
+    // Full-text index over the todos outside the trash, updated as they change
+    const searchIndexRef = useRef(new SearchIndex());
+    const searchIndex = useMemo(() => {
+        searchIndexRef.current.sync(historyTodos);
+        return searchIndexRef.current;
+    }, [historyTodos]);
+
+    /**
+     * Todos matching a search query (see utils/todoQuery for the syntax)
+     * Words are looked up in the full-text index, so typos and prefixes still match;
+     * results are ranked by relevance. A query that doesn't parse yet is searched as
+     * plain words; the search box shows the error.
+     * @param within - Todos to search, in display order (default: the filtered list)
+     */
+    const searchTodos = useCallback((query: string, within: Todo[] = filteredAndSortedTodos): TodoSearchResult => {
+        if (!query.trim()) return { todos: within, highlights: {} };
+
+        const matchWords = (text: string): TodoPredicate => {
+            // Nothing to look up, e.g. only punctuation
+            if (tokenize(text).length === 0) return AdvancedFilterEngine.predicates.matchesText(text);
+            const ids = new Set(searchIndex.search(text).map(hit => hit.todo.id));
+            return todo => ids.has(todo.id);
+        };
 
-            return filters.sortOrder === 'asc' ? comparison : -comparison;
+        let predicate: TodoPredicate;
+        let words: string[];
+        try {
+            predicate = compileQuery(query, new Date(), matchWords);
+            words = getQueryText(query);
+        } catch (error) {
+            if (!(error instanceof QuerySyntaxError)) throw error;
+            predicate = matchWords(query);
+            words = [query];
+        }
+
+        const hits = new Map(searchIndex.search(words.join(' '), { matchAll: false }).map(hit => [hit.todo.id, hit]));
+        const score = (todo: Todo) => hits.get(todo.id)?.score ?? 0;
+        // Stable sort: equally relevant todos keep the list order
+        const matches = within.filter(predicate).sort((a, b) => score(b) - score(a));
+
+        const highlights: Record<string, SearchHighlights> = {};
+        matches.forEach(todo => {
+            const hit = hits.get(todo.id);
+            if (hit) highlights[todo.id] = hit.highlights;
         });
 
-        return filtered;
-    }, [todos, filters]);
+        return { todos: matches, highlights };
+    }, [filteredAndSortedTodos, searchIndex]);
 
-    const searchTodos = useCallback((query: string): Todo[] => {
-        if (!query) return filteredAndSortedTodos;
+    /**
+     * Apply a mutation optimistically, then send it
+     * - accepted: local state is patched with the server response
+     * - server unreachable (or older changes still queued): the change stays and is queued for sync
+     * - rejected: the change is rolled back and the error rethrown
+     */
+    const runMutation = useCallback(async <T>({
+        mutation,
+        title,
+        apply,
+        send,
+        patch,
+        rollback,
+    }: OptimisticMutation<T>): Promise<T | undefined> => {
+        const before = todosRef.current;
+        const mutations = Array.isArray(mutation) ? mutation : [mutation];
+        const titles = Array.isArray(title) ? title : [title];
+        // A batch can be empty locally and still change todos that aren't loaded
+        const action = mutations[0]?.type;
+        setTodos(apply);
 
-        const searchQuery = query.toLowerCase();
-        return filteredAndSortedTodos.filter(todo =>
-            todo.title.toLowerCase().includes(searchQuery) ||
-            todo.description?.toLowerCase().includes(searchQuery) ||
-            todo.category?.toLowerCase().includes(searchQuery)
-        );
-    }, [filteredAndSortedTodos]);
+        if (isOnline && offlineSync.getPendingCount() === 0) {
+            try {
+                const result = await send();
+                if (patch) setTodos(prev => patch(prev, result));
+                setStatsVersion(version => version + 1);
+                const after = apply(before);
+                if (action) recordActivity(action, before, patch ? patch(after, result) : after, userRef.current);
+                return result;
+            } catch (err) {
+                if (!isOfflineError(err)) {
+                    setTodos(rollback);
+                    throw err;
+                }
+                logger.warn('Server unreachable, change queued for sync');
+            }
+        }
+
+        for (const [index, queued] of mutations.entries()) {
+            await offlineSync.enqueue(queued, titles[index]);
+        }
+        if (action) recordActivity(action, before, apply(before), userRef.current);
+        return undefined;
+    }, [isOnline]);
 
+    /**
+     * @returns The created todo (a local stand-in with a temporary ID while offline)
+     */
     const createTodo = useCallback(async (data: TodoFormData) => {
-        await todoService.createTodo(data);
-        await fetchTodos();
-    }, [fetchTodos]);
+        const tempId = createTempId();
+        const local = buildLocalTodo(tempId, data);
+        const created = await runMutation({
+            mutation: { type: 'create', tempId, data },
+            title: data.title,
+            apply: prev => [local, ...prev],
+            send: () => todoService.createTodo(data),
+            patch: (prev, created) => replaceTodo(prev, tempId, created),
+            rollback: prev => prev.filter(todo => todo.id !== tempId),
+        });
+        return created ?? local;
+    }, [runMutation]);
 
     const updateTodo = useCallback(async (id: string, data: TodoFormData) => {
-        await todoService.updateTodo(id, data);
-        await fetchTodos();
-    }, [fetchTodos]);
+        const previous = todosRef.current.find(t => t.id === id);
+        if (!previous) throw new Error('Todo not found');
+
+        await runMutation({
+            mutation: { type: 'update', id, data },
+            title: data.title,
+            apply: prev => prev.map(todo => todo.id === id ? applyLocalUpdate(todo, data) : todo),
+            send: () => todoService.updateTodo(id, data),
+            patch: (prev, updated) => replaceTodo(prev, id, updated),
+            rollback: prev => replaceTodo(prev, id, previous),
+        });
+    }, [runMutation]);
 
+    /**
+     * Move a todo to the trash
+     */
     const deleteTodo = useCallback(async (id: string) => {
-        await todoService.deleteTodo(id);
-        await fetchTodos();
-    }, [fetchTodos]);
+        const previous = todosRef.current.find(t => t.id === id);
+        if (!previous) throw new Error('Todo not found');
+
+        const deletedAt = new Date().toISOString();
+        await runMutation({
+            mutation: { type: 'delete', id },
+            title: previous.title,
+            apply: prev => prev.map(todo => todo.id === id ? { ...todo, deletedAt } : todo),
+            send: () => todoService.deleteTodo(id),
+            patch: (prev, trashed) => replaceTodo(prev, id, trashed),
+            rollback: prev => replaceTodo(prev, id, previous),
+        });
+    }, [runMutation]);
+
+    const restoreTodo = useCallback(async (id: string) => {
+        const previous = todosRef.current.find(t => t.id === id);
+        if (!previous) throw new Error('Todo not found');
+
+        await runMutation({
+            mutation: { type: 'restore', id },
+            title: previous.title,
+            apply: prev => prev.map(todo => todo.id === id ? { ...todo, deletedAt: null } : todo),
+            send: () => todoService.restoreTodo(id),
+            patch: (prev, restored) => replaceTodo(prev, id, restored),
+            rollback: prev => replaceTodo(prev, id, previous),
+        });
+    }, [runMutation]);
+
+    /**
+     * Delete a trashed todo permanently
+     */
+    const purgeTodo = useCallback(async (id: string) => {
+        const index = todosRef.current.findIndex(t => t.id === id);
+        if (index === -1) throw new Error('Todo not found');
+        const previous = todosRef.current[index];
 
+        await runMutation({
+            mutation: { type: 'purge', id },
+            title: previous.title,
+            apply: prev => prev.filter(todo => todo.id !== id),
+            send: () => todoService.purgeTodo(id),
+            rollback: prev => reinsertTodo(prev, previous, index),
+        });
+    }, [runMutation]);
+
+    /**
+     * Archive a todo (or, with `archived: false`, move it back to the list)
+     */
+    const setArchived = useCallback(async (id: string, archived: boolean) => {
+        const previous = todosRef.current.find(t => t.id === id);
+        if (!previous) throw new Error('Todo not found');
+
+        const archivedAt = archived ? new Date().toISOString() : null;
+        await runMutation({
+            mutation: { type: archived ? 'archive' : 'unarchive', id },
+            title: previous.title,
+            apply: prev => prev.map(todo => todo.id === id ? { ...todo, archivedAt } : todo),
+            send: () => archived ? todoService.archiveTodo(id) : todoService.unarchiveTodo(id),
+            patch: (prev, updated) => replaceTodo(prev, id, updated),
+            rollback: prev => replaceTodo(prev, id, previous),
+        });
+    }, [runMutation]);
+
+    const archiveTodo = useCallback((id: string) => setArchived(id, true), [setArchived]);
+    const unarchiveTodo = useCallback((id: string) => setArchived(id, false), [setArchived]);
+
+    /**
+     * @returns The next occurrence spawned by completing a recurring todo, if any
+     */
     const toggleTodo = useCallback(async (id: string) => {
-        const todo = todos.find(t => t.id === id);
+        const todo = todosRef.current.find(t => t.id === id);
         if (!todo) throw new Error('Todo not found');
 
-        await todoService.toggleTodo(id, !todo.completed);
-        await fetchTodos();
-    }, [todos, fetchTodos]);
+        const completed = !todo.completed;
+        await runMutation({
+            mutation: { type: 'toggle', id, completed },
+            title: todo.title,
+            apply: prev => prev.map(t => t.id === id
+                ? { ...t, completed, completedAt: getCompletedAtFor(completed), updatedAt: new Date().toISOString() }
+                : t),
+            send: () => todoService.toggleTodo(id, completed),
+            patch: (prev, updated) => replaceTodo(prev, id, updated),
+            rollback: prev => replaceTodo(prev, id, todo),
+        });
+
+        // Completing a recurring todo spawns its next occurrence
+        const next = completed ? todoService.getNextOccurrenceRequest(todo) : null;
+        if (!next) return null;
 
+        const tempId = createTempId();
+        const local = buildLocalTodo(tempId, next);
+        const created = await runMutation({
+            mutation: { type: 'create', tempId, data: next },
+            title: next.title,
+            apply: prev => [local, ...prev],
+            send: () => todoService.createTodo(next),
+            patch: (prev, created) => replaceTodo(prev, tempId, created),
+            rollback: prev => prev.filter(t => t.id !== tempId),
+        });
+        logger.info('Next occurrence created:', next.dueDate);
+        return created ?? local;
+    }, [runMutation]);
+
+    /**
+     * Check or uncheck a checklist item
+     */
+    const toggleSubtask = useCallback(async (todoId: string, subtaskId: string) => {
+        const previous = todosRef.current.find(t => t.id === todoId);
+        const subtask = previous?.subtasks?.find(s => s.id === subtaskId);
+        if (!previous || !subtask) throw new Error('Checklist item not found');
+
+        const subtasks = previous.subtasks!.map(s => s.id === subtaskId ? { ...s, completed: !s.completed } : s);
+        await runMutation({
+            mutation: { type: 'update', id: todoId, data: { subtasks } },
+            title: previous.title,
+            apply: prev => prev.map(todo => todo.id === todoId
+                ? { ...todo, subtasks, updatedAt: new Date().toISOString() }
+                : todo),
+            send: () => todoService.toggleSubtask(todoId, subtask),
+            patch: (prev, updated) => replaceTodo(prev, todoId, updated),
+            rollback: prev => replaceTodo(prev, todoId, previous),
+        });
+    }, [runMutation]);
+
+    /**
+     * @returns ID of the new checklist item (client-generated while offline)
+     */
+    const addSubtask = useCallback(async (todoId: string, title: string) => {
+        const previous = todosRef.current.find(t => t.id === todoId);
+        if (!previous) throw new Error('Todo not found');
+
+        const local = createSubtask(title);
+        const subtasks = [...(previous.subtasks || []), local];
+        const updated = await runMutation({
+            mutation: { type: 'update', id: todoId, data: { subtasks } },
+            title: previous.title,
+            apply: prev => prev.map(todo => todo.id === todoId
+                ? { ...todo, subtasks, updatedAt: new Date().toISOString() }
+                : todo),
+            send: () => todoService.addSubtask(todoId, local.title),
+            patch: (prev, updated) => replaceTodo(prev, todoId, updated),
+            rollback: prev => replaceTodo(prev, todoId, previous),
+        });
+
+        const knownIds = new Set(previous.subtasks?.map(s => s.id));
+        return updated?.subtasks?.find(s => !knownIds.has(s.id))?.id ?? local.id;
+    }, [runMutation]);
+
+    const deleteSubtask = useCallback(async (todoId: string, subtaskId: string) => {
+        const previous = todosRef.current.find(t => t.id === todoId);
+        if (!previous?.subtasks?.some(s => s.id === subtaskId)) throw new Error('Checklist item not found');
+
+        const subtasks = previous.subtasks.filter(s => s.id !== subtaskId);
+        await runMutation({
+            mutation: { type: 'update', id: todoId, data: { subtasks } },
+            title: previous.title,
+            apply: prev => prev.map(todo => todo.id === todoId
+                ? { ...todo, subtasks, updatedAt: new Date().toISOString() }
+                : todo),
+            send: () => todoService.deleteSubtask(todoId, subtaskId),
+            rollback: prev => replaceTodo(prev, todoId, previous),
+        });
+    }, [runMutation]);
+
+    /**
+     * Move several todos to the trash in one request
+     */
     const bulkDelete = useCallback(async (ids: string[]) => {
-        await Promise.all(ids.map(id => todoService.deleteTodo(id)));
-        await fetchTodos();
-    }, [fetchTodos]);
+        const idSet = new Set(ids);
+        const previous = todosRef.current.filter(todo => idSet.has(todo.id));
+        if (previous.length === 0) return;
+
+        const previousById = new Map(previous.map(todo => [todo.id, todo]));
+        const deletedAt = new Date().toISOString();
+        await runMutation({
+            mutation: previous.map(todo => ({ type: 'delete' as const, id: todo.id })),
+            title: previous.map(todo => todo.title),
+            apply: prev => prev.map(todo => idSet.has(todo.id) ? { ...todo, deletedAt } : todo),
+            send: () => todoService.bulkDelete([...previousById.keys()]),
+            rollback: prev => prev.map(todo => previousById.get(todo.id) ?? todo),
+        });
+    }, [runMutation]);
+
+    /**
+     * Restore several trashed todos in one request
+     */
+    const bulkRestore = useCallback(async (ids: string[]) => {
+        const idSet = new Set(ids);
+        const previous = todosRef.current.filter(todo => idSet.has(todo.id));
+        if (previous.length === 0) return;
+
+        const previousById = new Map(previous.map(todo => [todo.id, todo]));
+        await runMutation({
+            mutation: previous.map(todo => ({ type: 'restore' as const, id: todo.id })),
+            title: previous.map(todo => todo.title),
+            apply: prev => prev.map(todo => idSet.has(todo.id) ? { ...todo, deletedAt: null } : todo),
+            send: () => todoService.bulkRestore([...previousById.keys()]),
+            patch: (prev, restored) => mergeTodos(prev, restored ?? []),
+            rollback: prev => prev.map(todo => previousById.get(todo.id) ?? todo),
+        });
+    }, [runMutation]);
+
+    const bulkArchive = useCallback(async (ids: string[]) => {
+        await runForAll(ids, archiveTodo, 'Bulk archive');
+    }, [archiveTodo]);
+
+    const bulkUnarchive = useCallback(async (ids: string[]) => {
+        await runForAll(ids, unarchiveTodo, 'Bulk unarchive');
+    }, [unarchiveTodo]);
+
+    /**
+     * Archive todos completed a while ago (one request; the server also covers todos not loaded here)
+     * @param olderThanDays - Minimum days since the todo was completed (0 archives all completed)
+     * @returns Number of archived todos
+     */
+    const archiveCompleted = useCallback(async (olderThanDays: number) => {
+        const cutoff = Date.now() - olderThanDays * DAY_MS;
+        const matches = todosRef.current.filter(todo =>
+            todo.completed && !todo.archivedAt && !todo.deletedAt &&
+            new Date(getCompletedAt(todo)!).getTime() <= cutoff
+        );
+
+        const previousById = new Map(matches.map(todo => [todo.id, todo]));
+        const archivedAt = new Date().toISOString();
+        const result = await runMutation({
+            mutation: matches.map(todo => ({ type: 'archive' as const, id: todo.id })),
+            title: matches.map(todo => todo.title),
+            apply: prev => prev.map(todo => previousById.has(todo.id) ? { ...todo, archivedAt } : todo),
+            send: () => todoService.archiveCompletedTodos(new Date(cutoff).toISOString()),
+            rollback: prev => prev.map(todo => previousById.get(todo.id) ?? todo),
+        });
+        return result?.archivedCount ?? matches.length;
+    }, [runMutation]);
+
+    /**
+     * Permanently delete trashed todos in one request
+     * @param before - Only todos trashed before this time (all if omitted)
+     * @returns Number of purged todos
+     */
+    const purgeTrash = useCallback(async (before?: number) => {
+        const trashed = todosRef.current.filter(todo =>
+            todo.deletedAt && (before === undefined || new Date(todo.deletedAt).getTime() < before)
+        );
+        const trashedIds = new Set(trashed.map(todo => todo.id));
+
+        const result = await runMutation({
+            mutation: trashed.map(todo => ({ type: 'purge' as const, id: todo.id })),
+            title: trashed.map(todo => todo.title),
+            apply: prev => prev.filter(todo => !trashedIds.has(todo.id)),
+            send: () => todoService.purgeTrash(before === undefined ? undefined : new Date(before).toISOString()),
+            rollback: prev => [...prev, ...trashed.filter(todo => !prev.some(t => t.id === todo.id))],
+        });
+        return result?.deletedCount ?? trashed.length;
+    }, [runMutation]);
+
+    const emptyTrash = useCallback(async () => {
+        await purgeTrash();
+    }, [purgeTrash]);
+
+    /**
+     * Permanently delete todos that have been in the trash longer than the retention period
+     * @param retentionDays - Days a todo stays in the trash (0 keeps them forever)
+     * @returns Number of purged todos
+     */
+    const purgeExpiredTrash = useCallback(async (retentionDays: number) => {
+        if (retentionDays <= 0) return 0;
+
+        const purged = await purgeTrash(Date.now() - retentionDays * DAY_MS);
+        if (purged > 0) logger.info('Expired todos purged from trash:', purged);
+        return purged;
+    }, [purgeTrash]);
 
     /**
      * ✅ FIXED: Reorder with filter/sort awareness
@@ -220,8 +1108,9 @@ export function useTodosAPI(): UseTodosAPIReturn {
             throw new Error('Drag & drop only works with default sorting (Created Date, Newest)');
         }
 
-        // 1. Optimistic update - immediately update UI
-        setTodos(reorderedTodos);
+        // 1. Optimistic update - immediately update UI (todos outside the list stay as they are)
+        const reorderedIds = new Set(reorderedTodos.map(todo => todo.id));
+        setTodos(prev => [...reorderedTodos, ...prev.filter(todo => !reorderedIds.has(todo.id))]);
 
         try {
             // 2. Prepare reorder data for backend
@@ -233,6 +1122,15 @@ export function useTodosAPI(): UseTodosAPIReturn {
             // 3. Send to backend
             await todoService.reorderTodos(reorderData);
 
+            const user = userRef.current;
+            activityLog.record({
+                action: 'reorder',
+                todoId: null,
+                todoTitle: `${reorderedTodos.length} todos`,
+                changes: [],
+                user: user ? { id: user.id, name: user.name } : null,
+            });
+
             logger.info('✅ Todos reordered successfully');
 
         } catch (error) {
@@ -245,6 +1143,14 @@ export function useTodosAPI(): UseTodosAPIReturn {
         }
     }, [hasActiveFiltersOrSort, fetchTodos]);
 
+    /**
+     * Add a todo that isn't in the loaded pages to the local list
+     * A local copy wins, as it may hold changes the server hasn't seen yet.
+     */
+    const addFetchedTodo = useCallback((todo: Todo) => {
+        setTodos(prev => prev.some(t => t.id === todo.id) ? prev : [...prev, todo]);
+    }, []);
+
     const refreshTodos = useCallback(async () => {
         setIsRefreshing(true);
         try {
@@ -258,15 +1164,57 @@ export function useTodosAPI(): UseTodosAPIReturn {
         setError(null);
     }, []);
 
+    const dismissSyncConflicts = useCallback(() => {
+        setSyncConflicts([]);
+    }, []);
+
     useEffect(() => {
         fetchTodos();
     }, [fetchTodos]);
 
+    // Cancel the in-flight fetch on unmount
+    useEffect(() => {
+        return () => fetchControllerRef.current?.abort();
+    }, []);
+
+    // Track the number of queued offline changes
+    useEffect(() => offlineSync.subscribe(setPendingChanges), []);
+
+    // Keep the offline cache in sync with local state
+    useEffect(() => {
+        if (!cacheReadyRef.current) return;
+        offlineStore.saveTodos(todos).catch(err => logger.warn('Failed to cache todos:', err));
+    }, [todos]);
+
+    // Back online: replay queued changes and reload
+    const wasOnlineRef = useRef(isOnline);
+    useEffect(() => {
+        if (isOnline && !wasOnlineRef.current) {
+            logger.info('Back online, syncing pending changes');
+            fetchTodos();
+        }
+        wasOnlineRef.current = isOnline;
+    }, [isOnline, fetchTodos]);
+
     return {
         todos: filteredAndSortedTodos,
-        categories,
+        allTodos: historyTodos,
+        trashedTodos,
+        archivedTodos,
+        isTrashLoaded: loadedSections.trash,
+        isArchiveLoaded: loadedSections.archive,
+        loadTrash,
+        loadArchive,
+        categories: allCategories,
+        tags,
         stats,
         filters,
+        totalTodos: loadedPages?.pagination.total ?? null,
+        hasMoreTodos,
+        hasAllTodos,
+        isLoadingMore,
+        loadMoreTodos,
+        loadAllTodos,
         loading,
         error,
         isRefreshing,
@@ -274,11 +1222,30 @@ export function useTodosAPI(): UseTodosAPIReturn {
         updateTodo,
         deleteTodo,
         toggleTodo,
+        toggleSubtask,
+        addSubtask,
+        deleteSubtask,
         bulkDelete,
+        restoreTodo,
+        purgeTodo,
+        bulkRestore,
+        emptyTrash,
+        purgeExpiredTrash,
+        archiveTodo,
+        unarchiveTodo,
+        bulkArchive,
+        bulkUnarchive,
+        archiveCompleted,
         reorderTodos,
+        addFetchedTodo,
         setFilters,
         searchTodos,
         refreshTodos,
-        clearError
+        clearError,
+        isOnline,
+        pendingChanges,
+        isSyncing,
+        syncConflicts,
+        dismissSyncConflicts
     };
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+// src/hooks/useUndoableTodos.test.ts
+import { act, renderHook } from '@testing-library/react';
+import type { Todo, TodoFormData } from '../components/TodoForm';
+import { makeTodo } from '../test/todoFixtures';
+import { offlineSync } from '../services/offlineSync';
+import { useUndoableTodos } from './useUndoableTodos';
+
+jest.mock('../services/offlineSync', () => ({
+    offlineSync: { onIdRemapped: jest.fn() },
+}));
+
+/**
+ * In-memory stand-in for useTodosAPI: every call is logged and applied to `todos`
+ */
+function createActions(initial: Todo[]) {
+    const todos = [...initial];
+    const calls: string[] = [];
+    let nextId = 100;
+
+    const find = (id: string) => {
+        const found = todos.find(t => t.id === id);
+        if (!found) throw new Error('Todo not found');
+        return found;
+    };
+    const set = (id: string, fields: Partial<Todo>) => {
+        Object.assign(find(id), fields);
+    };
+
+    return {
+        todos,
+        calls,
+        createTodo: async (data: TodoFormData) => {
+            const created = makeTodo({ id: String(nextId++), title: data.title });
+            todos.push(created);
+            calls.push(`create ${created.id}`);
+            return created;
+        },
+        updateTodo: async (id: string, data: TodoFormData) => {
+            set(id, { title: data.title });
+            calls.push(`update ${id} ${data.title}`);
+        },
+        deleteTodo: async (id: string) => {
+            set(id, { deletedAt: 'now' });
+            calls.push(`delete ${id}`);
+        },
+        restoreTodo: async (id: string) => {
+            set(id, { deletedAt: null });
+            calls.push(`restore ${id}`);
+        },
+        bulkDelete: async (ids: string[]) => {
+            ids.forEach(id => set(id, { deletedAt: 'now' }));
+            calls.push(`delete ${ids.join(',')}`);
+        },
+        bulkRestore: async (ids: string[]) => {
+            ids.forEach(id => set(id, { deletedAt: null }));
+            calls.push(`restore ${ids.join(',')}`);
+        },
+        archiveTodo: async (id: string) => {
+            calls.push(`archive ${id}`);
+        },
+        unarchiveTodo: async (id: string) => {
+            calls.push(`unarchive ${id}`);
+        },
+        toggleTodo: async (id: string) => {
+            set(id, { completed: !find(id).completed });
+            calls.push(`toggle ${id}`);
+            return null;
+        },
+        toggleSubtask: async (todoId: string, subtaskId: string) => {
+            calls.push(`toggle ${todoId}/${subtaskId}`);
+        },
+        addSubtask: async (todoId: string, title: string) => {
+            const subtaskId = `s${nextId++}`;
+            calls.push(`add ${todoId}/${subtaskId} ${title}`);
+            return subtaskId;
+        },
+        deleteSubtask: async (todoId: string, subtaskId: string) => {
+            calls.push(`remove ${todoId}/${subtaskId}`);
+        },
+    };
+}
+
+const setup = (initial: Todo[]) => {
+    const actions = createActions(initial);
+    const { result } = renderHook(() => useUndoableTodos(actions));
+    return { actions, result };
+};
+
+describe('useUndoableTodos', () => {
+    beforeEach(() => {
+        (offlineSync.onIdRemapped as jest.Mock).mockReturnValue(() => undefined);
+    });
+
+    it('should undo an edit by restoring the previous fields', async () => {
+        const { actions, result } = setup([makeTodo({ id: '1', title: 'Before' })]);
+
+        await act(async () => {
+            await result.current.updateFields('1', { title: 'After' });
+            await result.current.undo();
+        });
+
+        expect(actions.calls).toEqual(['update 1 After', 'update 1 Before']);
+        expect(result.current.redoLabel).toBe('Edit "After"');
+    });
+
+    it('should clear redo once a new action is recorded', async () => {
+        const { result } = setup([makeTodo({ id: '1' }), makeTodo({ id: '2' })]);
+
+        await act(async () => {
+            await result.current.toggle('1');
+            await result.current.undo();
+        });
+        expect(result.current.canRedo).toBe(true);
+
+        await act(async () => {
+            await result.current.remove('2');
+        });
+        expect(result.current.canRedo).toBe(false);
+        expect(result.current.undoLabel).toBe('Delete "Todo 2"');
+    });
+
+    it('should delete several todos in one request and one undoable step', async () => {
+        const { actions, result } = setup([makeTodo({ id: '1' }), makeTodo({ id: '2' }), makeTodo({ id: '3' })]);
+
+        await act(async () => {
+            await result.current.bulkRemove(['1', '3', 'unknown']);
+        });
+        expect(result.current.undoLabel).toBe('Delete 2 todos');
+
+        await act(async () => {
+            await result.current.undo();
+        });
+        expect(actions.calls).toEqual(['delete 1,3', 'restore 1,3']);
+        expect(result.current.canUndo).toBe(false);
+    });
+
+    it('should merge a bulk action into one step undone in reverse order', async () => {
+        const { actions, result } = setup([makeTodo({ id: '1' }), makeTodo({ id: '2', completed: true })]);
+
+        await act(async () => {
+            await result.current.bulkArchive(['1', '2']);
+        });
+        expect(result.current.undoLabel).toBe('Archive 2 todos');
+
+        actions.calls.length = 0;
+        await act(async () => {
+            await result.current.undo();
+        });
+        expect(actions.calls).toEqual(['unarchive 2', 'unarchive 1']);
+    });
+
+    it('should only toggle todos that are not in the requested state yet', async () => {
+        const { actions, result } = setup([makeTodo({ id: '1' }), makeTodo({ id: '2', completed: true })]);
+
+        await act(async () => {
+            await result.current.bulkSetCompleted(['1', '2'], true);
+        });
+
+        expect(actions.calls).toEqual(['toggle 1']);
+        expect(result.current.undoLabel).toBe('Complete 1 todos');
+    });
+
+    it('should restore a created todo on redo instead of creating a copy', async () => {
+        const { actions, result } = setup([]);
+
+        await act(async () => {
+            await result.current.create({ title: 'New' } as TodoFormData);
+            await result.current.undo();
+            await result.current.redo();
+            await result.current.undo();
+            await result.current.redo();
+        });
+
+        expect(actions.calls).toEqual(['create 100', 'delete 100', 'restore 100', 'delete 100', 'restore 100']);
+        expect(actions.todos).toEqual([expect.objectContaining({ id: '100', deletedAt: null })]);
+    });
+
+    it('should follow a todo that got its server ID from an offline sync', async () => {
+        let remap: (tempId: string, serverId: string) => void = () => undefined;
+        (offlineSync.onIdRemapped as jest.Mock).mockImplementation(listener => {
+            remap = listener;
+            return () => undefined;
+        });
+        const { actions, result } = setup([makeTodo({ id: 'temp-1' })]);
+
+        await act(async () => {
+            await result.current.toggle('temp-1');
+        });
+        actions.todos.push(makeTodo({ id: '42', completed: true }));
+        remap('temp-1', '42');
+
+        await act(async () => {
+            await result.current.undo();
+        });
+        expect(actions.calls).toEqual(['toggle temp-1', 'toggle 42']);
+    });
+
+    it('should bring back a removed checklist item with its state', async () => {
+        const { actions, result } = setup([
+            makeTodo({ id: '1', subtasks: [{ id: 's1', title: 'Pack', completed: true }] }),
+        ]);
+
+        await act(async () => {
+            await result.current.removeSubtask('1', 's1');
+            await result.current.undo();
+            await result.current.redo();
+        });
+
+        expect(actions.calls).toEqual(['remove 1/s1', 'add 1/s100 Pack', 'toggle 1/s100', 'remove 1/s100']);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,353 @@
+// src/hooks/useUndoableTodos.ts
+import { useCallback, useEffect, useRef } from 'react';
+import type { Todo, TodoFormData } from '../components/TodoForm';
+import { offlineSync } from '../services/offlineSync';
+import { useCommandHistory, type Command } from './useCommandHistory';
+
+interface TodoActions {
+    /** Every todo the operations may target, not just the filtered list */
+    todos: Todo[];
+    createTodo: (data: TodoFormData) => Promise<Todo>;
+    updateTodo: (id: string, data: TodoFormData) => Promise<void>;
+    deleteTodo: (id: string) => Promise<void>;
+    restoreTodo: (id: string) => Promise<void>;
+    bulkDelete: (ids: string[]) => Promise<void>;
+    bulkRestore: (ids: string[]) => Promise<void>;
+    archiveTodo: (id: string) => Promise<void>;
+    unarchiveTodo: (id: string) => Promise<void>;
+    toggleTodo: (id: string) => Promise<Todo | null>;
+    toggleSubtask: (todoId: string, subtaskId: string) => Promise<void>;
+    addSubtask: (todoId: string, title: string) => Promise<string>;
+    deleteSubtask: (todoId: string, subtaskId: string) => Promise<void>;
+}
+
+/**
+ * Convert a todo back into form data (e.g. to revert an edit)
+ */
+function todoToFormData(todo: Todo): TodoFormData {
+    return {
+        title: todo.title,
+        description: todo.description || '',
+        priority: todo.priority,
+        category: todo.category || '',
+        startDate: todo.startDate ? todo.startDate.split('T')[0] : '',
+        dueDate: todo.dueDate ? todo.dueDate.split('T')[0] : '',
+        completed: todo.completed,
+        subtasks: todo.subtasks ? todo.subtasks.map(subtask => ({ ...subtask })) : [],
+        recurrence: todo.recurrence || null,
+        tags: todo.tags ? [...todo.tags] : [],
+    };
+}
+
+/**
+ * Combine several commands into one; undone in reverse order
+ */
+function combineCommands(label: string, commands: Command[]): Command {
+    return {
+        label,
+        undo: async () => {
+            for (const command of [...commands].reverse()) {
+                await command.undo();
+            }
+        },
+        redo: async () => {
+            for (const command of commands) {
+                await command.redo();
+            }
+        },
+    };
+}
+
+/**
+ * Run an action for every ID; keep the commands of those that succeeded
+ * @throws The first failure, after recording the successful part
+ */
+async function runForEach(
+    ids: string[],
+    action: (id: string) => Promise<Command | null>,
+    onDone: (commands: Command[]) => void
+): Promise<void> {
+    const results = await Promise.allSettled(ids.map(action));
+    const commands = results
+        .filter((r): r is PromiseFulfilledResult<Command | null> => r.status === 'fulfilled')
+        .map(r => r.value)
+        .filter((c): c is Command => c !== null);
+
+    if (commands.length > 0) {
+        onDone(commands);
+    }
+
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) {
+        throw failed.reason;
+    }
+}
+
+/**
+ * Todo operations recorded in an undo/redo history
+ * Each action performs the operation and records a command with its inverse.
+ * Deletes go to the trash, so undoing one (or redoing a create) restores the same todo.
+ * Todos created again by a redo (the next occurrence of a recurring todo), or synced
+ * after being created offline, get a new ID; commands resolve IDs through an alias
+ * map so older history entries keep working.
+ */
+export function useUndoableTodos(actions: TodoActions) {
+    const { record, undo, redo, canUndo, canRedo, undoLabel, redoLabel } = useCommandHistory();
+
+    // Commands run long after they were created: always use the latest list and actions
+    const actionsRef = useRef(actions);
+    actionsRef.current = actions;
+
+    // Old ID → ID of the todo that replaced it (e.g. after an offline sync)
+    const aliasesRef = useRef<Record<string, string>>({});
+
+    const resolveId = useCallback((id: string) => {
+        let current = id;
+        while (aliasesRef.current[current]) {
+            current = aliasesRef.current[current];
+        }
+        return current;
+    }, []);
+
+    const alias = useCallback((oldId: string, newId: string) => {
+        if (oldId !== newId) {
+            aliasesRef.current[resolveId(oldId)] = newId;
+        }
+    }, [resolveId]);
+
+    // Todos created offline get their server ID once the queue is replayed
+    useEffect(() => offlineSync.onIdRemapped(alias), [alias]);
+
+    const findTodo = useCallback((id: string) => {
+        const todo = actionsRef.current.todos.find(t => t.id === id);
+        if (!todo) throw new Error('Todo not found');
+        return todo;
+    }, []);
+
+    // ============================================
+    // COMMAND FACTORIES (perform + return inverse)
+    // ============================================
+
+    const performCreate = useCallback(async (data: TodoFormData): Promise<Command> => {
+        const created = await actionsRef.current.createTodo(data);
+        return {
+            label: `Create "${data.title}"`,
+            undo: () => actionsRef.current.deleteTodo(resolveId(created.id)),
+            // Undoing moved it to the trash; bring that one back rather than a copy
+            redo: () => actionsRef.current.restoreTodo(resolveId(created.id)),
+        };
+    }, [resolveId]);
+
+    const performUpdate = useCallback(async (id: string, data: TodoFormData): Promise<Command> => {
+        const previous = todoToFormData(findTodo(id));
+        await actionsRef.current.updateTodo(id, data);
+        return {
+            label: `Edit "${data.title}"`,
+            undo: () => actionsRef.current.updateTodo(resolveId(id), previous),
+            redo: () => actionsRef.current.updateTodo(resolveId(id), data),
+        };
+    }, [findTodo, resolveId]);
+
+    const performDelete = useCallback(async (id: string): Promise<Command> => {
+        const previous = findTodo(id);
+        await actionsRef.current.deleteTodo(id);
+        return {
+            label: `Delete "${previous.title}"`,
+            undo: () => actionsRef.current.restoreTodo(resolveId(id)),
+            redo: () => actionsRef.current.deleteTodo(resolveId(id)),
+        };
+    }, [findTodo, resolveId]);
+
+    const performToggle = useCallback(async (id: string): Promise<Command> => {
+        const todo = findTodo(id);
+        const spawned = await actionsRef.current.toggleTodo(id);
+        return {
+            label: `${todo.completed ? 'Reopen' : 'Complete'} "${todo.title}"`,
+            undo: async () => {
+                await actionsRef.current.toggleTodo(resolveId(id));
+                // Completing a recurring todo created its next occurrence
+                if (spawned) await actionsRef.current.deleteTodo(resolveId(spawned.id));
+            },
+            redo: async () => {
+                const again = await actionsRef.current.toggleTodo(resolveId(id));
+                if (spawned && again) alias(spawned.id, again.id);
+            },
+        };
+    }, [findTodo, resolveId, alias]);
+
+    const performArchive = useCallback(async (id: string): Promise<Command> => {
+        const todo = findTodo(id);
+        await actionsRef.current.archiveTodo(id);
+        return {
+            label: `Archive "${todo.title}"`,
+            undo: () => actionsRef.current.unarchiveTodo(resolveId(id)),
+            redo: () => actionsRef.current.archiveTodo(resolveId(id)),
+        };
+    }, [findTodo, resolveId]);
+
+    const performSubtaskToggle = useCallback(async (id: string, subtaskId: string): Promise<Command> => {
+        const subtask = findTodo(id).subtasks?.find(s => s.id === subtaskId);
+        await actionsRef.current.toggleSubtask(id, subtaskId);
+        return {
+            label: `${subtask?.completed ? 'Uncheck' : 'Check'} "${subtask?.title}"`,
+            undo: () => actionsRef.current.toggleSubtask(resolveId(id), subtaskId),
+            redo: () => actionsRef.current.toggleSubtask(resolveId(id), subtaskId),
+        };
+    }, [findTodo, resolveId]);
+
+    // A checklist item added again gets a new ID; the command keeps track of the current one
+    const performSubtaskAdd = useCallback(async (id: string, title: string): Promise<Command> => {
+        let subtaskId = await actionsRef.current.addSubtask(id, title);
+        return {
+            label: `Add "${title}"`,
+            undo: () => actionsRef.current.deleteSubtask(resolveId(id), subtaskId),
+            redo: async () => {
+                subtaskId = await actionsRef.current.addSubtask(resolveId(id), title);
+            },
+        };
+    }, [resolveId]);
+
+    const performSubtaskDelete = useCallback(async (id: string, subtaskId: string): Promise<Command> => {
+        const subtask = findTodo(id).subtasks?.find(s => s.id === subtaskId);
+        if (!subtask) throw new Error('Checklist item not found');
+
+        await actionsRef.current.deleteSubtask(id, subtaskId);
+        let currentId = subtaskId;
+        return {
+            label: `Remove "${subtask.title}"`,
+            undo: async () => {
+                currentId = await actionsRef.current.addSubtask(resolveId(id), subtask.title);
+                if (subtask.completed) await actionsRef.current.toggleSubtask(resolveId(id), currentId);
+            },
+            redo: () => actionsRef.current.deleteSubtask(resolveId(id), currentId),
+        };
+    }, [findTodo, resolveId]);
+
+    // ============================================
+    // PUBLIC ACTIONS
+    // ============================================
+
+    const create = useCallback(async (data: TodoFormData) => {
+        const command = await performCreate(data);
+        record(command);
+        return command;
+    }, [performCreate, record]);
+
+    const update = useCallback(async (id: string, data: TodoFormData) => {
+        const command = await performUpdate(id, data);
+        record(command);
+        return command;
+    }, [performUpdate, record]);
+
+    /**
+     * Change some fields of a todo, keeping the rest (e.g. after a drag & drop)
+     */
+    const updateFields = useCallback(async (id: string, fields: Partial<TodoFormData>) => {
+        const command = await performUpdate(id, { ...todoToFormData(findTodo(id)), ...fields });
+        record(command);
+        return command;
+    }, [performUpdate, findTodo, record]);
+
+    const remove = useCallback(async (id: string) => {
+        const command = await performDelete(id);
+        record(command);
+        return command;
+    }, [performDelete, record]);
+
+    const toggle = useCallback(async (id: string) => {
+        const command = await performToggle(id);
+        record(command);
+        return command;
+    }, [performToggle, record]);
+
+    const archive = useCallback(async (id: string) => {
+        const command = await performArchive(id);
+        record(command);
+        return command;
+    }, [performArchive, record]);
+
+    const toggleSubtask = useCallback(async (id: string, subtaskId: string) => {
+        const command = await performSubtaskToggle(id, subtaskId);
+        record(command);
+        return command;
+    }, [performSubtaskToggle, record]);
+
+    const addSubtask = useCallback(async (id: string, title: string) => {
+        const command = await performSubtaskAdd(id, title);
+        record(command);
+        return command;
+    }, [performSubtaskAdd, record]);
+
+    const removeSubtask = useCallback(async (id: string, subtaskId: string) => {
+        const command = await performSubtaskDelete(id, subtaskId);
+        record(command);
+        return command;
+    }, [performSubtaskDelete, record]);
+
+    /**
+     * Delete several todos (in one request) as one undoable step
+     * @returns The recorded command, or null if nothing was deleted
+     */
+    const bulkRemove = useCallback(async (ids: string[]) => {
+        const known = ids.filter(id => actionsRef.current.todos.some(t => t.id === id));
+        if (known.length === 0) return null;
+
+        await actionsRef.current.bulkDelete(known);
+        const command: Command = {
+            label: `Delete ${known.length} todos`,
+            undo: () => actionsRef.current.bulkRestore(known.map(resolveId)),
+            redo: () => actionsRef.current.bulkDelete(known.map(resolveId)),
+        };
+        record(command);
+        return command;
+    }, [resolveId, record]);
+
+    /**
+     * Mark several todos completed/incomplete as one undoable step
+     * Todos already in the requested state are skipped
+     */
+    const bulkSetCompleted = useCallback(async (ids: string[], completed: boolean) => {
+        const toToggle = ids.filter(id => actionsRef.current.todos.find(t => t.id === id)?.completed === !completed);
+        let recorded: Command | null = null;
+
+        await runForEach(toToggle, performToggle, commands => {
+            recorded = combineCommands(`${completed ? 'Complete' : 'Reopen'} ${commands.length} todos`, commands);
+            record(recorded);
+        });
+        return recorded;
+    }, [performToggle, record]);
+
+    /**
+     * Archive several todos as one undoable step
+     * @returns The recorded command, or null if nothing was archived
+     */
+    const bulkArchive = useCallback(async (ids: string[]) => {
+        let recorded: Command | null = null;
+        await runForEach(ids, performArchive, commands => {
+            recorded = combineCommands(`Archive ${commands.length} todos`, commands);
+            record(recorded);
+        });
+        return recorded;
+    }, [performArchive, record]);
+
+    return {
+        create,
+        update,
+        updateFields,
+        remove,
+        toggle,
+        archive,
+        toggleSubtask,
+        addSubtask,
+        removeSubtask,
+        bulkRemove,
+        bulkSetCompleted,
+        bulkArchive,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        undoLabel,
+        redoLabel,
+    };
+}
\ No newline at end of file
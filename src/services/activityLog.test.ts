@@ -0,0 +1,69 @@
+// src/services/activityLog.test.ts
+import type { Todo } from '../components/TodoForm';
+import { makeTodo } from '../test/todoFixtures';
+import { activityLog, diffTodos, type ActivityEntry } from './activityLog';
+
+// The same todo before and after a change
+const todo = (overrides: Partial<Todo> = {}) => makeTodo({ id: '1', title: 'Buy milk', ...overrides });
+
+const user = { id: 7, name: 'Sam' };
+
+beforeEach(() => {
+    localStorage.clear();
+    activityLog.clear();
+});
+
+describe('activityLog', () => {
+    describe('diffTodos', () => {
+        it('should list the changed fields with their old and new values', () => {
+            const before = todo({ tags: ['home'] });
+            const after = todo({ title: 'Buy oat milk', completed: true, tags: ['home', 'errands'], updatedAt: '2026-10-02T09:00:00' });
+
+            expect(diffTodos(before, after)).toEqual([
+                { field: 'title', oldValue: 'Buy milk', newValue: 'Buy oat milk' },
+                { field: 'completed', oldValue: false, newValue: true },
+                { field: 'tags', oldValue: ['home'], newValue: ['home', 'errands'] },
+            ]);
+        });
+
+        it('should treat missing, null, empty strings and empty lists as the same', () => {
+            expect(diffTodos(todo({ description: '', tags: [] }), todo({ description: undefined, category: undefined }))).toEqual([]);
+        });
+
+        it('should diff a created or purged todo against an empty one', () => {
+            const created = todo({ category: 'Errands' });
+
+            expect(diffTodos(undefined, created).map(change => change.field)).toEqual(['title', 'priority', 'category', 'completed']);
+            expect(diffTodos(created, undefined)).toContainEqual({ field: 'title', oldValue: 'Buy milk', newValue: null });
+        });
+    });
+
+    describe('record', () => {
+        it('should keep entries newest first and persist them', () => {
+            activityLog.record({ action: 'create', todoId: '1', todoTitle: 'Buy milk', changes: [], user });
+            activityLog.record({ action: 'delete', todoId: '1', todoTitle: 'Buy milk', changes: [], user: null });
+
+            const entries = activityLog.getEntries();
+            expect(entries.map(entry => entry.action)).toEqual(['delete', 'create']);
+            expect(entries[1]).toMatchObject({ todoId: '1', user });
+            expect(entries[0].id).not.toBe(entries[1].id);
+            expect(JSON.parse(localStorage.getItem('activity-log')!)).toEqual(entries);
+        });
+
+        it('should skip updates that changed nothing', () => {
+            activityLog.record({ action: 'update', todoId: '1', todoTitle: 'Buy milk', changes: [], user });
+            expect(activityLog.getEntries()).toEqual([]);
+        });
+
+        it('should notify subscribers right away and on every change', () => {
+            const calls: ActivityEntry[][] = [];
+            const unsubscribe = activityLog.subscribe(entries => calls.push(entries));
+
+            activityLog.record({ action: 'archive', todoId: '1', todoTitle: 'Buy milk', changes: [], user });
+            unsubscribe();
+            activityLog.clear();
+
+            expect(calls.map(entries => entries.length)).toEqual([0, 1]);
+        });
+    });
+});
\ No newline at end of file
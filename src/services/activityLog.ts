@@ -0,0 +1,137 @@
+// src/services/activityLog.ts
+import type { Todo } from '../components/TodoForm';
+import type { TodoMutation } from './offlineSync';
+import type { TodoChange } from './todoService';
+import { logger } from '../utils/logger';
+
+export type ActivityAction = TodoMutation['type'] | 'reorder';
+
+/**
+ * One field of a todo before and after a change
+ */
+export type ActivityChange = Pick<TodoChange, 'field' | 'oldValue' | 'newValue'>;
+
+/**
+ * A recorded todo mutation
+ */
+export interface ActivityEntry {
+    id: string;
+    action: ActivityAction;
+    /** Affected todo; null for changes to the whole list (reorder) */
+    todoId: string | null;
+    /** Todo title at the time of the change */
+    todoTitle: string;
+    changes: ActivityChange[];
+    timestamp: string;
+    /** Signed-in user who made the change */
+    user: { id: number; name: string } | null;
+}
+
+type ActivityListener = (entries: ActivityEntry[]) => void;
+
+const STORAGE_KEY = 'activity-log';
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 1000;
+
+// Fields that make up a todo's content; timestamps follow from these
+const TRACKED_FIELDS: (keyof Todo)[] = [
+    'title',
+    'description',
+    'priority',
+    'category',
+    'startDate',
+    'dueDate',
+    'completed',
+    'subtasks',
+    'recurrence',
+    'tags',
+    'archivedAt',
+    'deletedAt',
+];
+
+const isEmpty = (value: unknown) =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Field-by-field difference between two versions of a todo
+ * A missing version (created or purged todo) counts as all fields empty
+ */
+export function diffTodos(before: Todo | undefined, after: Todo | undefined): ActivityChange[] {
+    return TRACKED_FIELDS
+        .map(field => ({ field, oldValue: before?.[field] ?? null, newValue: after?.[field] ?? null }))
+        .filter(({ oldValue, newValue }) =>
+            !(isEmpty(oldValue) && isEmpty(newValue)) && JSON.stringify(oldValue) !== JSON.stringify(newValue)
+        );
+}
+
+/**
+ * Activity Log Service
+ * Local audit trail of todo mutations (who changed what, and when), newest first.
+ * Persisted in localStorage and capped at MAX_ENTRIES.
+ */
+class ActivityLogService {
+    private entries: ActivityEntry[] | null = null;
+    private listeners = new Set<ActivityListener>();
+
+    private load(): ActivityEntry[] {
+        if (!this.entries) {
+            try {
+                this.entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+            } catch (error) {
+                logger.warn('Failed to load activity log:', error);
+                this.entries = [];
+            }
+        }
+        return this.entries!;
+    }
+
+    private save(entries: ActivityEntry[]): void {
+        this.entries = entries;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+        } catch (error) {
+            logger.warn('Failed to save activity log:', error);
+        }
+        this.listeners.forEach(listener => listener(entries));
+    }
+
+    /**
+     * All recorded entries, newest first
+     */
+    getEntries(): ActivityEntry[] {
+        return this.load();
+    }
+
+    /**
+     * Record a mutation
+     * Updates that didn't change any tracked field are skipped.
+     */
+    record(entry: Omit<ActivityEntry, 'id' | 'timestamp'>): void {
+        if (entry.action === 'update' && entry.changes.length === 0) return;
+
+        const recorded: ActivityEntry = {
+            ...entry,
+            id: Date.now().toString(36) + Math.random().toString(36).substr(2, 5),
+            timestamp: new Date().toISOString(),
+        };
+        this.save([recorded, ...this.load()].slice(0, MAX_ENTRIES));
+    }
+
+    /**
+     * Subscribe to log changes
+     * @returns Unsubscribe function
+     */
+    subscribe(listener: ActivityListener): () => void {
+        this.listeners.add(listener);
+        listener(this.load());
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    clear(): void {
+        this.save([]);
+    }
+}
+
+export const activityLog = new ActivityLogService();
\ No newline at end of file
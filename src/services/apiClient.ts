@@ -1,38 +1,64 @@
 // src/services/apiClient.ts
 import { API_CONFIG } from '../config/api';
-
-export interface ApiResponse<T = any> {
-    data?: T;
-    message?: string;
-    error?: string;
+import { tokenRefresher } from './tokenRefresh';
+import {
+    ApiMiddleware,
+    ApiRequest,
+    authMiddleware,
+    createRetryMiddleware,
+    errorMappingMiddleware,
+    loggingMiddleware,
+} from './apiMiddleware';
+
+export * from './apiErrors';
+export type { ApiMiddleware, ApiRequest, ApiNext, RetryPolicy } from './apiMiddleware';
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+    /** Cancel the request; rejects with RequestCancelledError */
+    signal?: AbortSignal;
+    /** Override the retry policy's method check for this request */
+    retry?: boolean;
 }
 
-export class ApiError extends Error {
-    public status?: number;
-    public data?: any;
-
-    constructor(message: string, status?: number, data?: any) {
-        super(message);
-        this.name = 'ApiError';
-        this.status = status;
-        this.data = data;
-    }
+export interface ApiClientConfig {
+    baseURL: string;
+    timeout: number;
+    middleware: ApiMiddleware[];
 }
 
+/**
+ * Default chain, outermost first: logging sees the final outcome, retries see
+ * typed errors, auth sees the raw 401 before it is mapped
+ */
+const DEFAULT_MIDDLEWARE: ApiMiddleware[] = [
+    loggingMiddleware,
+    createRetryMiddleware({
+        retries: API_CONFIG.RETRY.RETRIES,
+        baseDelayMs: API_CONFIG.RETRY.BASE_DELAY_MS,
+        maxDelayMs: API_CONFIG.RETRY.MAX_DELAY_MS,
+    }),
+    errorMappingMiddleware,
+    authMiddleware,
+];
+
+/**
+ * API Client
+ * Single HTTP client for all services. Requests run through a middleware chain
+ * (auth header, logging, retries, error mapping) and failures are thrown as
+ * ApiError subclasses
+ */
 class ApiClient {
     private baseURL: string;
     private timeout: number;
+    private middleware: ApiMiddleware[];
 
-    constructor() {
-        this.baseURL = API_CONFIG.BASE_URL;
-        this.timeout = API_CONFIG.TIMEOUT;
-    }
-
-    /**
-     * Get stored JWT token from localStorage
-     */
-    private getAuthToken(): string | null {
-        return localStorage.getItem('authToken');
+    constructor(config: Partial<ApiClientConfig> = {}) {
+        this.baseURL = config.baseURL ?? API_CONFIG.BASE_URL;
+        this.timeout = config.timeout ?? API_CONFIG.TIMEOUT;
+        this.middleware = config.middleware ?? [...DEFAULT_MIDDLEWARE];
     }
 
     /**
@@ -40,6 +66,7 @@ class ApiClient {
      */
     public setAuthToken(token: string): void {
         localStorage.setItem('authToken', token);
+        tokenRefresher.scheduleProactiveRefresh(token);
     }
 
     /**
@@ -47,151 +74,132 @@ class ApiClient {
      */
     public removeAuthToken(): void {
         localStorage.removeItem('authToken');
+        tokenRefresher.cancelProactiveRefresh();
     }
 
     /**
-     * Get default headers for requests
+     * Add middleware to the end of the chain (closest to fetch)
+     * @returns Function that removes the middleware again
      */
-    private getHeaders(): HeadersInit {
-        const headers: HeadersInit = {
-            'Content-Type': 'application/json',
+    public use(middleware: ApiMiddleware): () => void {
+        this.middleware.push(middleware);
+        return () => {
+            this.middleware = this.middleware.filter(m => m !== middleware);
         };
-
-        const token = this.getAuthToken();
-        if (token) {
-            headers['Authorization'] = `Bearer ${token}`;
-        }
-
-        return headers;
     }
 
     /**
-     * Make HTTP request with error handling
+     * Send the request with a timeout - the end of the middleware chain
+     * Aborts when either the timeout fires or the caller's signal is aborted
      */
-    private async request<T>(
-        endpoint: string,
-        options: RequestInit = {}
-    ): Promise<T> {
-        const url = `${this.baseURL}${endpoint}`;
-
-        const config: RequestInit = {
-            ...options,
-            headers: {
-                ...this.getHeaders(),
-                ...options.headers,
-            },
-        };
+    private async send(request: ApiRequest): Promise<Response> {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        const abortFromCaller = () => controller.abort();
 
-        try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        if (request.signal?.aborted) {
+            controller.abort();
+        }
+        request.signal?.addEventListener('abort', abortFromCaller);
 
-            const response = await fetch(url, {
-                ...config,
+        try {
+            return await fetch(request.url, {
+                method: request.method,
+                headers: request.headers,
+                body: request.body,
                 signal: controller.signal,
             });
-
+        } finally {
             clearTimeout(timeoutId);
+            request.signal?.removeEventListener('abort', abortFromCaller);
+        }
+    }
 
-            // Parse response
-            let responseData: any;
-            const contentType = response.headers.get('content-type');
+    /**
+     * Run the request through the middleware chain
+     */
+    private dispatch(request: ApiRequest): Promise<Response> {
+        const chain = [...this.middleware];
 
-            if (contentType && contentType.includes('application/json')) {
-                responseData = await response.json();
-            } else {
-                responseData = await response.text();
+        const run = (index: number, current: ApiRequest): Promise<Response> => {
+            if (index >= chain.length) {
+                return this.send(current);
             }
+            return chain[index](current, next => run(index + 1, next));
+        };
 
-            // Handle errors
-            if (!response.ok) {
-                // Extract error message from different possible response formats
-                let errorMessage = 'An error occurred';
-
-                if (typeof responseData === 'object') {
-                    // Try different error message fields
-                    errorMessage = responseData.message
-                        || responseData.error
-                        || responseData.errors?.[0]?.message
-                        || `HTTP error! status: ${response.status}`;
-                } else if (typeof responseData === 'string') {
-                    errorMessage = responseData;
-                }
-
-                console.error('API Error Response:', {
-                    status: response.status,
-                    data: responseData,
-                    message: errorMessage
-                });
-
-                throw new ApiError(
-                    errorMessage,
-                    response.status,
-                    responseData
-                );
-            }
+        return run(0, request);
+    }
 
-            return responseData;
-        } catch (error) {
-            // If it's already an ApiError, rethrow it
-            if (error instanceof ApiError) {
-                throw error;
-            }
+    /**
+     * Make HTTP request
+     * @returns Promise with the parsed JSON body (undefined for empty responses)
+     * @throws ApiError subclass describing the failure
+     */
+    private async request<T>(
+        method: string,
+        endpoint: string,
+        data?: any,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        const response = await this.dispatch({
+            endpoint,
+            url: `${this.baseURL}${endpoint}`,
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: data !== undefined ? JSON.stringify(data) : undefined,
+            signal: options.signal,
+            retry: options.retry,
+        });
 
-            // Handle other error types
-            if (error instanceof Error) {
-                if (error.name === 'AbortError') {
-                    throw new ApiError('Request timeout', 408);
-                }
-                throw new ApiError(`Network error: ${error.message}`, 0);
-            }
+        // Handle empty responses (like DELETE)
+        if (response.status === 204) {
+            return undefined as T;
+        }
 
-            throw new ApiError('Unknown error occurred', 0);
+        // Backend returns data directly (not wrapped in {data: ...})
+        const contentType = response.headers.get('content-type');
+        if (contentType && contentType.includes('application/json')) {
+            return await response.json() as T;
         }
+
+        const text = await response.text();
+        return (text || undefined) as T;
     }
 
     /**
      * GET request
      */
-    public async get<T>(endpoint: string): Promise<T> {
-        return this.request<T>(endpoint, { method: 'GET' });
+    public async get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+        return this.request<T>('GET', endpoint, undefined, options);
     }
 
     /**
      * POST request
      */
-    public async post<T>(endpoint: string, data: any): Promise<T> {
-        return this.request<T>(endpoint, {
-            method: 'POST',
-            body: JSON.stringify(data),
-        });
+    public async post<T>(endpoint: string, data: any, options?: RequestOptions): Promise<T> {
+        return this.request<T>('POST', endpoint, data, options);
     }
 
     /**
      * PUT request
      */
-    public async put<T>(endpoint: string, data: any): Promise<T> {
-        return this.request<T>(endpoint, {
-            method: 'PUT',
-            body: JSON.stringify(data),
-        });
+    public async put<T>(endpoint: string, data: any, options?: RequestOptions): Promise<T> {
+        return this.request<T>('PUT', endpoint, data, options);
     }
 
     /**
      * DELETE request
      */
-    public async delete<T>(endpoint: string): Promise<T> {
-        return this.request<T>(endpoint, { method: 'DELETE' });
+    public async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+        return this.request<T>('DELETE', endpoint, undefined, options);
     }
 
     /**
      * PATCH request
      */
-    public async patch<T>(endpoint: string, data: any): Promise<T> {
-        return this.request<T>(endpoint, {
-            method: 'PATCH',
-            body: JSON.stringify(data),
-        });
+    public async patch<T>(endpoint: string, data: any, options?: RequestOptions): Promise<T> {
+        return this.request<T>('PATCH', endpoint, data, options);
     }
 }
 
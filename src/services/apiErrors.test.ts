@@ -0,0 +1,82 @@
+// src/services/apiErrors.test.ts
+import {
+    ApiError,
+    ConflictError,
+    createApiError,
+    ForbiddenError,
+    getErrorMessage,
+    NotFoundError,
+    RateLimitError,
+    ServerError,
+    TimeoutError,
+    UnauthorizedError,
+    ValidationError,
+} from './apiErrors';
+
+describe('apiErrors', () => {
+    describe('createApiError', () => {
+        it.each([
+            [400, ValidationError],
+            [422, ValidationError],
+            [401, UnauthorizedError],
+            [403, ForbiddenError],
+            [404, NotFoundError],
+            [408, TimeoutError],
+            [409, ConflictError],
+            [429, RateLimitError],
+            [500, ServerError],
+            [503, ServerError],
+        ])('should map status %i to its error type', (status, ErrorType) => {
+            const error = createApiError(status);
+            expect(error).toBeInstanceOf(ErrorType);
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error.status).toBe(status);
+        });
+
+        it('should fall back to a plain ApiError for other client errors', () => {
+            const error = createApiError(418);
+            expect(error.constructor).toBe(ApiError);
+            expect(error.message).toBe('HTTP error! status: 418');
+        });
+
+        it('should prefer the server message over the default one', () => {
+            expect(createApiError(404, { message: 'Todo 7 does not exist' }).message).toBe('Todo 7 does not exist');
+            expect(createApiError(404).message).toBe('Resource not found');
+            expect(createApiError(502, 'Bad gateway').message).toBe('Bad gateway');
+        });
+
+        it('should keep the response body and the Retry-After delay', () => {
+            const error = createApiError(429, { error: 'Slow down' }, 2000);
+            expect(error.data).toEqual({ error: 'Slow down' });
+            expect(error.retryAfterMs).toBe(2000);
+        });
+    });
+
+    describe('ValidationError', () => {
+        it('should collect field errors from both backend formats', () => {
+            const fromList = createApiError(400, {
+                message: 'Invalid todo',
+                errors: [{ field: 'title', message: 'Title is required' }],
+            }) as ValidationError;
+            const fromMap = createApiError(422, { errors: { dueDate: 'Must be in the future', count: 3 } }) as ValidationError;
+
+            expect(fromList.fieldErrors).toEqual({ title: 'Title is required' });
+            expect(fromMap.fieldErrors).toEqual({ dueDate: 'Must be in the future' });
+        });
+    });
+
+    describe('getErrorMessage', () => {
+        it('should read message, error or the first field error', () => {
+            expect(getErrorMessage({ message: 'a', error: 'b' })).toBe('a');
+            expect(getErrorMessage({ error: 'b' })).toBe('b');
+            expect(getErrorMessage({ errors: [{ message: 'c' }] })).toBe('c');
+            expect(getErrorMessage('  plain text ')).toBe('  plain text ');
+        });
+
+        it('should return null for bodies without a message', () => {
+            expect(getErrorMessage({})).toBeNull();
+            expect(getErrorMessage('   ')).toBeNull();
+            expect(getErrorMessage(undefined)).toBeNull();
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,207 @@
+// src/services/apiErrors.ts
+
+/**
+ * Base class for every error thrown by the API client
+ * `status` is the HTTP status code (0 when no response was received)
+ */
+export class ApiError extends Error {
+    public status?: number;
+    public data?: any;
+    /** Server-requested wait before retrying (from the `Retry-After` header) */
+    public retryAfterMs?: number;
+
+    constructor(message: string, status?: number, data?: any) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.data = data;
+    }
+}
+
+/**
+ * The request never reached the server (offline, DNS, CORS...)
+ */
+export class NetworkError extends ApiError {
+    constructor(message: string = 'Network error - Please check your connection') {
+        super(message, 0);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * The request took longer than the configured timeout
+ */
+export class TimeoutError extends ApiError {
+    constructor(message: string = 'Request timeout') {
+        super(message, 408);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * The caller aborted the request (AbortSignal) - usually safe to ignore
+ */
+export class RequestCancelledError extends ApiError {
+    constructor(message: string = 'Request cancelled') {
+        super(message, 0);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * 400 / 422 - the payload was rejected
+ * `fieldErrors` maps field names to messages when the backend provides them
+ */
+export class ValidationError extends ApiError {
+    public fieldErrors: Record<string, string>;
+
+    constructor(message: string, status: number = 400, data?: any) {
+        super(message, status, data);
+        this.name = 'ValidationError';
+        this.fieldErrors = extractFieldErrors(data);
+    }
+}
+
+/**
+ * 401 - missing or expired credentials (after a refresh attempt)
+ */
+export class UnauthorizedError extends ApiError {
+    constructor(message: string = 'Session expired - Please login again', data?: any) {
+        super(message, 401, data);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+/**
+ * 403 - authenticated but not allowed
+ */
+export class ForbiddenError extends ApiError {
+    constructor(message: string = 'You do not have permission to perform this action', data?: any) {
+        super(message, 403, data);
+        this.name = 'ForbiddenError';
+    }
+}
+
+/**
+ * 404 - resource does not exist
+ */
+export class NotFoundError extends ApiError {
+    constructor(message: string = 'Resource not found', data?: any) {
+        super(message, 404, data);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * 409 - resource changed on the server in the meantime
+ */
+export class ConflictError extends ApiError {
+    constructor(message: string = 'Resource was modified by someone else', data?: any) {
+        super(message, 409, data);
+        this.name = 'ConflictError';
+    }
+}
+
+/**
+ * 429 - too many requests
+ */
+export class RateLimitError extends ApiError {
+    constructor(message: string = 'Too many requests - Please try again later', data?: any) {
+        super(message, 429, data);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * 5xx - the server failed to handle the request
+ */
+export class ServerError extends ApiError {
+    constructor(message: string, status: number = 500, data?: any) {
+        super(message, status, data);
+        this.name = 'ServerError';
+    }
+}
+
+/**
+ * Pull per-field messages out of the common backend error formats
+ * ({ errors: [{ field, message }] } or { errors: { field: message } })
+ */
+function extractFieldErrors(data: any): Record<string, string> {
+    const errors = data?.errors;
+    const fieldErrors: Record<string, string> = {};
+
+    if (Array.isArray(errors)) {
+        errors.forEach(error => {
+            if (error?.field && error?.message) {
+                fieldErrors[error.field] = error.message;
+            }
+        });
+    } else if (errors && typeof errors === 'object') {
+        Object.entries(errors).forEach(([field, message]) => {
+            if (typeof message === 'string') {
+                fieldErrors[field] = message;
+            }
+        });
+    }
+
+    return fieldErrors;
+}
+
+/**
+ * Extract the backend's error message from a response body, if it has one
+ */
+export function getErrorMessage(data: any): string | null {
+    if (data && typeof data === 'object') {
+        return data.message
+            || data.error
+            || data.errors?.[0]?.message
+            || null;
+    }
+
+    if (typeof data === 'string' && data.trim()) {
+        return data;
+    }
+
+    return null;
+}
+
+/**
+ * Map an HTTP error status to the matching ApiError subclass
+ * Falls back to the subclass' default message when the backend didn't send one
+ *
+ * @param status - HTTP status code
+ * @param data - Parsed response body (JSON or text)
+ * @param retryAfterMs - Parsed `Retry-After` header, if any
+ */
+export function createApiError(status: number, data?: any, retryAfterMs?: number): ApiError {
+    const error = createErrorForStatus(status, data);
+    error.retryAfterMs = retryAfterMs;
+    return error;
+}
+
+function createErrorForStatus(status: number, data?: any): ApiError {
+    const serverMessage = getErrorMessage(data) ?? undefined;
+    const message = serverMessage ?? `HTTP error! status: ${status}`;
+
+    switch (status) {
+        case 400:
+        case 422:
+            return new ValidationError(message, status, data);
+        case 401:
+            return new UnauthorizedError(serverMessage, data);
+        case 403:
+            return new ForbiddenError(serverMessage, data);
+        case 404:
+            return new NotFoundError(serverMessage, data);
+        case 408:
+            return new TimeoutError(serverMessage);
+        case 409:
+            return new ConflictError(serverMessage, data);
+        case 429:
+            return new RateLimitError(serverMessage, data);
+        default:
+            return status >= 500
+                ? new ServerError(message, status, data)
+                : new ApiError(message, status, data);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,302 @@
+// src/services/apiMiddleware.test.ts
+import {
+    authMiddleware,
+    createRetryMiddleware,
+    errorMappingMiddleware,
+    parseRetryAfter,
+    type ApiRequest,
+} from './apiMiddleware';
+import {
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    RequestCancelledError,
+    ServerError,
+    TimeoutError,
+} from './apiErrors';
+import { apiClient } from './apiClient';
+import { tokenRefresher } from './tokenRefresh';
+
+/**
+ * Minimal fetch Response: status, headers and a JSON or text body
+ */
+const fakeResponse = (status: number, body?: unknown, headers: Record<string, string> = {}): Response => ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: async () => body,
+    text: async () => typeof body === 'string' ? body : JSON.stringify(body),
+}) as unknown as Response;
+
+const request = (overrides: Partial<ApiRequest> = {}): ApiRequest => ({
+    endpoint: '/todos',
+    url: 'http://localhost:8080/api/todos',
+    method: 'GET',
+    headers: { 'Content-Type': 'application/json' },
+    ...overrides,
+});
+
+const abortError = () => Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+
+const authHeader = (next: jest.Mock, call: number) => next.mock.calls[call][0].headers['Authorization'];
+
+beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('authToken', 'old-token');
+    localStorage.setItem('refreshToken', 'refresh-token');
+});
+
+describe('apiMiddleware', () => {
+    describe('authMiddleware', () => {
+        const storeNewToken = jest.fn();
+
+        beforeEach(() => {
+            storeNewToken.mockImplementation(async () => {
+                localStorage.setItem('authToken', 'new-token');
+                return 'new-token';
+            });
+            tokenRefresher.setRefreshHandler(storeNewToken);
+        });
+
+        afterEach(() => {
+            tokenRefresher.cancelProactiveRefresh();
+        });
+
+        it('should send the stored token', async () => {
+            const next = jest.fn().mockResolvedValue(fakeResponse(200));
+            await authMiddleware(request(), next);
+            expect(authHeader(next, 0)).toBe('Bearer old-token');
+        });
+
+        it('should refresh once on 401 and replay the request with the new token', async () => {
+            const next = jest.fn()
+                .mockResolvedValueOnce(fakeResponse(401))
+                .mockResolvedValueOnce(fakeResponse(200, { id: '1' }));
+
+            const response = await authMiddleware(request(), next);
+
+            expect(response.status).toBe(200);
+            expect(storeNewToken).toHaveBeenCalledTimes(1);
+            expect(authHeader(next, 1)).toBe('Bearer new-token');
+        });
+
+        it('should refresh only once for concurrent 401s', async () => {
+            const next = jest.fn(async (req: ApiRequest) =>
+                fakeResponse(req.headers['Authorization'] === 'Bearer new-token' ? 200 : 401));
+
+            const responses = await Promise.all([
+                authMiddleware(request(), next),
+                authMiddleware(request({ endpoint: '/todos/1' }), next),
+                authMiddleware(request({ endpoint: '/todos/2' }), next),
+            ]);
+
+            expect(responses.map(r => r.status)).toEqual([200, 200, 200]);
+            expect(storeNewToken).toHaveBeenCalledTimes(1);
+        });
+
+        it('should return the original 401 when the refresh fails', async () => {
+            storeNewToken.mockRejectedValue(new Error('Refresh token expired'));
+            const unsubscribe = tokenRefresher.onAuthFailure(jest.fn());
+            const next = jest.fn().mockResolvedValue(fakeResponse(401));
+
+            const response = await authMiddleware(request(), next);
+
+            expect(response.status).toBe(401);
+            expect(next).toHaveBeenCalledTimes(1);
+            unsubscribe();
+        });
+
+        it('should not refresh for auth endpoints', async () => {
+            const next = jest.fn().mockResolvedValue(fakeResponse(401));
+            const response = await authMiddleware(request({ endpoint: '/auth/login' }), next);
+
+            expect(response.status).toBe(401);
+            expect(storeNewToken).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('errorMappingMiddleware', () => {
+        it('should pass successful responses through', async () => {
+            const ok = fakeResponse(200, []);
+            await expect(errorMappingMiddleware(request(), jest.fn().mockResolvedValue(ok))).resolves.toBe(ok);
+        });
+
+        it('should throw the typed error with the server message', async () => {
+            const next = jest.fn().mockResolvedValue(
+                fakeResponse(404, { message: 'Todo not found' }, { 'content-type': 'application/json' })
+            );
+
+            const error = await errorMappingMiddleware(request(), next).catch(e => e);
+            expect(error).toBeInstanceOf(NotFoundError);
+            expect(error.message).toBe('Todo not found');
+        });
+
+        it('should read text bodies and the Retry-After header', async () => {
+            const next = jest.fn().mockResolvedValue(fakeResponse(503, 'Maintenance', { 'retry-after': '2' }));
+
+            const error = await errorMappingMiddleware(request(), next).catch(e => e);
+            expect(error).toBeInstanceOf(ServerError);
+            expect(error.message).toBe('Maintenance');
+            expect(error.retryAfterMs).toBe(2000);
+        });
+
+        it('should report fetch failures as network errors', async () => {
+            const next = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+            await expect(errorMappingMiddleware(request(), next)).rejects.toBeInstanceOf(NetworkError);
+        });
+    });
+
+    describe('parseRetryAfter', () => {
+        it('should accept seconds and HTTP dates', () => {
+            expect(parseRetryAfter('3')).toBe(3000);
+            expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+            expect(parseRetryAfter(new Date(Date.now() + 60 * 1000).toUTCString())).toBeGreaterThan(55 * 1000);
+        });
+
+        it('should ignore missing or invalid headers', () => {
+            expect(parseRetryAfter(null)).toBeUndefined();
+            expect(parseRetryAfter('soon')).toBeUndefined();
+        });
+    });
+
+    describe('createRetryMiddleware', () => {
+        const withRetryAfter = <T extends { retryAfterMs?: number }>(error: T, ms: number) => {
+            error.retryAfterMs = ms;
+            return error;
+        };
+
+        let setTimeoutSpy: jest.SpyInstance;
+
+        beforeEach(() => {
+            setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+            jest.spyOn(Math, 'random').mockReturnValue(1);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        const backoffDelays = () => setTimeoutSpy.mock.calls.map(([, delay]) => delay);
+
+        it('should retry transient failures with exponential backoff', async () => {
+            const retry = createRetryMiddleware({ retries: 3, baseDelayMs: 2, maxDelayMs: 100 });
+            const next = jest.fn()
+                .mockRejectedValueOnce(new NetworkError())
+                .mockRejectedValueOnce(new ServerError('Bad gateway', 502))
+                .mockResolvedValueOnce(fakeResponse(200));
+
+            await expect(retry(request(), next)).resolves.toMatchObject({ status: 200 });
+            expect(next).toHaveBeenCalledTimes(3);
+            expect(backoffDelays()).toEqual([2, 4]);
+        });
+
+        it('should give up after the configured retries', async () => {
+            const retry = createRetryMiddleware({ retries: 2, baseDelayMs: 1 });
+            const next = jest.fn().mockRejectedValue(new TimeoutError());
+
+            await expect(retry(request(), next)).rejects.toBeInstanceOf(TimeoutError);
+            expect(next).toHaveBeenCalledTimes(3);
+        });
+
+        it('should wait as long as Retry-After asks', async () => {
+            const retry = createRetryMiddleware({ baseDelayMs: 1, maxDelayMs: 100 });
+            const next = jest.fn()
+                .mockRejectedValueOnce(withRetryAfter(new RateLimitError(), 20))
+                .mockResolvedValueOnce(fakeResponse(200));
+
+            await retry(request(), next);
+            expect(backoffDelays()).toEqual([20]);
+        });
+
+        it('should not wait for a Retry-After beyond the maximum delay', async () => {
+            const retry = createRetryMiddleware({ maxDelayMs: 100 });
+            const error = withRetryAfter(new ServerError('Maintenance', 503), 60 * 1000);
+            const next = jest.fn().mockRejectedValue(error);
+
+            await expect(retry(request(), next)).rejects.toBe(error);
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry permanent failures or non-idempotent requests', async () => {
+            const retry = createRetryMiddleware({ baseDelayMs: 1 });
+
+            const notFound = jest.fn().mockRejectedValue(new NotFoundError());
+            await expect(retry(request(), notFound)).rejects.toBeInstanceOf(NotFoundError);
+            expect(notFound).toHaveBeenCalledTimes(1);
+
+            const post = jest.fn().mockRejectedValue(new NetworkError());
+            await expect(retry(request({ method: 'POST' }), post)).rejects.toBeInstanceOf(NetworkError);
+            expect(post).toHaveBeenCalledTimes(1);
+
+            const optedIn = jest.fn()
+                .mockRejectedValueOnce(new NetworkError())
+                .mockResolvedValueOnce(fakeResponse(201));
+            await expect(retry(request({ method: 'POST', retry: true }), optedIn)).resolves.toMatchObject({ status: 201 });
+        });
+
+        it('should stop waiting when the request is cancelled during the backoff', async () => {
+            const retry = createRetryMiddleware({ maxDelayMs: 60 * 1000 });
+            const controller = new AbortController();
+            const next = jest.fn().mockRejectedValue(withRetryAfter(new RateLimitError(), 30 * 1000));
+
+            const pending = retry(request({ signal: controller.signal }), next);
+            setTimeout(() => controller.abort(), 0);
+
+            await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('timeouts and cancellation', () => {
+        const originalFetch = global.fetch;
+        let fetchStarted: Promise<void>;
+
+        beforeEach(() => {
+            // fetch that only settles when its signal is aborted
+            fetchStarted = new Promise(resolve => {
+                global.fetch = jest.fn((_url: RequestInfo | URL, init?: RequestInit) => {
+                    resolve();
+                    return new Promise<Response>((_, reject) => {
+                        init?.signal?.addEventListener('abort', () => reject(abortError()));
+                    });
+                });
+            });
+        });
+
+        afterEach(() => {
+            global.fetch = originalFetch;
+            jest.useRealTimers();
+        });
+
+        it('should report a request aborted by the caller as cancelled', async () => {
+            const controller = new AbortController();
+            const pending = apiClient.get('/todos', { signal: controller.signal });
+
+            await fetchStarted;
+            controller.abort();
+
+            await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report a request that ran out of time as a timeout', async () => {
+            jest.useFakeTimers();
+            const pending = apiClient.get('/todos', { retry: false });
+
+            await fetchStarted;
+            jest.advanceTimersByTime(10000);
+
+            await expect(pending).rejects.toBeInstanceOf(TimeoutError);
+        });
+
+        it('should tell the two apart from the abort error alone', async () => {
+            const aborted = new AbortController();
+            aborted.abort();
+            const next = jest.fn().mockRejectedValue(abortError());
+
+            await expect(errorMappingMiddleware(request({ signal: aborted.signal }), next))
+                .rejects.toBeInstanceOf(RequestCancelledError);
+            await expect(errorMappingMiddleware(request(), next)).rejects.toBeInstanceOf(TimeoutError);
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,250 @@
+// src/services/apiMiddleware.ts
+import { logger } from '../utils/logger';
+import {
+    ApiError,
+    NetworkError,
+    TimeoutError,
+    ServerError,
+    RateLimitError,
+    RequestCancelledError,
+    createApiError,
+} from './apiErrors';
+import { tokenRefresher, isAuthEndpoint } from './tokenRefresh';
+
+/**
+ * Request as seen by middleware
+ * Middleware may change headers/body and pass a new object to `next`
+ */
+export interface ApiRequest {
+    endpoint: string;
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: BodyInit;
+    /** Caller-supplied signal to cancel the request (and any pending retries) */
+    signal?: AbortSignal;
+    /** Force retries on (e.g. for an idempotent POST) or off; defaults to the method */
+    retry?: boolean;
+}
+
+/**
+ * Sends the request to the rest of the chain (and finally to fetch)
+ */
+export type ApiNext = (request: ApiRequest) => Promise<Response>;
+
+/**
+ * Middleware wraps the rest of the chain: it can change the request, call
+ * `next` any number of times (retries, replays), inspect the response or throw
+ */
+export type ApiMiddleware = (request: ApiRequest, next: ApiNext) => Promise<Response>;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Wait for the given time; rejects early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestCancelledError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new RequestCancelledError());
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date)
+ * @returns Delay in ms, or undefined if the header is missing/invalid
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Attach the stored JWT as `Authorization` header
+ * Waits for an in-flight token refresh first, and on 401 refreshes the token
+ * once and replays the request. Auth endpoints are sent as-is.
+ */
+export const authMiddleware: ApiMiddleware = async (request, next) => {
+    const withToken = (): ApiRequest => {
+        const token = localStorage.getItem('authToken');
+        const headers = { ...request.headers };
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+        return { ...request, headers };
+    };
+
+    if (isAuthEndpoint(request.endpoint)) {
+        return next(withToken());
+    }
+
+    // Queue behind an in-flight refresh so we don't send a stale token
+    await tokenRefresher.waitForPendingRefresh();
+
+    const response = await next(withToken());
+    if (response.status !== 401) {
+        return response;
+    }
+
+    try {
+        await tokenRefresher.refresh();
+    } catch {
+        // AuthContext is notified by the refresher; surface the original 401
+        return response;
+    }
+
+    return next(withToken());
+};
+
+/**
+ * Turn non-2xx responses and fetch failures into the typed ApiError hierarchy
+ */
+export const errorMappingMiddleware: ApiMiddleware = async (request, next) => {
+    let response: Response;
+
+    try {
+        response = await next(request);
+    } catch (error) {
+        if (error instanceof ApiError) {
+            throw error;
+        }
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw request.signal?.aborted ? new RequestCancelledError() : new TimeoutError();
+        }
+        throw new NetworkError(
+            error instanceof Error ? `Network error: ${error.message}` : undefined
+        );
+    }
+
+    if (response.ok) {
+        return response;
+    }
+
+    let data: any;
+    const contentType = response.headers.get('content-type');
+    if (contentType && contentType.includes('application/json')) {
+        data = await response.json().catch(() => undefined);
+    } else {
+        data = await response.text().catch(() => undefined);
+    }
+
+    throw createApiError(response.status, data, parseRetryAfter(response.headers.get('retry-after')));
+};
+
+/**
+ * Log requests and failures through the app logger
+ */
+export const loggingMiddleware: ApiMiddleware = async (request, next) => {
+    const startedAt = Date.now();
+    logger.debug(`→ ${request.method} ${request.endpoint}`);
+
+    try {
+        const response = await next(request);
+        logger.debug(`← ${response.status} ${request.method} ${request.endpoint} (${Date.now() - startedAt}ms)`);
+        return response;
+    } catch (error) {
+        if (error instanceof RequestCancelledError) {
+            logger.debug(`✕ ${request.method} ${request.endpoint} cancelled`);
+            throw error;
+        }
+        logger.error('API Error Response:', {
+            method: request.method,
+            endpoint: request.endpoint,
+            status: error instanceof ApiError ? error.status : undefined,
+            data: error instanceof ApiError ? error.data : undefined,
+            message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+    }
+};
+
+export interface RetryPolicy {
+    /** Extra attempts after the first one */
+    retries?: number;
+    /** Backoff base: attempt n waits up to baseDelayMs * 2^n */
+    baseDelayMs?: number;
+    /** Upper bound for the backoff and for honored `Retry-After` values */
+    maxDelayMs?: number;
+    /** Methods retried by default (requests can opt in/out with `retry`) */
+    methods?: string[];
+    /** Which failures are worth retrying */
+    shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Transient failures: no response, timeouts, rate limiting and gateway/unavailable errors
+ */
+export function isTransientError(error: unknown): boolean {
+    return error instanceof NetworkError
+        || error instanceof TimeoutError
+        || error instanceof RateLimitError
+        || (error instanceof ServerError && RETRYABLE_STATUSES.includes(error.status ?? 0));
+}
+
+/**
+ * Retry transient failures with exponential backoff and full jitter
+ * `Retry-After` is honored on 429/503 (a longer wait than maxDelayMs gives up).
+ * Must run outside errorMappingMiddleware so it sees typed errors
+ */
+export function createRetryMiddleware({
+    retries = 3,
+    baseDelayMs = 300,
+    maxDelayMs = 10000,
+    methods = IDEMPOTENT_METHODS,
+    shouldRetry = isTransientError,
+}: RetryPolicy = {}): ApiMiddleware {
+    const getDelay = (error: unknown, attempt: number): number | null => {
+        if (error instanceof ApiError && error.retryAfterMs !== undefined
+            && (error.status === 429 || error.status === 503)) {
+            return error.retryAfterMs <= maxDelayMs ? error.retryAfterMs : null;
+        }
+        return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    };
+
+    return async (request, next) => {
+        const enabled = request.retry ?? methods.includes(request.method);
+        if (!enabled) {
+            return next(request);
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await next(request);
+            } catch (error) {
+                if (attempt >= retries || request.signal?.aborted || !shouldRetry(error)) {
+                    throw error;
+                }
+
+                const delay = getDelay(error, attempt);
+                if (delay === null) {
+                    throw error;
+                }
+
+                logger.warn(`Retrying ${request.method} ${request.endpoint} in ${Math.round(delay)}ms (${attempt + 1}/${retries})`);
+                await sleep(delay, request.signal);
+            }
+        }
+    };
+}
\ No newline at end of file
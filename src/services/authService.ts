@@ -1,5 +1,8 @@
 // src/services/authService.ts
 import { apiClient } from './apiClient';
+import { tokenRefresher, isTokenExpired } from './tokenRefresh';
+import { offlineSync } from './offlineSync';
+import { activityLog } from './activityLog';
 
 /**
  * User entity representing authenticated user data
@@ -203,6 +206,7 @@ class AuthService {
 
     /**
      * Clear all authentication data from storage
+     * Also drops the offline cache and activity log so the next user doesn't see (or sync) this user's todos
      * Use this for force logout without API call
      */
     clearAuthData(): void {
@@ -210,6 +214,9 @@ class AuthService {
         localStorage.removeItem('refreshToken');
         localStorage.removeItem('user');
         localStorage.removeItem('authToken');
+        localStorage.removeItem('saved-views');
+        offlineSync.clear().catch(error => console.error('Failed to clear offline data:', error));
+        activityLog.clear();
     }
 
     /**
@@ -225,7 +232,7 @@ class AuthService {
 
     /**
      * Validate current token and refresh if needed
-     * Attempts to refresh token if expired
+     * Attempts to refresh token if expired (based on the JWT `exp` claim)
      *
      * @returns Promise<boolean> - true if token is valid or successfully refreshed, false otherwise
      */
@@ -238,15 +245,16 @@ class AuthService {
             return false;
         }
 
-        // If we have a token, assume it's valid (backend will validate on requests)
-        if (token) {
+        // If we have an unexpired token, assume it's valid (backend will validate on requests)
+        if (token && (!isTokenExpired(token) || !refreshToken)) {
+            tokenRefresher.scheduleProactiveRefresh(token);
             return true;
         }
 
-        // Try to refresh if we only have refresh token
+        // Try to refresh if the token is expired or we only have refresh token
         if (refreshToken) {
             try {
-                await this.refreshToken(refreshToken);
+                await tokenRefresher.refresh();
                 return true;
             } catch (error) {
                 console.error('Token refresh failed:', error);
@@ -260,4 +268,10 @@ class AuthService {
 }
 
 // Export singleton instance
-export const authService = new AuthService();
\ No newline at end of file
+export const authService = new AuthService();
+
+// HTTP clients refresh expired tokens through the auth endpoint
+tokenRefresher.setRefreshHandler(async refreshToken => {
+    const response = await authService.refreshToken(refreshToken);
+    return response.token;
+});
\ No newline at end of file
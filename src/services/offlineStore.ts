@@ -0,0 +1,164 @@
+// src/services/offlineStore.ts
+import type { Todo } from '../components/TodoForm';
+import { logger } from '../utils/logger';
+
+const DB_NAME = 'todo-app-offline';
+const DB_VERSION = 1;
+const TODOS_STORE = 'todos';
+const MUTATIONS_STORE = 'mutations';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolve once a transaction has been committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Offline Store
+ * IndexedDB persistence for the offline layer: the last known todo list (including
+ * local, not yet synced changes) and the queue of pending mutations.
+ * Every method degrades to a no-op when IndexedDB is unavailable.
+ */
+class OfflineStore {
+    private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (this.dbPromise) {
+            return this.dbPromise;
+        }
+
+        if (typeof indexedDB === 'undefined') {
+            this.dbPromise = Promise.resolve(null);
+            return this.dbPromise;
+        }
+
+        this.dbPromise = new Promise(resolve => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(TODOS_STORE)) {
+                    db.createObjectStore(TODOS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+                    db.createObjectStore(MUTATIONS_STORE, { keyPath: 'seq', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                logger.warn('IndexedDB unavailable, offline cache disabled:', request.error);
+                resolve(null);
+            };
+        });
+
+        return this.dbPromise;
+    }
+
+    /**
+     * Read all records of a store
+     */
+    async getAll<T>(storeName: string): Promise<T[]> {
+        const db = await this.open();
+        if (!db) return [];
+
+        const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+        return promisify(store.getAll() as IDBRequest<T[]>);
+    }
+
+    /**
+     * Get the cached todo list
+     */
+    getTodos(): Promise<Todo[]> {
+        return this.getAll<Todo>(TODOS_STORE);
+    }
+
+    /**
+     * Replace the cached todo list
+     */
+    async saveTodos(todos: Todo[]): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const transaction = db.transaction(TODOS_STORE, 'readwrite');
+        const store = transaction.objectStore(TODOS_STORE);
+        store.clear();
+        todos.forEach(todo => store.put(todo));
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Get queued mutations in insertion order
+     */
+    getMutations<T>(): Promise<T[]> {
+        return this.getAll<T>(MUTATIONS_STORE);
+    }
+
+    /**
+     * Append a mutation to the queue
+     * @returns The auto-generated sequence number
+     */
+    async addMutation<T>(mutation: T): Promise<number | undefined> {
+        const db = await this.open();
+        if (!db) return undefined;
+
+        const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+        const key = await promisify(transaction.objectStore(MUTATIONS_STORE).add(mutation));
+        await transactionDone(transaction);
+        return key as number;
+    }
+
+    /**
+     * Replace a queued mutation (matched by its `seq`)
+     */
+    async putMutation<T>(mutation: T): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+        transaction.objectStore(MUTATIONS_STORE).put(mutation);
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Remove a queued mutation
+     */
+    async removeMutation(seq: number): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+        transaction.objectStore(MUTATIONS_STORE).delete(seq);
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Drop cached todos and queued mutations (e.g. on logout)
+     */
+    async clear(): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        const transaction = db.transaction([TODOS_STORE, MUTATIONS_STORE], 'readwrite');
+        transaction.objectStore(TODOS_STORE).clear();
+        transaction.objectStore(MUTATIONS_STORE).clear();
+        await transactionDone(transaction);
+    }
+}
+
+// Export singleton instance
+export const offlineStore = new OfflineStore();
\ No newline at end of file
@@ -0,0 +1,151 @@
+// src/services/offlineSync.test.ts
+import { offlineSync, isTempId, createTempId, type SyncResult } from './offlineSync';
+import { offlineStore } from './offlineStore';
+import { todoService } from './todoService';
+import { ConflictError, NetworkError, ServerError, ValidationError } from './apiErrors';
+
+jest.mock('./offlineStore', () => ({
+    offlineStore: {
+        getMutations: jest.fn(),
+        addMutation: jest.fn(),
+        putMutation: jest.fn(),
+        removeMutation: jest.fn(),
+        clear: jest.fn(),
+    },
+}));
+
+jest.mock('./todoService', () => ({
+    todoService: {
+        createTodo: jest.fn(),
+        updateTodo: jest.fn(),
+        toggleTodo: jest.fn(),
+        deleteTodo: jest.fn(),
+        restoreTodo: jest.fn(),
+        purgeTodo: jest.fn(),
+        archiveTodo: jest.fn(),
+        unarchiveTodo: jest.fn(),
+    },
+}));
+
+const store = offlineStore as jest.Mocked<typeof offlineStore>;
+const service = todoService as jest.Mocked<typeof todoService>;
+
+const createData = { title: 'Offline todo', priority: 'MEDIUM' as const };
+
+beforeEach(async () => {
+    let seq = 0;
+    store.getMutations.mockResolvedValue([]);
+    store.addMutation.mockImplementation(async () => ++seq);
+    store.putMutation.mockResolvedValue(undefined);
+    store.removeMutation.mockResolvedValue(undefined);
+    store.clear.mockResolvedValue(undefined);
+    await offlineSync.load();
+    await offlineSync.clear();
+});
+
+describe('offlineSync', () => {
+    it('should create recognizable temporary IDs', () => {
+        expect(isTempId(createTempId())).toBe(true);
+        expect(isTempId('42')).toBe(false);
+    });
+
+    describe('enqueue', () => {
+        it('should persist queued changes and report the pending count', async () => {
+            const counts: number[] = [];
+            const unsubscribe = offlineSync.subscribe(count => counts.push(count));
+
+            await offlineSync.enqueue({ type: 'toggle', id: '1', completed: true }, 'Buy milk');
+            await offlineSync.enqueue({ type: 'delete', id: '2' }, 'Call Bob');
+
+            expect(offlineSync.getPendingCount()).toBe(2);
+            expect(store.addMutation).toHaveBeenCalledWith(expect.objectContaining({ type: 'toggle', title: 'Buy milk' }));
+            expect(counts).toEqual([0, 1, 2]);
+            unsubscribe();
+        });
+
+        it('should drop the whole history of an offline todo that is purged again', async () => {
+            await offlineSync.enqueue({ type: 'create', tempId: 'temp-1', data: createData }, 'Offline todo');
+            await offlineSync.enqueue({ type: 'toggle', id: 'temp-1', completed: true }, 'Offline todo');
+            await offlineSync.enqueue({ type: 'toggle', id: '7', completed: true }, 'Other');
+            await offlineSync.enqueue({ type: 'purge', id: 'temp-1' }, 'Offline todo');
+
+            expect(offlineSync.getPendingCount()).toBe(1);
+            expect(store.removeMutation).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('replay', () => {
+        it('should send changes in order and point later changes at the server ID', async () => {
+            service.createTodo.mockResolvedValue({ id: 'server-1' } as any);
+            service.toggleTodo.mockResolvedValue({} as any);
+            service.updateTodo.mockResolvedValue({} as any);
+
+            await offlineSync.enqueue({ type: 'create', tempId: 'temp-1', data: createData }, 'Offline todo');
+            await offlineSync.enqueue({ type: 'toggle', id: 'temp-1', completed: true }, 'Offline todo');
+            await offlineSync.enqueue({ type: 'update', id: '5', data: { title: 'Renamed' } }, 'Renamed');
+
+            const result = await offlineSync.replay();
+
+            expect(result).toEqual<SyncResult>({ synced: 3, conflicts: [], idMap: { 'temp-1': 'server-1' } });
+            expect(service.toggleTodo).toHaveBeenCalledWith('server-1', true);
+            expect(service.updateTodo).toHaveBeenCalledWith('5', { title: 'Renamed' });
+            expect(store.putMutation).toHaveBeenCalledWith(expect.objectContaining({ type: 'toggle', id: 'server-1' }));
+            expect(offlineSync.getPendingCount()).toBe(0);
+        });
+
+        it('should tell subscribers about remapped IDs', async () => {
+            service.createTodo.mockResolvedValue({ id: 'server-9' } as any);
+            const onRemap = jest.fn();
+            const unsubscribe = offlineSync.onIdRemapped(onRemap);
+
+            await offlineSync.enqueue({ type: 'create', tempId: 'temp-9', data: createData }, 'Offline todo');
+            await offlineSync.replay();
+
+            expect(onRemap).toHaveBeenCalledWith('temp-9', 'server-9');
+            unsubscribe();
+        });
+
+        it.each([
+            ['the server is unreachable', new NetworkError()],
+            ['the server fails', new ServerError('Internal error', 500)],
+        ])('should keep the queue when %s', async (_, error) => {
+            service.toggleTodo.mockRejectedValueOnce(error);
+
+            await offlineSync.enqueue({ type: 'toggle', id: '1', completed: true }, 'Buy milk');
+            await offlineSync.enqueue({ type: 'delete', id: '2' }, 'Call Bob');
+            const result = await offlineSync.replay();
+
+            expect(result.synced).toBe(0);
+            expect(result.conflicts).toEqual([]);
+            expect(offlineSync.getPendingCount()).toBe(2);
+            expect(service.deleteTodo).not.toHaveBeenCalled();
+            expect(store.removeMutation).not.toHaveBeenCalled();
+        });
+
+        it('should drop changes the server rejects and continue with the rest', async () => {
+            service.updateTodo.mockRejectedValueOnce(new ConflictError());
+            service.toggleTodo.mockRejectedValueOnce(new ValidationError('Invalid'));
+            service.deleteTodo.mockResolvedValue({} as any);
+
+            await offlineSync.enqueue({ type: 'update', id: '1', data: { title: 'Stale' } }, 'Stale');
+            await offlineSync.enqueue({ type: 'toggle', id: '2', completed: true }, 'Invalid');
+            await offlineSync.enqueue({ type: 'delete', id: '3' }, 'Fine');
+            const result = await offlineSync.replay();
+
+            expect(result.synced).toBe(1);
+            expect(result.conflicts.map(conflict => conflict.mutation.title)).toEqual(['Stale', 'Invalid']);
+            expect(offlineSync.getPendingCount()).toBe(0);
+        });
+
+        it('should report changes to a todo whose creation was rejected', async () => {
+            service.createTodo.mockRejectedValueOnce(new ValidationError('Title too long'));
+
+            await offlineSync.enqueue({ type: 'create', tempId: 'temp-2', data: createData }, 'Offline todo');
+            await offlineSync.enqueue({ type: 'archive', id: 'temp-2' }, 'Offline todo');
+            const result = await offlineSync.replay();
+
+            expect(result.conflicts).toHaveLength(2);
+            expect(service.archiveTodo).not.toHaveBeenCalled();
+        });
+    });
+});
\ No newline at end of file
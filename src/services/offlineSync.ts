@@ -0,0 +1,333 @@
+// src/services/offlineSync.ts
+import { offlineStore } from './offlineStore';
+import { todoService, TodoCreateRequest, TodoUpdateRequest } from './todoService';
+import {
+    ApiError,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    TimeoutError,
+    UnauthorizedError,
+} from './apiErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * A todo change that could not be sent yet
+ * `create` carries the temporary client ID the todo is known by until it is synced
+ */
+export type TodoMutation =
+    | { type: 'create'; tempId: string; data: TodoCreateRequest }
+    | { type: 'update'; id: string; data: TodoUpdateRequest }
+    | { type: 'toggle'; id: string; completed: boolean }
+    | { type: 'delete'; id: string }
+    | { type: 'restore'; id: string }
+    | { type: 'archive'; id: string }
+    | { type: 'unarchive'; id: string }
+    | { type: 'purge'; id: string };
+
+export type QueuedMutation = TodoMutation & {
+    /** Queue position, assigned by IndexedDB */
+    seq?: number;
+    queuedAt: string;
+    /** Todo title at the time of the change, for conflict messages */
+    title: string;
+};
+
+/**
+ * A queued change the server rejected during replay
+ */
+export interface SyncConflict {
+    mutation: QueuedMutation;
+    message: string;
+}
+
+export interface SyncResult {
+    synced: number;
+    conflicts: SyncConflict[];
+    /** Temporary client ID → server ID for todos created while offline */
+    idMap: Record<string, string>;
+}
+
+type PendingListener = (pendingCount: number) => void;
+
+type IdRemapListener = (tempId: string, serverId: string) => void;
+
+const TEMP_ID_PREFIX = 'temp-';
+
+/**
+ * Generate a client-side ID for a todo created while offline
+ */
+export function createTempId(): string {
+    return TEMP_ID_PREFIX + Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+}
+
+/**
+ * Check whether an ID is a temporary client ID (todo not synced yet)
+ */
+export function isTempId(id: string): boolean {
+    return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/**
+ * Errors that mean "the server can't be reached" rather than "the server said no"
+ */
+export function isOfflineError(error: unknown): boolean {
+    return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+/**
+ * Failures a later replay can get past: the server was unreachable, busy or failed
+ * itself (5xx), or the session has to be renewed. Other 4xx responses mean the
+ * server rejected the change for good
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+    return isOfflineError(error)
+        || error instanceof UnauthorizedError
+        || error instanceof RateLimitError
+        || (error instanceof ApiError && (error.status ?? 0) >= 500);
+}
+
+/**
+ * Human readable description of a queued change, e.g. `Deleting "Buy milk"`
+ */
+export function describeMutation(mutation: QueuedMutation): string {
+    switch (mutation.type) {
+        case 'create':
+            return `Creating "${mutation.title}"`;
+        case 'update':
+            return `Updating "${mutation.title}"`;
+        case 'toggle':
+            return `${mutation.completed ? 'Completing' : 'Reopening'} "${mutation.title}"`;
+        case 'delete':
+            return `Deleting "${mutation.title}"`;
+        case 'restore':
+            return `Restoring "${mutation.title}"`;
+        case 'purge':
+            return `Permanently deleting "${mutation.title}"`;
+        case 'archive':
+            return `Archiving "${mutation.title}"`;
+        case 'unarchive':
+            return `Unarchiving "${mutation.title}"`;
+    }
+}
+
+/**
+ * Offline Sync Service
+ * Persistent FIFO queue of todo mutations made while offline. On reconnect the
+ * queue is replayed in order; IDs of todos created offline are remapped to the
+ * server IDs for the mutations that follow.
+ */
+class OfflineSyncService {
+    private queue: QueuedMutation[] = [];
+    private loadPromise: Promise<void> | null = null;
+    private replayPromise: Promise<SyncResult> | null = null;
+    private listeners = new Set<PendingListener>();
+    private remapListeners = new Set<IdRemapListener>();
+
+    /**
+     * Restore the queue from IndexedDB (once)
+     */
+    load(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = offlineStore.getMutations<QueuedMutation>()
+                .then(mutations => {
+                    this.queue = mutations;
+                    this.notify();
+                })
+                .catch(error => {
+                    logger.warn('Failed to load offline queue:', error);
+                });
+        }
+        return this.loadPromise;
+    }
+
+    /**
+     * Number of changes waiting to be synced
+     */
+    getPendingCount(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Subscribe to pending count changes
+     * @returns Unsubscribe function
+     */
+    subscribe(listener: PendingListener): () => void {
+        this.listeners.add(listener);
+        listener(this.queue.length);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Subscribe to todos created offline getting their server ID during a replay
+     * (e.g. to keep undo history pointing at the right todo)
+     * @returns Unsubscribe function
+     */
+    onIdRemapped(listener: IdRemapListener): () => void {
+        this.remapListeners.add(listener);
+        return () => {
+            this.remapListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Queue a change for later
+     * Purging a todo that was created offline drops its whole history instead
+     *
+     * @param mutation - Change to queue
+     * @param title - Title of the affected todo (used in conflict messages)
+     */
+    async enqueue(mutation: TodoMutation, title: string): Promise<void> {
+        await this.load();
+
+        if (mutation.type === 'purge' && isTempId(mutation.id)) {
+            const obsolete = this.queue.filter(queued =>
+                queued.type === 'create' ? queued.tempId === mutation.id : queued.id === mutation.id
+            );
+            this.queue = this.queue.filter(queued => !obsolete.includes(queued));
+            this.notify();
+            await Promise.all(obsolete
+                .filter(queued => queued.seq !== undefined)
+                .map(queued => offlineStore.removeMutation(queued.seq!)));
+            return;
+        }
+
+        const queued: QueuedMutation = { ...mutation, title, queuedAt: new Date().toISOString() };
+        queued.seq = await offlineStore.addMutation(queued);
+
+        this.queue.push(queued);
+        this.notify();
+        logger.debug('Mutation queued for sync:', queued);
+    }
+
+    /**
+     * Replay queued changes in order
+     * Stops (keeping the rest queued) as soon as a change fails in a way a later
+     * attempt can get past; changes the server rejects are dropped and reported as conflicts
+     *
+     * @returns Promise with the number of synced changes, conflicts and ID mapping
+     */
+    replay(): Promise<SyncResult> {
+        if (!this.replayPromise) {
+            this.replayPromise = this.runReplay().finally(() => {
+                this.replayPromise = null;
+            });
+        }
+        return this.replayPromise;
+    }
+
+    private async runReplay(): Promise<SyncResult> {
+        await this.load();
+
+        const result: SyncResult = { synced: 0, conflicts: [], idMap: {} };
+
+        while (this.queue.length > 0) {
+            const mutation = this.queue[0];
+
+            try {
+                const serverId = await this.send(mutation);
+                if (mutation.type === 'create' && serverId) {
+                    result.idMap[mutation.tempId] = serverId;
+                    await this.remapId(mutation.tempId, serverId);
+                    this.remapListeners.forEach(listener => listener(mutation.tempId, serverId));
+                }
+                result.synced++;
+            } catch (error) {
+                // Unreachable, server trouble or logged out: keep the rest for the next attempt
+                if (isRetryableSyncError(error)) {
+                    logger.warn('Sync paused:', error instanceof Error ? error.message : error);
+                    break;
+                }
+
+                const message = error instanceof Error ? error.message : 'Sync failed';
+                result.conflicts.push({ mutation, message });
+                logger.warn('Sync conflict:', describeMutation(mutation), message);
+            }
+
+            this.queue.shift();
+            this.notify();
+            if (mutation.seq !== undefined) {
+                await offlineStore.removeMutation(mutation.seq);
+            }
+        }
+
+        logger.info('Offline changes synced:', result.synced);
+        return result;
+    }
+
+    /**
+     * Point queued changes of a todo created offline at its new server ID
+     * (persisted, so a replay interrupted here can resume later)
+     */
+    private async remapId(tempId: string, serverId: string): Promise<void> {
+        const affected = this.queue.filter(queued => queued.type !== 'create' && queued.id === tempId);
+
+        for (const queued of affected) {
+            if (queued.type !== 'create') {
+                queued.id = serverId;
+                await offlineStore.putMutation(queued);
+            }
+        }
+    }
+
+    /**
+     * Send a single queued change
+     * @returns Server ID of the todo for `create`
+     */
+    private async send(mutation: QueuedMutation): Promise<string | void> {
+        if (mutation.type === 'create') {
+            const created = await todoService.createTodo(mutation.data);
+            return created.id;
+        }
+
+        const id = mutation.id;
+        if (isTempId(id)) {
+            throw new Error('The todo was never created on the server');
+        }
+
+        switch (mutation.type) {
+            case 'update':
+                await todoService.updateTodo(id, mutation.data);
+                break;
+            case 'toggle':
+                await todoService.toggleTodo(id, mutation.completed);
+                break;
+            case 'restore':
+                await todoService.restoreTodo(id);
+                break;
+            case 'archive':
+                await todoService.archiveTodo(id);
+                break;
+            case 'unarchive':
+                await todoService.unarchiveTodo(id);
+                break;
+            case 'delete':
+            case 'purge':
+                try {
+                    await (mutation.type === 'delete' ? todoService.deleteTodo(id) : todoService.purgeTodo(id));
+                } catch (error) {
+                    // Already gone on the server - nothing to report
+                    if (!(error instanceof NotFoundError)) throw error;
+                }
+                break;
+        }
+    }
+
+    /**
+     * Discard all pending changes and the cached todos (e.g. on logout)
+     */
+    async clear(): Promise<void> {
+        this.queue = [];
+        this.notify();
+        await offlineStore.clear();
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener(this.queue.length));
+    }
+}
+
+// Export singleton instance
+export const offlineSync = new OfflineSyncService();
\ No newline at end of file
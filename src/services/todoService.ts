@@ -1,6 +1,20 @@
 // src/services/todoService.ts
-import { apiService } from './api';
-import type { Todo } from '../components/TodoForm';
+import { apiClient, RequestOptions } from './apiClient';
+import type { PaginatedResponse } from './api';
+import type { Todo, Subtask, RecurrenceRule } from '../components/TodoForm';
+import type { SavedView, SerializedAdvancedFilters } from '../types/advancedFilters';
+import { getNextOccurrence, advanceRecurrenceRule, addDays, getDaysBetween } from '../utils/dateUtils';
+import { AdvancedFilterEngine } from '../utils/advancedFiltering';
+
+/**
+ * Subtask payload sent together with a todo
+ * Items without a known server ID are created by the backend
+ */
+export interface SubtaskRequest {
+    id?: string;
+    title: string;
+    completed?: boolean;
+}
 
 /**
  * Todo creation request payload
@@ -10,7 +24,19 @@ export interface TodoCreateRequest {
     description?: string;
     priority: 'LOW' | 'MEDIUM' | 'HIGH';
     category?: string;
+    startDate?: string;
     dueDate?: string;
+    subtasks?: SubtaskRequest[];
+    recurrence?: RecurrenceRule | null;
+    tags?: string[];
+}
+
+/**
+ * Subtask update request payload
+ */
+export interface SubtaskUpdateRequest {
+    title?: string;
+    completed?: boolean;
 }
 
 /**
@@ -28,11 +54,52 @@ export interface TodoFilters {
     status?: 'all' | 'active' | 'completed';
     priority?: 'all' | 'LOW' | 'MEDIUM' | 'HIGH';
     category?: string;
+    tag?: string;
+    /** Due date bucket, relative to the user's today */
+    due?: 'all' | 'today' | 'tomorrow' | 'this-week' | 'overdue' | 'no-date';
     search?: string;
+    sortBy?: 'created' | 'updated' | 'title' | 'priority' | 'dueDate';
+    sortOrder?: 'asc' | 'desc';
     page?: number;
     limit?: number;
 }
 
+/**
+ * A single field change in a todo's history
+ */
+export interface TodoChange {
+    id: string;
+    /** Changed field, e.g. `priority` or `completed` */
+    field: keyof Todo | string;
+    oldValue: unknown;
+    newValue: unknown;
+    changedAt: string;
+    /** Name or email of the user who made the change */
+    changedBy?: string;
+}
+
+/**
+ * Saved view creation/update payload
+ */
+export type SavedViewRequest = Pick<SavedView, 'name' | 'filters' | 'viewType'>;
+
+/**
+ * Saved view as the API sends it (filter dates as ISO strings)
+ */
+interface SavedViewResponse extends Omit<SavedView, 'filters'> {
+    filters: Partial<SerializedAdvancedFilters>;
+}
+
+const toSavedView = (view: SavedViewResponse): SavedView => ({
+    ...view,
+    filters: AdvancedFilterEngine.deserializeFilters(view.filters),
+});
+
+const toSavedViewPayload = (data: Partial<SavedViewRequest>) => ({
+    ...data,
+    filters: data.filters && AdvancedFilterEngine.serializeFilters(data.filters),
+});
+
 /**
  * Todo statistics response
  */
@@ -41,6 +108,8 @@ export interface TodoStats {
     completed: number;
     active: number;
     overdue: number;
+    /** Number of todos per tag */
+    byTag?: Record<string, number>;
 }
 
 /**
@@ -55,22 +124,47 @@ class TodoService {
      * Backend: GET /api/todos?status=...&priority=...&category=...&search=...
      *
      * @param filters - Optional filter parameters (status, priority, category, search, pagination)
+     * @param options - Request options (e.g. `signal` to cancel a stale request)
      * @returns Promise with array of todos matching the filters
+     * @throws RequestCancelledError if the signal is aborted
+     */
+    async getTodos(filters: TodoFilters = {}, options?: RequestOptions): Promise<Todo[]> {
+        return await apiClient.get<Todo[]>(this.withFilters(this.basePath, filters), options);
+    }
+
+    /**
+     * Fetch one page of todos, filtered and sorted by the server
+     * Backend: GET /api/todos?page=2&limit=50&status=active&sortBy=dueDate&sortOrder=asc
+     *
+     * Trashed and archived todos are left out, as in `getTodos`
+     *
+     * @param filters - Filter and sort parameters with `page` (1-based) and `limit`
+     * @param options - Request options (e.g. `signal` to cancel a stale request)
+     * @returns Promise with the todos of the page and the pagination info
+     * @throws RequestCancelledError if the signal is aborted
      */
-    async getTodos(filters: TodoFilters = {}): Promise<Todo[]> {
+    async getTodosPage(
+        filters: TodoFilters & Required<Pick<TodoFilters, 'page' | 'limit'>>,
+        options?: RequestOptions
+    ): Promise<PaginatedResponse<Todo>> {
+        return await apiClient.get<PaginatedResponse<Todo>>(this.withFilters(this.basePath, filters), options);
+    }
+
+    /**
+     * Endpoint with the filters as query parameters ("all" and empty values left out)
+     */
+    private withFilters(endpoint: string, filters: TodoFilters): string {
         const params = new URLSearchParams();
 
         // Build query parameters from filters
         Object.entries(filters).forEach(([key, value]) => {
-            if (value !== undefined && value !== null && value !== '') {
+            if (value !== undefined && value !== null && value !== '' && value !== 'all') {
                 params.append(key, String(value));
             }
         });
 
         const queryString = params.toString();
-        const endpoint = queryString ? `${this.basePath}?${queryString}` : this.basePath;
-
-        return await apiService.get<Todo[]>(endpoint);
+        return queryString ? `${endpoint}?${queryString}` : endpoint;
     }
 
     /**
@@ -78,31 +172,78 @@ class TodoService {
      * Backend: GET /api/todos/{id}
      *
      * @param id - Todo ID
+     * @param options - Request options (e.g. `signal`)
      * @returns Promise with todo object
-     * @throws Error if todo not found or access denied
+     * @throws NotFoundError if todo not found, ForbiddenError if access denied
      */
-    async getTodo(id: string): Promise<Todo> {
-        return await apiService.get<Todo>(`${this.basePath}/${id}`);
+    async getTodo(id: string, options?: RequestOptions): Promise<Todo> {
+        return await apiClient.get<Todo>(`${this.basePath}/${id}`, options);
+    }
+
+    /**
+     * Fetch the change history of a todo
+     * Backend: GET /api/todos/{id}/history
+     *
+     * @param id - Todo ID
+     * @param options - Request options (e.g. `signal`)
+     * @returns Promise with field changes, oldest first
+     * @throws NotFoundError if todo not found, ForbiddenError if access denied
+     */
+    async getTodoHistory(id: string, options?: RequestOptions): Promise<TodoChange[]> {
+        return await apiClient.get<TodoChange[]>(`${this.basePath}/${id}/history`, options);
     }
 
     /**
      * Create a new todo
      * Backend: POST /api/todos
      *
-     * @param data - Todo creation data (title, description, priority, category, dueDate)
+     * @param data - Todo creation data (title, description, priority, category, startDate, dueDate)
      * @returns Promise with created todo object
-     * @throws Error if validation fails
+     * @throws ValidationError if validation fails
      */
     async createTodo(data: TodoCreateRequest): Promise<Todo> {
-        return await apiService.post<Todo>(this.basePath, {
+        return await apiClient.post<Todo>(this.basePath, {
             title: data.title,
             description: data.description,
             priority: data.priority,
             category: data.category,
-            dueDate: data.dueDate ? `${data.dueDate}T23:59:59` : undefined
+            startDate: data.startDate ? `${data.startDate}T00:00:00` : undefined,
+            dueDate: data.dueDate ? `${data.dueDate}T23:59:59` : undefined,
+            subtasks: data.subtasks?.map(({ title, completed }) => ({ title, completed: Boolean(completed) })),
+            recurrence: data.recurrence || undefined,
+            tags: data.tags
         });
     }
 
+    /**
+     * Build the creation payload for the next occurrence of a recurring todo
+     * The copy gets the shifted due date (and start date, keeping the same lead time),
+     * a fresh (unchecked) checklist and the rule with its remaining count decremented
+     *
+     * @param todo - Recurring todo that was just completed
+     * @returns Creation payload, or null if the series has ended
+     */
+    getNextOccurrenceRequest(todo: Todo): TodoCreateRequest | null {
+        if (!todo.recurrence || !todo.dueDate) return null;
+
+        const nextDueDate = getNextOccurrence(todo.dueDate, todo.recurrence);
+        if (!nextDueDate) return null;
+
+        return {
+            title: todo.title,
+            description: todo.description,
+            priority: todo.priority,
+            category: todo.category,
+            startDate: todo.startDate
+                ? addDays(nextDueDate, -getDaysBetween(todo.startDate, todo.dueDate))
+                : undefined,
+            dueDate: nextDueDate,
+            subtasks: todo.subtasks?.map(({ title }) => ({ title, completed: false })),
+            recurrence: advanceRecurrenceRule(todo.recurrence, todo.dueDate),
+            tags: todo.tags
+        };
+    }
+
     /**
      * Update an existing todo
      * Backend: PUT /api/todos/{id}
@@ -110,26 +251,131 @@ class TodoService {
      * @param id - Todo ID to update
      * @param data - Updated todo data (partial update supported)
      * @returns Promise with updated todo object
-     * @throws Error if todo not found or validation fails
+     * @throws NotFoundError if todo not found, ValidationError if validation fails
      */
     async updateTodo(id: string, data: TodoUpdateRequest): Promise<Todo> {
-        return await apiService.put<Todo>(`${this.basePath}/${id}`, {
+        return await apiClient.put<Todo>(`${this.basePath}/${id}`, {
             ...data,
             priority: data.priority ? data.priority.toUpperCase() : undefined,
+            startDate: data.startDate ? `${data.startDate}T00:00:00` : undefined,
             dueDate: data.dueDate ? `${data.dueDate}T23:59:59` : undefined
         });
     }
 
     /**
-     * Delete a todo permanently
+     * Move a todo to the trash (soft delete)
      * Backend: DELETE /api/todos/{id}
      *
+     * The server sets `deletedAt`; trashed todos are left out of `getTodos` and stats
+     *
      * @param id - Todo ID to delete
-     * @returns Promise that resolves when deletion is complete
-     * @throws Error if todo not found or access denied
+     * @returns Promise with the trashed todo
+     * @throws NotFoundError if todo not found, ForbiddenError if access denied
+     */
+    async deleteTodo(id: string): Promise<Todo> {
+        return await apiClient.delete<Todo>(`${this.basePath}/${id}`);
+    }
+
+    /**
+     * Restore a todo from the trash
+     * Backend: POST /api/todos/{id}/restore
+     *
+     * @param id - ID of the trashed todo
+     * @returns Promise with the restored todo
+     * @throws NotFoundError if the todo was already purged
+     */
+    async restoreTodo(id: string): Promise<Todo> {
+        return await apiClient.post<Todo>(`${this.basePath}/${id}/restore`, {});
+    }
+
+    /**
+     * Delete a trashed todo permanently
+     * Backend: DELETE /api/todos/trash/{id}
+     *
+     * @param id - ID of the trashed todo
+     * @returns Promise that resolves when the todo is gone
+     * @throws NotFoundError if todo not found
+     */
+    async purgeTodo(id: string): Promise<void> {
+        await apiClient.delete<void>(`${this.basePath}/trash/${id}`);
+    }
+
+    /**
+     * Fetch the todos currently in the trash
+     * Backend: GET /api/todos/trash
+     *
+     * @param options - Request options (e.g. `signal`)
+     * @returns Promise with array of trashed todos (newest deletion first)
+     */
+    async getTrash(options?: RequestOptions): Promise<Todo[]> {
+        return await apiClient.get<Todo[]>(`${this.basePath}/trash`, options);
+    }
+
+    /**
+     * Permanently delete trashed todos
+     * Backend: DELETE /api/todos/trash?before=2026-01-01T00:00:00.000Z
+     *
+     * @param before - Only purge todos deleted before this ISO timestamp (all if omitted)
+     * @returns Promise with the number of purged todos
+     * @example
+     * // Empty the trash
+     * await todoService.purgeTrash();
+     */
+    async purgeTrash(before?: string): Promise<{ deletedCount: number }> {
+        const query = before ? `?before=${encodeURIComponent(before)}` : '';
+        return await apiClient.delete<{ deletedCount: number }>(`${this.basePath}/trash${query}`);
+    }
+
+    /**
+     * Archive a todo
+     * Backend: POST /api/todos/{id}/archive
+     *
+     * Archived todos are left out of `getTodos` but still count towards history
+     *
+     * @param id - Todo ID to archive
+     * @returns Promise with the archived todo
+     * @throws NotFoundError if todo not found
+     */
+    async archiveTodo(id: string): Promise<Todo> {
+        return await apiClient.post<Todo>(`${this.basePath}/${id}/archive`, {});
+    }
+
+    /**
+     * Move an archived todo back to the list
+     * Backend: POST /api/todos/{id}/unarchive
+     *
+     * @param id - ID of the archived todo
+     * @returns Promise with the unarchived todo
+     * @throws NotFoundError if todo not found
      */
-    async deleteTodo(id: string): Promise<void> {
-        await apiService.delete<void>(`${this.basePath}/${id}`);
+    async unarchiveTodo(id: string): Promise<Todo> {
+        return await apiClient.post<Todo>(`${this.basePath}/${id}/unarchive`, {});
+    }
+
+    /**
+     * Fetch archived todos
+     * Backend: GET /api/todos/archived
+     *
+     * @param options - Request options (e.g. `signal`)
+     * @returns Promise with array of archived todos
+     */
+    async getArchivedTodos(options?: RequestOptions): Promise<Todo[]> {
+        return await apiClient.get<Todo[]>(`${this.basePath}/archived`, options);
+    }
+
+    /**
+     * Archive all todos completed before a date
+     * Backend: POST /api/todos/archive-completed
+     *
+     * @param before - ISO timestamp; todos completed earlier are archived
+     * @returns Promise with the number of archived todos
+     * @example
+     * // Archive everything completed more than 30 days ago
+     * const cutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+     * await todoService.archiveCompletedTodos(cutoff);
+     */
+    async archiveCompletedTodos(before: string): Promise<{ archivedCount: number }> {
+        return await apiClient.post<{ archivedCount: number }>(`${this.basePath}/archive-completed`, { before });
     }
 
     /**
@@ -141,11 +387,11 @@ class TodoService {
      * @returns Promise with updated todo object
      */
     async toggleTodo(id: string, completed: boolean): Promise<Todo> {
-        return await apiService.patch<Todo>(`${this.basePath}/${id}`, { completed });
+        return await apiClient.patch<Todo>(`${this.basePath}/${id}`, { completed });
     }
 
     /**
-     * Delete multiple todos at once
+     * Move multiple todos to the trash at once
      * Backend: POST /api/todos/bulk-delete
      *
      * @param ids - Array of todo IDs to delete
@@ -154,7 +400,18 @@ class TodoService {
      * await todoService.bulkDelete(['1', '2', '3']);
      */
     async bulkDelete(ids: string[]): Promise<void> {
-        await apiService.post<void>(`${this.basePath}/bulk-delete`, { ids });
+        await apiClient.post<void>(`${this.basePath}/bulk-delete`, { ids });
+    }
+
+    /**
+     * Restore multiple todos from the trash at once
+     * Backend: POST /api/todos/bulk-restore
+     *
+     * @param ids - Array of trashed todo IDs
+     * @returns Promise with the restored todos
+     */
+    async bulkRestore(ids: string[]): Promise<Todo[]> {
+        return await apiClient.post<Todo[]>(`${this.basePath}/bulk-restore`, { ids });
     }
 
     /**
@@ -171,33 +428,145 @@ class TodoService {
      * ]);
      */
     async reorderTodos(reorderData: { id: string; order: number }[]): Promise<void> {
-        await apiService.post<void>(`${this.basePath}/reorder`, reorderData);
+        await apiClient.post<void>(`${this.basePath}/reorder`, reorderData);
+    }
+
+    /**
+     * Add a checklist item to a todo
+     * Backend: POST /api/todos/{id}/subtasks
+     *
+     * @param todoId - Parent todo ID
+     * @param title - Subtask title
+     * @returns Promise with the updated parent todo
+     */
+    async addSubtask(todoId: string, title: string): Promise<Todo> {
+        return await apiClient.post<Todo>(`${this.basePath}/${todoId}/subtasks`, { title });
+    }
+
+    /**
+     * Update a checklist item (title and/or completion)
+     * Backend: PATCH /api/todos/{id}/subtasks/{subtaskId}
+     *
+     * @param todoId - Parent todo ID
+     * @param subtaskId - Subtask ID to update
+     * @param data - Fields to change
+     * @returns Promise with the updated parent todo
+     */
+    async updateSubtask(todoId: string, subtaskId: string, data: SubtaskUpdateRequest): Promise<Todo> {
+        return await apiClient.patch<Todo>(`${this.basePath}/${todoId}/subtasks/${subtaskId}`, data);
+    }
+
+    /**
+     * Toggle a checklist item's completion status
+     * This is a convenience wrapper around updateSubtask
+     *
+     * @param todoId - Parent todo ID
+     * @param subtask - Subtask to toggle
+     * @returns Promise with the updated parent todo
+     */
+    async toggleSubtask(todoId: string, subtask: Subtask): Promise<Todo> {
+        return this.updateSubtask(todoId, subtask.id, { completed: !subtask.completed });
+    }
+
+    /**
+     * Remove a checklist item from a todo
+     * Backend: DELETE /api/todos/{id}/subtasks/{subtaskId}
+     *
+     * @param todoId - Parent todo ID
+     * @param subtaskId - Subtask ID to delete
+     * @returns Promise that resolves when deletion is complete
+     */
+    async deleteSubtask(todoId: string, subtaskId: string): Promise<void> {
+        await apiClient.delete<void>(`${this.basePath}/${todoId}/subtasks/${subtaskId}`);
     }
 
     /**
      * Get all unique categories used in user's todos
      * Backend: GET /api/todos/categories
      *
+     * @param options - Request options (e.g. `signal`)
      * @returns Promise with array of category strings
      * @example
      * const categories = await todoService.getCategories();
      * // ['Work', 'Personal', 'Shopping', ...]
      */
-    async getCategories(): Promise<string[]> {
-        return await apiService.get<string[]>(`${this.basePath}/categories`);
+    async getCategories(options?: RequestOptions): Promise<string[]> {
+        return await apiClient.get<string[]>(`${this.basePath}/categories`, options);
+    }
+
+    /**
+     * Fetch the user's saved views, in sidebar order
+     * Backend: GET /api/todos/views
+     *
+     * @param options - Request options (e.g. `signal`)
+     * @returns Promise with saved views
+     */
+    async getSavedViews(options?: RequestOptions): Promise<SavedView[]> {
+        const views = await apiClient.get<SavedViewResponse[]>(`${this.basePath}/views`, options);
+        return views.map(toSavedView).sort((a, b) => a.order - b.order);
+    }
+
+    /**
+     * Save a new view (added at the end of the sidebar)
+     * Backend: POST /api/todos/views
+     *
+     * @param data - Name, filters and view type
+     * @returns Promise with the created view
+     * @throws ValidationError if the name is empty or already taken
+     */
+    async createSavedView(data: SavedViewRequest): Promise<SavedView> {
+        return toSavedView(await apiClient.post<SavedViewResponse>(`${this.basePath}/views`, toSavedViewPayload(data)));
+    }
+
+    /**
+     * Rename a saved view or change its filters or view type
+     * Backend: PUT /api/todos/views/{id}
+     *
+     * @param id - View ID
+     * @param data - Fields to change
+     * @returns Promise with the updated view
+     * @throws NotFoundError if the view doesn't exist
+     */
+    async updateSavedView(id: string, data: Partial<SavedViewRequest>): Promise<SavedView> {
+        return toSavedView(await apiClient.put<SavedViewResponse>(
+            `${this.basePath}/views/${id}`,
+            toSavedViewPayload(data)
+        ));
+    }
+
+    /**
+     * Delete a saved view
+     * Backend: DELETE /api/todos/views/{id}
+     *
+     * @param id - View ID
+     */
+    async deleteSavedView(id: string): Promise<void> {
+        await apiClient.delete<void>(`${this.basePath}/views/${id}`);
+    }
+
+    /**
+     * Store the sidebar order of the saved views
+     * Backend: POST /api/todos/views/reorder
+     *
+     * @param reorderData - Array of objects with id and new order position
+     */
+    async reorderSavedViews(reorderData: { id: string; order: number }[]): Promise<void> {
+        await apiClient.post<void>(`${this.basePath}/views/reorder`, reorderData);
     }
 
     /**
-     * Get todo statistics for current user
-     * Backend: GET /api/todos/stats
+     * Get todo statistics for current user, counted over the todos matching the filters
+     * Backend: GET /api/todos/stats?status=active&tag=work
      *
-     * @returns Promise with statistics object (total, completed, active, overdue counts)
+     * @param filters - Filter parameters as for `getTodos` (paging and sorting are ignored)
+     * @param options - Request options (e.g. `signal`)
+     * @returns Promise with statistics object (total, completed, active, overdue counts, counts per tag)
      * @example
-     * const stats = await todoService.getStats();
-     * // { total: 10, completed: 4, active: 6, overdue: 2 }
+     * const stats = await todoService.getStats({ category: 'Work' });
+     * // { total: 10, completed: 4, active: 6, overdue: 2, byTag: { urgent: 3 } }
      */
-    async getStats(): Promise<TodoStats> {
-        return await apiService.get<TodoStats>(`${this.basePath}/stats`);
+    async getStats(filters: TodoFilters = {}, options?: RequestOptions): Promise<TodoStats> {
+        return await apiClient.get<TodoStats>(this.withFilters(`${this.basePath}/stats`, filters), options);
     }
 
     /**
@@ -211,22 +580,22 @@ class TodoService {
      * const overdue = await todoService.getOverdueTodos();
      */
     async getOverdueTodos(): Promise<Todo[]> {
-        return await apiService.get<Todo[]>(`${this.basePath}/overdue`);
+        return await apiClient.get<Todo[]>(`${this.basePath}/overdue`);
     }
 
     /**
-     * Delete all completed todos for current user
+     * Move all completed todos of the current user to the trash
      * Backend: DELETE /api/todos/completed
      *
      * This is useful for cleaning up completed tasks in bulk
      *
-     * @returns Promise with deletion result including count of deleted todos
+     * @returns Promise with deletion result including count of trashed todos
      * @example
      * const result = await todoService.deleteCompletedTodos();
      * console.log(`Deleted ${result.deletedCount} todos`);
      */
     async deleteCompletedTodos(): Promise<{ message: string; deletedCount: number }> {
-        return await apiService.delete<{
+        return await apiClient.delete<{
             message: string;
             deletedCount: number;
         }>(`${this.basePath}/completed`);
@@ -0,0 +1,159 @@
+// src/services/tokenRefresh.test.ts
+import { getTokenExpiry, isAuthEndpoint, isTokenExpired, tokenRefresher } from './tokenRefresh';
+
+const jwt = (payload: object) => `header.${btoa(JSON.stringify(payload))}.signature`;
+
+/**
+ * Promise that is resolved/rejected from the test
+ */
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+afterEach(() => {
+    tokenRefresher.cancelProactiveRefresh();
+});
+
+describe('tokenRefresh', () => {
+    describe('token helpers', () => {
+        it('should read the expiry from the JWT payload', () => {
+            expect(getTokenExpiry(jwt({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+            expect(getTokenExpiry(jwt({ sub: 'user' }))).toBeNull();
+            expect(getTokenExpiry('not-a-jwt')).toBeNull();
+        });
+
+        it('should treat tokens expiring within the margin as expired', () => {
+            const inThirtySeconds = Math.floor((Date.now() + 30 * 1000) / 1000);
+            expect(isTokenExpired(jwt({ exp: inThirtySeconds }))).toBe(false);
+            expect(isTokenExpired(jwt({ exp: inThirtySeconds }), 60 * 1000)).toBe(true);
+            expect(isTokenExpired(jwt({}))).toBe(false);
+        });
+
+        it('should only exempt auth endpoints from refreshing', () => {
+            expect(isAuthEndpoint('/auth/refresh')).toBe(true);
+            expect(isAuthEndpoint('/todos/auth/1')).toBe(false);
+        });
+    });
+
+    describe('refresh', () => {
+        it('should share one in-flight refresh between concurrent callers', async () => {
+            localStorage.setItem('refreshToken', 'refresh-1');
+            const pending = deferred<string>();
+            const handler = jest.fn(() => pending.promise);
+            tokenRefresher.setRefreshHandler(handler);
+
+            const first = tokenRefresher.refresh();
+            const second = tokenRefresher.refresh();
+            expect(tokenRefresher.isRefreshing()).toBe(true);
+
+            pending.resolve('new-token');
+            await expect(Promise.all([first, second])).resolves.toEqual(['new-token', 'new-token']);
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith('refresh-1');
+            expect(tokenRefresher.isRefreshing()).toBe(false);
+        });
+
+        it('should start a new refresh once the previous one settled', async () => {
+            localStorage.setItem('refreshToken', 'refresh-1');
+            const handler = jest.fn()
+                .mockResolvedValueOnce('token-1')
+                .mockResolvedValueOnce('token-2');
+            tokenRefresher.setRefreshHandler(handler);
+
+            await expect(tokenRefresher.refresh()).resolves.toBe('token-1');
+            await expect(tokenRefresher.refresh()).resolves.toBe('token-2');
+            expect(handler).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject every waiter and report the lost session when the refresh fails', async () => {
+            localStorage.setItem('refreshToken', 'refresh-1');
+            const pending = deferred<string>();
+            tokenRefresher.setRefreshHandler(() => pending.promise);
+            const onFailure = jest.fn();
+            const unsubscribe = tokenRefresher.onAuthFailure(onFailure);
+
+            const first = tokenRefresher.refresh();
+            const second = tokenRefresher.refresh();
+            pending.reject(new Error('Refresh token revoked'));
+
+            await expect(first).rejects.toThrow('Refresh token revoked');
+            await expect(second).rejects.toThrow('Refresh token revoked');
+            expect(onFailure).toHaveBeenCalledTimes(1);
+            unsubscribe();
+        });
+
+        it('should fail without calling the handler when there is no refresh token', async () => {
+            const handler = jest.fn();
+            tokenRefresher.setRefreshHandler(handler);
+            const onFailure = jest.fn();
+            const unsubscribe = tokenRefresher.onAuthFailure(onFailure);
+
+            await expect(tokenRefresher.refresh()).rejects.toThrow('Session expired');
+            expect(handler).not.toHaveBeenCalled();
+            expect(onFailure).toHaveBeenCalledTimes(1);
+            unsubscribe();
+        });
+
+        it('should let requests wait for a pending refresh without failing them', async () => {
+            localStorage.setItem('refreshToken', 'refresh-1');
+            const pending = deferred<string>();
+            tokenRefresher.setRefreshHandler(() => pending.promise);
+            const unsubscribe = tokenRefresher.onAuthFailure(jest.fn());
+
+            const refresh = tokenRefresher.refresh().catch(() => undefined);
+            const waiting = tokenRefresher.waitForPendingRefresh();
+            pending.reject(new Error('offline'));
+
+            await expect(waiting).resolves.toBeUndefined();
+            await refresh;
+            unsubscribe();
+        });
+    });
+
+    describe('scheduleProactiveRefresh', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should refresh one minute before the token expires', () => {
+            localStorage.setItem('refreshToken', 'refresh-1');
+            const handler = jest.fn().mockResolvedValue('new-token');
+            tokenRefresher.setRefreshHandler(handler);
+
+            const expiresInFiveMinutes = Math.floor((Date.now() + 5 * 60 * 1000) / 1000);
+            tokenRefresher.scheduleProactiveRefresh(jwt({ exp: expiresInFiveMinutes }));
+
+            jest.advanceTimersByTime(3 * 60 * 1000);
+            expect(handler).not.toHaveBeenCalled();
+
+            jest.advanceTimersByTime(60 * 1000);
+            expect(handler).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not schedule anything once cancelled', () => {
+            localStorage.setItem('refreshToken', 'refresh-1');
+            const handler = jest.fn();
+            tokenRefresher.setRefreshHandler(handler);
+
+            tokenRefresher.scheduleProactiveRefresh(jwt({ exp: Math.floor(Date.now() / 1000) + 120 }));
+            tokenRefresher.cancelProactiveRefresh();
+            jest.advanceTimersByTime(5 * 60 * 1000);
+
+            expect(handler).not.toHaveBeenCalled();
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,184 @@
+// src/services/tokenRefresh.ts
+import { logger } from '../utils/logger';
+
+/**
+ * Performs the actual refresh call and returns the new access token
+ */
+type RefreshHandler = (refreshToken: string) => Promise<string>;
+
+/**
+ * Called when the session cannot be recovered (refresh failed or impossible)
+ */
+type AuthFailureListener = () => void;
+
+/**
+ * Refresh this long before the JWT `exp` claim
+ */
+const PROACTIVE_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * setTimeout overflows above ~24.8 days; longer waits are re-scheduled
+ */
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+/**
+ * Read the expiry (ms since epoch) from a JWT without verifying it
+ * @returns Expiry timestamp, or null if the token has no readable `exp`
+ */
+export function getTokenExpiry(token: string): number | null {
+    try {
+        const payload = token.split('.')[1];
+        if (!payload) return null;
+
+        const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof json.exp === 'number' ? json.exp * 1000 : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check whether a JWT is expired (or expires within the given margin)
+ * Tokens without an `exp` claim are treated as not expired
+ */
+export function isTokenExpired(token: string, marginMs: number = 0): boolean {
+    const expiry = getTokenExpiry(token);
+    return expiry !== null && expiry - marginMs <= Date.now();
+}
+
+/**
+ * Auth endpoints never trigger a refresh: a 401 from login means bad credentials,
+ * and the refresh call itself must not wait for (or start) another refresh
+ */
+export function isAuthEndpoint(endpoint: string): boolean {
+    return endpoint.startsWith('/auth/');
+}
+
+/**
+ * Token Refresh Manager
+ * Shared by the HTTP clients: runs at most one refresh at a time, lets concurrent
+ * requests wait for it, schedules a proactive refresh before the token expires and
+ * notifies listeners (AuthContext) when the session is lost
+ */
+class TokenRefreshManager {
+    private refreshHandler: RefreshHandler | null = null;
+    private refreshPromise: Promise<string> | null = null;
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private failureListeners = new Set<AuthFailureListener>();
+
+    /**
+     * Register the function that exchanges a refresh token for a new access token
+     */
+    setRefreshHandler(handler: RefreshHandler): void {
+        this.refreshHandler = handler;
+    }
+
+    /**
+     * Subscribe to session loss
+     * @returns Unsubscribe function
+     */
+    onAuthFailure(listener: AuthFailureListener): () => void {
+        this.failureListeners.add(listener);
+        return () => {
+            this.failureListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Whether a refresh is currently in flight
+     */
+    isRefreshing(): boolean {
+        return this.refreshPromise !== null;
+    }
+
+    /**
+     * Wait for an in-flight refresh (if any) so the request is sent with the new token
+     * Never rejects: a failed refresh surfaces through the request's own 401 handling
+     */
+    async waitForPendingRefresh(): Promise<void> {
+        if (this.refreshPromise) {
+            await this.refreshPromise.catch(() => undefined);
+        }
+    }
+
+    /**
+     * Refresh the access token
+     * Concurrent callers share the same in-flight request
+     *
+     * @returns Promise with the new access token
+     * @throws Error if there is no refresh token or the refresh call fails
+     */
+    refresh(): Promise<string> {
+        if (this.refreshPromise) {
+            return this.refreshPromise;
+        }
+
+        const refreshToken = localStorage.getItem('refreshToken');
+        if (!refreshToken || !this.refreshHandler) {
+            this.notifyFailure();
+            return Promise.reject(new Error('Session expired - Please login again'));
+        }
+
+        logger.debug('Refreshing access token');
+
+        this.refreshPromise = this.refreshHandler(refreshToken)
+            .then(token => {
+                this.scheduleProactiveRefresh(token);
+                return token;
+            })
+            .catch(error => {
+                logger.warn('Token refresh failed:', error);
+                this.notifyFailure();
+                throw error;
+            })
+            .finally(() => {
+                this.refreshPromise = null;
+            });
+
+        return this.refreshPromise;
+    }
+
+    /**
+     * Schedule a refresh shortly before the token's `exp`
+     * @param token - Access token (defaults to the stored one)
+     */
+    scheduleProactiveRefresh(token: string | null = localStorage.getItem('authToken')): void {
+        this.cancelProactiveRefresh();
+        if (!token) return;
+
+        const expiry = getTokenExpiry(token);
+        if (expiry === null) return;
+
+        const delay = Math.max(0, expiry - PROACTIVE_REFRESH_MARGIN_MS - Date.now());
+
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+
+            // Long-lived tokens wake up early because of the timer limit
+            if (!isTokenExpired(token, PROACTIVE_REFRESH_MARGIN_MS)) {
+                this.scheduleProactiveRefresh(token);
+                return;
+            }
+
+            this.refresh().catch(() => undefined);
+        }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    }
+
+    /**
+     * Cancel a scheduled proactive refresh (e.g. on logout)
+     */
+    cancelProactiveRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+
+    private notifyFailure(): void {
+        this.cancelProactiveRefresh();
+        this.failureListeners.forEach(listener => listener());
+    }
+}
+
+// Export singleton instance
+export const tokenRefresher = new TokenRefreshManager();
\ No newline at end of file
@@ -2,6 +2,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { Todo, TodoFilter, TodoSort, TodoStats } from '../types';
+import { getTagCounts, hasTag } from '../utils/tags';
 
 
 interface TodoState {
@@ -27,6 +28,7 @@ const defaultFilter: TodoFilter = {
     priority: 'all',
     category: 'all',
     dateFilter: 'all',
+    tag: 'all',
     searchQuery: '',
 };
 
@@ -99,6 +101,12 @@ export const useTodoStore = create<TodoState>()(
                     filtered = filtered.filter((todo) => todo.category === filter.category);
                 }
 
+                // Filter by tag
+                if (filter.tag && filter.tag !== 'all') {
+                    const tag = filter.tag;
+                    filtered = filtered.filter((todo) => hasTag(todo.tags, tag));
+                }
+
                 // Filter by search query
                 if (filter.searchQuery && filter.searchQuery.trim() !== '') {
                     const query = filter.searchQuery.toLowerCase();
@@ -158,6 +166,7 @@ export const useTodoStore = create<TodoState>()(
                         }
                         return new Date(todo.dueDate) < new Date();
                     }).length,
+                    byTag: getTagCounts(todos),
                 };
 
                 return stats;
@@ -0,0 +1,19 @@
+// src/test/todoFixtures.ts
+import type { Todo } from '../components/TodoForm';
+
+/**
+ * A todo for tests, with only the fields a test cares about given
+ * The ID defaults to the title, so todos built from titles alone stay distinct.
+ */
+export const makeTodo = (overrides: Partial<Todo> = {}): Todo => {
+    const id = overrides.id ?? overrides.title ?? '1';
+    return {
+        id,
+        title: `Todo ${id}`,
+        completed: false,
+        priority: 'MEDIUM',
+        createdAt: '2026-10-01T09:00:00',
+        updatedAt: '2026-10-01T09:00:00',
+        ...overrides,
+    };
+};
\ No newline at end of file
@@ -30,14 +30,39 @@ export interface AdvancedFilterOptions {
     hasCategory: boolean | null;
     isOverdue: boolean | null;
     isDueSoon: boolean | null; // due within next 7 days
+    hasIncompleteSubtasks: boolean | null;
 
     // Sorting and grouping
     sortBy: 'created' | 'updated' | 'title' | 'priority' | 'dueDate' | 'category';
     sortOrder: 'asc' | 'desc';
-    groupBy: 'none' | 'category' | 'priority' | 'status' | 'dueDate';
+    groupBy: 'none' | 'category' | 'priority' | 'status' | 'dueDate' | 'tag';
 
     // Display options
     showArchived: boolean;
     maxResults: number;
 
-};
\ No newline at end of file
+};
+
+type DateRangeKey = 'dateRange' | 'createdRange' | 'updatedRange' | 'completedInRange';
+
+/**
+ * Filter options as stored or sent to the server: dates as ISO strings
+ */
+export type SerializedAdvancedFilters = Omit<AdvancedFilterOptions, DateRangeKey> &
+    Record<DateRangeKey, { start?: string | null; end?: string | null }>;
+
+/** Todo views a saved view can open in */
+export type SavedViewType = 'list' | 'board' | 'calendar' | 'timeline' | 'matrix';
+
+/**
+ * A named "smart list": filters with their sort order and grouping, shown in a view
+ */
+export interface SavedView {
+    id: string;
+    name: string;
+    /** Criteria plus sortBy/sortOrder and groupBy */
+    filters: AdvancedFilterOptions;
+    viewType: SavedViewType;
+    /** Position in the sidebar */
+    order: number;
+}
\ No newline at end of file
@@ -1,5 +1,22 @@
 // src/types/index.ts
 
+export interface Subtask {
+    id: string;
+    title: string;
+    completed: boolean;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    byWeekday?: number[];
+    byMonthDay?: number;
+    until?: string;
+    count?: number;
+}
+
 export interface Todo {
     id: string;
     title: string;
@@ -9,7 +26,18 @@ export interface Todo {
     category?: string;
     createdAt: string;
     updatedAt: string;
+    /** Day work on the todo begins; with dueDate it spans a timeline bar */
+    startDate?: string;
     dueDate?: string;
+    subtasks?: Subtask[];
+    recurrence?: RecurrenceRule | null;
+    tags?: string[];
+    /** Set while the todo is in the trash; purged after the retention period */
+    deletedAt?: string | null;
+    /** Set while the todo is archived (hidden from the list, kept for history) */
+    archivedAt?: string | null;
+    /** When the todo was completed; null while it is open */
+    completedAt?: string | null;
 }
 
 export interface TodoFilter {
@@ -17,6 +45,7 @@ export interface TodoFilter {
     priority: 'all' | 'LOW' | 'MEDIUM' | 'HIGH';
     category: string;
     dateFilter: 'all' | 'today' | 'tomorrow' | 'this-week' | 'overdue' | 'no-date';
+    tag?: string;
     searchQuery?: string;
 }
 
@@ -36,6 +65,7 @@ export interface TodoStats {
         high: number;
     };
     byCategory?: Record<string, number>;
+    byTag?: Record<string, number>;
 }
 
 export type Priority = 'LOW' | 'MEDIUM' | 'HIGH';
@@ -0,0 +1,147 @@
+// src/utils/advancedFiltering.test.ts
+import type { Todo } from '../components/TodoForm';
+import { makeTodo } from '../test/todoFixtures';
+import { AdvancedFilterEngine } from './advancedFiltering';
+
+const titles = (groups: Record<string, Todo[]>) =>
+    Object.fromEntries(Object.entries(groups).map(([key, items]) => [key, items.map(item => item.title)]));
+
+describe('AdvancedFilterEngine', () => {
+    describe('getGroupKey', () => {
+        it('should group by status, category and priority', () => {
+            expect(AdvancedFilterEngine.getGroupKey(makeTodo({ completed: true }), 'status')).toBe('Completed');
+            expect(AdvancedFilterEngine.getGroupKey(makeTodo(), 'status')).toBe('Active');
+            expect(AdvancedFilterEngine.getGroupKey(makeTodo({ category: 'Work' }), 'category')).toBe('Work');
+            expect(AdvancedFilterEngine.getGroupKey(makeTodo(), 'category')).toBe('Uncategorized');
+            expect(AdvancedFilterEngine.getGroupKey(makeTodo({ priority: 'HIGH' }), 'priority')).toBe('High Priority');
+        });
+
+        describe('by due date', () => {
+            beforeEach(() => {
+                jest.useFakeTimers();
+                // A Monday
+                jest.setSystemTime(new Date(2026, 9, 19, 12));
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it.each([
+                ['2026-10-18T12:00:00', 'Overdue'],
+                ['2026-10-19T12:00:00', 'Due Today'],
+                ['2026-10-20T12:00:00', 'Due Tomorrow'],
+                ['2026-10-24T12:00:00', 'Due This Week'],
+                ['2026-11-10T12:00:00', 'Due This Month'],
+                ['2027-01-01T12:00:00', 'Due Later'],
+            ])('should put a todo due %s under %s', (dueDate, group) => {
+                expect(AdvancedFilterEngine.getGroupKey(makeTodo({ dueDate }), 'dueDate')).toBe(group);
+            });
+
+            it('should keep todos without a due date apart', () => {
+                expect(AdvancedFilterEngine.getGroupKey(makeTodo(), 'dueDate')).toBe('No Due Date');
+            });
+        });
+    });
+
+    describe('groupTodos', () => {
+        const todos = [
+            makeTodo({ title: 'Report', category: 'Work', tags: ['work', 'urgent'] }),
+            makeTodo({ title: 'Groceries', category: 'Home', tags: ['home'] }),
+            makeTodo({ title: 'Stretch' }),
+        ];
+
+        it('should put each todo in exactly one column', () => {
+            expect(titles(AdvancedFilterEngine.groupTodos(todos, 'category'))).toEqual({
+                Work: ['Report'],
+                Home: ['Groceries'],
+                Uncategorized: ['Stretch'],
+            });
+        });
+
+        it('should list a todo under each of its tags', () => {
+            expect(titles(AdvancedFilterEngine.groupTodos(todos, 'tag'))).toEqual({
+                '#work': ['Report'],
+                '#urgent': ['Report'],
+                '#home': ['Groceries'],
+                Untagged: ['Stretch'],
+            });
+        });
+
+        it('should keep all todos together without a grouping', () => {
+            expect(titles(AdvancedFilterEngine.groupTodos(todos, 'none'))).toEqual({
+                'All Todos': ['Report', 'Groceries', 'Stretch'],
+            });
+        });
+    });
+
+    describe('filterTodos', () => {
+        it('should cut the list at the result limit while counting every match', () => {
+            const todos = ['A', 'B', 'C'].map(title => makeTodo({ title }));
+            const filters = { ...AdvancedFilterEngine.getDefaultFilters(), maxResults: 2 };
+
+            expect(AdvancedFilterEngine.filterTodos(todos, filters)).toHaveLength(2);
+            expect(AdvancedFilterEngine.countMatches(todos, filters)).toBe(3);
+            expect(AdvancedFilterEngine.filterTodos(todos, { ...filters, maxResults: 0 })).toHaveLength(3);
+        });
+    });
+
+    describe('sortGroupKeys', () => {
+        it('should keep the natural order of status, priority and due date groups', () => {
+            expect(AdvancedFilterEngine.sortGroupKeys(['Low Priority', 'High Priority', 'Medium Priority'], 'priority'))
+                .toEqual(['High Priority', 'Medium Priority', 'Low Priority']);
+            expect(AdvancedFilterEngine.sortGroupKeys(['No Due Date', 'Due Today', 'Overdue'], 'dueDate'))
+                .toEqual(['Overdue', 'Due Today', 'No Due Date']);
+        });
+
+        it('should sort other groups by name with the empty group last', () => {
+            expect(AdvancedFilterEngine.sortGroupKeys(['Uncategorized', 'Work', 'Home'], 'category'))
+                .toEqual(['Home', 'Work', 'Uncategorized']);
+            expect(AdvancedFilterEngine.sortGroupKeys(['Untagged', '#work', '#home'], 'tag'))
+                .toEqual(['#home', '#work', 'Untagged']);
+        });
+    });
+
+    describe('getFilterSummaryItems', () => {
+        it('should describe nothing for the default filters', () => {
+            expect(AdvancedFilterEngine.getFilterSummaryItems(AdvancedFilterEngine.getDefaultFilters())).toEqual([]);
+        });
+
+        it('should describe each active criterion with the options that remove it', () => {
+            const filters = {
+                ...AdvancedFilterEngine.getDefaultFilters(),
+                titleContains: 'report',
+                tags: ['work', 'q3'],
+                hasDueDate: false,
+                showArchived: true,
+                groupBy: 'priority' as const,
+            };
+
+            expect(AdvancedFilterEngine.getFilterSummaryItems(filters)).toEqual([
+                { label: 'Title contains "report"', keys: ['titleContains'] },
+                { label: 'Tags: #work, #q3', keys: ['tags'] },
+                { label: 'No due date', keys: ['hasDueDate'] },
+                { label: 'Including archived', keys: ['showArchived'] },
+                { label: 'Grouped by priority', keys: ['groupBy'] },
+            ]);
+        });
+    });
+
+    describe('resetFilters', () => {
+        it('should put only the given options back to their defaults', () => {
+            const defaults = AdvancedFilterEngine.getDefaultFilters();
+            const filters = {
+                ...defaults,
+                priorities: ['HIGH' as const],
+                createdRange: { start: new Date(2026, 9, 1), end: null },
+                completionStatus: 'incomplete' as const,
+            };
+
+            const reset = AdvancedFilterEngine.resetFilters(filters, ['priorities', 'createdRange']);
+
+            expect(reset).toEqual({ ...defaults, completionStatus: 'incomplete' });
+            expect(AdvancedFilterEngine.hasActiveFilters(reset)).toBe(true);
+            expect(filters.priorities).toEqual(['HIGH']);
+        });
+    });
+});
\ No newline at end of file
@@ -1,147 +1,220 @@
 import type { Todo } from '../components/TodoForm';
-import type { AdvancedFilterOptions } from '../types/advancedFilters';
+import type { AdvancedFilterOptions, DateRange, SerializedAdvancedFilters } from '../types/advancedFilters';
+import { hasIncompleteSubtasks } from './subtasks';
+import { hasTag } from './tags';
+import { getCompletedAt } from './dateUtils';
+
+export type TodoPredicate = (todo: Todo) => boolean;
+
+const isInRange = (value: string, range: DateRange) => {
+    const date = new Date(value);
+    if (range.start && date < range.start) return false;
+    if (range.end && date > range.end) return false;
+    return true;
+};
+
+const DATE_RANGE_KEYS = ['dateRange', 'createdRange', 'updatedRange', 'completedInRange'] as const;
+
+/**
+ * One active criterion, described for the user
+ */
+export interface FilterSummaryItem {
+    label: string;
+    /** Options to reset to remove the criterion */
+    keys: (keyof AdvancedFilterOptions)[];
+}
+
+// Groups with a natural order; other groups (categories, tags) are sorted by name
+const GROUP_ORDERS: Partial<Record<AdvancedFilterOptions['groupBy'], string[]>> = {
+    status: ['Active', 'Completed'],
+    priority: ['High Priority', 'Medium Priority', 'Low Priority'],
+    dueDate: ['Overdue', 'Due Today', 'Due Tomorrow', 'Due This Week', 'Due This Month', 'Due Later', 'No Due Date'],
+};
+
+// Groups of todos without a category or tag, listed last
+const NO_VALUE_GROUPS = ['Uncategorized', 'Untagged'];
+
+const formatRange = (range: DateRange) =>
+    `${range.start?.toLocaleDateString() || 'any'} - ${range.end?.toLocaleDateString() || 'any'}`;
 
 export class AdvancedFilterEngine {
-    static filterTodos(todos: Todo[], filters: AdvancedFilterOptions): Todo[] {
-        let filtered = [...todos];
+    /**
+     * Filter options that match everything
+     */
+    static getDefaultFilters(): AdvancedFilterOptions {
+        return {
+            // Text filters
+            titleContains: '',
+            descriptionContains: '',
+            excludeText: '',
+
+            // Multi-select filters
+            priorities: [],
+            categories: [],
+            tags: [],
+
+            // Date range filters
+            dateRange: { start: null, end: null },
+            createdRange: { start: null, end: null },
+            updatedRange: { start: null, end: null },
+            completedInRange: { start: null, end: null },
+
+            // Status filters
+            completionStatus: 'all',
+
+            // Boolean filters
+            hasDescription: null,
+            hasDueDate: null,
+            hasCategory: null,
+            isOverdue: null,
+            isDueSoon: null,
+            hasIncompleteSubtasks: null,
+
+            // Sorting and display
+            sortBy: 'created',
+            sortOrder: 'desc',
+            groupBy: 'none',
+            maxResults: 100,
+            showArchived: false,
+        };
+    }
 
-        // Date range filters
-        if (filters.dateRange.start || filters.dateRange.end) {
-            filtered = filtered.filter(todo => {
-                if (!todo.dueDate) return false;
+    /**
+     * Single-criterion predicates; filterTodos combines them from the filter options,
+     * the search query language (utils/todoQuery) from a query string
+     */
+    static predicates = {
+        dueInRange: (range: DateRange): TodoPredicate => todo =>
+            Boolean(todo.dueDate) && isInRange(todo.dueDate!, range),
+
+        createdInRange: (range: DateRange): TodoPredicate => todo => isInRange(todo.createdAt, range),
+
+        updatedInRange: (range: DateRange): TodoPredicate => todo => isInRange(todo.updatedAt, range),
+
+        completedInRange: (range: DateRange): TodoPredicate => todo => {
+            const completedAt = getCompletedAt(todo);
+            return Boolean(completedAt) && isInRange(completedAt!, range);
+        },
+
+        titleContains: (text: string): TodoPredicate => {
+            const query = text.toLowerCase();
+            return todo => todo.title.toLowerCase().includes(query);
+        },
+
+        descriptionContains: (text: string): TodoPredicate => {
+            const query = text.toLowerCase();
+            return todo => Boolean(todo.description?.toLowerCase().includes(query));
+        },
+
+        excludesText: (text: string): TodoPredicate => {
+            const query = text.toLowerCase();
+            return todo =>
+                !todo.title.toLowerCase().includes(query) &&
+                !todo.description?.toLowerCase().includes(query);
+        },
+
+        /** Plain search: title, description, category or a tag contains the text */
+        matchesText: (text: string): TodoPredicate => {
+            const query = text.toLowerCase();
+            return todo =>
+                todo.title.toLowerCase().includes(query) ||
+                Boolean(todo.description?.toLowerCase().includes(query)) ||
+                Boolean(todo.category?.toLowerCase().includes(query)) ||
+                Boolean(todo.tags?.some(tag => tag.toLowerCase().includes(query)));
+        },
+
+        priorityIn: (priorities: AdvancedFilterOptions['priorities']): TodoPredicate => todo =>
+            priorities.includes(todo.priority),
+
+        /** Category names compare case-insensitively */
+        categoryIn: (categories: string[]): TodoPredicate => {
+            const names = categories.map(category => category.toLowerCase());
+            return todo => Boolean(todo.category) && names.includes(todo.category!.toLowerCase());
+        },
+
+        hasAnyTag: (tags: string[]): TodoPredicate => todo => tags.some(tag => hasTag(todo.tags, tag)),
+
+        completionIs: (status: AdvancedFilterOptions['completionStatus']): TodoPredicate => todo => {
+            if (status === 'completed') return todo.completed;
+            if (status === 'incomplete') return !todo.completed;
+            return true;
+        },
+
+        hasDescription: (expected: boolean): TodoPredicate => todo =>
+            Boolean(todo.description?.trim()) === expected,
+
+        hasDueDate: (expected: boolean): TodoPredicate => todo => Boolean(todo.dueDate) === expected,
+
+        hasCategory: (expected: boolean): TodoPredicate => todo => Boolean(todo.category?.trim()) === expected,
+
+        isOverdue: (expected: boolean, now: Date = new Date()): TodoPredicate => todo => {
+            if (!todo.dueDate || todo.completed) return !expected;
+            return (new Date(todo.dueDate) < now) === expected;
+        },
+
+        /** Due within the next 7 days */
+        isDueSoon: (expected: boolean, now: Date = new Date()): TodoPredicate => {
+            const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+            return todo => {
+                if (!todo.dueDate || todo.completed) return !expected;
                 const dueDate = new Date(todo.dueDate);
+                return (dueDate >= now && dueDate <= nextWeek) === expected;
+            };
+        },
 
-                if (filters.dateRange.start && dueDate < filters.dateRange.start) return false;
-                if (filters.dateRange.end && dueDate > filters.dateRange.end) return false;
-
-                return true;
-            });
-        }
-
-        // Created date range
-        if (filters.createdRange.start || filters.createdRange.end) {
-            filtered = filtered.filter(todo => {
-                const createdDate = new Date(todo.createdAt);
-
-                if (filters.createdRange.start && createdDate < filters.createdRange.start) return false;
-                if (filters.createdRange.end && createdDate > filters.createdRange.end) return false;
-
-                return true;
-            });
-        }
-
-        // Updated date range
-        if (filters.updatedRange.start || filters.updatedRange.end) {
-            filtered = filtered.filter(todo => {
-                const updatedDate = new Date(todo.updatedAt);
-
-                if (filters.updatedRange.start && updatedDate < filters.updatedRange.start) return false;
-                if (filters.updatedRange.end && updatedDate > filters.updatedRange.end) return false;
-
-                return true;
-            });
-        }
-
-        // Text filters
-        if (filters.titleContains) {
-            const query = filters.titleContains.toLowerCase();
-            filtered = filtered.filter(todo =>
-                todo.title.toLowerCase().includes(query)
-            );
-        }
-
-        if (filters.descriptionContains) {
-            const query = filters.descriptionContains.toLowerCase();
-            filtered = filtered.filter(todo =>
-                todo.description?.toLowerCase().includes(query)
-            );
-        }
-
-        if (filters.excludeText) {
-            const excludeQuery = filters.excludeText.toLowerCase();
-            filtered = filtered.filter(todo =>
-                !todo.title.toLowerCase().includes(excludeQuery) &&
-                !todo.description?.toLowerCase().includes(excludeQuery)
-            );
-        }
-
-        // Multi-select filters
-        if (filters.priorities.length > 0) {
-            filtered = filtered.filter(todo =>
-                filters.priorities.includes(todo.priority)
-            );
-        }
+        hasIncompleteSubtasks: (expected: boolean): TodoPredicate => todo => hasIncompleteSubtasks(todo) === expected,
 
-        if (filters.categories.length > 0) {
-            filtered = filtered.filter(todo =>
-                todo.category && filters.categories.includes(todo.category)
-            );
-        }
+        isArchived: (expected: boolean): TodoPredicate => todo => Boolean(todo.archivedAt) === expected,
+    };
 
-        // Completion status
-        if (filters.completionStatus !== 'all') {
-            filtered = filtered.filter(todo => {
-                if (filters.completionStatus === 'completed') return todo.completed;
-                if (filters.completionStatus === 'incomplete') return !todo.completed;
-                return true;
-            });
-        }
+    /**
+     * Predicates for the criteria set in the filter options (trashed todos always excluded)
+     */
+    static getPredicates(filters: AdvancedFilterOptions): TodoPredicate[] {
+        const { predicates } = AdvancedFilterEngine;
+        const result: TodoPredicate[] = [todo => !todo.deletedAt];
+        const hasRange = (range: DateRange) => Boolean(range.start || range.end);
 
-        // Completed in range
-        if (filters.completedInRange.start || filters.completedInRange.end) {
-            filtered = filtered.filter(todo => {
-                if (!todo.completed) return false;
-                const completedDate = new Date(todo.updatedAt); // Assuming updatedAt is when completed
+        if (!filters.showArchived) result.push(predicates.isArchived(false));
 
-                if (filters.completedInRange.start && completedDate < filters.completedInRange.start) return false;
-                if (filters.completedInRange.end && completedDate > filters.completedInRange.end) return false;
+        if (hasRange(filters.dateRange)) result.push(predicates.dueInRange(filters.dateRange));
+        if (hasRange(filters.createdRange)) result.push(predicates.createdInRange(filters.createdRange));
+        if (hasRange(filters.updatedRange)) result.push(predicates.updatedInRange(filters.updatedRange));
 
-                return true;
-            });
-        }
+        if (filters.titleContains) result.push(predicates.titleContains(filters.titleContains));
+        if (filters.descriptionContains) result.push(predicates.descriptionContains(filters.descriptionContains));
+        if (filters.excludeText) result.push(predicates.excludesText(filters.excludeText));
 
-        // Boolean filters
-        if (filters.hasDescription !== null) {
-            filtered = filtered.filter(todo => {
-                const hasDesc = Boolean(todo.description?.trim());
-                return filters.hasDescription ? hasDesc : !hasDesc;
-            });
-        }
+        if (filters.priorities.length > 0) result.push(predicates.priorityIn(filters.priorities));
+        if (filters.categories.length > 0) result.push(predicates.categoryIn(filters.categories));
+        if (filters.tags.length > 0) result.push(predicates.hasAnyTag(filters.tags));
 
-        if (filters.hasDueDate !== null) {
-            filtered = filtered.filter(todo => {
-                const hasDate = Boolean(todo.dueDate);
-                return filters.hasDueDate ? hasDate : !hasDate;
-            });
-        }
+        if (filters.completionStatus !== 'all') result.push(predicates.completionIs(filters.completionStatus));
+        if (hasRange(filters.completedInRange)) result.push(predicates.completedInRange(filters.completedInRange));
 
-        if (filters.hasCategory !== null) {
-            filtered = filtered.filter(todo => {
-                const hasCat = Boolean(todo.category?.trim());
-                return filters.hasCategory ? hasCat : !hasCat;
-            });
+        if (filters.hasDescription !== null) result.push(predicates.hasDescription(filters.hasDescription));
+        if (filters.hasDueDate !== null) result.push(predicates.hasDueDate(filters.hasDueDate));
+        if (filters.hasCategory !== null) result.push(predicates.hasCategory(filters.hasCategory));
+        if (filters.isOverdue !== null) result.push(predicates.isOverdue(filters.isOverdue));
+        if (filters.isDueSoon !== null) result.push(predicates.isDueSoon(filters.isDueSoon));
+        if (filters.hasIncompleteSubtasks !== null) {
+            result.push(predicates.hasIncompleteSubtasks(filters.hasIncompleteSubtasks));
         }
 
-        if (filters.isOverdue !== null) {
-            const now = new Date();
-            filtered = filtered.filter(todo => {
-                if (!todo.dueDate || todo.completed) return !filters.isOverdue;
-                const isOverdue = new Date(todo.dueDate) < now;
-                return filters.isOverdue ? isOverdue : !isOverdue;
-            });
-        }
+        return result;
+    }
 
-        if (filters.isDueSoon !== null) {
-            const now = new Date();
-            const nextWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    /**
+     * Number of todos matching the criteria, regardless of maxResults
+     */
+    static countMatches(todos: Todo[], filters: AdvancedFilterOptions): number {
+        const predicates = AdvancedFilterEngine.getPredicates(filters);
+        return todos.filter(todo => predicates.every(predicate => predicate(todo))).length;
+    }
 
-            filtered = filtered.filter(todo => {
-                if (!todo.dueDate || todo.completed) return !filters.isDueSoon;
-                const dueDate = new Date(todo.dueDate);
-                const isDueSoon = dueDate >= now && dueDate <= nextWeek;
-                return filters.isDueSoon ? isDueSoon : !isDueSoon;
-            });
-        }
+    static filterTodos(todos: Todo[], filters: AdvancedFilterOptions): Todo[] {
+        const predicates = AdvancedFilterEngine.getPredicates(filters);
+        let filtered = todos.filter(todo => predicates.every(predicate => predicate(todo)));
 
         // Sorting
         filtered.sort((a, b) => {
@@ -194,39 +267,25 @@ export class AdvancedFilterEngine {
 
         const grouped: Record<string, Todo[]> = {};
 
-        todos.forEach(todo => {
-            let groupKey = '';
-
-            switch (groupBy) {
-                case 'category':
-                    groupKey = todo.category || 'Uncategorized';
-                    break;
-                case 'priority':
-                    groupKey = `${todo.priority.charAt(0).toUpperCase()}${todo.priority.slice(1)} Priority`;
-                    break;
-                case 'status':
-                    groupKey = todo.completed ? 'Completed' : 'Active';
-                    break;
-                case 'dueDate':
-                    if (!todo.dueDate) {
-                        groupKey = 'No Due Date';
-                    } else {
-                        const dueDate = new Date(todo.dueDate);
-                        const now = new Date();
-                        const diffTime = dueDate.getTime() - now.getTime();
-                        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-                        if (diffDays < 0) groupKey = 'Overdue';
-                        else if (diffDays === 0) groupKey = 'Due Today';
-                        else if (diffDays === 1) groupKey = 'Due Tomorrow';
-                        else if (diffDays <= 7) groupKey = 'Due This Week';
-                        else if (diffDays <= 30) groupKey = 'Due This Month';
-                        else groupKey = 'Due Later';
+        // A todo with several tags appears in each of its tag groups
+        if (groupBy === 'tag') {
+            todos.forEach(todo => {
+                const groupKeys = todo.tags && todo.tags.length > 0
+                    ? todo.tags.map(tag => `#${tag}`)
+                    : ['Untagged'];
+                groupKeys.forEach(groupKey => {
+                    if (!grouped[groupKey]) {
+                        grouped[groupKey] = [];
                     }
-                    break;
-                default:
-                    groupKey = 'All Todos';
-            }
+                    grouped[groupKey].push(todo);
+                });
+            });
+
+            return grouped;
+        }
+
+        todos.forEach(todo => {
+            const groupKey = AdvancedFilterEngine.getGroupKey(todo, groupBy);
 
             if (!grouped[groupKey]) {
                 grouped[groupKey] = [];
@@ -237,64 +296,157 @@ export class AdvancedFilterEngine {
         return grouped;
     }
 
-    static getFilterSummary(filters: AdvancedFilterOptions): string[] {
-        const summary: string[] = [];
+    /**
+     * Group a todo falls into (for groupings where each todo has exactly one group)
+     */
+    static getGroupKey(todo: Todo, groupBy: Exclude<AdvancedFilterOptions['groupBy'], 'none' | 'tag'>): string {
+        switch (groupBy) {
+            case 'category':
+                return todo.category || 'Uncategorized';
+            case 'priority':
+                return `${todo.priority.charAt(0)}${todo.priority.slice(1).toLowerCase()} Priority`;
+            case 'status':
+                return todo.completed ? 'Completed' : 'Active';
+            case 'dueDate': {
+                if (!todo.dueDate) return 'No Due Date';
+
+                const dueDate = new Date(todo.dueDate);
+                const now = new Date();
+                const diffTime = dueDate.getTime() - now.getTime();
+                const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+
+                if (diffDays < 0) return 'Overdue';
+                if (diffDays === 0) return 'Due Today';
+                if (diffDays === 1) return 'Due Tomorrow';
+                if (diffDays <= 7) return 'Due This Week';
+                if (diffDays <= 30) return 'Due This Month';
+                return 'Due Later';
+            }
+            default:
+                return 'All Todos';
+        }
+    }
+
+    /**
+     * Group keys in display order
+     */
+    static sortGroupKeys(keys: string[], groupBy: AdvancedFilterOptions['groupBy']): string[] {
+        const order = GROUP_ORDERS[groupBy];
+        if (order) {
+            return [...keys].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+        }
+        return [...keys].sort((a, b) => {
+            const aLast = NO_VALUE_GROUPS.includes(a);
+            const bLast = NO_VALUE_GROUPS.includes(b);
+            if (aLast !== bLast) return aLast ? 1 : -1;
+            return a.localeCompare(b);
+        });
+    }
+
+    /**
+     * Active criteria with the options behind each, e.g. for removable chips
+     */
+    static getFilterSummaryItems(filters: AdvancedFilterOptions): FilterSummaryItem[] {
+        const items: FilterSummaryItem[] = [];
+        const add = (label: string, ...keys: (keyof AdvancedFilterOptions)[]) => items.push({ label, keys });
 
         if (filters.titleContains) {
-            summary.push(`Title contains "${filters.titleContains}"`);
+            add(`Title contains "${filters.titleContains}"`, 'titleContains');
         }
 
         if (filters.descriptionContains) {
-            summary.push(`Description contains "${filters.descriptionContains}"`);
+            add(`Description contains "${filters.descriptionContains}"`, 'descriptionContains');
         }
 
         if (filters.excludeText) {
-            summary.push(`Excluding "${filters.excludeText}"`);
+            add(`Excluding "${filters.excludeText}"`, 'excludeText');
         }
 
         if (filters.priorities.length > 0) {
-            summary.push(`Priority: ${filters.priorities.join(', ')}`);
+            add(`Priority: ${filters.priorities.join(', ')}`, 'priorities');
         }
 
         if (filters.categories.length > 0) {
-            summary.push(`Categories: ${filters.categories.join(', ')}`);
+            add(`Categories: ${filters.categories.join(', ')}`, 'categories');
+        }
+
+        if (filters.tags.length > 0) {
+            add(`Tags: ${filters.tags.map(tag => `#${tag}`).join(', ')}`, 'tags');
         }
 
         if (filters.completionStatus !== 'all') {
-            summary.push(`Status: ${filters.completionStatus}`);
+            add(`Status: ${filters.completionStatus}`, 'completionStatus');
         }
 
         if (filters.dateRange.start || filters.dateRange.end) {
-            const start = filters.dateRange.start?.toLocaleDateString() || 'any';
-            const end = filters.dateRange.end?.toLocaleDateString() || 'any';
-            summary.push(`Due: ${start} - ${end}`);
+            add(`Due: ${formatRange(filters.dateRange)}`, 'dateRange');
+        }
+
+        if (filters.createdRange.start || filters.createdRange.end) {
+            add(`Created: ${formatRange(filters.createdRange)}`, 'createdRange');
+        }
+
+        if (filters.updatedRange.start || filters.updatedRange.end) {
+            add(`Updated: ${formatRange(filters.updatedRange)}`, 'updatedRange');
+        }
+
+        if (filters.completedInRange.start || filters.completedInRange.end) {
+            add(`Completed: ${formatRange(filters.completedInRange)}`, 'completedInRange');
         }
 
         if (filters.hasDescription !== null) {
-            summary.push(filters.hasDescription ? 'Has description' : 'No description');
+            add(filters.hasDescription ? 'Has description' : 'No description', 'hasDescription');
         }
 
         if (filters.hasDueDate !== null) {
-            summary.push(filters.hasDueDate ? 'Has due date' : 'No due date');
+            add(filters.hasDueDate ? 'Has due date' : 'No due date', 'hasDueDate');
         }
 
         if (filters.hasCategory !== null) {
-            summary.push(filters.hasCategory ? 'Has category' : 'No category');
+            add(filters.hasCategory ? 'Has category' : 'No category', 'hasCategory');
         }
 
         if (filters.isOverdue !== null) {
-            summary.push(filters.isOverdue ? 'Overdue only' : 'Not overdue');
+            add(filters.isOverdue ? 'Overdue only' : 'Not overdue', 'isOverdue');
         }
 
         if (filters.isDueSoon !== null) {
-            summary.push(filters.isDueSoon ? 'Due soon (7 days)' : 'Not due soon');
+            add(filters.isDueSoon ? 'Due soon (7 days)' : 'Not due soon', 'isDueSoon');
+        }
+
+        if (filters.hasIncompleteSubtasks !== null) {
+            add(filters.hasIncompleteSubtasks ? 'Has open checklist items' : 'No open checklist items', 'hasIncompleteSubtasks');
+        }
+
+        if (filters.showArchived) {
+            add('Including archived', 'showArchived');
         }
 
         if (filters.groupBy !== 'none') {
-            summary.push(`Grouped by ${filters.groupBy}`);
+            add(`Grouped by ${filters.groupBy}`, 'groupBy');
         }
 
-        return summary;
+        if (filters.maxResults !== AdvancedFilterEngine.getDefaultFilters().maxResults) {
+            add(filters.maxResults > 0 ? `First ${filters.maxResults} results` : 'All results', 'maxResults');
+        }
+
+        return items;
+    }
+
+    static getFilterSummary(filters: AdvancedFilterOptions): string[] {
+        return AdvancedFilterEngine.getFilterSummaryItems(filters).map(item => item.label);
+    }
+
+    /**
+     * Filter options with the given options back at their defaults
+     */
+    static resetFilters(filters: AdvancedFilterOptions, keys: (keyof AdvancedFilterOptions)[]): AdvancedFilterOptions {
+        const defaults = AdvancedFilterEngine.getDefaultFilters();
+        const reset = { ...filters };
+        keys.forEach(key => {
+            (reset as Record<keyof AdvancedFilterOptions, unknown>)[key] = defaults[key];
+        });
+        return reset;
     }
 
     static hasActiveFilters(filters: AdvancedFilterOptions): boolean {
@@ -304,6 +456,7 @@ export class AdvancedFilterEngine {
             Boolean(filters.excludeText) ||
             filters.priorities.length > 0 ||
             filters.categories.length > 0 ||
+            filters.tags.length > 0 ||
             filters.completionStatus !== 'all' ||
             Boolean(filters.dateRange.start || filters.dateRange.end) ||
             Boolean(filters.createdRange.start || filters.createdRange.end) ||
@@ -314,56 +467,49 @@ export class AdvancedFilterEngine {
             filters.hasCategory !== null ||
             filters.isOverdue !== null ||
             filters.isDueSoon !== null ||
+            filters.hasIncompleteSubtasks !== null ||
+            filters.showArchived ||
             filters.groupBy !== 'none' ||
             filters.maxResults !== 100
         );
     }
 
+    /**
+     * Filter options with dates as ISO strings, for storage and the API
+     */
+    static serializeFilters(filters: AdvancedFilterOptions): SerializedAdvancedFilters {
+        const serialized = { ...filters } as unknown as SerializedAdvancedFilters;
+        DATE_RANGE_KEYS.forEach(key => {
+            serialized[key] = {
+                start: filters[key].start?.toISOString(),
+                end: filters[key].end?.toISOString()
+            };
+        });
+        return serialized;
+    }
+
+    /**
+     * Read serialized filter options; options missing from older data get their defaults
+     */
+    static deserializeFilters(serialized: Partial<SerializedAdvancedFilters>): AdvancedFilterOptions {
+        const filters = { ...AdvancedFilterEngine.getDefaultFilters(), ...serialized } as AdvancedFilterOptions;
+        DATE_RANGE_KEYS.forEach(key => {
+            const range = serialized[key];
+            filters[key] = {
+                start: range?.start ? new Date(range.start) : null,
+                end: range?.end ? new Date(range.end) : null
+            };
+        });
+        return filters;
+    }
+
     static exportFilters(filters: AdvancedFilterOptions): string {
-        return JSON.stringify({
-            ...filters,
-            dateRange: {
-                start: filters.dateRange.start?.toISOString(),
-                end: filters.dateRange.end?.toISOString()
-            },
-            createdRange: {
-                start: filters.createdRange.start?.toISOString(),
-                end: filters.createdRange.end?.toISOString()
-            },
-            updatedRange: {
-                start: filters.updatedRange.start?.toISOString(),
-                end: filters.updatedRange.end?.toISOString()
-            },
-            completedInRange: {
-                start: filters.completedInRange.start?.toISOString(),
-                end: filters.completedInRange.end?.toISOString()
-            }
-        }, null, 2);
+        return JSON.stringify(AdvancedFilterEngine.serializeFilters(filters), null, 2);
     }
 
     static importFilters(filtersJson: string): AdvancedFilterOptions | null {
         try {
-            const parsed = JSON.parse(filtersJson);
-
-            return {
-                ...parsed,
-                dateRange: {
-                    start: parsed.dateRange.start ? new Date(parsed.dateRange.start) : null,
-                    end: parsed.dateRange.end ? new Date(parsed.dateRange.end) : null
-                },
-                createdRange: {
-                    start: parsed.createdRange.start ? new Date(parsed.createdRange.start) : null,
-                    end: parsed.createdRange.end ? new Date(parsed.createdRange.end) : null
-                },
-                updatedRange: {
-                    start: parsed.updatedRange.start ? new Date(parsed.updatedRange.start) : null,
-                    end: parsed.updatedRange.end ? new Date(parsed.updatedRange.end) : null
-                },
-                completedInRange: {
-                    start: parsed.completedInRange.start ? new Date(parsed.completedInRange.start) : null,
-                    end: parsed.completedInRange.end ? new Date(parsed.completedInRange.end) : null
-                }
-            };
+            return AdvancedFilterEngine.deserializeFilters(JSON.parse(filtersJson));
         } catch (error) {
             console.error('Failed to import filters:', error);
             return null;
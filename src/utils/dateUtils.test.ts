@@ -0,0 +1,150 @@
+// src/utils/dateUtils.test.ts
+import {
+    expandRecurrence,
+    getNextOccurrence,
+    advanceRecurrenceRule,
+    formatRecurrenceRule,
+    getDateRange,
+    getMonthGrid,
+    toLocalDateString,
+    addDays,
+    getDaysBetween,
+    isUrgent,
+    parseNaturalDate,
+} from './dateUtils';
+
+describe('dateUtils recurrence', () => {
+    describe('getNextOccurrence', () => {
+        it('should shift daily rules by the interval', () => {
+            expect(getNextOccurrence('2026-01-30T23:59:59', { frequency: 'DAILY' })).toBe('2026-01-31');
+            expect(getNextOccurrence('2026-01-30', { frequency: 'DAILY', interval: 3 })).toBe('2026-02-02');
+        });
+
+        it('should pick the next selected weekday', () => {
+            // 2026-01-05 is a Monday
+            const rule = { frequency: 'WEEKLY' as const, byWeekday: [1, 4] };
+            expect(getNextOccurrence('2026-01-05', rule)).toBe('2026-01-08');
+            expect(getNextOccurrence('2026-01-08', rule)).toBe('2026-01-12');
+        });
+
+        it('should skip weeks for bi-weekly rules', () => {
+            const rule = { frequency: 'WEEKLY' as const, interval: 2, byWeekday: [1] };
+            expect(getNextOccurrence('2026-01-05', rule)).toBe('2026-01-19');
+        });
+
+        it('should clamp monthly rules to the month length', () => {
+            const rule = { frequency: 'MONTHLY' as const, byMonthDay: 31 };
+            expect(getNextOccurrence('2026-01-31', rule)).toBe('2026-02-28');
+            expect(getNextOccurrence('2026-02-28', rule)).toBe('2026-03-31');
+        });
+
+        it('should keep the original day for monthly rules after a shorter month', () => {
+            const rule = { frequency: 'MONTHLY' as const };
+            const february = getNextOccurrence('2026-01-31', rule);
+            expect(february).toBe('2026-02-28');
+
+            const carried = advanceRecurrenceRule(rule, '2026-01-31');
+            expect(carried.byMonthDay).toBe(31);
+            expect(getNextOccurrence(february!, carried)).toBe('2026-03-31');
+        });
+
+        it('should stop at the end date or when the count is used up', () => {
+            expect(getNextOccurrence('2026-01-30', { frequency: 'DAILY', until: '2026-01-30' })).toBeNull();
+            expect(getNextOccurrence('2026-01-30', { frequency: 'DAILY', count: 1 })).toBeNull();
+            expect(getNextOccurrence('2026-01-30', { frequency: 'DAILY', count: 2 })).toBe('2026-01-31');
+        });
+    });
+
+    describe('expandRecurrence', () => {
+        it('should list occurrences starting with the start date', () => {
+            expect(expandRecurrence('2026-01-01', { frequency: 'DAILY', interval: 2 }, 3))
+                .toEqual(['2026-01-01', '2026-01-03', '2026-01-05']);
+        });
+
+        it('should not drift for monthly rules starting at the end of a month', () => {
+            expect(expandRecurrence('2026-01-31', { frequency: 'MONTHLY' }, 4))
+                .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+        });
+
+        it('should honor count and until limits', () => {
+            expect(expandRecurrence('2026-01-01', { frequency: 'DAILY', count: 2 })).toHaveLength(2);
+            expect(expandRecurrence('2026-01-01', { frequency: 'DAILY', until: '2026-01-03' })).toHaveLength(3);
+        });
+    });
+
+    it('should decrement the remaining count when advancing a rule', () => {
+        expect(advanceRecurrenceRule({ frequency: 'DAILY', count: 3 }).count).toBe(2);
+        expect(advanceRecurrenceRule({ frequency: 'DAILY' }).count).toBeUndefined();
+    });
+
+    it('should describe rules in plain language', () => {
+        expect(formatRecurrenceRule({ frequency: 'WEEKLY', interval: 2, byWeekday: [4, 1] })).toBe('Every 2 weeks on Mon, Thu');
+        expect(formatRecurrenceRule({ frequency: 'DAILY', interval: 3 })).toBe('Every 3 days');
+    });
+});
+
+describe('dateUtils calendar', () => {
+    it('should compute week ranges that cross a month boundary', () => {
+        // 2026-10-01 is a Thursday
+        const { start, end } = getDateRange('this-week', new Date(2026, 9, 1));
+        expect(toLocalDateString(start)).toBe('2026-09-27');
+        expect(toLocalDateString(end)).toBe('2026-10-03');
+    });
+
+    it('should count and shift calendar days', () => {
+        expect(getDaysBetween('2026-10-30', '2026-11-02T23:59:59')).toBe(3);
+        expect(getDaysBetween('2026-11-02', '2026-10-30')).toBe(-3);
+        expect(addDays('2026-10-30', 3)).toBe('2026-11-02');
+        expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('should treat dates within the urgency threshold as urgent', () => {
+        const inDays = (days: number) => `${addDays(toLocalDateString(new Date()), days)}T23:59:59`;
+        expect(isUrgent(inDays(-2), 1)).toBe(true);
+        expect(isUrgent(inDays(0), 1)).toBe(true);
+        expect(isUrgent(inDays(5), 3)).toBe(false);
+        expect(isUrgent(inDays(5), 7)).toBe(true);
+        expect(isUrgent(inDays(0), 7, true)).toBe(false);
+        expect(isUrgent(undefined, 7)).toBe(false);
+    });
+
+    it('should compare the days left with any threshold, not just 1, 3 or 7', () => {
+        const inDays = (days: number) => `${addDays(toLocalDateString(new Date()), days)}T09:00:00`;
+        expect(isUrgent(inDays(2), 2)).toBe(true);
+        expect(isUrgent(inDays(3), 2)).toBe(false);
+        expect(isUrgent(inDays(5), 5)).toBe(true);
+        expect(isUrgent(inDays(6), 5)).toBe(false);
+    });
+
+    it('should cover the whole month with Sunday-to-Saturday weeks', () => {
+        const weeks = getMonthGrid(new Date(2026, 9, 19));
+        expect(weeks).toHaveLength(5);
+        expect(weeks.every(week => week.length === 7)).toBe(true);
+        expect(toLocalDateString(weeks[0][0])).toBe('2026-09-27');
+        expect(toLocalDateString(weeks[4][6])).toBe('2026-10-31');
+    });
+});
+
+describe('dateUtils natural language', () => {
+    // Monday, October 19th 2026
+    const reference = new Date(2026, 9, 19, 10);
+
+    it('should resolve relative days and weekdays', () => {
+        expect(parseNaturalDate('today', reference)).toBe('2026-10-19');
+        expect(parseNaturalDate('Tomorrow', reference)).toBe('2026-10-20');
+        expect(parseNaturalDate('fri', reference)).toBe('2026-10-23');
+        expect(parseNaturalDate('monday', reference)).toBe('2026-10-26');
+        expect(parseNaturalDate('next friday', reference)).toBe('2026-10-30');
+        expect(parseNaturalDate('next week', reference)).toBe('2026-10-26');
+        expect(parseNaturalDate('in 2 weeks', reference)).toBe('2026-11-02');
+        expect(parseNaturalDate('in 1 month', new Date(2026, 0, 31))).toBe('2026-02-28');
+    });
+
+    it('should resolve month days to the next such day', () => {
+        expect(parseNaturalDate('nov 5th', reference)).toBe('2026-11-05');
+        expect(parseNaturalDate('5 September', reference)).toBe('2027-09-05');
+        expect(parseNaturalDate('feb 30', reference)).toBeNull();
+        expect(parseNaturalDate('2026-11-01', reference)).toBe('2026-11-01');
+        expect(parseNaturalDate('someday', reference)).toBeNull();
+    });
+});
\ No newline at end of file
@@ -1,4 +1,5 @@
 // src/utils/dateUtils.ts
+import type { RecurrenceRule, Todo } from '../components/TodoForm';
 
 export interface DateSuggestion {
     label: string;
@@ -47,10 +48,10 @@ export function isTomorrow(dateString: string): boolean {
     return dateOnly.getTime() === tomorrowOnly.getTime();
 }
 
-// Check if date is this week
-export function isThisWeek(dateString: string): boolean {
+// Check if date is in the same week (Sunday to Saturday) as the reference date
+export function isThisWeek(dateString: string, reference: Date = new Date()): boolean {
     const date = parseDate(dateString);
-    const now = new Date();
+    const now = reference;
 
     // Get start of week (Sunday)
     const startOfWeek = new Date(now);
@@ -209,6 +210,12 @@ export function getRelativeTime(dateString: string): string {
     return date.toLocaleDateString();
 }
 
+// When a todo was completed (null while open); todos completed before completedAt was tracked fall back to their last update
+export function getCompletedAt(todo: Pick<Todo, 'completed' | 'completedAt' | 'updatedAt'>): string | null {
+    if (!todo.completed) return null;
+    return todo.completedAt ?? todo.updatedAt;
+}
+
 // Get date urgency level
 export function getDateUrgency(dateString: string, isCompleted: boolean = false): 'none' | 'low' | 'medium' | 'high' | 'overdue' {
     if (isCompleted) return 'none';
@@ -228,6 +235,12 @@ export function getDateUrgency(dateString: string, isCompleted: boolean = false)
     return 'none';
 }
 
+// Check if a date is urgent: overdue or due within the threshold (in calendar days)
+export function isUrgent(dateString: string | undefined, thresholdDays: number, isCompleted: boolean = false): boolean {
+    if (!dateString || isCompleted) return false;
+    return getDaysBetween(toLocalDateString(new Date()), dateString) <= thresholdDays;
+}
+
 // Get urgency color classes
 export function getUrgencyClasses(urgency: ReturnType<typeof getDateUrgency>, darkMode = false): string {
     switch (urgency) {
@@ -325,9 +338,12 @@ export function formatDateForInput(date: Date): string {
     return date.toISOString().split('T')[0];
 }
 
-// Get date range for filtering
-export function getDateRange(range: 'today' | 'tomorrow' | 'this-week' | 'next-week' | 'this-month'): { start: Date; end: Date } {
-    const now = new Date();
+// Get date range for filtering, relative to the reference date (default: now)
+export function getDateRange(
+    range: 'today' | 'tomorrow' | 'this-week' | 'next-week' | 'this-month',
+    reference: Date = new Date()
+): { start: Date; end: Date } {
+    const now = new Date(reference);
     const start = new Date(now);
     const end = new Date(now);
 
@@ -347,14 +363,16 @@ export function getDateRange(range: 'today' | 'tomorrow' | 'this-week' | 'next-w
         case 'this-week':
             start.setDate(now.getDate() - now.getDay());
             start.setHours(0, 0, 0, 0);
-            end.setDate(start.getDate() + 6);
+            // Relative to start, which may fall in another month than now
+            end.setFullYear(start.getFullYear(), start.getMonth(), start.getDate() + 6);
             end.setHours(23, 59, 59, 999);
             break;
 
         case 'next-week':
             start.setDate(now.getDate() + (7 - now.getDay()));
             start.setHours(0, 0, 0, 0);
-            end.setDate(start.getDate() + 6);
+            // Relative to start, which may fall in another month than now
+            end.setFullYear(start.getFullYear(), start.getMonth(), start.getDate() + 6);
             end.setHours(23, 59, 59, 999);
             break;
 
@@ -367,4 +385,284 @@ export function getDateRange(range: 'today' | 'tomorrow' | 'this-week' | 'next-w
     }
 
     return { start, end };
+}
+
+// ============================================
+// RECURRENCE
+// ============================================
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Format a local date as YYYY-MM-DD without UTC conversion
+export function toLocalDateString(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+// Parse YYYY-MM-DD (or a full ISO string) as a local calendar date
+export function parseLocalDate(dateString: string): Date {
+    const [year, month, day] = dateString.split('T')[0].split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+}
+
+// Advance one step according to the rule, ignoring count/until limits
+function stepRecurrence(from: Date, rule: RecurrenceRule): Date {
+    const interval = Math.max(1, rule.interval || 1);
+
+    switch (rule.frequency) {
+        case 'DAILY': {
+            const next = new Date(from);
+            next.setDate(from.getDate() + interval);
+            return next;
+        }
+
+        case 'WEEKLY': {
+            const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+                ? rule.byWeekday
+                : [from.getDay()];
+            const startOfWeek = new Date(from);
+            startOfWeek.setDate(from.getDate() - from.getDay());
+
+            // Scan forward day by day; only weeks that are a multiple of the interval qualify
+            const candidate = new Date(from);
+            for (let i = 0; i < 7 * (interval + 1); i++) {
+                candidate.setDate(candidate.getDate() + 1);
+                const weekOffset = Math.floor(
+                    Math.round((normalizeDate(candidate).getTime() - normalizeDate(startOfWeek).getTime()) / MS_PER_DAY) / 7
+                );
+                if (weekOffset % interval === 0 && weekdays.includes(candidate.getDay())) {
+                    return new Date(candidate);
+                }
+            }
+            return candidate;
+        }
+
+        case 'MONTHLY': {
+            const targetDay = rule.byMonthDay || from.getDate();
+            const sameMonthDay = Math.min(targetDay, daysInMonth(from.getFullYear(), from.getMonth()));
+
+            if (sameMonthDay > from.getDate()) {
+                return new Date(from.getFullYear(), from.getMonth(), sameMonthDay);
+            }
+
+            const monthIndex = from.getMonth() + interval;
+            const year = from.getFullYear() + Math.floor(monthIndex / 12);
+            const month = monthIndex % 12;
+            return new Date(year, month, Math.min(targetDay, daysInMonth(year, month)));
+        }
+
+        default:
+            return new Date(from);
+    }
+}
+
+// Monthly rules without a day keep the start date's day, so Jan 31 → Feb 28 → Mar 31 (not Mar 28)
+function anchorMonthDay(rule: RecurrenceRule, from: Date): RecurrenceRule {
+    return rule.frequency === 'MONTHLY' && !rule.byMonthDay
+        ? { ...rule, byMonthDay: from.getDate() }
+        : rule;
+}
+
+// Check whether a date is still within the rule's end date
+function isBeforeRecurrenceEnd(date: Date, rule: RecurrenceRule): boolean {
+    if (!rule.until) return true;
+    return normalizeDate(date) <= parseLocalDate(rule.until);
+}
+
+// Expand a recurrence into its upcoming occurrence dates (YYYY-MM-DD), starting with the given date
+export function expandRecurrence(startDate: string, rule: RecurrenceRule, limit = 10): string[] {
+    const occurrences: string[] = [];
+    const maxOccurrences = rule.count !== undefined ? Math.min(rule.count, limit) : limit;
+    let current = parseLocalDate(startDate);
+    const anchored = anchorMonthDay(rule, current);
+
+    while (occurrences.length < maxOccurrences && isBeforeRecurrenceEnd(current, rule)) {
+        occurrences.push(toLocalDateString(current));
+        current = stepRecurrence(current, anchored);
+    }
+
+    return occurrences;
+}
+
+// Get the occurrence following the given due date, or null when the series has ended
+export function getNextOccurrence(dueDate: string, rule: RecurrenceRule): string | null {
+    if (rule.count !== undefined && rule.count <= 1) return null;
+
+    const next = stepRecurrence(parseLocalDate(dueDate), rule);
+    if (!isBeforeRecurrenceEnd(next, rule)) return null;
+
+    return toLocalDateString(next);
+}
+
+// Build the rule carried by the next occurrence (remaining count is decremented,
+// monthly rules are pinned to the day of the occurrence they started from)
+export function advanceRecurrenceRule(rule: RecurrenceRule, fromDate?: string): RecurrenceRule {
+    const anchored = fromDate ? anchorMonthDay(rule, parseLocalDate(fromDate)) : rule;
+    return anchored.count !== undefined
+        ? { ...anchored, count: anchored.count - 1 }
+        : { ...anchored };
+}
+
+// Human-readable recurrence description, e.g. "Every 2 weeks on Mon, Thu"
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval || 1);
+    let label: string;
+
+    switch (rule.frequency) {
+        case 'DAILY':
+            label = interval === 1 ? 'Daily' : `Every ${interval} days`;
+            break;
+        case 'WEEKLY': {
+            label = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+            if (rule.byWeekday && rule.byWeekday.length > 0) {
+                const days = [...rule.byWeekday].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]);
+                label += ` on ${days.join(', ')}`;
+            }
+            break;
+        }
+        case 'MONTHLY':
+            label = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+            if (rule.byMonthDay) {
+                label += ` on day ${rule.byMonthDay}`;
+            }
+            break;
+        default:
+            label = 'Repeats';
+    }
+
+    if (rule.until) {
+        label += ` until ${parseLocalDate(rule.until).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+    } else if (rule.count !== undefined) {
+        label += `, ${rule.count} left`;
+    }
+
+    return label;
+}
+
+// ============================================
+// CALENDAR
+// ============================================
+
+// Number of calendar days from one date to another (negative when `to` is earlier)
+export function getDaysBetween(from: string, to: string): number {
+    return Math.round((parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / MS_PER_DAY);
+}
+
+// Shift a date by a number of days, returning YYYY-MM-DD
+export function addDays(dateString: string, days: number): string {
+    const date = parseLocalDate(dateString);
+    date.setDate(date.getDate() + days);
+    return toLocalDateString(date);
+}
+
+// List every day from start to end (inclusive), at local midnight
+export function getDaysInRange(start: Date, end: Date): Date[] {
+    const days: Date[] = [];
+    const last = normalizeDate(end);
+
+    for (let day = normalizeDate(start); day <= last; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+        days.push(day);
+    }
+
+    return days;
+}
+
+// Weeks (Sunday to Saturday) covering the month of the reference date, for a month grid
+export function getMonthGrid(reference: Date): Date[][] {
+    const month = getDateRange('this-month', reference);
+    const days = getDaysInRange(
+        getDateRange('this-week', month.start).start,
+        getDateRange('this-week', month.end).end
+    );
+
+    const weeks: Date[][] = [];
+    for (let i = 0; i < days.length; i += 7) {
+        weeks.push(days.slice(i, i + 7));
+    }
+    return weeks;
+}
+
+// ============================================
+// NATURAL LANGUAGE
+// ============================================
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_NAMES = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Index of a full or abbreviated (3+ letters) name, e.g. "tues" or "sept"; -1 if none matches
+function findName(names: string[], word: string): number {
+    return word.length >= 3 ? names.findIndex(name => name.startsWith(word)) : -1;
+}
+
+// Weekday index (0 = Sunday) of a full or abbreviated weekday name, or -1
+export function parseWeekdayName(word: string): number {
+    return findName(WEEKDAY_NAMES, word.toLowerCase());
+}
+
+// Same day of month a number of months later, clamped to the month length
+function addMonths(date: Date, months: number): string {
+    const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+    const day = Math.min(date.getDate(), daysInMonth(target.getFullYear(), target.getMonth()));
+    return toLocalDateString(new Date(target.getFullYear(), target.getMonth(), day));
+}
+
+// Resolve a date phrase such as "tomorrow", "next fri", "in 3 weeks", "nov 5" or "2026-11-01"
+// to YYYY-MM-DD relative to the reference date; null if the phrase isn't recognised
+export function parseNaturalDate(phrase: string, reference: Date = new Date()): string | null {
+    const text = phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+    const today = toLocalDateString(reference);
+
+    if (text === 'today' || text === 'tonight') return today;
+    if (text === 'tomorrow' || text === 'tmr' || text === 'tmrw') return addDays(today, 1);
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        const date = parseLocalDate(text);
+        return toLocalDateString(date) === text ? text : null;
+    }
+
+    const relative = /^in (\d{1,3}) (day|week|month)s?$/.exec(text);
+    if (relative) {
+        const amount = Number(relative[1]);
+        if (relative[2] === 'month') return addMonths(reference, amount);
+        return addDays(today, relative[2] === 'week' ? amount * 7 : amount);
+    }
+
+    // Weeks run Sunday to Saturday; "next week" is the Monday after this week
+    if (text === 'next week') return addDays(today, 8 - reference.getDay());
+    if (text === 'next month') {
+        return toLocalDateString(new Date(reference.getFullYear(), reference.getMonth() + 1, 1));
+    }
+
+    // "friday" is the coming Friday; "next friday" skips the one still in this week
+    const weekday = /^(next )?([a-z]+)$/.exec(text);
+    if (weekday && parseWeekdayName(weekday[2]) !== -1) {
+        let ahead = (parseWeekdayName(weekday[2]) - reference.getDay() + 7) % 7 || 7;
+        if (weekday[1] && ahead <= 6 - reference.getDay()) ahead += 7;
+        return addDays(today, ahead);
+    }
+
+    // "nov 5", "november 5th" or "5 nov"; the next such day, today included
+    const monthDay = /^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?$/.exec(text);
+    const dayMonth = /^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)$/.exec(text);
+    const month = monthDay ? findName(MONTH_NAMES, monthDay[1]) : dayMonth ? findName(MONTH_NAMES, dayMonth[2]) : -1;
+    if (month !== -1) {
+        const day = Number(monthDay ? monthDay[2] : dayMonth![1]);
+        let year = reference.getFullYear();
+        if (day < 1 || day > daysInMonth(year, month)) return null;
+
+        if (toLocalDateString(new Date(year, month, day)) < today) year++;
+        return day > daysInMonth(year, month) ? null : toLocalDateString(new Date(year, month, day));
+    }
+
+    return null;
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+// src/utils/filterQuery.test.ts
+import { defaultFilters, type FilterOptions } from '../hooks/useTodosAPI';
+import { buildFilterQuery, parseFilterQuery } from './filterQuery';
+
+describe('filterQuery', () => {
+    it('should leave default values out of the query string', () => {
+        expect(buildFilterQuery(defaultFilters)).toBe('');
+        expect(buildFilterQuery(defaultFilters, '   ')).toBe('');
+    });
+
+    it('should round-trip filters, search and the open saved view', () => {
+        const filters: FilterOptions = { ...defaultFilters, status: 'active', priority: 'HIGH', tag: 'q3 planning', sortOrder: 'asc' };
+        const query = buildFilterQuery(filters, 'tax return', 'view-1');
+
+        expect(query).toBe('?status=active&priority=HIGH&tag=q3+planning&order=asc&q=tax+return&view=view-1');
+        expect(parseFilterQuery(query)).toEqual({ filters, search: 'tax return', savedViewId: 'view-1' });
+    });
+
+    it('should fall back to the defaults for unknown values', () => {
+        const { filters, search, savedViewId } = parseFilterQuery('?status=done&due=overdue&sort=owner&category=Work');
+
+        expect(filters).toEqual({ ...defaultFilters, dateFilter: 'overdue', category: 'Work' });
+        expect(search).toBe('');
+        expect(savedViewId).toBeNull();
+    });
+});
\ No newline at end of file
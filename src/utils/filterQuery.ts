@@ -0,0 +1,73 @@
+// src/utils/filterQuery.ts
+import { defaultFilters, type FilterOptions } from '../hooks/useTodosAPI';
+
+/**
+ * Query string parameter for each filter option
+ */
+const PARAM_NAMES: Record<keyof FilterOptions, string> = {
+    status: 'status',
+    priority: 'priority',
+    category: 'category',
+    tag: 'tag',
+    dateFilter: 'due',
+    sortBy: 'sort',
+    sortOrder: 'order',
+};
+
+/**
+ * Accepted values of the options that are not free text
+ */
+const ALLOWED_VALUES: Partial<Record<keyof FilterOptions, readonly string[]>> = {
+    status: ['all', 'active', 'completed'],
+    priority: ['all', 'LOW', 'MEDIUM', 'HIGH'],
+    dateFilter: ['all', 'today', 'tomorrow', 'this-week', 'overdue', 'no-date'],
+    sortBy: ['created', 'updated', 'title', 'priority', 'dueDate'],
+    sortOrder: ['asc', 'desc'],
+};
+
+const SEARCH_PARAM = 'q';
+// Id of the open saved view
+const VIEW_PARAM = 'view';
+
+/**
+ * Serialize filters, search and the open saved view into a query string; default values are left out
+ * @returns Query string with a leading "?", or an empty string
+ */
+export function buildFilterQuery(filters: FilterOptions, search: string = '', savedViewId: string | null = null): string {
+    const params = new URLSearchParams();
+
+    (Object.keys(PARAM_NAMES) as (keyof FilterOptions)[]).forEach(key => {
+        if (filters[key] !== defaultFilters[key]) {
+            params.set(PARAM_NAMES[key], filters[key]);
+        }
+    });
+
+    if (search.trim()) {
+        params.set(SEARCH_PARAM, search);
+    }
+
+    if (savedViewId) {
+        params.set(VIEW_PARAM, savedViewId);
+    }
+
+    const query = params.toString();
+    return query ? `?${query}` : '';
+}
+
+/**
+ * Read filters, search and the open saved view from a query string; unknown values fall back to the defaults
+ */
+export function parseFilterQuery(search: string): { filters: FilterOptions; search: string; savedViewId: string | null } {
+    const params = new URLSearchParams(search);
+    const filters: FilterOptions = { ...defaultFilters };
+
+    (Object.keys(PARAM_NAMES) as (keyof FilterOptions)[]).forEach(key => {
+        const value = params.get(PARAM_NAMES[key]);
+        const allowed = ALLOWED_VALUES[key];
+        if (value && (!allowed || allowed.includes(value))) {
+            (filters as Record<keyof FilterOptions, string>)[key] = value;
+        }
+    });
+
+    return { filters, search: params.get(SEARCH_PARAM) ?? '', savedViewId: params.get(VIEW_PARAM) };
+}
\ No newline at end of file
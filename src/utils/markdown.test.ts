@@ -0,0 +1,70 @@
+// src/utils/markdown.test.ts
+import { parseMarkdown, parseInline, sanitizeUrl, toggleTaskItem } from './markdown';
+
+describe('markdown', () => {
+    describe('sanitizeUrl', () => {
+        it('should allow http(s), mailto and relative links', () => {
+            expect(sanitizeUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+            expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+            expect(sanitizeUrl('/todos/1')).toBe('/todos/1');
+        });
+
+        it('should reject script and data URLs, including obfuscated schemes', () => {
+            // eslint-disable-next-line no-script-url
+            expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+            // eslint-disable-next-line no-script-url
+            expect(sanitizeUrl('JaVaScRiPt:alert(1)')).toBeNull();
+            expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+            expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+        });
+    });
+
+    describe('parseInline', () => {
+        it('should drop unsafe links but keep their text', () => {
+            expect(parseInline('[click](javascript:alert`1`)')).toEqual([{ type: 'text', text: 'click' }]);
+        });
+
+        it('should keep raw HTML as text', () => {
+            expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([
+                { type: 'text', text: '<img src=x onerror=alert(1)>' },
+            ]);
+        });
+
+        it('should parse emphasis, code and links', () => {
+            expect(parseInline('**bold** `a*b*` [site](https://example.com)')).toEqual([
+                { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+                { type: 'text', text: ' ' },
+                { type: 'code', text: 'a*b*' },
+                { type: 'text', text: ' ' },
+                { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'site' }] },
+            ]);
+        });
+    });
+
+    describe('parseMarkdown', () => {
+        it('should parse headings, task lists and code blocks', () => {
+            const blocks = parseMarkdown('# Plan\n- [x] Book flight\n- [ ] Pack\n\n```\n- [ ] not a task\n```');
+
+            expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'code']);
+            expect(blocks[1]).toMatchObject({
+                type: 'list',
+                items: [{ checked: true, taskIndex: 0 }, { checked: false, taskIndex: 1 }],
+            });
+            expect(blocks[2]).toMatchObject({ type: 'code', text: '- [ ] not a task' });
+        });
+
+        it('should not treat hashtags as headings', () => {
+            expect(parseMarkdown('#work stuff')[0].type).toBe('paragraph');
+        });
+    });
+
+    describe('toggleTaskItem', () => {
+        it('should flip the task at the given index, skipping code blocks', () => {
+            const source = '```\n- [ ] code\n```\n- [ ] first\n1. [x] second';
+
+            expect(toggleTaskItem(source, 0)).toBe('```\n- [ ] code\n```\n- [x] first\n1. [x] second');
+            expect(toggleTaskItem(source, 1)).toBe('```\n- [ ] code\n```\n- [ ] first\n1. [ ] second');
+            expect(toggleTaskItem(source, 2)).toBe(source);
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,223 @@
+// src/utils/markdown.ts
+
+/**
+ * Inline Markdown: text with code spans, emphasis and links
+ */
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'break' }
+    | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export interface MarkdownListItem {
+    children: MarkdownInline[];
+    /** Task-list state; undefined for plain items */
+    checked?: boolean;
+    /** Position among all task items of the source (see toggleTaskItem) */
+    taskIndex?: number;
+}
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; children: MarkdownInline[] }
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+    | { type: 'code'; language: string; text: string }
+    | { type: 'rule' };
+
+const FENCE_PATTERN = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s*(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const LIST_ITEM_PATTERN = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\](?:\s+(.*))?$/;
+// A task list item in the source, split around its checkbox state
+const TASK_LINE_PATTERN = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])(\](?:\s|$))/;
+
+const INLINE_PATTERN = new RegExp([
+    /`([^`\n]+)`/.source,
+    /\[([^\]\n]+)\]\(([^()\s]+)\)/.source,
+    /\*\*(.+?)\*\*/.source,
+    /__(.+?)__/.source,
+    /~~(.+?)~~/.source,
+    /\*([^*\s](?:[^*]*[^*\s])?)\*/.source,
+    /\b_([^_\s](?:[^_]*[^_\s])?)_\b/.source,
+    /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])/.source,
+].join('|'), 'g');
+
+const SAFE_PROTOCOLS = ['http', 'https', 'mailto'];
+
+/**
+ * Check a link target: http(s), mailto and relative URLs are allowed
+ * @returns The URL, or null for anything else (javascript:, data:, ...)
+ */
+export function sanitizeUrl(url: string): string | null {
+    const trimmed = url.trim();
+    // Browsers ignore whitespace and control characters in the scheme ("java\tscript:")
+    const printable = Array.from(trimmed).filter(char => char.charCodeAt(0) > 32 && char.charCodeAt(0) !== 127).join('');
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(printable);
+    if (!scheme) return trimmed;
+    return SAFE_PROTOCOLS.includes(scheme[1].toLowerCase()) ? trimmed : null;
+}
+
+/**
+ * Parse a single line of inline Markdown
+ */
+function parseInlineLine(text: string): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    let lastIndex = 0;
+
+    const pushText = (value: string) => {
+        if (value) nodes.push({ type: 'text', text: value });
+    };
+
+    for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+        const [whole, code, linkText, linkUrl, strong, strongAlt, del, em, emAlt, autolink] = match;
+        pushText(text.slice(lastIndex, match.index));
+        lastIndex = match.index! + whole.length;
+
+        if (code !== undefined) {
+            nodes.push({ type: 'code', text: code });
+        } else if (linkText !== undefined) {
+            const href = sanitizeUrl(linkUrl);
+            const children = parseInlineLine(linkText);
+            if (href === null) {
+                nodes.push(...children);
+            } else {
+                nodes.push({ type: 'link', href, children });
+            }
+        } else if (strong !== undefined || strongAlt !== undefined) {
+            nodes.push({ type: 'strong', children: parseInlineLine(strong ?? strongAlt) });
+        } else if (del !== undefined) {
+            nodes.push({ type: 'del', children: parseInlineLine(del) });
+        } else if (em !== undefined || emAlt !== undefined) {
+            nodes.push({ type: 'em', children: parseInlineLine(em ?? emAlt) });
+        } else {
+            nodes.push({ type: 'link', href: autolink, children: [{ type: 'text', text: autolink }] });
+        }
+    }
+
+    pushText(text.slice(lastIndex));
+    return nodes;
+}
+
+/**
+ * Parse inline Markdown; line breaks are kept
+ */
+export function parseInline(text: string): MarkdownInline[] {
+    return text.split('\n').flatMap((line, index) =>
+        index === 0 ? parseInlineLine(line) : [{ type: 'break' } as MarkdownInline, ...parseInlineLine(line)]
+    );
+}
+
+/**
+ * Parse Markdown into blocks
+ * Supports ATX headings, bullet/numbered/task lists (nested items are flattened),
+ * fenced code blocks, horizontal rules and paragraphs. Raw HTML is treated as text.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let taskIndex = 0;
+    let i = 0;
+
+    const startsBlock = (line: string) =>
+        FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line);
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE_PATTERN.exec(line);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+                code.push(lines[i++]);
+            }
+            i++; // closing fence (an unclosed block runs to the end)
+            blocks.push({ type: 'code', language: fence[1], text: code.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING_PATTERN.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE_PATTERN.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        const listItem = LIST_ITEM_PATTERN.exec(line);
+        if (listItem) {
+            const ordered = /\d/.test(listItem[1]);
+            const items: MarkdownListItem[] = [];
+
+            // Items of the same kind, plus indented continuation lines
+            while (i < lines.length) {
+                const item = LIST_ITEM_PATTERN.exec(lines[i]);
+                if (item) {
+                    if (/\d/.test(item[1]) !== ordered) break;
+
+                    const task = TASK_PATTERN.exec(item[2]);
+                    items.push(task
+                        ? { children: parseInline(task[2] ?? ''), checked: task[1] !== ' ', taskIndex: taskIndex++ }
+                        : { children: parseInline(item[2]) });
+                    i++;
+                } else if (/^\s+\S/.test(lines[i]) && !startsBlock(lines[i])) {
+                    const current = items[items.length - 1];
+                    current.children.push({ type: 'break' }, ...parseInline(lines[i].trim()));
+                    i++;
+                } else {
+                    break;
+                }
+            }
+
+            blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[1], 10) : 1, items });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+            paragraph.push(lines[i++].trim());
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+
+    return blocks;
+}
+
+/**
+ * Check or uncheck a task list item in the source
+ * @param taskIndex - Position among the task items, as assigned by parseMarkdown
+ * @returns The updated source (unchanged if there is no such task)
+ */
+export function toggleTaskItem(source: string, taskIndex: number): string {
+    const lines = source.split('\n');
+    let inFence = false;
+    let index = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        if (FENCE_PATTERN.test(lines[i])) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) continue;
+
+        const task = TASK_LINE_PATTERN.exec(lines[i]);
+        if (task && index++ === taskIndex) {
+            lines[i] = task[1] + (task[2] === ' ' ? 'x' : ' ') + lines[i].slice(task[1].length + 1);
+            return lines.join('\n');
+        }
+    }
+
+    return source;
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+// src/utils/quickAdd.test.ts
+import { parseQuickAdd } from './quickAdd';
+
+// A Monday
+const reference = new Date(2026, 9, 19, 12);
+
+const parse = (input: string, categories: string[] = []) => parseQuickAdd(input, categories, reference).fields;
+
+describe('parseQuickAdd', () => {
+    it('should split the example line into todo fields', () => {
+        expect(parse('Pay rent tomorrow #Finance !high every month', ['finance'])).toEqual({
+            title: 'Pay rent',
+            dueDate: '2026-10-20',
+            category: 'finance',
+            priority: 'HIGH',
+            recurrence: { frequency: 'MONTHLY', interval: 1 },
+        });
+    });
+
+    it.each([
+        ['today', '2026-10-19'],
+        ['due friday', '2026-10-23'],
+        ['next fri', '2026-10-30'],
+        ['in 3 days', '2026-10-22'],
+        ['nov 5th', '2026-11-05'],
+        ['2027-01-15', '2027-01-15'],
+    ])('should read "%s" as the due date', (phrase, dueDate) => {
+        expect(parse(`Call Alex ${phrase}`)).toEqual({ title: 'Call Alex', dueDate });
+    });
+
+    it('should keep times in the title, as todos are due by the end of the day', () => {
+        expect(parse('Standup tomorrow 9am')).toEqual({ title: 'Standup 9am', dueDate: '2026-10-20' });
+    });
+
+    it('should use the first #word as category and the rest as tags', () => {
+        expect(parse('Draft #Work #q3 #Q3 #urgent')).toEqual({ title: 'Draft', category: 'Work', tags: ['q3', 'urgent'] });
+    });
+
+    it('should accept the short priority forms and keep later ones in the title', () => {
+        expect(parse('Backup !l').priority).toBe('LOW');
+        expect(parse('Backup !2 !high')).toEqual({ title: 'Backup !high', priority: 'MEDIUM' });
+    });
+
+    it('should start a recurring todo on its first occurrence', () => {
+        expect(parse('Gym every tue and thu')).toEqual({
+            title: 'Gym',
+            dueDate: '2026-10-20',
+            recurrence: { frequency: 'WEEKLY', interval: 1, byWeekday: [2, 4] },
+        });
+    });
+
+    it('should only match whole words and report the tokens in input order', () => {
+        const { fields, tokens } = parseQuickAdd('Read Todayville news !h today', [], reference);
+
+        expect(fields.title).toBe('Read Todayville news');
+        expect(tokens.map(token => [token.kind, token.start, token.end])).toEqual([['priority', 21, 23], ['date', 24, 29]]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,157 @@
+// src/utils/quickAdd.ts
+import type { RecurrenceRule, TodoFormData } from '../components/TodoForm';
+import { addDays, parseNaturalDate, parseWeekdayName, toLocalDateString } from './dateUtils';
+import { hasTag, normalizeTag } from './tags';
+
+export type QuickAddTokenKind = 'date' | 'category' | 'tag' | 'priority' | 'recurrence';
+
+/**
+ * A recognised part of the quick-add input
+ */
+export interface QuickAddToken {
+    kind: QuickAddTokenKind;
+    /** Position in the input (end exclusive) */
+    start: number;
+    end: number;
+    /** What the token was read as, e.g. "Tue, Oct 20" or "High" */
+    label: string;
+}
+
+export interface QuickAddResult {
+    /** Todo fields found in the input; the rest is the title */
+    fields: Pick<TodoFormData, 'title'> & Partial<Omit<TodoFormData, 'title'>>;
+    tokens: QuickAddToken[];
+}
+
+const PRIORITIES: Record<string, TodoFormData['priority']> = {
+    high: 'HIGH', h: 'HIGH', 1: 'HIGH',
+    medium: 'MEDIUM', med: 'MEDIUM', m: 'MEDIUM', 2: 'MEDIUM',
+    low: 'LOW', l: 'LOW', 3: 'LOW',
+};
+
+const FREQUENCIES: Record<string, RecurrenceRule['frequency']> = {
+    day: 'DAILY', daily: 'DAILY',
+    week: 'WEEKLY', weekly: 'WEEKLY',
+    month: 'MONTHLY', monthly: 'MONTHLY',
+};
+
+const WEEKDAY = '(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|sday|nesday|rsday|urday)?';
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+// Token patterns in matching order; each must match whole words
+const PATTERNS: { kind: QuickAddTokenKind; pattern: string }[] = [
+    { kind: 'recurrence', pattern: `every (?:\\d{1,3} )?(?:day|week|month)s?|every weekday|every ${WEEKDAY}(?:(?:, ?| and )${WEEKDAY})*|daily|weekly|monthly` },
+    { kind: 'date', pattern: `(?:(?:due|on|by) )?(?:today|tonight|tomorrow|tmrw?|next (?:week|month)|in \\d{1,3} (?:day|week|month)s?|(?:next )?${WEEKDAY}|${MONTH} \\d{1,2}(?:st|nd|rd|th)?|\\d{1,2}(?:st|nd|rd|th)? ${MONTH}|\\d{4}-\\d{2}-\\d{2})` },
+    { kind: 'priority', pattern: '!(?:high|medium|med|low|[hml1-3])' },
+    { kind: 'category', pattern: '#[^\\s#!,.;]+' },
+];
+
+const formatDateLabel = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+/**
+ * Read a recurrence phrase such as "every 2 weeks", "every mon and thu" or "monthly"
+ */
+function parseRecurrence(text: string): RecurrenceRule | null {
+    const words = text.toLowerCase().replace(/,/g, ' ').split(/\s+/).filter(word => word && word !== 'and');
+    if (words.length === 1) return { frequency: FREQUENCIES[words[0]], interval: 1 };
+
+    if (words[1] === 'weekday') return { frequency: 'WEEKLY', interval: 1, byWeekday: [1, 2, 3, 4, 5] };
+
+    const weekdays = words.slice(1).map(parseWeekdayName);
+    if (weekdays.every(day => day !== -1)) {
+        return { frequency: 'WEEKLY', interval: 1, byWeekday: Array.from(new Set(weekdays)).sort((a, b) => a - b) };
+    }
+
+    const interval = words.length === 3 ? Number(words[1]) : 1;
+    const frequency = FREQUENCIES[words[words.length - 1].replace(/s$/, '')];
+    return frequency && interval > 0 ? { frequency, interval } : null;
+}
+
+/**
+ * First day a new recurring todo is due when no date was given:
+ * the next listed weekday for weekly rules, otherwise today
+ */
+function getFirstOccurrence(rule: RecurrenceRule, reference: Date): string {
+    const today = toLocalDateString(reference);
+    if (!rule.byWeekday?.length) return today;
+
+    const ahead = Math.min(...rule.byWeekday.map(day => (day - reference.getDay() + 7) % 7));
+    return addDays(today, ahead);
+}
+
+/**
+ * Parse a quick-add line such as "Pay rent tomorrow #Finance !high every month"
+ * - dates: today, tomorrow, weekdays, "next week", "in 3 days", "nov 5", YYYY-MM-DD
+ *   (todos are due by the end of the day, so times such as "9am" stay in the title)
+ * - #word: category (an existing category's spelling is reused); further #words become tags
+ * - !high / !medium / !low (or !h, !m, !l, !1-3): priority
+ * - "every day", "every 2 weeks", "every mon and thu", "monthly", ...: recurrence
+ * Only the first date, priority and recurrence count; the rest stays in the title.
+ *
+ * @param input - Text typed by the user
+ * @param categories - Known categories
+ * @param reference - Date relative phrases are resolved against (default: now)
+ */
+export function parseQuickAdd(input: string, categories: string[] = [], reference: Date = new Date()): QuickAddResult {
+    const fields: QuickAddResult['fields'] = { title: '' };
+    const tokens: QuickAddToken[] = [];
+    const taken = (start: number, end: number) => tokens.some(token => start < token.end && end > token.start);
+
+    for (const { kind, pattern } of PATTERNS) {
+        const regex = new RegExp(`(^|\\s)(${pattern})(?=$|[\\s,.;])`, 'gi');
+
+        for (const match of Array.from(input.matchAll(regex))) {
+            const start = match.index! + match[1].length;
+            const end = start + match[2].length;
+            const text = match[2];
+            if (taken(start, end)) continue;
+
+            if (kind === 'recurrence' && !fields.recurrence) {
+                const rule = parseRecurrence(text);
+                if (!rule) continue;
+                fields.recurrence = rule;
+                tokens.push({ kind, start, end, label: text.toLowerCase() });
+            } else if (kind === 'date' && !fields.dueDate) {
+                const date = parseNaturalDate(text.replace(/^(due|on|by) /i, ''), reference);
+                if (!date) continue;
+                fields.dueDate = date;
+                tokens.push({ kind, start, end, label: formatDateLabel(date) });
+            } else if (kind === 'priority' && !fields.priority) {
+                fields.priority = PRIORITIES[text.slice(1).toLowerCase()];
+                tokens.push({ kind, start, end, label: fields.priority.charAt(0) + fields.priority.slice(1).toLowerCase() });
+            } else if (kind === 'category') {
+                const name = text.slice(1);
+                if (!fields.category) {
+                    fields.category = categories.find(c => c.toLowerCase() === name.toLowerCase()) ?? name;
+                    tokens.push({ kind, start, end, label: fields.category });
+                } else {
+                    const tag = normalizeTag(name);
+                    if (!tag) continue;
+                    if (!hasTag(fields.tags, tag)) fields.tags = [...(fields.tags || []), tag];
+                    tokens.push({ kind: 'tag', start, end, label: `#${tag}` });
+                }
+            }
+        }
+    }
+
+    if (fields.recurrence && !fields.dueDate) {
+        fields.dueDate = getFirstOccurrence(fields.recurrence, reference);
+    }
+
+    tokens.sort((a, b) => a.start - b.start);
+
+    // The title is whatever wasn't recognised
+    let title = '';
+    let position = 0;
+    tokens.forEach(token => {
+        title += input.slice(position, token.start) + ' ';
+        position = token.end;
+    });
+    fields.title = (title + input.slice(position))
+        .replace(/\s+[,.;]+(?=\s|$)/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return { fields, tokens };
+}
\ No newline at end of file
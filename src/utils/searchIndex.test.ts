@@ -0,0 +1,81 @@
+// src/utils/searchIndex.test.ts
+import { makeTodo } from '../test/todoFixtures';
+import { editDistance, getMatchSnippet, SearchIndex } from './searchIndex';
+
+const ids = (index: SearchIndex, query: string, matchAll = true) =>
+    index.search(query, { matchAll }).map(hit => hit.todo.id);
+
+describe('searchIndex', () => {
+    describe('editDistance', () => {
+        it('should count swapped letters as one edit and stop past the limit', () => {
+            expect(editDistance('meeting', 'meetign', 2)).toBe(1);
+            expect(editDistance('budget', 'budegt', 1)).toBe(1);
+            expect(editDistance('report', 'repair', 1)).toBe(2);
+            expect(editDistance('a', 'abcdef', 2)).toBe(3);
+        });
+    });
+
+    describe('SearchIndex', () => {
+        const build = () => {
+            const index = new SearchIndex();
+            index.sync([
+                makeTodo({ id: '1', title: 'Prepare budget', description: 'Quarterly numbers for the meeting' }),
+                makeTodo({ id: '2', title: 'Team meeting', category: 'Work' }),
+                makeTodo({ id: '3', title: 'Buy milk', tags: ['groceries'] }),
+            ]);
+            return index;
+        };
+
+        it('should rank title matches above description matches', () => {
+            expect(ids(build(), 'meeting')).toEqual(['2', '1']);
+        });
+
+        it('should tolerate typos and match prefixes', () => {
+            const index = build();
+            expect(ids(index, 'meetign')).toEqual(['2', '1']);
+            expect(ids(index, 'groc')).toEqual(['3']);
+            expect(ids(index, 'mulk')).toEqual(['3']);
+            // Too short to allow a typo
+            expect(ids(index, 'bux')).toEqual([]);
+        });
+
+        it('should require every word unless asked otherwise', () => {
+            const index = build();
+            expect(ids(index, 'budget meeting')).toEqual(['1']);
+            expect(ids(index, 'milk work', false).sort()).toEqual(['2', '3']);
+        });
+
+        it('should report matched ranges and tags', () => {
+            const [hit] = build().search('buy groceries');
+            expect(hit.highlights).toEqual({
+                title: [{ start: 0, end: 3 }],
+                description: [],
+                category: [],
+                tags: ['groceries'],
+            });
+        });
+
+        it('should re-index only changed todos and drop removed ones', () => {
+            const index = build();
+            const first = makeTodo({ id: '1', title: 'Prepare budget' });
+            index.sync([first, makeTodo({ id: '2', title: 'Standup' })]);
+
+            expect(ids(index, 'meeting')).toEqual([]);
+            expect(ids(index, 'milk')).toEqual([]);
+            expect(ids(index, 'standup')).toEqual(['2']);
+        });
+    });
+
+    describe('getMatchSnippet', () => {
+        it('should cut long text around the first match and shift the ranges', () => {
+            const text = `${'lorem ipsum '.repeat(10)}needle ${'dolor sit '.repeat(20)}`;
+            const start = text.indexOf('needle');
+            const snippet = getMatchSnippet(text, [{ start, end: start + 6 }]);
+
+            expect(snippet.text.startsWith('…')).toBe(true);
+            expect(snippet.text.endsWith('…')).toBe(true);
+            const [range] = snippet.ranges;
+            expect(snippet.text.slice(range.start, range.end)).toBe('needle');
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,295 @@
+// src/utils/searchIndex.ts
+import type { Todo } from '../components/TodoForm';
+
+export type SearchField = 'title' | 'description' | 'category' | 'tags';
+
+/** Matched part of a field (end exclusive) */
+export interface MatchRange {
+    start: number;
+    end: number;
+}
+
+export interface SearchHighlights {
+    title: MatchRange[];
+    description: MatchRange[];
+    category: MatchRange[];
+    /** Tags with a match (highlighted whole) */
+    tags: string[];
+}
+
+export interface SearchHit {
+    todo: Todo;
+    score: number;
+    highlights: SearchHighlights;
+}
+
+interface Posting {
+    field: SearchField;
+    start: number;
+    end: number;
+    tag?: string;
+}
+
+interface IndexedTodo {
+    todo: Todo;
+    terms: Set<string>;
+}
+
+// A title hit counts three times a description hit
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 3,
+    tags: 2,
+    category: 2,
+    description: 1,
+};
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const TYPO_SCORES = [EXACT_SCORE, 0.6, 0.4];
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Words of a text, lowercased, with their position in the text
+ */
+export function tokenize(text: string): { term: string; start: number; end: number }[] {
+    return Array.from(text.matchAll(WORD_PATTERN)).map(match => ({
+        term: match[0].toLowerCase(),
+        start: match.index!,
+        end: match.index! + match[0].length,
+    }));
+}
+
+/**
+ * Typos allowed for a search word: none for short words, one from 4 letters, two from 8
+ */
+const getMaxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * Edit distance (insertions, deletions, substitutions and swapped neighbours)
+ * @returns The distance, or max + 1 once it is known to exceed max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const beforePrevious = previousRow;
+        previousRow = row;
+        row = [i];
+        let rowMin = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, beforePrevious[j - 2] + 1);
+            }
+            row[j] = value;
+            rowMin = Math.min(rowMin, value);
+        }
+
+        if (rowMin > max) return max + 1;
+    }
+
+    return row[b.length];
+}
+
+const emptyHighlights = (): SearchHighlights => ({ title: [], description: [], category: [], tags: [] });
+
+/**
+ * Sort ranges and merge the overlapping ones
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: MatchRange[] = [];
+    sorted.forEach(range => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    });
+    return merged;
+}
+
+/**
+ * In-memory inverted index over todo titles, descriptions, categories and tags
+ *
+ * Search words match indexed words exactly, as a prefix ("meet" finds "meeting")
+ * or with typos ("meetign"); results are ranked by how well and where they matched.
+ */
+export class SearchIndex {
+    // word -> todo id -> where the word occurs in that todo
+    private postings = new Map<string, Map<string, Posting[]>>();
+    private documents = new Map<string, IndexedTodo>();
+
+    add(todo: Todo): void {
+        this.remove(todo.id);
+
+        const terms = new Set<string>();
+        const addText = (field: SearchField, text: string | undefined, tag?: string) => {
+            if (!text) return;
+            tokenize(text).forEach(({ term, start, end }) => {
+                terms.add(term);
+                let byTodo = this.postings.get(term);
+                if (!byTodo) {
+                    byTodo = new Map();
+                    this.postings.set(term, byTodo);
+                }
+                const list = byTodo.get(todo.id) ?? [];
+                list.push({ field, start, end, tag });
+                byTodo.set(todo.id, list);
+            });
+        };
+
+        addText('title', todo.title);
+        addText('description', todo.description);
+        addText('category', todo.category);
+        todo.tags?.forEach(tag => addText('tags', tag, tag));
+
+        this.documents.set(todo.id, { todo, terms });
+    }
+
+    remove(id: string): void {
+        const document = this.documents.get(id);
+        if (!document) return;
+
+        document.terms.forEach(term => {
+            const byTodo = this.postings.get(term);
+            byTodo?.delete(id);
+            if (byTodo?.size === 0) this.postings.delete(term);
+        });
+        this.documents.delete(id);
+    }
+
+    /**
+     * Bring the index in line with a todo list; only todos whose object changed
+     * since the last sync are re-indexed, so this is cheap after a single mutation
+     */
+    sync(todos: Todo[]): void {
+        const ids = new Set<string>();
+        todos.forEach(todo => {
+            ids.add(todo.id);
+            if (this.documents.get(todo.id)?.todo !== todo) this.add(todo);
+        });
+        Array.from(this.documents.keys()).forEach(id => {
+            if (!ids.has(id)) this.remove(id);
+        });
+    }
+
+    /**
+     * Indexed words a search word stands for, with how well each matches
+     */
+    private expand(word: string): [string, number][] {
+        const exact = this.postings.has(word) ? [[word, EXACT_SCORE] as [string, number]] : [];
+        const maxTypos = getMaxTypos(word);
+        const others: [string, number][] = [];
+
+        this.postings.forEach((_, term) => {
+            if (term === word) return;
+            if (word.length >= 2 && term.startsWith(word)) {
+                others.push([term, PREFIX_SCORE]);
+                return;
+            }
+            if (maxTypos === 0) return;
+            const distance = editDistance(word, term, maxTypos);
+            if (distance <= maxTypos) others.push([term, TYPO_SCORES[distance]]);
+        });
+
+        return [...exact, ...others];
+    }
+
+    /**
+     * Ranked todos matching the words of a query, best first
+     * @param matchAll - Every word must match (default); otherwise any word will do
+     */
+    search(query: string, { matchAll = true }: { matchAll?: boolean } = {}): SearchHit[] {
+        const words = Array.from(new Set(tokenize(query).map(token => token.term)));
+        if (words.length === 0) return [];
+
+        // todo id -> score and postings, summed over the words
+        const results = new Map<string, { score: number; postings: Posting[]; words: number }>();
+
+        words.forEach(word => {
+            const wordResults = new Map<string, { score: number; postings: Posting[] }>();
+
+            this.expand(word).forEach(([term, quality]) => {
+                this.postings.get(term)!.forEach((postings, id) => {
+                    // Best field counts fully, further occurrences a little
+                    const weight = Math.max(...postings.map(posting => FIELD_WEIGHTS[posting.field]));
+                    const score = quality * (weight + 0.1 * (postings.length - 1));
+                    const current = wordResults.get(id);
+                    wordResults.set(id, {
+                        score: Math.max(current?.score ?? 0, score),
+                        postings: [...(current?.postings ?? []), ...postings],
+                    });
+                });
+            });
+
+            wordResults.forEach(({ score, postings }, id) => {
+                const current = results.get(id);
+                results.set(id, {
+                    score: (current?.score ?? 0) + score,
+                    postings: [...(current?.postings ?? []), ...postings],
+                    words: (current?.words ?? 0) + 1,
+                });
+            });
+        });
+
+        const hits: SearchHit[] = [];
+        results.forEach(({ score, postings, words: matchedWords }, id) => {
+            if (matchAll && matchedWords < words.length) return;
+
+            const highlights = emptyHighlights();
+            postings.forEach(({ field, start, end, tag }) => {
+                if (field === 'tags') {
+                    if (!highlights.tags.includes(tag!)) highlights.tags.push(tag!);
+                } else {
+                    highlights[field].push({ start, end });
+                }
+            });
+            highlights.title = mergeRanges(highlights.title);
+            highlights.description = mergeRanges(highlights.description);
+            highlights.category = mergeRanges(highlights.category);
+
+            hits.push({ todo: this.documents.get(id)!.todo, score, highlights });
+        });
+
+        return hits.sort((a, b) => b.score - a.score);
+    }
+}
+
+/**
+ * Part of a long text around its first match, e.g. for showing a description hit
+ * @param context - Characters kept before the first match
+ * @returns The excerpt (with "…" where text was cut) and the ranges within it
+ */
+export function getMatchSnippet(
+    text: string,
+    ranges: MatchRange[],
+    context = 40,
+    length = 160
+): { text: string; ranges: MatchRange[] } {
+    if (ranges.length === 0 || text.length <= length) return { text, ranges };
+
+    // Start at a word boundary before the first match
+    let start = Math.max(0, ranges[0].start - context);
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space !== -1 && space < ranges[0].start) start = space + 1;
+    }
+    const end = Math.min(text.length, start + length);
+
+    const prefix = start > 0 ? '…' : '';
+    const offset = prefix.length - start;
+    return {
+        text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+        ranges: ranges
+            .filter(range => range.start >= start && range.end <= end)
+            .map(range => ({ start: range.start + offset, end: range.end + offset })),
+    };
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+// src/utils/subtasks.test.ts
+import { createSubtask, getSubtaskProgress, hasIncompleteSubtasks } from './subtasks';
+
+const subtask = (id: string, completed: boolean) => ({ id, title: `Step ${id}`, completed });
+
+describe('subtasks', () => {
+    it('should create an open, trimmed checklist item with a unique ID', () => {
+        const first = createSubtask('  Pack bags ');
+        const second = createSubtask('Pack bags');
+
+        expect(first).toMatchObject({ title: 'Pack bags', completed: false });
+        expect(first.id).not.toBe(second.id);
+    });
+
+    it('should count completed items and round the percentage', () => {
+        expect(getSubtaskProgress({ subtasks: [subtask('1', true), subtask('2', false), subtask('3', false)] }))
+            .toEqual({ completed: 1, total: 3, percentage: 33 });
+        expect(getSubtaskProgress({ subtasks: [subtask('1', true), subtask('2', true)] }).percentage).toBe(100);
+    });
+
+    it('should report no progress for todos without a checklist', () => {
+        expect(getSubtaskProgress({})).toEqual({ completed: 0, total: 0, percentage: 0 });
+        expect(getSubtaskProgress({ subtasks: [] }).percentage).toBe(0);
+    });
+
+    it('should detect open checklist items', () => {
+        expect(hasIncompleteSubtasks({ subtasks: [subtask('1', true), subtask('2', false)] })).toBe(true);
+        expect(hasIncompleteSubtasks({ subtasks: [subtask('1', true)] })).toBe(false);
+        expect(hasIncompleteSubtasks({})).toBe(false);
+    });
+});
\ No newline at end of file
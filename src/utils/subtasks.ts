@@ -0,0 +1,45 @@
+// src/utils/subtasks.ts
+import type { Todo, Subtask } from '../components/TodoForm';
+
+export interface SubtaskProgress {
+    completed: number;
+    total: number;
+    percentage: number;
+}
+
+/**
+ * Create a new checklist item with a client-generated ID
+ * @param title - Subtask title
+ * @returns Subtask that is not completed yet
+ */
+export function createSubtask(title: string): Subtask {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+        title: title.trim(),
+        completed: false,
+    };
+}
+
+/**
+ * Count completed subtasks of a todo
+ * @param todo - Todo to inspect
+ * @returns Completed/total counts and rounded percentage
+ */
+export function getSubtaskProgress(todo: Pick<Todo, 'subtasks'>): SubtaskProgress {
+    const subtasks = todo.subtasks || [];
+    const completed = subtasks.filter(subtask => subtask.completed).length;
+    const total = subtasks.length;
+
+    return {
+        completed,
+        total,
+        percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+    };
+}
+
+/**
+ * Check whether a todo still has open checklist items
+ */
+export function hasIncompleteSubtasks(todo: Pick<Todo, 'subtasks'>): boolean {
+    return Boolean(todo.subtasks?.some(subtask => !subtask.completed));
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+// src/utils/tags.test.ts
+import { getAllTags, getTagCounts, getTagSuggestions, hasTag, MAX_TAG_LENGTH, normalizeTag } from './tags';
+
+describe('tags', () => {
+    describe('normalizeTag', () => {
+        it('should trim, drop the leading # and join words with dashes', () => {
+            expect(normalizeTag('  #work ')).toBe('work');
+            expect(normalizeTag('##q3   planning')).toBe('q3-planning');
+            expect(normalizeTag('#')).toBe('');
+        });
+
+        it('should cut tags at the maximum length', () => {
+            expect(normalizeTag('x'.repeat(MAX_TAG_LENGTH + 5))).toHaveLength(MAX_TAG_LENGTH);
+        });
+    });
+
+    it('should compare tags case-insensitively', () => {
+        expect(hasTag(['Work', 'home'], 'work')).toBe(true);
+        expect(hasTag(['Work'], 'WORK')).toBe(true);
+        expect(hasTag(['Work'], 'works')).toBe(false);
+        expect(hasTag(undefined, 'work')).toBe(false);
+    });
+
+    it('should count tags and list the most used first', () => {
+        const todos = [{ tags: ['work', 'urgent'] }, { tags: ['work'] }, {}, { tags: ['home'] }];
+
+        expect(getTagCounts(todos)).toEqual({ work: 2, urgent: 1, home: 1 });
+        expect(getAllTags(todos)).toEqual(['work', 'home', 'urgent']);
+    });
+
+    describe('getTagSuggestions', () => {
+        const available = ['homework', 'work', 'workout', 'home', 'urgent'];
+
+        it('should put prefix matches first and skip applied tags', () => {
+            expect(getTagSuggestions('#wor', available, ['Workout'])).toEqual(['work', 'homework']);
+        });
+
+        it('should suggest everything (up to the limit) for empty input', () => {
+            expect(getTagSuggestions('', available, [], 3)).toEqual(['homework', 'work', 'workout']);
+        });
+    });
+});
\ No newline at end of file
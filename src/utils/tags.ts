@@ -0,0 +1,76 @@
+// src/utils/tags.ts
+import type { Todo } from '../components/TodoForm';
+
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Normalize user input into a tag: trims, drops a leading "#", collapses whitespace
+ * @param input - Raw tag text
+ * @returns Normalized tag, or empty string if nothing is left
+ */
+export function normalizeTag(input: string): string {
+    return input
+        .trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Case-insensitive check whether a tag is already present in a list
+ */
+export function hasTag(tags: string[] | undefined, tag: string): boolean {
+    const lowered = tag.toLowerCase();
+    return Boolean(tags?.some(existing => existing.toLowerCase() === lowered));
+}
+
+/**
+ * Count how many todos carry each tag
+ * @returns Map of tag to number of todos
+ */
+export function getTagCounts(todos: Pick<Todo, 'tags'>[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    todos.forEach(todo => {
+        todo.tags?.forEach(tag => {
+            counts[tag] = (counts[tag] || 0) + 1;
+        });
+    });
+
+    return counts;
+}
+
+/**
+ * Get all distinct tags used across todos, most used first
+ */
+export function getAllTags(todos: Pick<Todo, 'tags'>[]): string[] {
+    const counts = getTagCounts(todos);
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+}
+
+/**
+ * Autocomplete suggestions for a partially typed tag
+ * @param input - Current text in the tag input
+ * @param availableTags - Known tags to suggest from
+ * @param selectedTags - Tags already applied (excluded from suggestions)
+ * @param limit - Maximum number of suggestions
+ */
+export function getTagSuggestions(
+    input: string,
+    availableTags: string[],
+    selectedTags: string[] = [],
+    limit = 6
+): string[] {
+    const query = normalizeTag(input).toLowerCase();
+
+    return availableTags
+        .filter(tag => !hasTag(selectedTags, tag))
+        .filter(tag => !query || tag.toLowerCase().includes(query))
+        .sort((a, b) => {
+            // Prefix matches first
+            const aPrefix = a.toLowerCase().startsWith(query) ? 0 : 1;
+            const bPrefix = b.toLowerCase().startsWith(query) ? 0 : 1;
+            return aPrefix - bPrefix;
+        })
+        .slice(0, limit);
+}
\ No newline at end of file
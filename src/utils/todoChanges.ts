@@ -0,0 +1,34 @@
+// src/utils/todoChanges.ts
+
+/**
+ * Display name of each todo field that shows up in change history
+ */
+export const FIELD_LABELS: Record<string, string> = {
+    title: 'Title',
+    description: 'Description',
+    priority: 'Priority',
+    category: 'Category',
+    startDate: 'Start date',
+    dueDate: 'Due date',
+    completed: 'Status',
+    subtasks: 'Checklist',
+    recurrence: 'Repeat',
+    tags: 'Tags',
+    archivedAt: 'Archived',
+    deletedAt: 'Deleted',
+};
+
+/**
+ * Readable old/new value of a changed field
+ */
+export function formatChangeValue(field: string, value: unknown): string {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (field === 'completed') return value ? 'completed' : 'open';
+    if (field === 'startDate' || field === 'dueDate') return String(value).split('T')[0];
+    if (field === 'subtasks' && Array.isArray(value)) return `${value.length} items`;
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+    if (typeof value === 'object') return 'changed';
+
+    const text = String(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
\ No newline at end of file
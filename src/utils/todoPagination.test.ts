@@ -0,0 +1,98 @@
+// src/utils/todoPagination.test.ts
+import type { Todo } from '../components/TodoForm';
+import { makeTodo } from '../test/todoFixtures';
+import type { PaginatedResponse } from '../services/api';
+import { defaultFilters } from '../hooks/useTodosAPI';
+import {
+    compareTodos,
+    getQueryKey,
+    hasLoadedAllTodos,
+    hasMorePages,
+    isInLoadedPages,
+    mergeTodos,
+    toLoadedPages,
+    toTodoQuery,
+} from './todoPagination';
+
+const page = (data: Todo[], pageNumber: number, totalPages: number): PaginatedResponse<Todo> => ({
+    data,
+    pagination: { page: pageNumber, limit: 2, total: totalPages * 2, totalPages },
+});
+
+describe('todoPagination', () => {
+    it('should turn the list filters into server query parameters with a stable key', () => {
+        const query = toTodoQuery({ ...defaultFilters, dateFilter: 'overdue', tag: 'work' });
+
+        expect(query).toEqual({ status: 'all', priority: 'all', category: 'all', tag: 'work', due: 'overdue', sortBy: 'created', sortOrder: 'desc' });
+        expect(getQueryKey(query)).toBe(getQueryKey(toTodoQuery({ ...defaultFilters, tag: 'work', dateFilter: 'overdue' })));
+        expect(getQueryKey(query)).not.toBe(getQueryKey(toTodoQuery(defaultFilters)));
+    });
+
+    describe('compareTodos', () => {
+        it('should sort like the server, in both directions', () => {
+            const high = makeTodo({ id: '1', priority: 'HIGH', dueDate: '2026-10-20T23:59:59' });
+            const low = makeTodo({ id: '2', priority: 'LOW', dueDate: '2026-10-19T23:59:59' });
+
+            expect(compareTodos(high, low, { sortBy: 'priority', sortOrder: 'desc' })).toBeLessThan(0);
+            expect(compareTodos(high, low, { sortBy: 'priority', sortOrder: 'asc' })).toBeGreaterThan(0);
+            expect(compareTodos(low, high, { sortBy: 'dueDate', sortOrder: 'asc' })).toBeLessThan(0);
+        });
+
+        it('should put todos without a due date last when sorting ascending', () => {
+            expect(compareTodos(makeTodo({ id: '1' }), makeTodo({ id: '2', dueDate: '2026-10-20T23:59:59' }), { sortBy: 'dueDate', sortOrder: 'asc' }))
+                .toBeGreaterThan(0);
+        });
+    });
+
+    it('should replace known todos in place and append new ones', () => {
+        const local = [makeTodo({ id: '1' }), makeTodo({ id: '2' }), makeTodo({ id: '3' })];
+        const merged = mergeTodos(local, [makeTodo({ id: '2', title: 'From server' }), makeTodo({ id: '4' })]);
+
+        expect(merged.map(t => t.id)).toEqual(['1', '2', '3', '4']);
+        expect(merged[1].title).toBe('From server');
+        expect(merged[0]).toBe(local[0]);
+    });
+
+    describe('loaded pages', () => {
+        beforeEach(() => {
+            jest.spyOn(Date, 'now').mockReturnValue(1000);
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should remember the last todo and when the first page was fetched', () => {
+            const first = toLoadedPages(page([makeTodo({ id: '1' }), makeTodo({ id: '2' })], 1, 3));
+            (Date.now as jest.Mock).mockReturnValue(5000);
+            const second = toLoadedPages(page([makeTodo({ id: '3' }), makeTodo({ id: '4' })], 2, 3), first);
+
+            expect(second).toEqual({ pagination: expect.objectContaining({ page: 2 }), last: makeTodo({ id: '4' }), fetchedAt: 1000 });
+            expect(hasMorePages(second)).toBe(true);
+            expect(hasMorePages(toLoadedPages(page([], 3, 3), second))).toBe(false);
+            expect(hasMorePages(undefined)).toBe(false);
+        });
+
+        it('should know every todo is loaded only once an unfiltered query reached its last page', () => {
+            const unfiltered = getQueryKey(toTodoQuery(defaultFilters));
+            const byTitle = getQueryKey(toTodoQuery({ ...defaultFilters, sortBy: 'title' }));
+            const overdue = getQueryKey(toTodoQuery({ ...defaultFilters, dateFilter: 'overdue' }));
+            const firstPage = toLoadedPages(page([makeTodo({ id: '1' }), makeTodo({ id: '2' })], 1, 2));
+            const lastPage = toLoadedPages(page([makeTodo({ id: '3' })], 2, 2), firstPage);
+
+            expect(hasLoadedAllTodos(new Map([[unfiltered, firstPage], [overdue, lastPage]]))).toBe(false);
+            expect(hasLoadedAllTodos(new Map([[unfiltered, firstPage], [byTitle, lastPage]]))).toBe(true);
+            expect(hasLoadedAllTodos(new Map())).toBe(false);
+        });
+
+        it('should hold back todos that sort after the last loaded one until their page arrives', () => {
+            const sort = { sortBy: 'title', sortOrder: 'asc' } as const;
+            const loaded = toLoadedPages(page([makeTodo({ id: 'a', title: 'Apples' }), makeTodo({ id: 'b', title: 'Milk' })], 1, 2));
+
+            expect(isInLoadedPages(makeTodo({ id: 'c', title: 'Bread' }), loaded, sort)).toBe(true);
+            expect(isInLoadedPages(makeTodo({ id: 'd', title: 'Milk' }), loaded, sort)).toBe(true);
+            expect(isInLoadedPages(makeTodo({ id: 'e', title: 'Yoghurt' }), loaded, sort)).toBe(false);
+            expect(isInLoadedPages(makeTodo({ id: 'e', title: 'Yoghurt' }), toLoadedPages(page([], 2, 2), loaded), sort)).toBe(true);
+        });
+    });
+});
\ No newline at end of file
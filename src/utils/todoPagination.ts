@@ -0,0 +1,95 @@
+// src/utils/todoPagination.ts
+import type { Todo } from '../components/TodoForm';
+import type { PaginatedResponse } from '../services/api';
+import type { TodoFilters } from '../services/todoService';
+import type { FilterOptions } from '../hooks/useTodosAPI';
+
+/**
+ * How far the list for one query has been loaded
+ */
+export interface LoadedPages {
+    pagination: PaginatedResponse<Todo>['pagination'];
+    /** Last todo of the last loaded page, as the server sent it */
+    last: Todo | null;
+    fetchedAt: number;
+}
+
+/**
+ * Server query parameters for the list filters
+ */
+export const toTodoQuery = ({ dateFilter, ...filters }: FilterOptions): TodoFilters => ({ ...filters, due: dateFilter });
+
+export const getQueryKey = (query: TodoFilters) => JSON.stringify(query);
+
+const PRIORITY_ORDER = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+
+/**
+ * Order of two todos in the list, as the server sorts them
+ */
+export function compareTodos(a: Todo, b: Todo, { sortBy, sortOrder }: Pick<FilterOptions, 'sortBy' | 'sortOrder'>): number {
+    let comparison = 0;
+
+    switch (sortBy) {
+        case 'title':
+            comparison = a.title.localeCompare(b.title);
+            break;
+        case 'created':
+            comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+            break;
+        case 'updated':
+            comparison = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+            break;
+        case 'priority':
+            comparison = PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+            break;
+        case 'dueDate':
+            if (!a.dueDate && !b.dueDate) comparison = 0;
+            else if (!a.dueDate) comparison = 1;
+            else if (!b.dueDate) comparison = -1;
+            else comparison = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+            break;
+        default:
+            comparison = 0;
+    }
+
+    return sortOrder === 'asc' ? comparison : -comparison;
+}
+
+/**
+ * Add fetched todos to the local list, replacing the ones already there
+ */
+export function mergeTodos(todos: Todo[], fetched: Todo[]): Todo[] {
+    const fetchedById = new Map(fetched.map(todo => [todo.id, todo]));
+    const merged = todos.map(todo => fetchedById.get(todo.id) ?? todo);
+    const known = new Set(todos.map(todo => todo.id));
+    return [...merged, ...fetched.filter(todo => !known.has(todo.id))];
+}
+
+export const toLoadedPages = (response: PaginatedResponse<Todo>, previous?: LoadedPages): LoadedPages => ({
+    pagination: response.pagination,
+    last: response.data[response.data.length - 1] ?? previous?.last ?? null,
+    // A later page doesn't make the earlier ones any fresher
+    fetchedAt: previous?.fetchedAt ?? Date.now(),
+});
+
+export const hasMorePages = (loaded: LoadedPages | undefined) =>
+    Boolean(loaded && loaded.pagination.page < loaded.pagination.totalPages);
+
+/**
+ * Whether every todo is loaded: a query without filters (in any order) reached its last page
+ */
+export function hasLoadedAllTodos(queryPages: Map<string, LoadedPages>): boolean {
+    return Array.from(queryPages).some(([key, loaded]) => {
+        const { sortBy, sortOrder, ...filters }: TodoFilters = JSON.parse(key);
+        return !hasMorePages(loaded) && Object.values(filters).every(value => value === 'all');
+    });
+}
+
+/**
+ * Whether a todo sorts within the pages loaded so far
+ * Todos sorting after the last loaded one wait for their page, so the list doesn't reshuffle when it arrives.
+ */
+export function isInLoadedPages(todo: Todo, loaded: LoadedPages | undefined, sort: Pick<FilterOptions, 'sortBy' | 'sortOrder'>): boolean {
+    if (!loaded?.last || !hasMorePages(loaded)) return true;
+    return compareTodos(todo, loaded.last, sort) <= 0;
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+// src/utils/todoQuery.test.ts
+import { makeTodo } from '../test/todoFixtures';
+import { compileQuery, getQueryError, getQuerySuggestions, parseQuery } from './todoQuery';
+
+// A Monday
+const reference = new Date(2026, 9, 19, 12);
+
+const TODOS = [
+    makeTodo({ title: 'File taxes', priority: 'HIGH', category: 'Work', dueDate: '2026-10-20T23:59:59' }),
+    makeTodo({ title: 'Fix the exact phrase bug', priority: 'HIGH', category: 'Work', tags: ['blocked'] }),
+    makeTodo({ title: 'Water plants', priority: 'LOW', category: 'Home Office', dueDate: '2026-10-10T23:59:59' }),
+    makeTodo({ title: 'Book flights', category: 'Travel', dueDate: '2026-12-01T23:59:59', completed: true }),
+];
+
+const search = (query: string) => TODOS.filter(compileQuery(query, reference)).map(item => item.title);
+
+describe('todoQuery', () => {
+    describe('compileQuery', () => {
+        it('should combine field terms, negation and date comparisons', () => {
+            expect(search('priority:high category:work due:<2026-11-01 -tag:blocked')).toEqual(['File taxes']);
+            expect(search('due:>=tomorrow')).toEqual(['File taxes', 'Book flights']);
+            expect(search('is:overdue')).toEqual(['Water plants']);
+            expect(search('category:"Home Office"')).toEqual(['Water plants']);
+        });
+
+        it('should match words and quoted phrases against title, category and tags', () => {
+            expect(search('"exact phrase"')).toEqual(['Fix the exact phrase bug']);
+            expect(search('travel')).toEqual(['Book flights']);
+        });
+
+        it('should let OR bind tighter than the implicit AND', () => {
+            expect(search('is:active priority:low OR category:travel')).toEqual(['Water plants']);
+            expect(search('(is:active priority:low) OR category:travel')).toEqual(['Water plants', 'Book flights']);
+            expect(search('-(priority:high | priority:low)')).toEqual(['Book flights']);
+        });
+
+        it('should match everything for an empty query', () => {
+            expect(search('  ')).toHaveLength(TODOS.length);
+            expect(parseQuery('')).toBeNull();
+        });
+    });
+
+    describe('getQueryError', () => {
+        it('should locate syntax errors', () => {
+            expect(getQueryError('priority:high')).toBeNull();
+            expect(getQueryError('color:red')).toMatchObject({ message: 'Unknown field "color"', start: 0, end: 9 });
+            expect(getQueryError('a (b OR c')).toMatchObject({ message: 'Missing closing )', start: 2 });
+            expect(getQueryError('a OR')).toMatchObject({ message: 'Expected a search term after OR' });
+            expect(getQueryError('due:<soonish')).toMatchObject({ message: 'Couldn\'t read the date "soonish"' });
+            expect(getQueryError('"open')).toMatchObject({ message: 'Missing closing quote' });
+        });
+    });
+
+    describe('getQuerySuggestions', () => {
+        const context = { categories: ['Work', 'Home Office'], tags: ['blocked'] };
+
+        it('should complete field names', () => {
+            expect(getQuerySuggestions('-pri', 4, context)).toEqual([
+                expect.objectContaining({ label: 'priority:', text: '-priority:', start: 0, end: 4 }),
+            ]);
+        });
+
+        it('should complete values, quoting them where needed', () => {
+            expect(getQuerySuggestions('is:active category:h', 20, context)).toEqual([
+                { label: 'Home Office', text: 'category:"Home Office" ', start: 10, end: 20 },
+            ]);
+            expect(getQuerySuggestions('due:<to', 7, context).map(suggestion => suggestion.text)).toEqual([
+                'due:<today ', 'due:<tomorrow ',
+            ]);
+        });
+    });
+});
\ No newline at end of file
@@ -0,0 +1,494 @@
+// src/utils/todoQuery.ts
+import type { DateRange } from '../types/advancedFilters';
+import { AdvancedFilterEngine, type TodoPredicate } from './advancedFiltering';
+import { addDays, getDateRange, parseLocalDate, parseNaturalDate, toLocalDateString } from './dateUtils';
+
+/**
+ * A query that can't be read; start/end locate the offending part (end exclusive)
+ */
+export class QuerySyntaxError extends Error {
+    public start: number;
+    public end: number;
+
+    constructor(message: string, start: number, end: number) {
+        super(message);
+        this.name = 'QuerySyntaxError';
+        this.start = start;
+        this.end = end;
+    }
+}
+
+export type QueryNode =
+    | { type: 'and' | 'or'; children: QueryNode[] }
+    | { type: 'not'; child: QueryNode }
+    | { type: 'term'; field: string | null; value: string; quoted: boolean; start: number; end: number };
+
+export interface QuerySuggestion {
+    /** Shown in the list, e.g. "priority:" or "high" */
+    label: string;
+    description?: string;
+    /** Replaces query[start, end) when the suggestion is picked */
+    text: string;
+    start: number;
+    end: number;
+}
+
+/** Known values offered while typing a query */
+export interface QueryContext {
+    categories: string[];
+    tags: string[];
+}
+
+interface Token {
+    type: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'term';
+    raw: string;
+    start: number;
+    end: number;
+}
+
+interface QueryField {
+    name: string;
+    aliases: string[];
+    description: string;
+    values: (context: QueryContext) => string[];
+    compile: (value: string, reference: Date, term: Token) => TodoPredicate;
+}
+
+const { predicates } = AdvancedFilterEngine;
+
+const PRIORITIES = ['high', 'medium', 'low'];
+const DATE_WORDS = ['today', 'tomorrow', 'yesterday', 'this-week', 'next-week', 'this-month'];
+const NAMED_RANGES = ['today', 'tomorrow', 'this-week', 'next-week', 'this-month'] as const;
+
+const IS_VALUES: Record<string, (reference: Date) => TodoPredicate> = {
+    overdue: reference => predicates.isOverdue(true, reference),
+    soon: reference => predicates.isDueSoon(true, reference),
+    completed: () => predicates.completionIs('completed'),
+    done: () => predicates.completionIs('completed'),
+    active: () => predicates.completionIs('incomplete'),
+    open: () => predicates.completionIs('incomplete'),
+};
+
+const HAS_VALUES: Record<string, () => TodoPredicate> = {
+    description: () => predicates.hasDescription(true),
+    due: () => predicates.hasDueDate(true),
+    category: () => predicates.hasCategory(true),
+    'open-items': () => predicates.hasIncompleteSubtasks(true),
+};
+
+const fail = (message: string, token: Token): never => {
+    throw new QuerySyntaxError(message, token.start, token.end);
+};
+
+/**
+ * Day or period a date value stands for: "today", "this-week", "friday", "nov 5", "2026-11-01", ...
+ */
+function parseDateValue(text: string, reference: Date): DateRange | null {
+    const word = text.toLowerCase();
+    if ((NAMED_RANGES as readonly string[]).includes(word)) {
+        return getDateRange(word as typeof NAMED_RANGES[number], reference);
+    }
+
+    const date = word === 'yesterday'
+        ? addDays(toLocalDateString(reference), -1)
+        : parseNaturalDate(word, reference) ?? parseNaturalDate(word.replace(/-/g, ' '), reference);
+    if (!date) return null;
+
+    const start = parseLocalDate(date);
+    const end = new Date(start);
+    end.setHours(23, 59, 59, 999);
+    return { start, end };
+}
+
+/**
+ * Compile "<2026-11-01", ">=today", "this-week", ... into a date range
+ */
+function compileDateRange(value: string, reference: Date, term: Token): DateRange {
+    const [, comparison = '', text] = /^(<=|>=|<|>)?(.*)$/.exec(value)!;
+    if (!text) return fail(`Expected a date after "${comparison}"`, term);
+
+    const range = parseDateValue(text, reference);
+    if (!range) return fail(`Couldn't read the date "${text}"`, term);
+
+    switch (comparison) {
+        case '<':
+            return { start: null, end: new Date(range.start!.getTime() - 1) };
+        case '<=':
+            return { start: null, end: range.end };
+        case '>':
+            return { start: new Date(range.end!.getTime() + 1), end: null };
+        case '>=':
+            return { start: range.start, end: null };
+        default:
+            return range;
+    }
+}
+
+const dateField = (
+    name: string,
+    description: string,
+    toPredicate: (range: DateRange) => TodoPredicate
+): QueryField => ({
+    name,
+    aliases: [],
+    description,
+    values: () => DATE_WORDS,
+    compile: (value, reference, term) => toPredicate(compileDateRange(value, reference, term)),
+});
+
+const lookupValue = <T>(table: Record<string, T>, value: string, field: string, term: Token): T => {
+    const key = value.toLowerCase();
+    if (!(key in table)) {
+        fail(`Unknown value "${value}" for ${field}: (use ${Object.keys(table).join(', ')})`, term);
+    }
+    return table[key];
+};
+
+const FIELDS: QueryField[] = [
+    {
+        name: 'priority',
+        aliases: ['p'],
+        description: 'high, medium or low; several with commas',
+        values: () => PRIORITIES,
+        compile: (value, _reference, term) => predicates.priorityIn(value.split(',').map(part => {
+            // Prefixes are enough: "priority:h"
+            const priority = part && PRIORITIES.find(name => name.startsWith(part.toLowerCase()));
+            if (!priority) return fail(`Unknown priority "${part}" (use high, medium or low)`, term);
+            return priority.toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH';
+        })),
+    },
+    {
+        name: 'category',
+        aliases: ['cat'],
+        description: 'Category name; quote names with spaces',
+        values: context => context.categories,
+        compile: value => predicates.categoryIn([value]),
+    },
+    {
+        name: 'tag',
+        aliases: [],
+        description: 'Has the tag',
+        values: context => context.tags,
+        compile: value => predicates.hasAnyTag([value.replace(/^#/, '')]),
+    },
+    {
+        name: 'due',
+        aliases: [],
+        description: 'Due date: today, <2026-11-01, >=friday, none, ...',
+        values: () => [...DATE_WORDS, 'none', 'any'],
+        compile: (value, reference, term) => {
+            if (value.toLowerCase() === 'none') return predicates.hasDueDate(false);
+            if (value.toLowerCase() === 'any') return predicates.hasDueDate(true);
+            return predicates.dueInRange(compileDateRange(value, reference, term));
+        },
+    },
+    dateField('created', 'Creation date', predicates.createdInRange),
+    dateField('updated', 'Last change', predicates.updatedInRange),
+    dateField('completed', 'Completion date', predicates.completedInRange),
+    {
+        name: 'is',
+        aliases: [],
+        description: 'overdue, soon, completed or active',
+        values: () => Object.keys(IS_VALUES),
+        compile: (value, reference, term) => lookupValue(IS_VALUES, value, 'is', term)(reference),
+    },
+    {
+        name: 'has',
+        aliases: [],
+        description: 'description, due, category or open-items',
+        values: () => Object.keys(HAS_VALUES),
+        compile: (value, _reference, term) => lookupValue(HAS_VALUES, value, 'has', term)(),
+    },
+    {
+        name: 'title',
+        aliases: [],
+        description: 'Title contains',
+        values: () => [],
+        compile: value => predicates.titleContains(value),
+    },
+    {
+        name: 'description',
+        aliases: ['desc'],
+        description: 'Description contains',
+        values: () => [],
+        compile: value => predicates.descriptionContains(value),
+    },
+];
+
+const findField = (name: string) => {
+    const key = name.toLowerCase();
+    return FIELDS.find(field => field.name === key || field.aliases.includes(key));
+};
+
+/**
+ * Split a query into tokens; quoted text stays together
+ */
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+        const char = query[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ type: char === '(' ? 'lparen' : 'rparen', raw: char, start: i, end: i + 1 });
+            i++;
+        } else if (char === '|') {
+            tokens.push({ type: 'or', raw: char, start: i, end: i + 1 });
+            i++;
+        } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+            tokens.push({ type: 'not', raw: char, start: i, end: i + 1 });
+            i++;
+        } else {
+            const start = i;
+            while (i < query.length && !/[\s()|]/.test(query[i])) {
+                if (query[i] === '"') {
+                    const close = query.indexOf('"', i + 1);
+                    if (close === -1) throw new QuerySyntaxError('Missing closing quote', i, query.length);
+                    i = close;
+                }
+                i++;
+            }
+
+            const raw = query.slice(start, i);
+            const type = raw === 'OR' ? 'or' : raw === 'AND' ? 'and' : raw === 'NOT' ? 'not' : 'term';
+            tokens.push({ type, raw, start, end: i });
+        }
+    }
+
+    return tokens;
+}
+
+const unquote = (text: string) => text.replace(/"/g, '');
+
+/**
+ * Parse a search query into a tree
+ *
+ * Syntax:
+ * - words and "quoted phrases" match title, description, category or tags
+ * - field:value terms, e.g. priority:high, category:"Home Office", tag:blocked,
+ *   due:<2026-11-01, created:this-week, is:overdue, has:description
+ * - -term or NOT term negates; terms next to each other must all match
+ * - a OR b (or a | b) matches either and binds tighter than the implicit AND,
+ *   so "x a OR b" is x AND (a OR b); parentheses group
+ *
+ * @returns null for an empty query
+ * @throws QuerySyntaxError
+ */
+export function parseQuery(query: string): QueryNode | null {
+    const tokens = tokenize(query);
+    let position = 0;
+
+    const peek = () => tokens[position] as Token | undefined;
+    const previous = () => tokens[position - 1];
+
+    const expectTerm = (): never => {
+        const before = previous();
+        if (!before) return fail('Expected a search term', { type: 'term', raw: '', start: 0, end: query.length });
+        return fail(`Expected a search term after ${before.raw}`, before);
+    };
+
+    const parseAnd = (): QueryNode => {
+        const children: QueryNode[] = [parseOr()];
+        while (peek() && peek()!.type !== 'rparen') {
+            if (peek()!.type === 'and') {
+                position++;
+                if (!peek() || peek()!.type === 'rparen') expectTerm();
+            }
+            children.push(parseOr());
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseOr = (): QueryNode => {
+        const children: QueryNode[] = [parseUnary()];
+        while (peek()?.type === 'or') {
+            position++;
+            children.push(parseUnary());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseUnary = (): QueryNode => {
+        if (peek()?.type === 'not') {
+            position++;
+            return { type: 'not', child: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): QueryNode => {
+        const token = peek();
+        if (!token) return expectTerm();
+
+        switch (token.type) {
+            case 'lparen': {
+                position++;
+                if (peek()?.type === 'rparen') fail('Empty parentheses', { ...token, end: peek()!.end });
+                const node = parseAnd();
+                if (peek()?.type !== 'rparen') fail('Missing closing )', token);
+                position++;
+                return node;
+            }
+            case 'rparen':
+                return fail('Unmatched )', token);
+            case 'or':
+            case 'and':
+                return fail(`Expected a search term before ${token.raw}`, token);
+        }
+
+        position++;
+        const field = /^([a-z]+):(.*)$/i.exec(token.raw);
+        if (!field) {
+            const value = unquote(token.raw);
+            if (!value) fail('Empty phrase', token);
+            return { type: 'term', field: null, value, quoted: token.raw.includes('"'), start: token.start, end: token.end };
+        }
+
+        const definition = findField(field[1]);
+        if (!definition) fail(`Unknown field "${field[1]}"`, token);
+
+        const value = unquote(field[2]);
+        if (!value) fail(`Expected a value after ${field[1]}:`, token);
+        return {
+            type: 'term',
+            field: definition!.name,
+            value,
+            quoted: field[2].includes('"'),
+            start: token.start,
+            end: token.end,
+        };
+    };
+
+    if (tokens.length === 0) return null;
+
+    const tree = parseAnd();
+    if (peek()) fail('Unmatched )', peek()!);
+    return tree;
+}
+
+/**
+ * Compile a search query (see parseQuery) into a predicate built from
+ * the same criteria AdvancedFilterEngine.filterTodos uses
+ *
+ * @param reference - Date relative dates are resolved against (default: now)
+ * @param matchWord - Matcher for unquoted words; quoted phrases always match as exact text
+ * @throws QuerySyntaxError
+ */
+export function compileQuery(
+    query: string,
+    reference: Date = new Date(),
+    matchWord: (word: string) => TodoPredicate = predicates.matchesText
+): TodoPredicate {
+    const compile = (node: QueryNode): TodoPredicate => {
+        switch (node.type) {
+            case 'and': {
+                const children = node.children.map(compile);
+                return todo => children.every(child => child(todo));
+            }
+            case 'or': {
+                const children = node.children.map(compile);
+                return todo => children.some(child => child(todo));
+            }
+            case 'not': {
+                const child = compile(node.child);
+                return todo => !child(todo);
+            }
+            case 'term': {
+                if (!node.field) return node.quoted ? predicates.matchesText(node.value) : matchWord(node.value);
+                const token: Token = { type: 'term', raw: '', start: node.start, end: node.end };
+                return findField(node.field)!.compile(node.value, reference, token);
+            }
+        }
+    };
+
+    const tree = parseQuery(query);
+    return tree ? compile(tree) : () => true;
+}
+
+/**
+ * Free-text words and phrases a query looks for (negated ones excluded),
+ * e.g. for ranking and highlighting; none if the query doesn't parse
+ */
+export function getQueryText(query: string): string[] {
+    const collect = (node: QueryNode | null): string[] => {
+        if (!node || node.type === 'not') return [];
+        if (node.type === 'term') return node.field ? [] : [node.value];
+        return node.children.flatMap(collect);
+    };
+
+    try {
+        return collect(parseQuery(query));
+    } catch (error) {
+        if (error instanceof QuerySyntaxError) return [];
+        throw error;
+    }
+}
+
+/**
+ * The syntax error in a query, if any
+ */
+export function getQueryError(query: string): QuerySyntaxError | null {
+    try {
+        compileQuery(query);
+        return null;
+    } catch (error) {
+        if (error instanceof QuerySyntaxError) return error;
+        throw error;
+    }
+}
+
+const quoteValue = (value: string) => (/[\s()|"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/**
+ * Completions for the term at the cursor: field names, then values of the field
+ * (priorities, known categories and tags, date words, ...)
+ */
+export function getQuerySuggestions(
+    query: string,
+    cursor: number,
+    context: QueryContext,
+    limit = 8
+): QuerySuggestion[] {
+    // Extent of the term around the cursor; the field name and a leading "-" are kept
+    let start = cursor;
+    while (start > 0 && !/[\s()|]/.test(query[start - 1])) start--;
+    let end = cursor;
+    while (end < query.length && !/[\s()|]/.test(query[end])) end++;
+
+    const negation = query[start] === '-' ? '-' : '';
+    const typed = query.slice(start + negation.length, cursor);
+    const atEnd = end === query.length;
+
+    const field = /^([a-z]+):(<=|>=|<|>)?"?(.*)$/i.exec(typed);
+    if (!field) {
+        if (typed.includes('"')) return [];
+        const prefix = typed.toLowerCase();
+        return FIELDS
+            .filter(definition => definition.name.startsWith(prefix) && definition.name !== prefix)
+            .map(definition => ({
+                label: `${definition.name}:`,
+                description: definition.description,
+                text: `${negation}${definition.name}:`,
+                start,
+                end,
+            }));
+    }
+
+    const definition = findField(field[1]);
+    if (!definition) return [];
+
+    const comparison = field[2] ?? '';
+    const prefix = field[3].toLowerCase();
+    return definition.values(context)
+        .filter(value => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+        .slice(0, limit)
+        .map(value => ({
+            label: value,
+            text: `${negation}${field[1]}:${comparison}${quoteValue(value)}${atEnd ? ' ' : ''}`,
+            start,
+            end,
+        }));
+}
\ No newline at end of file